@@ -15,6 +15,20 @@ export function verifyToken(token) {
   return jwt.verify(token, secret);
 }
 
+// Short-lived token for the local chat socket. The socket can't rely on the
+// session cookie when the backend runs on another host than the frontend.
+export function signChatToken(userId) {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) throw new Error("Missing JWT_SECRET");
+  return jwt.sign({ userId, scope: "chat" }, secret, { expiresIn: "1h" });
+}
+
+export function verifyChatToken(token) {
+  const payload = verifyToken(token);
+  if (payload?.scope !== "chat" || !payload.userId) throw new Error("Not a chat token");
+  return payload;
+}
+
 export function setAuthCookie(res, token) {
   const secure = String(process.env.COOKIE_SECURE ?? "false").toLowerCase() === "true";
   res.cookie(COOKIE_NAME, token, {
@@ -51,3 +65,33 @@ export async function requireAuth(req, res, next) {
   }
 }
 
+// For pages visitors can see too: sets `req.user` when there is a valid
+// session and carries on either way.
+export async function optionalAuth(req, _res, next) {
+  try {
+    const token = req.cookies?.[COOKIE_NAME];
+    const userId = token ? verifyToken(token)?.userId : null;
+    if (userId) {
+      await db.read();
+      req.user = db.data.users.find((u) => u.id === userId);
+    }
+  } catch {
+    // An expired or invalid session just means a visitor.
+  }
+  return next();
+}
+
+// Moderators are configured by email in MODERATOR_EMAILS (comma separated).
+export function isModerator(user) {
+  const emails = String(process.env.MODERATOR_EMAILS ?? "")
+    .split(",")
+    .map((e) => e.trim().toLowerCase())
+    .filter(Boolean);
+  return Boolean(user?.email) && emails.includes(String(user.email).toLowerCase());
+}
+
+// Use after requireAuth.
+export function requireModerator(req, res, next) {
+  if (!isModerator(req.user)) return res.status(403).json({ message: "Moderators only" });
+  return next();
+}
@@ -0,0 +1,301 @@
+import { randomUUID } from "crypto";
+
+// Bracket generation and advancement for tournaments. Knockout matches form
+// a graph: each one sends its winner, and in double elimination its loser,
+// into a slot of a later match. A slot is `{ playerId, filled }`, and a
+// filled slot without a player is a bye. Callers write the db afterwards.
+
+export const TOURNAMENT_FORMATS = ["single_elimination", "double_elimination", "round_robin"];
+
+function emptySlot() {
+  return { playerId: null, filled: false };
+}
+
+function newMatch(fields) {
+  return {
+    id: randomUUID(),
+    group: null,
+    slots: [emptySlot(), emptySlot()],
+    scores: [],
+    winnerId: null,
+    // pending: waiting for players, ready: both known, completed: played,
+    // bye: decided without playing, skipped: a final reset that wasn't needed.
+    status: "pending",
+    winnerTo: null,
+    loserTo: null,
+    completedAt: null,
+    ...fields,
+  };
+}
+
+function fill(slot, playerId) {
+  slot.playerId = playerId ?? null;
+  slot.filled = true;
+}
+
+// Seeds in bracket order so the top seeds can only meet late:
+// 8 players give 1v8, 4v5, 2v7, 3v6.
+function bracketOrder(size) {
+  let order = [1];
+  while (order.length < size) {
+    const n = order.length * 2;
+    order = order.flatMap((seed) => [seed, n + 1 - seed]);
+  }
+  return order;
+}
+
+// Winners bracket rounds for `seedIds` padded with byes to a power of two.
+function buildWinnersBracket(seedIds) {
+  let size = 2;
+  while (size < seedIds.length) size *= 2;
+
+  const rounds = [];
+  for (let count = size / 2, round = 1; count >= 1; count /= 2, round += 1) {
+    rounds.push(Array.from({ length: count }, (_, position) => newMatch({ bracket: "winners", round, position })));
+  }
+  rounds.forEach((matches, r) => {
+    if (r === rounds.length - 1) return;
+    matches.forEach((m, i) => {
+      m.winnerTo = { matchId: rounds[r + 1][Math.floor(i / 2)].id, slot: i % 2 };
+    });
+  });
+
+  const order = bracketOrder(size);
+  rounds[0].forEach((m, i) => {
+    fill(m.slots[0], seedIds[order[2 * i] - 1]);
+    fill(m.slots[1], seedIds[order[2 * i + 1] - 1]);
+  });
+  return rounds;
+}
+
+// The losers bracket alternates between rounds where it plays among itself
+// and rounds where the losers of the next winners round drop in. Its winner
+// meets the winners bracket champion in the final, and if the final goes to
+// the losers side a reset match decides it.
+function buildDoubleElimination(seedIds) {
+  const winners = buildWinnersBracket(seedIds);
+  const k = winners.length;
+  const final = newMatch({ bracket: "final", round: 1, position: 0 });
+  const reset = newMatch({ bracket: "final", round: 2, position: 0 });
+  winners[k - 1][0].winnerTo = { matchId: final.id, slot: 0 };
+
+  const size = winners[0].length * 2;
+  const losers = [];
+  for (let j = 1; j <= 2 * (k - 1); j += 1) {
+    const count = size / 2 ** (Math.floor((j + 1) / 2) + 1);
+    losers.push(Array.from({ length: count }, (_, position) => newMatch({ bracket: "losers", round: j, position })));
+  }
+
+  if (losers.length === 0) {
+    winners[0][0].loserTo = { matchId: final.id, slot: 1 };
+  } else {
+    winners[0].forEach((m, i) => {
+      m.loserTo = { matchId: losers[0][Math.floor(i / 2)].id, slot: i % 2 };
+    });
+    losers.forEach((matches, idx) => {
+      const j = idx + 1;
+      const next = losers[idx + 1];
+      if (!next) {
+        matches[0].winnerTo = { matchId: final.id, slot: 1 };
+        return;
+      }
+      matches.forEach((m, i) => {
+        // Into an even round the winner keeps its position; into an odd one
+        // pairs of winners meet.
+        m.winnerTo =
+          j % 2 === 1 ? { matchId: next[i].id, slot: 0 } : { matchId: next[Math.floor(i / 2)].id, slot: i % 2 };
+      });
+    });
+    // Winners round r drops its losers into losers round 2(r - 1), in reverse
+    // order to put off rematches.
+    for (let r = 2; r <= k; r += 1) {
+      const target = losers[2 * (r - 1) - 1];
+      winners[r - 1].forEach((m, i) => {
+        m.loserTo = { matchId: target[target.length - 1 - i].id, slot: 1 };
+      });
+    }
+  }
+
+  return [...winners.flat(), ...losers.flat(), final, reset];
+}
+
+// Round-robin schedule with the circle method: everyone plays everyone once,
+// one match per player per round.
+function roundRobinMatches(ids, group) {
+  const players = ids.length % 2 ? [...ids, null] : [...ids];
+  const n = players.length;
+  const matches = [];
+  for (let round = 1; round < n; round += 1) {
+    for (let i = 0; i < n / 2; i += 1) {
+      const a = players[i];
+      const b = players[n - 1 - i];
+      if (!a || !b) continue;
+      const m = newMatch({ bracket: "group", round, position: matches.length, group });
+      fill(m.slots[0], a);
+      fill(m.slots[1], b);
+      matches.push(m);
+    }
+    players.splice(1, 0, players.pop());
+  }
+  return matches;
+}
+
+// Groups are filled in snake order (1, 2, 3, 3, 2, 1, ...) to balance them.
+export function groupsOf(seedIds, groupCount) {
+  const groups = Array.from({ length: groupCount }, () => []);
+  seedIds.forEach((id, i) => {
+    const lap = Math.floor(i / groupCount);
+    const index = i % groupCount;
+    groups[lap % 2 === 0 ? index : groupCount - 1 - index].push(id);
+  });
+  return groups;
+}
+
+export function buildMatches(format, seedIds, { groupCount = 1 } = {}) {
+  if (format === "round_robin") {
+    return groupsOf(seedIds, groupCount).flatMap((ids, group) => roundRobinMatches(ids, group));
+  }
+  if (format === "double_elimination") return buildDoubleElimination(seedIds);
+  return buildWinnersBracket(seedIds).flat();
+}
+
+function matchById(tournament, matchId) {
+  return tournament.matches.find((m) => m.id === matchId) ?? null;
+}
+
+function send(tournament, target, playerId) {
+  if (!target) return;
+  const match = matchById(tournament, target.matchId);
+  if (match) fill(match.slots[target.slot], playerId);
+}
+
+function decide(tournament, match, winnerId, status, now) {
+  const loserId = match.slots.map((s) => s.playerId).find((id) => id && id !== winnerId) ?? null;
+  Object.assign(match, { winnerId, status, completedAt: status === "completed" ? now : null });
+
+  if (match.bracket === "final" && match.round === 1) {
+    const reset = tournament.matches.find((m) => m.bracket === "final" && m.round === 2);
+    // The losers bracket champion has to beat the unbeaten player twice.
+    if (reset && winnerId && winnerId === match.slots[1].playerId) {
+      fill(reset.slots[0], match.slots[0].playerId);
+      fill(reset.slots[1], match.slots[1].playerId);
+    } else if (reset) {
+      reset.status = "skipped";
+    }
+    return;
+  }
+  send(tournament, match.winnerTo, winnerId);
+  send(tournament, match.loserTo, loserId);
+}
+
+function finishIfDone(tournament, now) {
+  const open = tournament.matches.some((m) => m.status === "pending" || m.status === "ready");
+  if (open) return;
+  tournament.status = "completed";
+  tournament.completedAt = now;
+  if (tournament.format === "round_robin") {
+    const standings = groupStandings(tournament);
+    tournament.winnerId = standings.length === 1 ? (standings[0][0]?.playerId ?? null) : null;
+    return;
+  }
+  const deciding = tournament.matches.filter((m) => m.winnerTo === null && m.status !== "skipped");
+  const last = deciding.find((m) => m.bracket === "final" && m.round === 2) ?? deciding.at(-1);
+  tournament.winnerId = last?.winnerId ?? null;
+}
+
+// Marks matches with both players known as ready and pushes byes through
+// until nothing changes.
+export function settle(tournament, now = Date.now()) {
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const match of tournament.matches) {
+      if (match.status !== "pending" || !match.slots.every((s) => s.filled)) continue;
+      const players = match.slots.map((s) => s.playerId);
+      if (players.every(Boolean)) {
+        match.status = "ready";
+      } else {
+        decide(tournament, match, players.find(Boolean) ?? null, "bye", now);
+      }
+      changed = true;
+    }
+  }
+  finishIfDone(tournament, now);
+}
+
+function targetsOf(tournament, match) {
+  if (match.bracket === "final" && match.round === 1) {
+    return tournament.matches.filter((m) => m.bracket === "final" && m.round === 2);
+  }
+  return [match.winnerTo, match.loserTo].filter(Boolean).map((t) => matchById(tournament, t.matchId));
+}
+
+// A result can still be changed while nothing it fed into has been played.
+export function canCorrect(tournament, match) {
+  return targetsOf(tournament, match).every(
+    (t) => t.status !== "completed" && (t.status !== "bye" || canCorrect(tournament, t))
+  );
+}
+
+// Takes back what a decided match sent forward, through any byes it caused.
+function undo(tournament, match) {
+  for (const target of targetsOf(tournament, match)) {
+    if (target.status === "bye") undo(tournament, target);
+    if (match.bracket === "final") {
+      target.slots = [emptySlot(), emptySlot()];
+    } else {
+      if (match.winnerTo?.matchId === target.id) target.slots[match.winnerTo.slot] = emptySlot();
+      if (match.loserTo?.matchId === target.id) target.slots[match.loserTo.slot] = emptySlot();
+    }
+    Object.assign(target, { status: "pending", winnerId: null, scores: [], completedAt: null });
+  }
+}
+
+// `scores` are from the first slot's view; `winner` is 0 or 1.
+export function recordResult(tournament, match, { scores, winner }, now = Date.now()) {
+  if (match.status === "completed") {
+    undo(tournament, match);
+    Object.assign(tournament, { status: "in_progress", winnerId: null, completedAt: null });
+  }
+  match.scores = scores;
+  decide(tournament, match, match.slots[winner].playerId, "completed", now);
+  settle(tournament, now);
+}
+
+// Round-robin tables: wins first, then set and point difference, then seed.
+export function groupStandings(tournament) {
+  const groups = groupsOf(tournament.seedIds, tournament.groupCount ?? 1);
+  return groups.map((ids, group) => {
+    const rows = new Map(
+      ids.map((playerId) => [
+        playerId,
+        { playerId, played: 0, wins: 0, losses: 0, setsFor: 0, setsAgainst: 0, pointsFor: 0, pointsAgainst: 0 },
+      ])
+    );
+    for (const match of tournament.matches) {
+      if (match.group !== group || match.status !== "completed") continue;
+      match.slots.forEach((slot, side) => {
+        const row = rows.get(slot.playerId);
+        if (!row) return;
+        row.played += 1;
+        if (match.winnerId === slot.playerId) row.wins += 1;
+        else row.losses += 1;
+        for (const pair of match.scores) {
+          const mine = pair[side];
+          const theirs = pair[1 - side];
+          row.pointsFor += mine;
+          row.pointsAgainst += theirs;
+          if (mine > theirs) row.setsFor += 1;
+          else row.setsAgainst += 1;
+        }
+      });
+    }
+    return Array.from(rows.values()).sort(
+      (a, b) =>
+        b.wins - a.wins ||
+        b.setsFor - b.setsAgainst - (a.setsFor - a.setsAgainst) ||
+        b.pointsFor - b.pointsAgainst - (a.pointsFor - a.pointsAgainst) ||
+        ids.indexOf(a.playerId) - ids.indexOf(b.playerId)
+    );
+  });
+}
@@ -0,0 +1,94 @@
+import { db } from "./db.js";
+import { createLocalProvider } from "./chatLocal.js";
+import { notifyChatMessage } from "./notifications.js";
+import { createStreamProvider } from "./chatStream.js";
+
+// Chat runs on a provider picked by CHAT_PROVIDER: "stream" (Stream Chat) or
+// "local" (self-hosted, see chatLocal.js). Without a setting, Stream is used
+// when its credentials are present and the local provider otherwise.
+//
+// A provider implements:
+//   name                      "stream" | "local"
+//   createSession(user)       what the browser needs to connect as `user`
+//   syncChannel(spec)         create or update a channel: { type, id, name?,
+//                             createdById, memberIds, moderatorIds?, data? }
+//   deleteChannel(type, id)
+// Messages, unread counts and presence are read by the browser straight from
+// Stream, or from routes/chat.js and its socket for the local provider.
+function selectProvider() {
+  const apiKey = process.env.STREAM_API_KEY;
+  const apiSecret = process.env.STREAM_API_SECRET;
+  const configured = String(process.env.CHAT_PROVIDER ?? "").trim().toLowerCase();
+  const name = configured || (apiKey && apiSecret ? "stream" : "local");
+
+  if (name === "local") return createLocalProvider();
+  if (name !== "stream") throw new Error(`Unknown CHAT_PROVIDER "${configured}"`);
+  if (!apiKey || !apiSecret) throw new Error("CHAT_PROVIDER=stream needs STREAM_API_KEY and STREAM_API_SECRET");
+  return createStreamProvider({ apiKey, apiSecret });
+}
+
+export const chatProvider = selectProvider();
+
+export const DIRECT_CHANNEL_TYPE = "messaging";
+export const EVENT_CHANNEL_TYPE = "messaging";
+
+// 1:1 channels are keyed by both user ids so either side finds the same one.
+export function directChannelId(userA, userB) {
+  return [userA, userB].sort().join("__");
+}
+
+export function eventChannelId(eventId) {
+  return `event-${eventId}`;
+}
+
+// Turns a new chat message into notifications for the other members. Callers
+// have read the db and write it afterwards.
+export function notifyChatMembers({ channelId, senderId, memberIds, text }) {
+  const preview = text.length > 140 ? `${text.slice(0, 137)}…` : text;
+  const event = db.data.events.find((e) => eventChannelId(e.id) === channelId) ?? null;
+  for (const memberId of memberIds) {
+    if (memberId === senderId) continue;
+    if (!db.data.users.some((u) => u.id === memberId)) continue;
+    notifyChatMessage({ userId: memberId, actorId: senderId, channelId, preview, event });
+  }
+}
+
+// Channel syncs run one at a time so an older participant list can't land
+// after a newer one.
+let queue = Promise.resolve();
+
+function enqueue(task) {
+  const run = queue.then(task);
+  queue = run.catch(() => {});
+  return run;
+}
+
+// Brings the event's channel in line with its participants, with the creator
+// as moderator, and resolves once it is. Takes a copy of the event so later
+// changes to the record don't leak into a queued sync.
+export function syncEventChat(event) {
+  const spec = {
+    type: EVENT_CHANNEL_TYPE,
+    id: eventChannelId(event.id),
+    name: event.title,
+    createdById: event.createdById,
+    memberIds: event.participantIds.slice(),
+    moderatorIds: [event.createdById],
+    data: { eventId: event.id },
+  };
+  return enqueue(() => chatProvider.syncChannel(spec));
+}
+
+// Fire-and-forget variant for routes that shouldn't fail when chat is down;
+// the next time someone opens the chat it is synced again.
+export function queueEventChatSync(event) {
+  syncEventChat(event).catch((err) => {
+    console.error(`Event chat sync failed for ${event.id}: ${err?.message ?? err}`);
+  });
+}
+
+export function queueEventChatDelete(eventId) {
+  enqueue(() => chatProvider.deleteChannel(EVENT_CHANNEL_TYPE, eventChannelId(eventId))).catch((err) => {
+    console.error(`Event chat delete failed for ${eventId}: ${err?.message ?? err}`);
+  });
+}
@@ -0,0 +1,236 @@
+import { randomUUID } from "crypto";
+import { WebSocket, WebSocketServer } from "ws";
+import { db } from "./db.js";
+import { signChatToken, verifyChatToken } from "./auth.js";
+
+// Self-hosted chat provider: channels and messages live in db.json and new
+// messages, read markers and presence are pushed over a WebSocket. Writes go
+// through the REST routes in routes/chat.js.
+
+export const SOCKET_PATH = "/api/chat/socket";
+// Older messages are dropped so busy channels don't grow db.json forever.
+const MAX_MESSAGES_PER_CHANNEL = 1000;
+const MAX_PAGE_SIZE = 100;
+const HEARTBEAT_MS = 30 * 1000;
+
+// userId -> Set(WebSocket) of open connections
+const sockets = new Map();
+
+function channelKey(type, id) {
+  return `${type}:${id}`;
+}
+
+function displayName(userId) {
+  const user = db.data.users.find((u) => u.id === userId);
+  return user?.username ?? user?.fullName ?? "Player";
+}
+
+function send(userId, payload) {
+  const message = JSON.stringify(payload);
+  for (const ws of sockets.get(userId) ?? []) {
+    if (ws.readyState === WebSocket.OPEN) ws.send(message);
+  }
+}
+
+export function isOnline(userId) {
+  return (sockets.get(userId)?.size ?? 0) > 0;
+}
+
+// Everyone who shares at least one channel with the user.
+function contactsOf(userId) {
+  const contacts = new Set();
+  for (const channel of db.data.chatChannels) {
+    if (!channel.memberIds.includes(userId)) continue;
+    for (const id of channel.memberIds) if (id !== userId) contacts.add(id);
+  }
+  return contacts;
+}
+
+function broadcastPresence(userId, online) {
+  for (const contactId of contactsOf(userId)) send(contactId, { type: "presence", userId, online });
+}
+
+function channelRef(channel) {
+  return { type: channel.type, id: channel.id };
+}
+
+export function unreadCount(channel, userId) {
+  const readAt = channel.reads?.[userId] ?? "";
+  return db.data.chatMessages.filter(
+    (m) => m.channelKey === channel.key && m.userId !== userId && m.createdAt > readAt
+  ).length;
+}
+
+export function publicMessage(message) {
+  const [type, ...rest] = message.channelKey.split(":");
+  return {
+    id: message.id,
+    channelType: type,
+    channelId: rest.join(":"),
+    userId: message.userId,
+    userName: displayName(message.userId),
+    text: message.text,
+    createdAt: message.createdAt,
+  };
+}
+
+export function publicChannel(channel, myId) {
+  return {
+    type: channel.type,
+    id: channel.id,
+    name: channel.name ?? null,
+    memberIds: channel.memberIds,
+    unread: unreadCount(channel, myId),
+    lastMessageAt: channel.lastMessageAt ?? null,
+  };
+}
+
+export function findMemberChannel(type, id, userId) {
+  const channel = db.data.chatChannels.find((c) => c.key === channelKey(type, id));
+  return channel && channel.memberIds.includes(userId) ? channel : null;
+}
+
+export function channelsOf(userId) {
+  return db.data.chatChannels.filter((c) => c.memberIds.includes(userId));
+}
+
+// The latest `limit` messages sent before `before` (an ISO time, optional),
+// oldest first.
+export function listMessages(channel, { before = null, limit = 50 } = {}) {
+  const size = Math.min(MAX_PAGE_SIZE, Math.max(1, limit));
+  const all = db.data.chatMessages.filter(
+    (m) => m.channelKey === channel.key && (!before || m.createdAt < before)
+  );
+  return all.slice(-size);
+}
+
+// Stores a message and pushes it to every member. Callers have read the db
+// and write it afterwards.
+export function addMessage(channel, userId, text) {
+  const message = {
+    id: randomUUID(),
+    channelKey: channel.key,
+    userId,
+    text,
+    createdAt: new Date().toISOString(),
+  };
+  db.data.chatMessages.push(message);
+  channel.lastMessageAt = message.createdAt;
+  channel.reads = { ...channel.reads, [userId]: message.createdAt };
+
+  const inChannel = db.data.chatMessages.filter((m) => m.channelKey === channel.key);
+  if (inChannel.length > MAX_MESSAGES_PER_CHANNEL) {
+    const drop = new Set(inChannel.slice(0, inChannel.length - MAX_MESSAGES_PER_CHANNEL).map((m) => m.id));
+    db.data.chatMessages = db.data.chatMessages.filter((m) => !drop.has(m.id));
+  }
+
+  const payload = { type: "message.new", channel: channelRef(channel), message: publicMessage(message) };
+  for (const memberId of channel.memberIds) send(memberId, payload);
+  return message;
+}
+
+// Marks everything in the channel as read for the user and tells their other
+// open tabs. Callers write the db afterwards.
+export function markRead(channel, userId) {
+  channel.reads = { ...channel.reads, [userId]: new Date().toISOString() };
+  send(userId, { type: "channel.read", channel: channelRef(channel) });
+}
+
+export function createLocalProvider() {
+  return {
+    name: "local",
+
+    async createSession(user) {
+      return {
+        provider: "local",
+        token: signChatToken(user.id),
+        user: { id: user.id, name: displayName(user.id) },
+      };
+    },
+
+    async syncChannel({ type, id, name, createdById, memberIds, moderatorIds = [], data = {} }) {
+      const key = channelKey(type, id);
+      let channel = db.data.chatChannels.find((c) => c.key === key);
+      const before = channel ? channel.memberIds : [];
+      if (!channel) {
+        channel = { key, type, id, createdById, reads: {}, createdAt: new Date().toISOString(), lastMessageAt: null };
+        db.data.chatChannels.push(channel);
+      }
+      Object.assign(channel, { name: name ?? channel.name ?? null, memberIds: memberIds.slice(), moderatorIds, data });
+      await db.write();
+
+      for (const userId of new Set([...before, ...memberIds])) {
+        send(userId, { type: "channel.updated", channel: channelRef(channel), member: memberIds.includes(userId) });
+      }
+    },
+
+    async deleteChannel(type, id) {
+      const key = channelKey(type, id);
+      const channel = db.data.chatChannels.find((c) => c.key === key);
+      if (!channel) return;
+      db.data.chatChannels = db.data.chatChannels.filter((c) => c.key !== key);
+      db.data.chatMessages = db.data.chatMessages.filter((m) => m.channelKey !== key);
+      await db.write();
+      for (const userId of channel.memberIds) send(userId, { type: "channel.deleted", channel: channelRef(channel) });
+    },
+  };
+}
+
+function rejectUpgrade(socket, status) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+function onConnection(ws, userId) {
+  let mine = sockets.get(userId);
+  if (!mine) {
+    mine = new Set();
+    sockets.set(userId, mine);
+  }
+  mine.add(ws);
+  if (mine.size === 1) broadcastPresence(userId, true);
+
+  ws.isAlive = true;
+  ws.on("pong", () => {
+    ws.isAlive = true;
+  });
+  ws.on("close", () => {
+    mine.delete(ws);
+    if (mine.size > 0) return;
+    sockets.delete(userId);
+    broadcastPresence(userId, false);
+  });
+}
+
+// Accepts chat sockets on SOCKET_PATH. Clients authenticate with the token
+// from GET /api/chat/session in the `token` query parameter.
+export function attachChatSocket(server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", (req, socket, head) => {
+    const url = new URL(req.url ?? "", "http://localhost");
+    if (url.pathname !== SOCKET_PATH) return rejectUpgrade(socket, "404 Not Found");
+
+    let userId;
+    try {
+      userId = verifyChatToken(url.searchParams.get("token") ?? "").userId;
+    } catch {
+      return rejectUpgrade(socket, "401 Unauthorized");
+    }
+    if (!db.data.users.some((u) => u.id === userId)) return rejectUpgrade(socket, "401 Unauthorized");
+
+    wss.handleUpgrade(req, socket, head, (ws) => onConnection(ws, userId));
+  });
+
+  // Drops connections that stopped answering pings so presence stays honest.
+  setInterval(() => {
+    for (const ws of wss.clients) {
+      if (!ws.isAlive) {
+        ws.terminate();
+        continue;
+      }
+      ws.isAlive = false;
+      ws.ping();
+    }
+  }, HEARTBEAT_MS).unref();
+}
@@ -0,0 +1,64 @@
+import { StreamChat } from "stream-chat";
+import { db } from "./db.js";
+
+// Chat provider backed by Stream Chat. Clients talk to Stream directly with
+// the token from createSession; the backend only manages users and channels.
+
+// Participants are capped at 100 per event, so one page covers every member.
+const PAGE_SIZE = 100;
+
+function chatUser(userId) {
+  const user = db.data.users.find((u) => u.id === userId);
+  return { id: userId, name: user?.username ?? user?.fullName ?? "Player" };
+}
+
+export function createStreamProvider({ apiKey, apiSecret }) {
+  const client = StreamChat.getInstance(apiKey, apiSecret);
+
+  // Only creates missing chat users: upserting replaces the whole profile,
+  // including the avatar the frontend sets on upload.
+  async function ensureUsers(userIds) {
+    const { users: known } = await client.queryUsers({ id: { $in: userIds } }, {}, { limit: PAGE_SIZE });
+    const missing = userIds.filter((id) => !known.some((u) => u.id === id));
+    if (missing.length > 0) await client.upsertUsers(missing.map(chatUser));
+    return known;
+  }
+
+  return {
+    name: "stream",
+
+    async createSession(user) {
+      const me = chatUser(user.id);
+      const [known] = await ensureUsers([user.id]);
+      if (known && known.name !== me.name) await client.partialUpdateUser({ id: user.id, set: { name: me.name } });
+      return { provider: "stream", apiKey, token: client.createToken(user.id), user: me };
+    },
+
+    // Creates the channel if needed, then adds and removes members to match
+    // `memberIds` and grants moderator rights to `moderatorIds`.
+    async syncChannel({ type, id, name, createdById, memberIds, moderatorIds = [], data = {} }) {
+      await ensureUsers(memberIds);
+
+      const channel = client.channel(type, id, {
+        ...data,
+        ...(name ? { name } : {}),
+        created_by_id: createdById,
+        members: memberIds,
+      });
+      await channel.create();
+
+      const { members: current } = await channel.queryMembers({}, {}, { limit: PAGE_SIZE });
+      const currentIds = current.map((m) => m.user_id ?? m.user?.id).filter(Boolean);
+      const toAdd = memberIds.filter((userId) => !currentIds.includes(userId));
+      const toRemove = currentIds.filter((userId) => !memberIds.includes(userId));
+      if (toAdd.length > 0) await channel.addMembers(toAdd);
+      if (toRemove.length > 0) await channel.removeMembers(toRemove);
+      if (moderatorIds.length > 0) await channel.addModerators(moderatorIds);
+      if (name && channel.data?.name !== name) await channel.updatePartial({ set: { name } });
+    },
+
+    async deleteChannel(type, id) {
+      await client.channel(type, id).delete();
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import { randomBytes } from "crypto";
+import { eventEndMs, eventStartMs } from "./eventTimes.js";
+
+// Check-ins mark players present at the venue, either by scanning the code
+// the organizer shows or automatically when their live location arrives.
+// They are stored as attendance marks with one of these sources, so they
+// count towards reliability like the organizer's own marks.
+export const CHECK_IN_SOURCES = ["qr", "nearby"];
+
+// Same window as live location sharing: shortly before the start until the
+// event ends.
+const CHECK_IN_OPENS_BEFORE_MS = 30 * 60 * 1000;
+
+export function checkInWindow(event) {
+  const start = eventStartMs(event);
+  return { opensAt: start - CHECK_IN_OPENS_BEFORE_MS, closesAt: eventEndMs(event) };
+}
+
+export function isCheckInOpen(event, now = Date.now()) {
+  const { opensAt, closesAt } = checkInWindow(event);
+  return now >= opensAt && now < closesAt;
+}
+
+// Codes are created when the organizer first opens the check-in screen.
+// Callers write the db afterwards.
+export function ensureCheckInCode(event) {
+  if (!event.checkInCode) event.checkInCode = randomBytes(12).toString("base64url");
+  return event.checkInCode;
+}
+
+export function rotateCheckInCode(event) {
+  event.checkInCode = randomBytes(12).toString("base64url");
+  return event.checkInCode;
+}
+
+export function isCheckedIn(event, userId) {
+  const mark = event.attendance?.[userId];
+  return mark?.status === "present" && CHECK_IN_SOURCES.includes(mark.source);
+}
+
+// Returns false when the player already has a mark: checking in twice keeps
+// the first time, and the organizer's own marks are never overwritten.
+export function recordCheckIn(event, userId, source, now = Date.now()) {
+  if (event.attendance?.[userId]) return false;
+  event.attendance = { ...event.attendance, [userId]: { status: "present", source, markedAt: now } };
+  event.updatedAt = now;
+  return true;
+}
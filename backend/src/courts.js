@@ -0,0 +1,128 @@
+import { fromWall, parseTimeZone } from "./recurrence.js";
+
+// Bookable courts. A court is `{ id, name, sport, locationName?, timeZone,
+// openingHour, closingHour, slotMinutes }`; a booking holds one slot on one
+// date, `{ id, courtId, userId, userName, date, startTime, endTime, status,
+// createdAt, cancelledAt? }`. Dates and times are the court's wall clock in
+// its IANA `timeZone`, so "18:00" means 18:00 at the venue wherever the
+// server and the player are.
+
+export const MAX_DAYS_AHEAD = 30;
+export const MAX_ACTIVE_BOOKINGS_PER_USER = 6;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Zone for the seeded courts and for any court saved without one.
+export const DEFAULT_COURT_TIME_ZONE = parseTimeZone(process.env.COURTS_TIME_ZONE) ?? "UTC";
+
+export function defaultCourts() {
+  return ["A", "B", "C"].map((letter) => ({
+    id: `court-${letter.toLowerCase()}`,
+    name: `Court ${letter}`,
+    sport: "Badminton",
+    timeZone: DEFAULT_COURT_TIME_ZONE,
+    openingHour: 7,
+    closingHour: 22,
+    slotMinutes: 60,
+  }));
+}
+
+function pad(n) {
+  return String(n).padStart(2, "0");
+}
+
+function minutesToTime(minutes) {
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+function timeToMinutes(time) {
+  const m = /^(\d{2}):(\d{2})$/.exec(String(time ?? ""));
+  if (!m) return null;
+  const h = Number(m[1]);
+  const min = Number(m[2]);
+  if (h > 23 || min > 59) return null;
+  return h * 60 + min;
+}
+
+export function isValidDate(date) {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(String(date ?? ""));
+  if (!m) return false;
+  const d = new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])));
+  return d.toISOString().slice(0, 10) === date;
+}
+
+export function courtZone(court) {
+  return court?.timeZone ?? DEFAULT_COURT_TIME_ZONE;
+}
+
+// The instant (ms) a slot on `date` ("YYYY-MM-DD") at `startTime` ("HH:MM")
+// starts at the court.
+export function slotStartMs(court, date, startTime) {
+  const [y, m, d] = date.split("-").map(Number);
+  const minutes = timeToMinutes(startTime) ?? 0;
+  const wall = new Date(Date.UTC(y, m - 1, d, Math.floor(minutes / 60), minutes % 60));
+  return fromWall(wall, courtZone(court));
+}
+
+export function slotTimes(court) {
+  const out = [];
+  const step = Math.max(15, court.slotMinutes);
+  for (let m = court.openingHour * 60; m + step <= court.closingHour * 60; m += step) {
+    out.push({ startTime: minutesToTime(m), endTime: minutesToTime(m + step) });
+  }
+  return out;
+}
+
+function activeBookingsFor(bookings, courtId, date) {
+  return bookings.filter((b) => b.courtId === courtId && b.date === date && b.status === "confirmed");
+}
+
+// The court's slots on `date` with whether each is free, over or yours.
+export function courtSlots(court, date, bookings, userId, now = Date.now()) {
+  const booked = new Map(activeBookingsFor(bookings, court.id, date).map((b) => [b.startTime, b]));
+  return slotTimes(court).map((t) => {
+    const booking = booked.get(t.startTime);
+    const past = slotStartMs(court, date, t.startTime) <= now;
+    const mine = Boolean(booking && userId && booking.userId === userId);
+    return {
+      ...t,
+      available: !booking && !past,
+      past,
+      mine,
+      ...(mine ? { bookingId: booking.id } : {}),
+    };
+  });
+}
+
+// Why `userId` can't book `startTime` on `date` at `court`, as
+// `{ status, message }`, or null when they can. `courts` places the user's
+// other bookings in time for the upcoming-bookings limit.
+export function bookingProblem(court, bookings, { userId, date, startTime }, courts, now = Date.now()) {
+  if (!isValidDate(date)) return { status: 400, message: "Invalid date" };
+  if (timeToMinutes(startTime) == null) return { status: 400, message: "Invalid start time" };
+
+  const start = slotStartMs(court, date, startTime);
+  if (start <= now) return { status: 400, message: "This slot has already started" };
+  if (start - now > MAX_DAYS_AHEAD * DAY_MS) {
+    return { status: 400, message: `Bookings open ${MAX_DAYS_AHEAD} days in advance` };
+  }
+
+  if (!slotTimes(court).some((s) => s.startTime === startTime)) {
+    return { status: 400, message: "Not a bookable slot for this court" };
+  }
+  if (activeBookingsFor(bookings, court.id, date).some((b) => b.startTime === startTime)) {
+    return { status: 409, message: "This slot is already booked" };
+  }
+
+  const upcoming = bookings.filter(
+    (b) => b.userId === userId && b.status === "confirmed" && bookingStartMs(b, courts) > now
+  );
+  if (upcoming.length >= MAX_ACTIVE_BOOKINGS_PER_USER) {
+    return { status: 409, message: `You can hold at most ${MAX_ACTIVE_BOOKINGS_PER_USER} upcoming bookings` };
+  }
+  return null;
+}
+
+export function bookingStartMs(booking, courts) {
+  const court = courts.find((c) => c.id === booking.courtId);
+  return slotStartMs(court, booking.date, booking.startTime);
+}
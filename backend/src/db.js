@@ -2,19 +2,34 @@ import { join } from "path";
 import { Low } from "lowdb";
 import { JSONFile } from "lowdb/node";
 import { mkdir } from "fs/promises";
+import { defaultCourts } from "./courts.js";
 
 const dataDir = join(process.cwd(), "data");
 const dbFile = join(dataDir, "db.json");
 
 const adapter = new JSONFile(dbFile);
-export const db = new Low(adapter, { users: [], friendships: [] });
+export const db = new Low(adapter, { users: [], friendships: [], events: [], eventSeries: [], notifications: [], posts: [], comments: [], reports: [], uploads: [], chatChannels: [], chatMessages: [], matches: [], tournaments: [], teams: [], courts: defaultCourts(), bookings: [] });
 
 export async function initDb() {
   await mkdir(dataDir, { recursive: true });
   await db.read();
-  db.data ||= { users: [], friendships: [] };
+  db.data ||= { users: [], friendships: [], events: [], eventSeries: [], notifications: [], posts: [], comments: [], reports: [], uploads: [], chatChannels: [], chatMessages: [], matches: [], tournaments: [], teams: [], courts: defaultCourts(), bookings: [] };
   db.data.users ||= [];
   db.data.friendships ||= [];
+  db.data.events ||= [];
+  db.data.eventSeries ||= [];
+  db.data.notifications ||= [];
+  db.data.posts ||= [];
+  db.data.comments ||= [];
+  db.data.reports ||= [];
+  db.data.uploads ||= [];
+  db.data.chatChannels ||= [];
+  db.data.chatMessages ||= [];
+  db.data.matches ||= [];
+  db.data.tournaments ||= [];
+  db.data.teams ||= [];
+  db.data.courts ||= defaultCourts();
+  db.data.bookings ||= [];
   await db.write();
 }
 
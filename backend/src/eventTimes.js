@@ -0,0 +1,11 @@
+// Events only store a start time; everything that needs an end (calendar
+// export, live location sharing) assumes this duration.
+export const EVENT_DURATION_MS = 2 * 60 * 60 * 1000;
+
+export function eventStartMs(event) {
+  return new Date(event.startsAt).getTime();
+}
+
+export function eventEndMs(event) {
+  return eventStartMs(event) + EVENT_DURATION_MS;
+}
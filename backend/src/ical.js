@@ -0,0 +1,91 @@
+import { eventEndMs, eventStartMs } from "./eventTimes.js";
+
+// Minimal iCalendar (RFC 5545) writer for events.
+
+const PRODID = "-//Badminton Partner//Events//EN";
+const UID_DOMAIN = "badminton-partner";
+
+function formatUtc(value) {
+  return new Date(value).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(value) {
+  return String(value ?? "")
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Content lines are limited to 75 octets; longer ones continue on the next
+// line after a single leading space.
+function foldLine(line) {
+  const bytes = Buffer.from(line, "utf8");
+  if (bytes.length <= 75) return line;
+
+  const parts = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const ch of line) {
+    const size = Buffer.byteLength(ch, "utf8");
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + size > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += ch;
+    currentBytes += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function eventLines(event, { url, now }) {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART:${formatUtc(eventStartMs(event))}`,
+    `DTEND:${formatUtc(eventEndMs(event))}`,
+    `SUMMARY:${escapeText(event.title)}`,
+  ];
+  if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatUtc(event.updatedAt)}`);
+  // Calendar apps only apply changes to an already imported event when the
+  // sequence number goes up; the events router bumps it on edits.
+  lines.push(`SEQUENCE:${event.sequence ?? 0}`);
+
+  const description = [event.sport ? `Sport: ${event.sport}` : "", event.description ?? ""]
+    .filter(Boolean)
+    .join("\n\n");
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  if (event.locationName) lines.push(`LOCATION:${escapeText(event.locationName)}`);
+  if (event.locationCoords) {
+    lines.push(`GEO:${event.locationCoords.lat};${event.locationCoords.lng}`);
+  }
+  if (url) lines.push(`URL:${url}`);
+  lines.push("STATUS:CONFIRMED", "END:VEVENT");
+  return lines;
+}
+
+export function buildCalendar(events, { name, url } = {}) {
+  const now = Date.now();
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODID}`, "CALSCALE:GREGORIAN", "METHOD:PUBLISH"];
+  if (name) {
+    lines.push(`X-WR-CALNAME:${escapeText(name)}`);
+    // Hint for subscribers on how often to poll the feed.
+    lines.push("REFRESH-INTERVAL;VALUE=DURATION:PT1H", "X-PUBLISHED-TTL:PT1H");
+  }
+  for (const event of events) lines.push(...eventLines(event, { url, now }));
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+export function icsFilename(title) {
+  const slug = String(title ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "event"}.ics`;
+}
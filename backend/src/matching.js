@@ -0,0 +1,160 @@
+// Compatibility scoring for partner suggestions. Each factor contributes up to
+// its weight; the total is out of 100.
+
+export const MATCH_WEIGHTS = {
+  sports: 40,
+  skill: 25,
+  distance: 25,
+  mutual: 10,
+};
+
+export const SKILL_LEVELS = ["beginner", "intermediate", "advanced", "pro"];
+
+// Candidates farther away than this get no distance points.
+const MAX_DISTANCE_KM = 50;
+// Mutual friends beyond this count don't add more points.
+const MUTUAL_CAP = 5;
+// Players this many rating points apart get no skill points.
+const RATING_SPAN = 400;
+
+function round1(n) {
+  return Math.round(n * 10) / 10;
+}
+
+export function parseCoords(value) {
+  if (!value || typeof value !== "object") return null;
+  const lat = Number(value.lat);
+  const lng = Number(value.lng);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (lat < -90 || lat > 90 || lng < -180 || lng > 180) return null;
+  return { lat, lng };
+}
+
+export function distanceMeters(a, b) {
+  const R = 6371000;
+  const toRad = (d) => (d * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function normalizeSports(value) {
+  if (!Array.isArray(value)) return [];
+  const seen = new Map();
+  for (const s of value) {
+    const label = String(s ?? "").trim();
+    if (label && !seen.has(label.toLowerCase())) seen.set(label.toLowerCase(), label);
+  }
+  return Array.from(seen.values());
+}
+
+export function normalizeSkillLevel(value) {
+  const level = String(value ?? "").trim().toLowerCase();
+  return SKILL_LEVELS.includes(level) ? level : null;
+}
+
+function userSkillLevel(user) {
+  return normalizeSkillLevel(user.skillLevel) ?? normalizeSkillLevel(user.skill);
+}
+
+export function friendIdsOf(friendships, userId) {
+  const ids = new Set();
+  for (const f of friendships) {
+    if (f.status !== "accepted") continue;
+    if (f.userAId === userId) ids.add(f.userBId);
+    else if (f.userBId === userId) ids.add(f.userAId);
+  }
+  return ids;
+}
+
+function scoreSports(mine, theirs) {
+  const theirKeys = new Set(theirs.map((s) => s.toLowerCase()));
+  const shared = mine.filter((s) => theirKeys.has(s.toLowerCase()));
+  const denom = Math.min(mine.length, theirs.length);
+  const ratio = denom > 0 ? shared.length / denom : 0;
+  return { score: round1(ratio * MATCH_WEIGHTS.sports), max: MATCH_WEIGHTS.sports, shared };
+}
+
+// The sport both players have played rated matches in, preferring one they
+// both list and then the one with the most results between them.
+function sharedRating(me, candidate, sharedSports) {
+  const preferred = new Set(sharedSports.map((s) => s.toLowerCase()));
+  let best = null;
+  for (const [key, mine] of Object.entries(me.ratings ?? {})) {
+    const theirs = candidate.ratings?.[key];
+    if (!mine?.matches || !theirs?.matches) continue;
+    const rank = (preferred.has(key) ? 1_000_000 : 0) + mine.matches + theirs.matches;
+    if (!best || rank > best.rank) best = { rank, sport: mine.sport, mine: mine.rating, theirs: theirs.rating };
+  }
+  return best ? { sport: best.sport, mine: best.mine, theirs: best.theirs } : null;
+}
+
+// Match results beat self-declared levels: with a rating in common the
+// score follows the rating gap, otherwise the gap between levels.
+function scoreSkill(mine, theirs, rating) {
+  const gap = mine && theirs ? Math.abs(SKILL_LEVELS.indexOf(mine) - SKILL_LEVELS.indexOf(theirs)) : null;
+  if (rating) {
+    const ratio = Math.max(0, 1 - Math.abs(rating.mine - rating.theirs) / RATING_SPAN);
+    return { score: round1(ratio * MATCH_WEIGHTS.skill), max: MATCH_WEIGHTS.skill, gap, level: theirs, rating };
+  }
+  if (gap === null) {
+    return { score: 0, max: MATCH_WEIGHTS.skill, gap: null, level: theirs, rating: null };
+  }
+  const ratio = Math.max(0, 1 - gap / (SKILL_LEVELS.length - 1));
+  return { score: round1(ratio * MATCH_WEIGHTS.skill), max: MATCH_WEIGHTS.skill, gap, level: theirs, rating: null };
+}
+
+function scoreDistance(mine, theirs) {
+  if (!mine || !theirs) return { score: 0, max: MATCH_WEIGHTS.distance, meters: null };
+  const meters = distanceMeters(mine, theirs);
+  const ratio = Math.max(0, 1 - meters / (MAX_DISTANCE_KM * 1000));
+  return { score: round1(ratio * MATCH_WEIGHTS.distance), max: MATCH_WEIGHTS.distance, meters: Math.round(meters) };
+}
+
+function scoreMutual(myFriendIds, theirFriendIds) {
+  let count = 0;
+  for (const id of theirFriendIds) if (myFriendIds.has(id)) count += 1;
+  const ratio = Math.min(count, MUTUAL_CAP) / MUTUAL_CAP;
+  return { score: round1(ratio * MATCH_WEIGHTS.mutual), max: MATCH_WEIGHTS.mutual, count };
+}
+
+// Friend id sets come from friendIdsOf so callers can build them once per
+// request instead of rescanning friendships for every candidate.
+export function scoreCandidate(me, candidate, { myFriendIds, candidateFriendIds }) {
+  const sports = scoreSports(normalizeSports(me.preferredSports), normalizeSports(candidate.preferredSports));
+  const skill = scoreSkill(userSkillLevel(me), userSkillLevel(candidate), sharedRating(me, candidate, sports.shared));
+  const distance = scoreDistance(parseCoords(me.locationCoords), parseCoords(candidate.locationCoords));
+  const mutual = scoreMutual(myFriendIds, candidateFriendIds);
+
+  return {
+    score: round1(sports.score + skill.score + distance.score + mutual.score),
+    breakdown: { sports, skill, distance, mutual },
+  };
+}
+
+// Opponent suggestions for teams: the rating gap between the two teams and
+// how far apart their members live.
+export const TEAM_MATCH_WEIGHTS = {
+  skill: 60,
+  distance: 40,
+};
+
+// Each team is `{ rating, coords }`, with coords averaged over its members.
+export function scoreTeamMatchup(team, opponent) {
+  const skillRatio = Math.max(0, 1 - Math.abs(team.rating - opponent.rating) / RATING_SPAN);
+  const skill = {
+    score: round1(skillRatio * TEAM_MATCH_WEIGHTS.skill),
+    max: TEAM_MATCH_WEIGHTS.skill,
+    mine: team.rating,
+    theirs: opponent.rating,
+  };
+  const { meters, score } = scoreDistance(team.coords, opponent.coords);
+  const distance = {
+    score: round1((score / MATCH_WEIGHTS.distance) * TEAM_MATCH_WEIGHTS.distance),
+    max: TEAM_MATCH_WEIGHTS.distance,
+    meters,
+  };
+  return { score: round1(skill.score + distance.score), breakdown: { skill, distance } };
+}
@@ -0,0 +1,51 @@
+import { extname } from "path";
+
+// Uploaded files are identified by their first bytes, never by the name or
+// Content-Type the client sent, and saved under an extension from this list
+// so /uploads serves them with a matching image or video type.
+
+export const MEDIA_TYPES = {
+  jpeg: { type: "image", ext: ".jpg" },
+  png: { type: "image", ext: ".png" },
+  webp: { type: "image", ext: ".webp" },
+  gif: { type: "image", ext: ".gif" },
+  mp4: { type: "video", ext: ".mp4" },
+  webm: { type: "video", ext: ".webm" },
+};
+
+// Bytes of the file header sniffMedia needs.
+export const SNIFF_BYTES = 16;
+
+// ISO base media brands that are still images rather than video.
+const IMAGE_BRANDS = new Set(["heic", "heix", "heim", "heis", "mif1", "msf1", "avif", "avis"]);
+
+function startsWith(header, bytes, offset = 0) {
+  return bytes.every((b, i) => header[offset + i] === b);
+}
+
+function ascii(header, offset, length) {
+  return header.subarray(offset, offset + length).toString("latin1");
+}
+
+// `{ type, ext }` for a supported image or video header, otherwise null.
+export function sniffMedia(header) {
+  if (!header || header.length < 12) return null;
+  if (startsWith(header, [0xff, 0xd8, 0xff])) return MEDIA_TYPES.jpeg;
+  if (startsWith(header, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return MEDIA_TYPES.png;
+  if (ascii(header, 0, 6) === "GIF87a" || ascii(header, 0, 6) === "GIF89a") return MEDIA_TYPES.gif;
+  if (ascii(header, 0, 4) === "RIFF" && ascii(header, 8, 4) === "WEBP") return MEDIA_TYPES.webp;
+  if (startsWith(header, [0x1a, 0x45, 0xdf, 0xa3])) return MEDIA_TYPES.webm;
+  if (ascii(header, 4, 4) === "ftyp" && !IMAGE_BRANDS.has(ascii(header, 8, 4))) return MEDIA_TYPES.mp4;
+  return null;
+}
+
+// Also the image and video names older uploads were saved under.
+const SERVED_EXTENSIONS = new Set([...Object.values(MEDIA_TYPES).map((m) => m.ext), ".jpeg", ".mov"]);
+
+// express.static `setHeaders` for /uploads. Browsers must not guess a type,
+// and anything that isn't an image or video is only ever downloaded, never
+// rendered.
+export function setUploadHeaders(res, path) {
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  if (!SERVED_EXTENSIONS.has(extname(path).toLowerCase())) res.setHeader("Content-Disposition", "attachment");
+}
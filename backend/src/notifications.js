@@ -0,0 +1,83 @@
+import { randomUUID } from "crypto";
+import { db } from "./db.js";
+
+export const NOTIFICATION_TYPES = [
+  "friend_request",
+  "friend_accepted",
+  "event_joined",
+  "event_left",
+  "event_promoted",
+  "event_cancelled",
+  "chat_message",
+  "post_reaction",
+  "post_comment",
+  "match_recorded",
+  "match_confirmed",
+  "match_disputed",
+  "tournament_started",
+  "team_invite",
+  "team_joined",
+  "team_entered",
+];
+
+const MAX_PER_USER = 200;
+
+// Pushes a notification into db.data.notifications. Callers are expected to
+// have read the db already and to call db.write() afterwards.
+export function notify({ userId, type, actorId = null, data = {} }) {
+  if (!userId || !NOTIFICATION_TYPES.includes(type)) return null;
+  if (actorId && actorId === userId) return null;
+
+  const now = Date.now();
+  const notification = {
+    id: randomUUID(),
+    userId,
+    type,
+    actorId,
+    data,
+    readAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+  db.data.notifications.push(notification);
+  pruneNotifications(userId);
+  return notification;
+}
+
+// Chat messages arrive in bursts; fold them into the sender's existing
+// unread notification instead of adding one per message.
+export function notifyChatMessage({ userId, actorId, channelId, preview, event = null }) {
+  if (!userId || !actorId || actorId === userId) return null;
+
+  const existing = db.data.notifications.find(
+    (n) =>
+      n.userId === userId &&
+      n.type === "chat_message" &&
+      n.actorId === actorId &&
+      n.data?.channelId === channelId &&
+      !n.readAt
+  );
+  if (existing) {
+    existing.data = { ...existing.data, preview, count: (existing.data?.count ?? 1) + 1 };
+    existing.updatedAt = Date.now();
+    return existing;
+  }
+
+  const data = { channelId, preview, count: 1 };
+  if (event) Object.assign(data, { eventId: event.id, eventTitle: event.title });
+  return notify({ userId, type: "chat_message", actorId, data });
+}
+
+function pruneNotifications(userId) {
+  const mine = db.data.notifications.filter((n) => n.userId === userId);
+  if (mine.length <= MAX_PER_USER) return;
+
+  const drop = new Set(
+    mine
+      .slice()
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(MAX_PER_USER)
+      .map((n) => n.id)
+  );
+  db.data.notifications = db.data.notifications.filter((n) => !drop.has(n.id));
+}
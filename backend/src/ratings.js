@@ -0,0 +1,88 @@
+import { normalizeSkillLevel } from "./matching.js";
+
+// Per-sport Elo ratings built from confirmed match results. Ratings live on
+// the user record as `ratings[sportKey] = { sport, rating, matches, wins,
+// losses, updatedAt }`.
+
+// Players start from their self-declared level until results say otherwise.
+const SEED_BY_LEVEL = { beginner: 1000, intermediate: 1200, advanced: 1400, pro: 1600 };
+const DEFAULT_RATING = 1200;
+// Early results move a rating faster so new players settle quickly.
+const PROVISIONAL_MATCHES = 5;
+const K_PROVISIONAL = 40;
+const K_ESTABLISHED = 24;
+
+export function sportKey(sport) {
+  return String(sport ?? "").trim().toLowerCase();
+}
+
+export function ratingOf(user, sport) {
+  const stored = user?.ratings?.[sportKey(sport)];
+  if (stored) return stored;
+  const level = normalizeSkillLevel(user?.skillLevel) ?? normalizeSkillLevel(user?.skill);
+  return {
+    sport: String(sport ?? "").trim(),
+    rating: level ? SEED_BY_LEVEL[level] : DEFAULT_RATING,
+    matches: 0,
+    wins: 0,
+    losses: 0,
+    updatedAt: null,
+  };
+}
+
+function expectedScore(rating, opponentRating) {
+  return 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+}
+
+function average(values) {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+// Updates every player's rating for a confirmed match. In doubles each side
+// plays as its average rating and both partners move by their own K factor.
+// Returns { [userId]: { before, after } }. Callers write the db afterwards.
+export function applyMatchResult(users, match) {
+  const key = sportKey(match.sport);
+  const byId = new Map(users.map((u) => [u.id, u]));
+  const sides = match.teams.map((ids) => ids.map((id) => byId.get(id)).filter(Boolean));
+  const teamRatings = sides.map((side) => average(side.map((u) => ratingOf(u, match.sport).rating)));
+  const now = Date.now();
+  const changes = {};
+
+  sides.forEach((side, i) => {
+    const won = match.winner === i;
+    const expected = expectedScore(teamRatings[i], teamRatings[1 - i]);
+    for (const user of side) {
+      const current = ratingOf(user, match.sport);
+      const k = current.matches < PROVISIONAL_MATCHES ? K_PROVISIONAL : K_ESTABLISHED;
+      const rating = Math.round(current.rating + k * ((won ? 1 : 0) - expected));
+      user.ratings = {
+        ...user.ratings,
+        [key]: {
+          sport: current.sport || match.sport,
+          rating,
+          matches: current.matches + 1,
+          wins: current.wins + (won ? 1 : 0),
+          losses: current.losses + (won ? 0 : 1),
+          updatedAt: now,
+        },
+      };
+      changes[user.id] = { before: current.rating, after: rating };
+    }
+  });
+
+  return changes;
+}
+
+export function publicRatings(user) {
+  return Object.values(user?.ratings ?? {})
+    .map((r) => ({
+      sport: r.sport,
+      rating: r.rating,
+      matches: r.matches,
+      wins: r.wins,
+      losses: r.losses,
+      provisional: r.matches < PROVISIONAL_MATCHES,
+    }))
+    .sort((a, b) => b.matches - a.matches || b.rating - a.rating);
+}
@@ -0,0 +1,179 @@
+// Recurrence rules for event series. Occurrences are generated on the series
+// owner's wall clock in their IANA time zone, with the UTC offset worked out
+// for each date, so "every Tuesday 18:00" stays on Tuesday evening for them
+// across daylight saving changes and regardless of the server's time zone.
+//
+// A `zone` is the IANA name, or for series created before names were stored,
+// a fixed offset in minutes (west positive, like Date#getTimezoneOffset).
+
+export const FREQUENCIES = ["weekly", "biweekly", "monthly"];
+
+export const MAX_OCCURRENCES = 104;
+const MAX_HORIZON_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function pad(n) {
+  return String(n).padStart(2, "0");
+}
+
+// `wall` is a Date whose UTC fields hold the owner's local date and time.
+function dateKey(wall) {
+  return `${wall.getUTCFullYear()}-${pad(wall.getUTCMonth() + 1)}-${pad(wall.getUTCDate())}`;
+}
+
+export function isDateKey(value) {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const d = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === value;
+}
+
+export function parseTimezoneOffset(value) {
+  const n = Math.round(Number(value));
+  if (!Number.isFinite(n) || Math.abs(n) > 14 * 60) return 0;
+  return n;
+}
+
+const formatters = new Map();
+
+function formatter(timeZone) {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, f);
+  }
+  return f;
+}
+
+// The IANA name if the runtime knows it, otherwise null.
+export function parseTimeZone(value) {
+  if (typeof value !== "string" || !value) return null;
+  try {
+    return formatter(value).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+}
+
+export function seriesZone(series) {
+  return series.timeZone ?? series.timezoneOffset ?? 0;
+}
+
+// Minutes behind UTC in `zone` at the instant `ms`.
+export function zoneOffset(zone, ms) {
+  if (typeof zone !== "string") return zone;
+  const parts = {};
+  for (const p of formatter(zone).formatToParts(new Date(ms))) parts[p.type] = Number(p.value);
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return Math.round((Math.floor(ms / 1000) * 1000 - local) / 60000);
+}
+
+// A Date whose UTC fields hold the wall-clock time in `zone` at `ms`.
+export function toWall(ms, zone) {
+  return new Date(ms - zoneOffset(zone, ms) * 60 * 1000);
+}
+
+// The instant (ms) the wall-clock time `wall` happens in `zone`. Times that
+// don't exist on the day the clocks go forward come out an hour later.
+export function fromWall(wall, zone) {
+  const guess = zoneOffset(zone, wall.getTime());
+  const offset = zoneOffset(zone, wall.getTime() + guess * 60 * 1000);
+  return wall.getTime() + offset * 60 * 1000;
+}
+
+// Returns { rule } or { error }. `startsAt` is the first occurrence (Date).
+export function parseRecurrence(value, startsAt, zone) {
+  if (!value || typeof value !== "object") return { error: "Invalid recurrence" };
+
+  const frequency = String(value.frequency ?? "");
+  if (!FREQUENCIES.includes(frequency)) return { error: "Unknown recurrence frequency" };
+
+  const wall = toWall(startsAt.getTime(), zone);
+  let weekdays = [];
+  if (frequency !== "monthly") {
+    const raw = Array.isArray(value.weekdays) && value.weekdays.length ? value.weekdays : [wall.getUTCDay()];
+    weekdays = Array.from(new Set(raw.map((d) => Math.round(Number(d)))))
+      .filter((d) => Number.isInteger(d) && d >= 0 && d <= 6)
+      .sort((a, b) => a - b);
+    if (weekdays.length === 0) return { error: "Pick at least one weekday" };
+  }
+
+  const hasUntil = value.until !== undefined && value.until !== null && value.until !== "";
+  const hasCount = value.count !== undefined && value.count !== null && value.count !== "";
+  if (hasUntil === hasCount) return { error: "Recurrence needs either an end date or a count" };
+
+  const rule = { frequency, weekdays };
+  if (hasUntil) {
+    const until = String(value.until);
+    if (!isDateKey(until)) return { error: "Invalid end date" };
+    if (until < dateKey(wall)) return { error: "End date is before the first occurrence" };
+    const horizon = dateKey(new Date(wall.getTime() + MAX_HORIZON_DAYS * DAY_MS));
+    if (until > horizon) return { error: "Series can't run longer than a year" };
+    rule.until = until;
+  } else {
+    const count = Math.round(Number(value.count));
+    if (!Number.isFinite(count) || count < 2 || count > MAX_OCCURRENCES) {
+      return { error: `Occurrence count must be between 2 and ${MAX_OCCURRENCES}` };
+    }
+    rule.count = count;
+  }
+
+  return { rule };
+}
+
+// Expands a rule into [{ date: "YYYY-MM-DD", startsAt: ISO }]. Skipped dates
+// still count towards `count`, matching how calendar apps treat exceptions.
+export function expandOccurrences(startsAt, rule, zone) {
+  const first = toWall(new Date(startsAt).getTime(), zone);
+  const horizon = first.getTime() + MAX_HORIZON_DAYS * DAY_MS;
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const out = [];
+
+  const accept = (wall) => {
+    if (wall.getTime() < first.getTime()) return true;
+    if (wall.getTime() > horizon) return false;
+    const date = dateKey(wall);
+    if (rule.until && date > rule.until) return false;
+    out.push({ date, startsAt: new Date(fromWall(wall, zone)).toISOString() });
+    return out.length < limit;
+  };
+
+  if (rule.frequency === "monthly") {
+    const day = first.getUTCDate();
+    for (let m = 0; m <= 12; m += 1) {
+      const wall = new Date(
+        Date.UTC(
+          first.getUTCFullYear(),
+          first.getUTCMonth() + m,
+          day,
+          first.getUTCHours(),
+          first.getUTCMinutes()
+        )
+      );
+      // Months without this day (e.g. the 31st) are skipped rather than clamped.
+      if (wall.getUTCDate() !== day) continue;
+      if (!accept(wall)) break;
+    }
+    return out;
+  }
+
+  const intervalWeeks = rule.frequency === "biweekly" ? 2 : 1;
+  const weekStart = first.getTime() - first.getUTCDay() * DAY_MS;
+  for (let week = 0; week * 7 <= MAX_HORIZON_DAYS; week += intervalWeeks) {
+    let keepGoing = true;
+    for (const weekday of rule.weekdays) {
+      keepGoing = accept(new Date(weekStart + (week * 7 + weekday) * DAY_MS));
+      if (!keepGoing) break;
+    }
+    if (!keepGoing) break;
+  }
+  return out;
+}
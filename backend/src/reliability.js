@@ -0,0 +1,49 @@
+import { db } from "./db.js";
+
+// Attendance reliability: the share of marked events a player turned up to.
+// Marks live on the event as `attendance[userId] = { status, source,
+// markedAt }` with status "present" or "absent".
+
+export const ATTENDANCE_STATUSES = ["present", "absent"];
+
+function emptyRecord() {
+  return { attended: 0, missed: 0 };
+}
+
+function withPercent({ attended, missed }) {
+  const total = attended + missed;
+  return { percent: total > 0 ? Math.round((attended / total) * 100) : null, attended, missed };
+}
+
+// Reliability of every player with at least one mark, in one pass over the
+// events. Used where many players are shown at once.
+export function reliabilityByUser(events = db.data.events) {
+  const records = new Map();
+  for (const event of events) {
+    for (const [userId, mark] of Object.entries(event.attendance ?? {})) {
+      const record = records.get(userId) ?? emptyRecord();
+      if (mark.status === "present") record.attended += 1;
+      else if (mark.status === "absent") record.missed += 1;
+      records.set(userId, record);
+    }
+  }
+  return new Map(Array.from(records, ([userId, record]) => [userId, withPercent(record)]));
+}
+
+// `percent` is null until the player has been marked at least once.
+export function reliabilityOf(userId, events = db.data.events) {
+  const record = emptyRecord();
+  for (const event of events) {
+    const status = event.attendance?.[userId]?.status;
+    if (status === "present") record.attended += 1;
+    else if (status === "absent") record.missed += 1;
+  }
+  return withPercent(record);
+}
+
+// Players without any marks yet are given the benefit of the doubt.
+export function meetsReliability(userId, minReliability) {
+  if (!minReliability) return true;
+  const { percent } = reliabilityOf(userId);
+  return percent === null || percent >= minReliability;
+}
@@ -2,7 +2,8 @@ import express from "express";
 import bcrypt from "bcryptjs";
 import { randomUUID } from "crypto";
 import { db } from "../db.js";
-import { clearAuthCookie, requireAuth, setAuthCookie, signToken } from "../auth.js";
+import { normalizeSkillLevel, normalizeSports, parseCoords } from "../matching.js";
+import { clearAuthCookie, isModerator, requireAuth, setAuthCookie, signToken } from "../auth.js";
 
 export const authRouter = express.Router();
 
@@ -15,11 +16,15 @@ function publicUser(user) {
     fullName: user.fullName,
     skill: user.skill ?? null,
     location: user.location ?? null,
+    skillLevel: user.skillLevel ?? null,
+    preferredSports: user.preferredSports ?? [],
+    isModerator: isModerator(user),
   };
 }
 
 authRouter.post("/register", async (req, res) => {
-  const { fullName, username, email, password } = req.body ?? {};
+  const { fullName, username, email, password, location, locationCoords, preferredSports, skillLevel } =
+    req.body ?? {};
   if (!fullName || !username || !email || !password) {
     return res.status(400).json({ message: "Missing fields" });
   }
@@ -39,6 +44,10 @@ authRouter.post("/register", async (req, res) => {
     email: String(email).trim(),
     username: String(username).trim(),
     fullName: String(fullName).trim(),
+    location: String(location ?? "").trim() || null,
+    locationCoords: parseCoords(locationCoords),
+    preferredSports: normalizeSports(preferredSports),
+    skillLevel: normalizeSkillLevel(skillLevel),
     passwordHash,
     createdAt: Date.now(),
   };
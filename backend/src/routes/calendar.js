@@ -0,0 +1,67 @@
+import express from "express";
+import { randomBytes } from "crypto";
+import { db } from "../db.js";
+import { requireAuth } from "../auth.js";
+import { buildCalendar } from "../ical.js";
+
+export const calendarRouter = express.Router();
+
+// Past events stay in the feed for a while so recent sessions don't vanish
+// from people's calendars the moment they end.
+const FEED_HISTORY_MS = 90 * 24 * 60 * 60 * 1000;
+
+function newCalendarToken() {
+  return randomBytes(24).toString("hex");
+}
+
+// Subscription URLs are opened by calendar apps, not the browser, so they
+// must point at this server directly. BACKEND_PUBLIC_URL overrides the
+// request host when running behind a proxy.
+function feedUrl(req, token) {
+  const base = process.env.BACKEND_PUBLIC_URL ?? `${req.protocol}://${req.get("host")}`;
+  return `${base.replace(/\/+$/, "")}/api/calendar/feed/${token}.ics`;
+}
+
+calendarRouter.get("/subscription", requireAuth, async (req, res) => {
+  await db.read();
+  const user = db.data.users.find((u) => u.id === req.user.id);
+  if (!user) return res.status(401).json({ message: "Not authenticated" });
+
+  if (!user.calendarToken) {
+    user.calendarToken = newCalendarToken();
+    await db.write();
+  }
+  return res.json({ url: feedUrl(req, user.calendarToken) });
+});
+
+// Invalidates the old URL, e.g. after it was shared by mistake.
+calendarRouter.post("/subscription/rotate", requireAuth, async (req, res) => {
+  await db.read();
+  const user = db.data.users.find((u) => u.id === req.user.id);
+  if (!user) return res.status(401).json({ message: "Not authenticated" });
+
+  user.calendarToken = newCalendarToken();
+  await db.write();
+  return res.json({ url: feedUrl(req, user.calendarToken) });
+});
+
+calendarRouter.get("/feed/:token.ics", async (req, res) => {
+  const token = String(req.params.token ?? "");
+  await db.read();
+  const user = token ? db.data.users.find((u) => u.calendarToken === token) : null;
+  if (!user) return res.status(404).json({ message: "Calendar not found" });
+
+  const cutoff = Date.now() - FEED_HISTORY_MS;
+  const events = db.data.events
+    .filter(
+      (e) =>
+        (e.createdById === user.id || e.participantIds.includes(user.id)) &&
+        new Date(e.startsAt).getTime() >= cutoff
+    )
+    .sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime());
+
+  const frontend = process.env.FRONTEND_ORIGIN ?? "http://localhost:3000";
+  res.set("Content-Type", "text/calendar; charset=utf-8");
+  res.set("Cache-Control", "private, max-age=300");
+  return res.send(buildCalendar(events, { name: "My games", url: `${frontend}/events` }));
+});
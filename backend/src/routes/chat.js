@@ -0,0 +1,143 @@
+import express from "express";
+import { db } from "../db.js";
+import { requireAuth } from "../auth.js";
+import { DIRECT_CHANNEL_TYPE, chatProvider, directChannelId, notifyChatMembers } from "../chat.js";
+import {
+  addMessage,
+  channelsOf,
+  findMemberChannel,
+  isOnline,
+  listMessages,
+  markRead,
+  publicChannel,
+  publicMessage,
+  unreadCount,
+} from "../chatLocal.js";
+
+export const chatRouter = express.Router();
+
+const MAX_MESSAGE_LENGTH = 4000;
+
+function areFriends(a, b) {
+  return db.data.friendships.some(
+    (f) =>
+      f.status === "accepted" &&
+      ((f.userAId === a && f.userBId === b) || (f.userAId === b && f.userBId === a))
+  );
+}
+
+function splitIds(value) {
+  return String(value ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+// The remaining routes serve the local provider; with Stream the browser
+// reads channels and messages from Stream itself.
+function requireLocal(_req, res, next) {
+  if (chatProvider.name !== "local") {
+    return res.status(404).json({ message: "Not available with the configured chat provider" });
+  }
+  return next();
+}
+
+function findChannel(req, res) {
+  const channel = findMemberChannel(req.params.type, req.params.id, req.user.id);
+  if (!channel) {
+    res.status(404).json({ message: "Channel not found" });
+    return null;
+  }
+  return channel;
+}
+
+// What the browser needs to connect: `provider` plus a token (and Stream's
+// api key when that provider is in use).
+chatRouter.get("/session", requireAuth, async (req, res) => {
+  await db.read();
+  return res.json(await chatProvider.createSession(req.user));
+});
+
+// Opens (creating if needed) the 1:1 channel with an accepted friend.
+chatRouter.post("/direct", requireAuth, async (req, res) => {
+  const partnerId = String(req.body?.userId ?? "");
+  if (!partnerId) return res.status(400).json({ message: "Missing userId" });
+
+  await db.read();
+  const myId = req.user.id;
+  const partner = db.data.users.find((u) => u.id === partnerId);
+  if (!partner || partnerId === myId) return res.status(404).json({ message: "User not found" });
+  if (!areFriends(myId, partnerId)) {
+    return res.status(403).json({ message: "You can only message accepted friends" });
+  }
+
+  const channel = { type: DIRECT_CHANNEL_TYPE, id: directChannelId(myId, partnerId) };
+  await chatProvider.syncChannel({ ...channel, createdById: myId, memberIds: [myId, partnerId] });
+  return res.json({ channel: { ...channel, name: partner.username ?? partner.fullName ?? null } });
+});
+
+// Your channels, optionally limited to `ids`, with unread counts.
+chatRouter.get("/channels", requireAuth, requireLocal, async (req, res) => {
+  await db.read();
+  const myId = req.user.id;
+  const ids = splitIds(req.query?.ids);
+  const channels = channelsOf(myId)
+    .filter((c) => ids.length === 0 || ids.includes(c.id))
+    .map((c) => publicChannel(c, myId));
+  return res.json({ channels });
+});
+
+chatRouter.get("/unread", requireAuth, requireLocal, async (req, res) => {
+  await db.read();
+  const myId = req.user.id;
+  const total = channelsOf(myId).reduce((sum, c) => sum + unreadCount(c, myId), 0);
+  return res.json({ total });
+});
+
+chatRouter.get("/channels/:type/:id/messages", requireAuth, requireLocal, async (req, res) => {
+  await db.read();
+  const channel = findChannel(req, res);
+  if (!channel) return;
+
+  const before = req.query?.before ? String(req.query.before) : null;
+  const limit = Number(req.query?.limit ?? 50) || 50;
+  return res.json({ messages: listMessages(channel, { before, limit }).map(publicMessage) });
+});
+
+chatRouter.post("/channels/:type/:id/messages", requireAuth, requireLocal, async (req, res) => {
+  const text = String(req.body?.text ?? "").trim();
+  if (!text) return res.status(400).json({ message: "Message is empty" });
+  if (text.length > MAX_MESSAGE_LENGTH) {
+    return res.status(400).json({ message: `Messages are limited to ${MAX_MESSAGE_LENGTH} characters` });
+  }
+
+  await db.read();
+  const channel = findChannel(req, res);
+  if (!channel) return;
+
+  const myId = req.user.id;
+  const message = addMessage(channel, myId, text);
+  notifyChatMembers({ channelId: channel.id, senderId: myId, memberIds: channel.memberIds, text });
+  await db.write();
+  return res.status(201).json({ message: publicMessage(message) });
+});
+
+chatRouter.post("/channels/:type/:id/read", requireAuth, requireLocal, async (req, res) => {
+  await db.read();
+  const channel = findChannel(req, res);
+  if (!channel) return;
+
+  markRead(channel, req.user.id);
+  await db.write();
+  return res.json({ ok: true });
+});
+
+// Which of `ids` currently have the chat open somewhere. Limited to people
+// you share a channel with.
+chatRouter.get("/presence", requireAuth, requireLocal, async (req, res) => {
+  await db.read();
+  const myId = req.user.id;
+  const contacts = new Set(channelsOf(myId).flatMap((c) => c.memberIds));
+  const online = splitIds(req.query?.ids).filter((id) => contacts.has(id) && isOnline(id));
+  return res.json({ online });
+});
@@ -0,0 +1,120 @@
+import express from "express";
+import { db } from "../db.js";
+import { requireAuth } from "../auth.js";
+import {
+  checkInWindow,
+  ensureCheckInCode,
+  isCheckInOpen,
+  isCheckedIn,
+  recordCheckIn,
+  rotateCheckInCode,
+} from "../checkIns.js";
+
+// Mounted next to eventsRouter under /api/events.
+export const checkInsRouter = express.Router();
+
+function findEvent(req, res) {
+  const event = db.data.events.find((e) => e.id === req.params.id);
+  if (!event) {
+    res.status(404).json({ message: "Event not found" });
+    return null;
+  }
+  return event;
+}
+
+function findOwnedEvent(req, res) {
+  const event = findEvent(req, res);
+  if (!event) return null;
+  if (event.createdById !== req.user.id) {
+    res.status(403).json({ message: "Only the creator can run check-in" });
+    return null;
+  }
+  return event;
+}
+
+// What the organizer's check-in screen shows: the code to put in the QR and
+// everyone who has checked in so far, latest first.
+function publicCheckIn(event) {
+  const { opensAt, closesAt } = checkInWindow(event);
+  const players = event.participantIds.filter((id) => id !== event.createdById);
+  const roster = players
+    .filter((id) => isCheckedIn(event, id))
+    .map((id) => {
+      const user = db.data.users.find((u) => u.id === id);
+      const mark = event.attendance[id];
+      return {
+        id,
+        username: user?.username ?? "Player",
+        source: mark.source,
+        checkedInAt: new Date(mark.markedAt).toISOString(),
+      };
+    })
+    .sort((a, b) => b.checkedInAt.localeCompare(a.checkedInAt));
+  return {
+    code: event.checkInCode,
+    open: isCheckInOpen(event),
+    opensAt: new Date(opensAt).toISOString(),
+    closesAt: new Date(closesAt).toISOString(),
+    expected: players.length,
+    roster,
+  };
+}
+
+checkInsRouter.get("/:id/check-in", requireAuth, async (req, res) => {
+  await db.read();
+  const event = findOwnedEvent(req, res);
+  if (!event) return;
+  if (!event.checkInCode) {
+    ensureCheckInCode(event);
+    await db.write();
+  }
+  return res.json({ checkIn: publicCheckIn(event) });
+});
+
+// A new code stops an old QR (e.g. a shared photo of it) from working.
+checkInsRouter.post("/:id/check-in/code", requireAuth, async (req, res) => {
+  await db.read();
+  const event = findOwnedEvent(req, res);
+  if (!event) return;
+  rotateCheckInCode(event);
+  await db.write();
+  return res.json({ checkIn: publicCheckIn(event) });
+});
+
+// Scanning the organizer's QR code lands here with `{ code }`.
+checkInsRouter.post("/:id/check-in", requireAuth, async (req, res) => {
+  const code = String(req.body?.code ?? "").trim();
+  if (!code) return res.status(400).json({ message: "Missing check-in code" });
+
+  await db.read();
+  const event = findEvent(req, res);
+  if (!event) return;
+
+  const myId = req.user.id;
+  if (!event.participantIds.includes(myId)) {
+    return res.status(403).json({ message: "Join this event to check in" });
+  }
+  if (event.createdById === myId) {
+    return res.status(400).json({ message: "Organizers don't need to check in" });
+  }
+  if (!event.checkInCode || code !== event.checkInCode) {
+    return res.status(403).json({ message: "This check-in code is no longer valid. Ask the organizer for the current one." });
+  }
+  if (!isCheckInOpen(event)) {
+    return res.status(409).json({ message: "Check-in opens 30 minutes before the start and closes when the event ends" });
+  }
+
+  if (recordCheckIn(event, myId, "qr")) await db.write();
+  const mark = event.attendance[myId];
+  if (mark.status !== "present") {
+    return res.status(409).json({ message: "The organizer has already marked you absent for this event" });
+  }
+  return res.json({
+    checkIn: {
+      eventId: event.id,
+      eventTitle: event.title,
+      startsAt: event.startsAt,
+      checkedInAt: new Date(mark.markedAt).toISOString(),
+    },
+  });
+});
@@ -0,0 +1,79 @@
+import express from "express";
+import { randomUUID } from "crypto";
+import { db } from "../db.js";
+import { requireAuth } from "../auth.js";
+import { bookingProblem, bookingStartMs, courtSlots, isValidDate, slotTimes } from "../courts.js";
+
+export const courtsRouter = express.Router();
+export const bookingsRouter = express.Router();
+
+courtsRouter.get("/", async (_req, res) => {
+  await db.read();
+  return res.json({ courts: db.data.courts });
+});
+
+courtsRouter.get("/:courtId/slots", requireAuth, async (req, res) => {
+  const date = String(req.query.date ?? "").trim();
+  if (!date) return res.status(400).json({ message: "Missing date" });
+  if (!isValidDate(date)) return res.status(400).json({ message: "Invalid date" });
+
+  await db.read();
+  const court = db.data.courts.find((c) => c.id === req.params.courtId);
+  if (!court) return res.status(404).json({ message: "Court not found" });
+
+  return res.json({ court, date, slots: courtSlots(court, date, db.data.bookings, req.user.id) });
+});
+
+bookingsRouter.get("/", requireAuth, async (req, res) => {
+  await db.read();
+  const bookings = db.data.bookings
+    .filter((b) => b.userId === req.user.id && b.status === "confirmed")
+    .sort((a, b) => bookingStartMs(a, db.data.courts) - bookingStartMs(b, db.data.courts));
+  return res.json({ bookings });
+});
+
+bookingsRouter.post("/", requireAuth, async (req, res) => {
+  const body = req.body ?? {};
+  const courtId = typeof body.courtId === "string" ? body.courtId.trim() : "";
+  const date = typeof body.date === "string" ? body.date.trim() : "";
+  const startTime = typeof body.startTime === "string" ? body.startTime.trim() : "";
+  if (!courtId) return res.status(400).json({ message: "Missing courtId" });
+
+  await db.read();
+  const court = db.data.courts.find((c) => c.id === courtId);
+  if (!court) return res.status(404).json({ message: "Court not found" });
+
+  const problem = bookingProblem(court, db.data.bookings, { userId: req.user.id, date, startTime }, db.data.courts);
+  if (problem) return res.status(problem.status).json({ message: problem.message });
+
+  const slot = slotTimes(court).find((s) => s.startTime === startTime);
+  const booking = {
+    id: randomUUID(),
+    courtId,
+    userId: req.user.id,
+    userName: req.user.username ?? req.user.fullName ?? "Player",
+    date,
+    startTime: slot.startTime,
+    endTime: slot.endTime,
+    status: "confirmed",
+    createdAt: Date.now(),
+  };
+  db.data.bookings.push(booking);
+  await db.write();
+  return res.status(201).json({ booking });
+});
+
+bookingsRouter.delete("/:bookingId", requireAuth, async (req, res) => {
+  await db.read();
+  const booking = db.data.bookings.find((b) => b.id === req.params.bookingId);
+  if (!booking || booking.status !== "confirmed") return res.status(404).json({ message: "Booking not found" });
+  if (booking.userId !== req.user.id) return res.status(403).json({ message: "Not allowed" });
+  if (bookingStartMs(booking, db.data.courts) <= Date.now()) {
+    return res.status(400).json({ message: "Past bookings can't be cancelled" });
+  }
+
+  booking.status = "cancelled";
+  booking.cancelledAt = Date.now();
+  await db.write();
+  return res.json({ booking });
+});
@@ -0,0 +1,892 @@
+import express from "express";
+import { randomUUID } from "crypto";
+import { db } from "../db.js";
+import { requireAuth } from "../auth.js";
+import {
+  EVENT_CHANNEL_TYPE,
+  eventChannelId,
+  queueEventChatDelete,
+  queueEventChatSync,
+  syncEventChat,
+} from "../chat.js";
+import { notify } from "../notifications.js";
+import { eventStartMs } from "../eventTimes.js";
+import { ATTENDANCE_STATUSES, meetsReliability, reliabilityOf } from "../reliability.js";
+import { isCheckedIn } from "../checkIns.js";
+import { isMember, sameSport } from "../teams.js";
+import { buildCalendar, icsFilename } from "../ical.js";
+import {
+  expandOccurrences,
+  fromWall,
+  isDateKey,
+  parseRecurrence,
+  parseTimeZone,
+  parseTimezoneOffset,
+  seriesZone,
+  toWall,
+} from "../recurrence.js";
+
+export const eventsRouter = express.Router();
+
+// Keep events listed for a while after they start so people who are on
+// their way can still open the live map.
+const LIST_GRACE_MS = 3 * 60 * 60 * 1000;
+// Only the next few weeks of a series show up in the main list; the rest are
+// available from the series endpoint.
+const LIST_SERIES_HORIZON_MS = 28 * 24 * 60 * 60 * 1000;
+// Group chats stay listed for a couple of weeks after the event.
+const CHAT_LIST_GRACE_MS = 14 * 24 * 60 * 60 * 1000;
+// Organizers can mark attendance from the start until two weeks later.
+const ATTENDANCE_WINDOW_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Fields that can be edited on a single occurrence or across a series.
+const EDITABLE_FIELDS = [
+  "title",
+  "description",
+  "sport",
+  "locationName",
+  "locationCoords",
+  "visibility",
+  "maxParticipants",
+  "minReliability",
+];
+
+function areFriends(friendships, a, b) {
+  return friendships.some(
+    (f) =>
+      f.status === "accepted" &&
+      ((f.userAId === a && f.userBId === b) || (f.userAId === b && f.userBId === a))
+  );
+}
+
+function canSeeEvent(event, myId) {
+  if (event.visibility === "public") return true;
+  if (event.createdById === myId) return true;
+  if (event.participantIds?.includes(myId)) return true;
+  return areFriends(db.data.friendships, myId, event.createdById);
+}
+
+function publicSeries(series) {
+  return {
+    id: series.id,
+    frequency: series.recurrence.frequency,
+    weekdays: series.recurrence.weekdays,
+    until: series.recurrence.until ?? null,
+    count: series.recurrence.count ?? null,
+    skippedDates: series.skippedDates.slice().sort(),
+  };
+}
+
+function publicEvent(event, myId) {
+  const creator = db.data.users.find((u) => u.id === event.createdById);
+  const waitlistIds = event.waitlistIds ?? [];
+  const waitlistIndex = waitlistIds.indexOf(myId);
+  const series = event.seriesId ? db.data.eventSeries.find((s) => s.id === event.seriesId) : null;
+  return {
+    id: event.id,
+    title: event.title,
+    description: event.description || undefined,
+    sport: event.sport || undefined,
+    startsAt: event.startsAt,
+    locationName: event.locationName || undefined,
+    locationCoords: event.locationCoords ?? null,
+    visibility: event.visibility,
+    maxParticipants: event.maxParticipants,
+    participantsCount: event.participantIds.length,
+    joined: event.participantIds.includes(myId),
+    waitlistCount: waitlistIds.length,
+    waitlisted: waitlistIndex !== -1,
+    waitlistPosition: waitlistIndex === -1 ? null : waitlistIndex + 1,
+    waitlist: waitlistIds
+      .map((id) => db.data.users.find((u) => u.id === id))
+      .filter(Boolean)
+      .map((u) => ({ id: u.id, username: u.username })),
+    teams: (event.teamEntries ?? []).map((entry) => ({
+      teamId: entry.teamId,
+      name: db.data.teams.find((t) => t.id === entry.teamId)?.name ?? entry.name,
+      memberCount: entry.memberIds.length,
+      mine: entry.memberIds.includes(myId),
+    })),
+    owner: event.createdById === myId,
+    checkedIn: isCheckedIn(event, myId),
+    tournamentId: db.data.tournaments.find((t) => t.eventId === event.id)?.id ?? null,
+    minReliability: event.minReliability ?? null,
+    createdBy: creator
+      ? { id: creator.id, username: creator.username, email: creator.email }
+      : undefined,
+    ...(series
+      ? {
+          seriesId: series.id,
+          occurrenceDate: event.occurrenceDate,
+          series: publicSeries(series),
+          edited: (event.overrides ?? []).length > 0,
+        }
+      : {}),
+  };
+}
+
+function publicChat(event, myId) {
+  return {
+    eventId: event.id,
+    channelType: EVENT_CHANNEL_TYPE,
+    channelId: eventChannelId(event.id),
+    title: event.title,
+    startsAt: event.startsAt,
+    owner: event.createdById === myId,
+  };
+}
+
+function parseCoords(value) {
+  if (!value || typeof value !== "object") return null;
+  const lat = Number(value.lat);
+  const lng = Number(value.lng);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (lat < -90 || lat > 90 || lng < -180 || lng > 180) return null;
+  return { lat, lng };
+}
+
+// Reads the editable fields present on `body`. With `partial`, missing fields
+// are left out; otherwise defaults are filled in and a title is required.
+function parseEventFields(body, { partial = false } = {}) {
+  const fields = {};
+  const has = (key) => !partial || Object.prototype.hasOwnProperty.call(body, key);
+
+  if (has("title")) {
+    fields.title = String(body.title ?? "").trim();
+    if (!fields.title) return { error: "Missing title" };
+  }
+  if (has("description")) fields.description = String(body.description ?? "").trim();
+  if (has("sport")) fields.sport = String(body.sport ?? "").trim();
+  if (has("locationName")) fields.locationName = String(body.locationName ?? "").trim();
+  if (has("locationCoords")) fields.locationCoords = parseCoords(body.locationCoords);
+  if (has("visibility")) fields.visibility = body.visibility === "friends" ? "friends" : "public";
+  if (has("maxParticipants")) {
+    const maxParticipants = Math.round(Number(body.maxParticipants ?? 10));
+    if (!Number.isFinite(maxParticipants) || maxParticipants < 2 || maxParticipants > 100) {
+      return { error: "Max participants must be between 2 and 100" };
+    }
+    fields.maxParticipants = maxParticipants;
+  }
+  if (has("minReliability")) {
+    const value = body.minReliability;
+    const minReliability = value === null || value === undefined || value === "" ? 0 : Math.round(Number(value));
+    if (!Number.isFinite(minReliability) || minReliability < 0 || minReliability > 100) {
+      return { error: "Minimum reliability must be between 0 and 100" };
+    }
+    fields.minReliability = minReliability || null;
+  }
+  return { fields };
+}
+
+function findVisibleEvent(req, res) {
+  const event = db.data.events.find((e) => e.id === req.params.id);
+  if (!event || !canSeeEvent(event, req.user.id)) {
+    res.status(404).json({ message: "Event not found" });
+    return null;
+  }
+  return event;
+}
+
+function findOwnedEvent(req, res) {
+  const event = findVisibleEvent(req, res);
+  if (!event) return null;
+  if (event.createdById !== req.user.id) {
+    res.status(403).json({ message: "Only the creator can change this event" });
+    return null;
+  }
+  return event;
+}
+
+function findOwnedSeries(req, res) {
+  const series = db.data.eventSeries.find((s) => s.id === req.params.seriesId);
+  if (!series || !canSeeEvent(series, req.user.id)) {
+    res.status(404).json({ message: "Series not found" });
+    return null;
+  }
+  if (series.createdById !== req.user.id) {
+    res.status(403).json({ message: "Only the creator can change this series" });
+    return null;
+  }
+  return series;
+}
+
+// Moves people from the front of the waitlist into free spots and lets them
+// know. Callers write the db afterwards.
+function promoteFromWaitlist(event) {
+  event.waitlistIds ||= [];
+  while (event.waitlistIds.length > 0 && event.participantIds.length < event.maxParticipants) {
+    const userId = event.waitlistIds.shift();
+    if (event.participantIds.includes(userId)) continue;
+    event.participantIds.push(userId);
+    notify({
+      userId,
+      type: "event_promoted",
+      actorId: null,
+      data: { eventId: event.id, eventTitle: event.title },
+    });
+  }
+}
+
+// Enters every member of a team at once. Each member takes a spot, and a
+// team only gets in when there's room for all of them: spots free up one at
+// a time, so teams don't wait on the waitlist.
+async function joinAsTeam(req, res, event) {
+  const myId = req.user.id;
+  const team = db.data.teams.find((t) => t.id === String(req.body.teamId));
+  if (!team || !isMember(team, myId)) return res.status(404).json({ message: "Team not found" });
+  if (team.memberIds.length < 2) return res.status(400).json({ message: "Your team needs at least 2 players first" });
+  if (event.sport && !sameSport(event.sport, team.sport)) {
+    return res.status(400).json({ message: `${team.name} plays ${team.sport}, not ${event.sport}` });
+  }
+
+  event.teamEntries ||= [];
+  event.waitlistIds ||= [];
+  const entered = new Set(event.teamEntries.flatMap((e) => e.memberIds));
+  if (team.memberIds.some((id) => entered.has(id))) {
+    return res.status(409).json({ message: "Someone on your team is already entered with a team" });
+  }
+  const unreliable = team.memberIds.find((id) => !meetsReliability(id, event.minReliability));
+  if (unreliable) {
+    const name = db.data.users.find((u) => u.id === unreliable)?.username ?? "A teammate";
+    return res
+      .status(403)
+      .json({ message: `${name} is below this event's ${event.minReliability}% attendance reliability` });
+  }
+  const newIds = team.memberIds.filter((id) => !event.participantIds.includes(id));
+  const spots = event.maxParticipants - event.participantIds.length;
+  // Teammates on the waitlist come in with the team; anyone else waiting
+  // keeps their place in line.
+  const othersWaiting = event.waitlistIds.some((id) => !team.memberIds.includes(id));
+  if (newIds.length > spots || (newIds.length > 0 && othersWaiting)) {
+    return res.status(409).json({ message: `Not enough spots left for all ${team.memberIds.length} players` });
+  }
+
+  const now = Date.now();
+  event.participantIds.push(...newIds);
+  event.waitlistIds = event.waitlistIds.filter((id) => !team.memberIds.includes(id));
+  event.teamEntries.push({
+    teamId: team.id,
+    name: team.name,
+    memberIds: [...team.memberIds],
+    // Members who weren't already in on their own; only they leave with the team.
+    addedIds: newIds,
+    enteredById: myId,
+    enteredAt: now,
+  });
+  event.updatedAt = now;
+  const data = { eventId: event.id, eventTitle: event.title, teamId: team.id, teamName: team.name };
+  notify({ userId: event.createdById, type: "event_joined", actorId: myId, data });
+  for (const userId of team.memberIds) notify({ userId, type: "team_entered", actorId: myId, data });
+  await db.write();
+  queueEventChatSync(event);
+  return res.json({ event: publicEvent(event, myId) });
+}
+
+// Takes a whole team out of the event. Members who had joined on their own
+// before the team was entered stay in, and so does the creator.
+async function withdrawTeam(req, res, event) {
+  const myId = req.user.id;
+  const entry = (event.teamEntries ?? []).find((e) => e.teamId === String(req.body.teamId));
+  if (!entry || !entry.memberIds.includes(myId)) return res.status(404).json({ message: "Team not entered" });
+
+  const leaving = (entry.addedIds ?? entry.memberIds).filter((id) => id !== event.createdById);
+  event.participantIds = event.participantIds.filter((id) => !leaving.includes(id));
+  event.teamEntries = event.teamEntries.filter((e) => e !== entry);
+  event.updatedAt = Date.now();
+  promoteFromWaitlist(event);
+  notify({
+    userId: event.createdById,
+    type: "event_left",
+    actorId: myId,
+    data: { eventId: event.id, eventTitle: event.title, teamId: entry.teamId, teamName: entry.name },
+  });
+  await db.write();
+  queueEventChatSync(event);
+  return res.json({ event: publicEvent(event, myId) });
+}
+
+function publicAttendance(event) {
+  const now = Date.now();
+  const start = eventStartMs(event);
+  return {
+    canMark: start <= now && now <= start + ATTENDANCE_WINDOW_MS,
+    participants: event.participantIds
+      .filter((id) => id !== event.createdById)
+      .map((id) => db.data.users.find((u) => u.id === id))
+      .filter(Boolean)
+      .map((u) => ({
+        id: u.id,
+        username: u.username,
+        status: event.attendance?.[u.id]?.status ?? null,
+        source: event.attendance?.[u.id]?.source ?? null,
+        reliability: reliabilityOf(u.id),
+      })),
+  };
+}
+
+function seriesOccurrences(seriesId) {
+  return db.data.events
+    .filter((e) => e.seriesId === seriesId)
+    .sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime());
+}
+
+function newOccurrence(series, { date, startsAt }, now) {
+  return {
+    id: randomUUID(),
+    seriesId: series.id,
+    occurrenceDate: date,
+    title: series.title,
+    description: series.description,
+    sport: series.sport,
+    startsAt,
+    locationName: series.locationName,
+    locationCoords: series.locationCoords,
+    visibility: series.visibility,
+    maxParticipants: series.maxParticipants,
+    minReliability: series.minReliability ?? null,
+    createdById: series.createdById,
+    participantIds: [series.createdById],
+    waitlistIds: [],
+    overrides: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function plannedOccurrences(series) {
+  const skipped = new Set(series.skippedDates);
+  return new Map(
+    expandOccurrences(series.startsAt, series.recurrence, seriesZone(series))
+      .filter((o) => !skipped.has(o.date))
+      .map((o) => [o.date, o])
+  );
+}
+
+// Upcoming occurrences the series rule no longer produces. Takes the series
+// as it would be after an edit, so callers can check before changing it.
+function droppedOccurrences(series, now) {
+  const planned = plannedOccurrences(series);
+  return seriesOccurrences(series.id).filter(
+    (e) => new Date(e.startsAt).getTime() >= now && !planned.has(e.occurrenceDate)
+  );
+}
+
+// Someone other than the creator is signed up or waiting.
+function hasJoiners(event) {
+  return (
+    event.participantIds.some((id) => id !== event.createdById) ||
+    (event.waitlistIds ?? []).length > 0 ||
+    (event.teamEntries ?? []).length > 0
+  );
+}
+
+// Lets everyone signed up know an occurrence is off, then removes it along
+// with its tournament. Callers write the db and delete the chat.
+function cancelOccurrence(event) {
+  const userIds = new Set([
+    ...event.participantIds,
+    ...(event.waitlistIds ?? []),
+    ...(event.teamEntries ?? []).flatMap((t) => t.memberIds),
+  ]);
+  for (const userId of userIds) {
+    notify({
+      userId,
+      type: "event_cancelled",
+      actorId: event.createdById,
+      data: { eventId: event.id, eventTitle: event.title, startsAt: event.startsAt },
+    });
+  }
+  db.data.tournaments = db.data.tournaments.filter((t) => t.eventId !== event.id);
+  db.data.events = db.data.events.filter((e) => e.id !== event.id);
+}
+
+// Refuses (409) to cancel occurrences people have signed up for unless the
+// request says `confirm: true`. The response lists the dates so the app can
+// ask the creator first.
+function confirmCancel(req, res, events) {
+  const dates = events.filter(hasJoiners).map((e) => e.occurrenceDate);
+  if (dates.length === 0 || req.body?.confirm === true) return true;
+  res.status(409).json({
+    message: `Players have signed up for ${dates.join(", ")}. They'll be told the ${
+      dates.length === 1 ? "date is" : "dates are"
+    } cancelled.`,
+    cancelDates: dates,
+  });
+  return false;
+}
+
+// Brings upcoming occurrences in line with the series rule: creates missing
+// ones, cancels ones the rule (or a skip) no longer produces and moves the
+// rest to the planned time unless their start was edited individually. Past
+// occurrences are left alone.
+function syncSeriesOccurrences(series, now) {
+  const planned = plannedOccurrences(series);
+
+  const existing = new Map();
+  for (const event of seriesOccurrences(series.id)) {
+    const upcoming = new Date(event.startsAt).getTime() >= now;
+    if (!upcoming) {
+      existing.set(event.occurrenceDate, event);
+      continue;
+    }
+    const plan = planned.get(event.occurrenceDate);
+    if (!plan) {
+      cancelOccurrence(event);
+      continue;
+    }
+    if (!(event.overrides ?? []).includes("startsAt") && event.startsAt !== plan.startsAt) {
+      event.startsAt = plan.startsAt;
+      event.sequence = (event.sequence ?? 0) + 1;
+      event.updatedAt = now;
+    }
+    existing.set(event.occurrenceDate, event);
+  }
+
+  for (const plan of planned.values()) {
+    if (existing.has(plan.date)) continue;
+    if (new Date(plan.startsAt).getTime() < now) continue;
+    db.data.events.push(newOccurrence(series, plan, now));
+  }
+}
+
+eventsRouter.get("/", requireAuth, async (req, res) => {
+  await db.read();
+  const myId = req.user.id;
+  const now = Date.now();
+  const cutoff = now - LIST_GRACE_MS;
+
+  const nextInSeries = new Map();
+  for (const e of db.data.events) {
+    if (!e.seriesId) continue;
+    const t = new Date(e.startsAt).getTime();
+    if (t < cutoff) continue;
+    const current = nextInSeries.get(e.seriesId);
+    if (current === undefined || t < current) nextInSeries.set(e.seriesId, t);
+  }
+
+  const events = db.data.events
+    .filter((e) => {
+      const t = new Date(e.startsAt).getTime();
+      if (t < cutoff || !canSeeEvent(e, myId)) return false;
+      if (!e.seriesId) return true;
+      return t <= now + LIST_SERIES_HORIZON_MS || t === nextInSeries.get(e.seriesId);
+    })
+    .sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime())
+    .map((e) => publicEvent(e, myId));
+
+  return res.json({ events });
+});
+
+// Attendance record of any player (yourself by default).
+eventsRouter.get("/reliability", requireAuth, async (req, res) => {
+  await db.read();
+  const userId = String(req.query?.userId ?? req.user.id);
+  if (!db.data.users.some((u) => u.id === userId)) return res.status(404).json({ message: "User not found" });
+  return res.json({ reliability: reliabilityOf(userId) });
+});
+
+eventsRouter.post("/", requireAuth, async (req, res) => {
+  const body = req.body ?? {};
+  const parsed = parseEventFields(body);
+  if (parsed.error) return res.status(400).json({ message: parsed.error });
+  const startsAt = new Date(String(body.startsAt ?? ""));
+  if (Number.isNaN(startsAt.getTime())) return res.status(400).json({ message: "Invalid date" });
+
+  let recurrence = null;
+  // Older clients only send their current offset.
+  const timeZone = parseTimeZone(body.timeZone);
+  const timezoneOffset = parseTimezoneOffset(body.timezoneOffset);
+  if (body.recurrence) {
+    const result = parseRecurrence(body.recurrence, startsAt, timeZone ?? timezoneOffset);
+    if (result.error) return res.status(400).json({ message: result.error });
+    recurrence = result.rule;
+  }
+
+  await db.read();
+  const myId = req.user.id;
+  const now = Date.now();
+
+  if (!recurrence) {
+    const event = {
+      id: randomUUID(),
+      ...parsed.fields,
+      startsAt: startsAt.toISOString(),
+      createdById: myId,
+      participantIds: [myId],
+      waitlistIds: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    db.data.events.push(event);
+    await db.write();
+    queueEventChatSync(event);
+    return res.status(201).json({ event: publicEvent(event, myId) });
+  }
+
+  const series = {
+    id: randomUUID(),
+    ...parsed.fields,
+    startsAt: startsAt.toISOString(),
+    timeZone,
+    timezoneOffset,
+    recurrence,
+    skippedDates: [],
+    createdById: myId,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const occurrences = expandOccurrences(series.startsAt, recurrence, seriesZone(series)).map((o) =>
+    newOccurrence(series, o, now)
+  );
+
+  db.data.eventSeries.push(series);
+  db.data.events.push(...occurrences);
+  await db.write();
+  occurrences.forEach(queueEventChatSync);
+  return res.status(201).json({
+    event: publicEvent(occurrences[0], myId),
+    series: publicSeries(series),
+    occurrencesCount: occurrences.length,
+  });
+});
+
+// Group chats of events you take part in, soonest first.
+eventsRouter.get("/chats", requireAuth, async (req, res) => {
+  await db.read();
+  const myId = req.user.id;
+  const cutoff = Date.now() - CHAT_LIST_GRACE_MS;
+  const chats = db.data.events
+    .filter((e) => e.participantIds.includes(myId) && new Date(e.startsAt).getTime() >= cutoff)
+    .sort((a, b) => new Date(a.startsAt).getTime() - new Date(b.startsAt).getTime())
+    .map((e) => publicChat(e, myId));
+  return res.json({ chats });
+});
+
+eventsRouter.get("/series/:seriesId", requireAuth, async (req, res) => {
+  await db.read();
+  const myId = req.user.id;
+  const series = db.data.eventSeries.find((s) => s.id === req.params.seriesId);
+  if (!series || !canSeeEvent(series, myId)) {
+    return res.status(404).json({ message: "Series not found" });
+  }
+
+  const cutoff = Date.now() - LIST_GRACE_MS;
+  const occurrences = seriesOccurrences(series.id)
+    .filter((e) => new Date(e.startsAt).getTime() >= cutoff)
+    .map((e) => publicEvent(e, myId));
+  return res.json({ series: publicSeries(series), occurrences });
+});
+
+// Series-level edit: updates the template and every upcoming occurrence,
+// except fields that were changed on that occurrence alone. `time` ("HH:MM")
+// moves the series start time; `recurrence` replaces the rule.
+eventsRouter.patch("/series/:seriesId", requireAuth, async (req, res) => {
+  const body = req.body ?? {};
+  const parsed = parseEventFields(body, { partial: true });
+  if (parsed.error) return res.status(400).json({ message: parsed.error });
+
+  await db.read();
+  const series = findOwnedSeries(req, res);
+  if (!series) return;
+
+  const now = Date.now();
+  let startsAt = new Date(series.startsAt);
+  if (body.time !== undefined) {
+    const m = /^(\d{2}):(\d{2})$/.exec(String(body.time));
+    if (!m || Number(m[1]) > 23 || Number(m[2]) > 59) {
+      return res.status(400).json({ message: "Invalid time" });
+    }
+    const wall = toWall(startsAt.getTime(), seriesZone(series));
+    wall.setUTCHours(Number(m[1]), Number(m[2]), 0, 0);
+    startsAt = new Date(fromWall(wall, seriesZone(series)));
+  }
+
+  let recurrence = series.recurrence;
+  if (body.recurrence !== undefined) {
+    const result = parseRecurrence(body.recurrence, startsAt, seriesZone(series));
+    if (result.error) return res.status(400).json({ message: result.error });
+    recurrence = result.rule;
+  }
+
+  const before = seriesOccurrences(series.id);
+  const upcoming = before.filter((e) => new Date(e.startsAt).getTime() >= now);
+  if (parsed.fields.maxParticipants !== undefined) {
+    const crowded = upcoming.find(
+      (e) =>
+        !(e.overrides ?? []).includes("maxParticipants") &&
+        e.participantIds.length > parsed.fields.maxParticipants
+    );
+    if (crowded) {
+      return res
+        .status(409)
+        .json({ message: `${crowded.occurrenceDate} already has ${crowded.participantIds.length} participants` });
+    }
+  }
+
+  const dropped = droppedOccurrences({ ...series, startsAt: startsAt.toISOString(), recurrence }, now);
+  if (!confirmCancel(req, res, dropped)) return;
+
+  Object.assign(series, parsed.fields, { startsAt: startsAt.toISOString(), recurrence, updatedAt: now });
+  for (const event of upcoming) {
+    let changed = false;
+    for (const key of EDITABLE_FIELDS) {
+      if (!(key in parsed.fields) || (event.overrides ?? []).includes(key)) continue;
+      event[key] = parsed.fields[key];
+      changed = true;
+    }
+    if (changed) {
+      event.sequence = (event.sequence ?? 0) + 1;
+      event.updatedAt = now;
+      promoteFromWaitlist(event);
+    }
+  }
+  syncSeriesOccurrences(series, now);
+
+  await db.write();
+  const after = seriesOccurrences(series.id);
+  for (const event of before) {
+    if (!after.includes(event)) queueEventChatDelete(event.id);
+  }
+  after.filter((e) => new Date(e.startsAt).getTime() >= now).forEach(queueEventChatSync);
+
+  const myId = req.user.id;
+  const occurrences = after
+    .filter((e) => new Date(e.startsAt).getTime() >= now - LIST_GRACE_MS)
+    .map((e) => publicEvent(e, myId));
+  return res.json({ series: publicSeries(series), occurrences });
+});
+
+eventsRouter.post("/series/:seriesId/restore", requireAuth, async (req, res) => {
+  const date = String(req.body?.date ?? "");
+  if (!isDateKey(date)) return res.status(400).json({ message: "Invalid date" });
+
+  await db.read();
+  const series = findOwnedSeries(req, res);
+  if (!series) return;
+  if (!series.skippedDates.includes(date)) {
+    return res.status(404).json({ message: "That date isn't skipped" });
+  }
+
+  const now = Date.now();
+  series.skippedDates = series.skippedDates.filter((d) => d !== date);
+  series.updatedAt = now;
+  syncSeriesOccurrences(series, now);
+  await db.write();
+
+  const restored = db.data.events.find((e) => e.seriesId === series.id && e.occurrenceDate === date);
+  if (restored) queueEventChatSync(restored);
+  return res.json({
+    series: publicSeries(series),
+    event: restored ? publicEvent(restored, req.user.id) : null,
+  });
+});
+
+// Single-occurrence (or one-off event) edit. For series occurrences the
+// changed fields are remembered so later series edits don't overwrite them.
+eventsRouter.patch("/:id", requireAuth, async (req, res) => {
+  const body = req.body ?? {};
+  const parsed = parseEventFields(body, { partial: true });
+  if (parsed.error) return res.status(400).json({ message: parsed.error });
+
+  const fields = { ...parsed.fields };
+  if (body.startsAt !== undefined) {
+    const startsAt = new Date(String(body.startsAt));
+    if (Number.isNaN(startsAt.getTime())) return res.status(400).json({ message: "Invalid date" });
+    fields.startsAt = startsAt.toISOString();
+  }
+
+  await db.read();
+  const event = findOwnedEvent(req, res);
+  if (!event) return;
+
+  if (fields.maxParticipants !== undefined && fields.maxParticipants < event.participantIds.length) {
+    return res
+      .status(409)
+      .json({ message: `This event already has ${event.participantIds.length} participants` });
+  }
+
+  Object.assign(event, fields, { sequence: (event.sequence ?? 0) + 1, updatedAt: Date.now() });
+  if (event.seriesId) {
+    event.overrides = Array.from(new Set([...(event.overrides ?? []), ...Object.keys(fields)]));
+  }
+  promoteFromWaitlist(event);
+  await db.write();
+  queueEventChatSync(event);
+  return res.json({ event: publicEvent(event, req.user.id) });
+});
+
+// Skips one occurrence of a series. The date is remembered on the series so
+// later series edits don't bring it back.
+eventsRouter.post("/:id/skip", requireAuth, async (req, res) => {
+  await db.read();
+  const event = findOwnedEvent(req, res);
+  if (!event) return;
+
+  const series = event.seriesId ? db.data.eventSeries.find((s) => s.id === event.seriesId) : null;
+  if (!series) return res.status(400).json({ message: "Only recurring events can be skipped" });
+  if (!confirmCancel(req, res, [event])) return;
+
+  const now = Date.now();
+  if (!series.skippedDates.includes(event.occurrenceDate)) series.skippedDates.push(event.occurrenceDate);
+  series.updatedAt = now;
+  cancelOccurrence(event);
+  await db.write();
+  queueEventChatDelete(event.id);
+  return res.json({ series: publicSeries(series) });
+});
+
+eventsRouter.get("/:id/ics", requireAuth, async (req, res) => {
+  await db.read();
+  const event = findVisibleEvent(req, res);
+  if (!event) return;
+
+  const frontend = process.env.FRONTEND_ORIGIN ?? "http://localhost:3000";
+  res.set("Content-Type", "text/calendar; charset=utf-8");
+  res.set("Content-Disposition", `attachment; filename="${icsFilename(event.title)}"`);
+  return res.send(buildCalendar([event], { url: `${frontend}/events` }));
+});
+
+// Opens the event's group chat. Membership is synced first, so the channel is
+// repaired here if a background sync failed.
+eventsRouter.get("/:id/chat", requireAuth, async (req, res) => {
+  await db.read();
+  const event = findVisibleEvent(req, res);
+  if (!event) return;
+
+  const myId = req.user.id;
+  if (!event.participantIds.includes(myId)) {
+    return res.status(403).json({ message: "Join the event to use its group chat" });
+  }
+  try {
+    await syncEventChat(event);
+  } catch (err) {
+    console.error(`Event chat sync failed for ${event.id}: ${err?.message ?? err}`);
+    return res.status(502).json({ message: "Could not set up the group chat" });
+  }
+  return res.json({ chat: publicChat(event, myId) });
+});
+
+eventsRouter.get("/:id/attendance", requireAuth, async (req, res) => {
+  await db.read();
+  const event = findOwnedEvent(req, res);
+  if (!event) return;
+  return res.json({ attendance: publicAttendance(event) });
+});
+
+// Marks who turned up. `marks` maps participant ids to "present", "absent"
+// or null to clear a mark; players not mentioned keep theirs.
+eventsRouter.put("/:id/attendance", requireAuth, async (req, res) => {
+  const marks = req.body?.marks;
+  if (!marks || typeof marks !== "object" || Array.isArray(marks)) {
+    return res.status(400).json({ message: "Missing marks" });
+  }
+
+  await db.read();
+  const event = findOwnedEvent(req, res);
+  if (!event) return;
+  if (!publicAttendance(event).canMark) {
+    return res.status(409).json({ message: "Attendance can be marked from the start of the event for two weeks" });
+  }
+
+  const now = Date.now();
+  const attendance = { ...event.attendance };
+  for (const [userId, status] of Object.entries(marks)) {
+    if (userId === event.createdById || !event.participantIds.includes(userId)) {
+      return res.status(400).json({ message: "Only participants can be marked" });
+    }
+    if (status === null) {
+      delete attendance[userId];
+      continue;
+    }
+    if (!ATTENDANCE_STATUSES.includes(status)) {
+      return res.status(400).json({ message: "Attendance must be present or absent" });
+    }
+    attendance[userId] = { status, source: "organizer", markedAt: now };
+  }
+  event.attendance = attendance;
+  event.updatedAt = now;
+  await db.write();
+  return res.json({ attendance: publicAttendance(event) });
+});
+
+eventsRouter.post("/:id/join", requireAuth, async (req, res) => {
+  await db.read();
+  const event = findVisibleEvent(req, res);
+  if (!event) return;
+
+  if (req.body?.teamId) return joinAsTeam(req, res, event);
+
+  const myId = req.user.id;
+  event.waitlistIds ||= [];
+  if (event.participantIds.includes(myId) || event.waitlistIds.includes(myId)) {
+    return res.json({ event: publicEvent(event, myId) });
+  }
+  if (!meetsReliability(myId, event.minReliability)) {
+    return res
+      .status(403)
+      .json({ message: `This event is for players with at least ${event.minReliability}% attendance reliability` });
+  }
+  // A full event (or one with people already queued) puts newcomers at the
+  // back of the waitlist instead of turning them away.
+  if (event.participantIds.length >= event.maxParticipants || event.waitlistIds.length > 0) {
+    event.waitlistIds.push(myId);
+    event.updatedAt = Date.now();
+    await db.write();
+    return res.json({ event: publicEvent(event, myId) });
+  }
+
+  event.participantIds.push(myId);
+  event.updatedAt = Date.now();
+  notify({
+    userId: event.createdById,
+    type: "event_joined",
+    actorId: myId,
+    data: { eventId: event.id, eventTitle: event.title },
+  });
+  await db.write();
+  queueEventChatSync(event);
+  return res.json({ event: publicEvent(event, myId) });
+});
+
+eventsRouter.post("/:id/leave", requireAuth, async (req, res) => {
+  await db.read();
+  const event = findVisibleEvent(req, res);
+  if (!event) return;
+
+  if (req.body?.teamId) return withdrawTeam(req, res, event);
+
+  const myId = req.user.id;
+  if (event.createdById === myId) {
+    return res.status(400).json({ message: "The creator can't leave their own event" });
+  }
+  event.waitlistIds ||= [];
+  if (event.waitlistIds.includes(myId)) {
+    event.waitlistIds = event.waitlistIds.filter((id) => id !== myId);
+    event.updatedAt = Date.now();
+    await db.write();
+    return res.json({ event: publicEvent(event, myId) });
+  }
+  if (!event.participantIds.includes(myId)) return res.json({ event: publicEvent(event, myId) });
+
+  event.participantIds = event.participantIds.filter((id) => id !== myId);
+  // Teammates stay entered without the player who left.
+  event.teamEntries = (event.teamEntries ?? [])
+    .map((e) => ({
+      ...e,
+      memberIds: e.memberIds.filter((id) => id !== myId),
+      addedIds: e.addedIds?.filter((id) => id !== myId),
+    }))
+    .filter((e) => e.memberIds.length > 0);
+  event.updatedAt = Date.now();
+  promoteFromWaitlist(event);
+  notify({
+    userId: event.createdById,
+    type: "event_left",
+    actorId: myId,
+    data: { eventId: event.id, eventTitle: event.title },
+  });
+  await db.write();
+  queueEventChatSync(event);
+  return res.json({ event: publicEvent(event, myId) });
+});
@@ -0,0 +1,585 @@
+import express from "express";
+import multer from "multer";
+import { randomUUID } from "crypto";
+import { mkdirSync } from "fs";
+import { mkdir, open, rename, unlink } from "fs/promises";
+import { join } from "path";
+import { db } from "../db.js";
+import { isModerator, requireAuth } from "../auth.js";
+import { SNIFF_BYTES, sniffMedia } from "../media.js";
+import { notify } from "../notifications.js";
+
+export const feedRouter = express.Router();
+
+// Uploaded media lives next to db.json and is served from /uploads.
+export const uploadsDir = join(process.cwd(), "data", "uploads");
+const feedUploadsDir = join(uploadsDir, "feed");
+// Multipart files land here first and are moved into place once checked.
+// express.static doesn't serve dot-directories.
+const incomingDir = join(uploadsDir, ".incoming");
+
+const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 30;
+const MAX_TEXT_LENGTH = 5000;
+const MAX_VIDEO_BYTES = 150 * 1024 * 1024;
+const MAX_IMAGE_BYTES = 15 * 1024 * 1024;
+const MAX_MEDIA_PER_POST = 10;
+// Album items are uploaded one by one before the post is created; uploads
+// that never make it into a post are deleted after this long.
+const ORPHAN_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_COMMENT_LENGTH = 1000;
+const NOTIFICATION_PREVIEW_LENGTH = 140;
+
+const MAX_REPORT_DETAILS_LENGTH = 500;
+// Posts with this many open reports are hidden from everyone but their author
+// until a moderator reviews them.
+const AUTO_HIDE_REPORTS = 3;
+
+export const REPORT_REASONS = ["spam", "harassment", "inappropriate", "other"];
+
+// One reaction per person per post, picked from this set.
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "🔥", "👏", "🏸"];
+
+// Streamed to disk so large videos never sit in memory. The type isn't known
+// until the file is read back, so the video limit applies here and the image
+// limit in saveMedia.
+const upload = multer({
+  storage: multer.diskStorage({
+    destination(_req, _file, cb) {
+      mkdirSync(incomingDir, { recursive: true });
+      cb(null, incomingDir);
+    },
+    filename(_req, _file, cb) {
+      cb(null, randomUUID());
+    },
+  }),
+  limits: { fileSize: MAX_VIDEO_BYTES, files: 1 },
+});
+
+function areFriends(friendships, a, b) {
+  return friendships.some(
+    (f) =>
+      f.status === "accepted" &&
+      ((f.userAId === a && f.userBId === b) || (f.userAId === b && f.userBId === a))
+  );
+}
+
+function canSeePost(post, myId) {
+  if (post.authorId === myId) return true;
+  if (post.hiddenAt) return false;
+  if (post.visibility === "public") return true;
+  return areFriends(db.data.friendships, myId, post.authorId);
+}
+
+export function publicAuthor(userId) {
+  const user = db.data.users.find((u) => u.id === userId);
+  return {
+    id: userId,
+    username: user?.username,
+    fullName: user?.fullName,
+    email: user?.email,
+  };
+}
+
+function reactionSummary(post, myId) {
+  const counts = new Map();
+  for (const r of post.reactions ?? []) counts.set(r.emoji, (counts.get(r.emoji) ?? 0) + 1);
+  return {
+    reactions: REACTION_EMOJIS.filter((emoji) => counts.has(emoji)).map((emoji) => ({
+      emoji,
+      count: counts.get(emoji),
+    })),
+    myReaction: post.reactions?.find((r) => r.userId === myId)?.emoji ?? null,
+  };
+}
+
+// Posts from before albums stored a single media object (or null).
+function mediaList(post) {
+  if (Array.isArray(post.media)) return post.media;
+  return post.media ? [post.media] : [];
+}
+
+export function publicPost(post, myId) {
+  return {
+    id: post.id,
+    text: post.text,
+    media: mediaList(post),
+    visibility: post.visibility,
+    createdAt: post.createdAt,
+    editedAt: post.editedAt ?? null,
+    author: publicAuthor(post.authorId),
+    ...reactionSummary(post, myId),
+    commentCount: db.data.comments.filter((c) => c.postId === post.id).length,
+  };
+}
+
+function publicComment(comment) {
+  return {
+    id: comment.id,
+    postId: comment.postId,
+    parentId: comment.parentId,
+    text: comment.text,
+    createdAt: comment.createdAt,
+    author: publicAuthor(comment.authorId),
+  };
+}
+
+function findVisiblePost(req, res) {
+  const post = db.data.posts.find((p) => p.id === req.params.id);
+  if (!post || !canSeePost(post, req.user.id)) {
+    res.status(404).json({ message: "Post not found" });
+    return null;
+  }
+  return post;
+}
+
+function findOwnPost(req, res) {
+  const post = db.data.posts.find((p) => p.id === req.params.id);
+  if (!post || !canSeePost(post, req.user.id)) {
+    res.status(404).json({ message: "Post not found" });
+    return null;
+  }
+  if (post.authorId !== req.user.id) {
+    res.status(403).json({ message: "Only the author can change this post" });
+    return null;
+  }
+  return post;
+}
+
+// Drops a post with its comments and uploaded media. Open reports are closed
+// with `resolution`. Callers write the db afterwards.
+export async function removePost(post, resolution) {
+  db.data.posts = db.data.posts.filter((p) => p.id !== post.id);
+  db.data.comments = db.data.comments.filter((c) => c.postId !== post.id);
+  const now = Date.now();
+  for (const r of db.data.reports) {
+    if (r.postId === post.id && r.status === "open") {
+      r.status = resolution;
+      r.resolvedAt = now;
+    }
+  }
+  db.data.uploads = db.data.uploads.filter((u) => u.postId !== post.id);
+  await Promise.all(mediaList(post).map((m) => deleteUploadedFile(m.url)));
+}
+
+async function deleteUploadedFile(url) {
+  if (!url?.startsWith("/uploads/")) return;
+  await unlink(join(uploadsDir, url.slice("/uploads/".length))).catch(() => {});
+}
+
+function preview(text) {
+  return text.length > NOTIFICATION_PREVIEW_LENGTH ? `${text.slice(0, NOTIFICATION_PREVIEW_LENGTH - 1)}…` : text;
+}
+
+// Newest first; the id breaks ties between posts created in the same
+// millisecond so pages never overlap or skip.
+function comparePosts(a, b) {
+  if (a.createdAt !== b.createdAt) return a.createdAt < b.createdAt ? 1 : -1;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+// Cursors are opaque to clients: the (createdAt, id) of a post, base64url
+// encoded.
+function encodeCursor(post) {
+  return Buffer.from(`${post.createdAt}|${post.id}`).toString("base64url");
+}
+
+function decodeCursor(value) {
+  if (typeof value !== "string" || !value) return null;
+  const raw = Buffer.from(value, "base64url").toString("utf8");
+  const sep = raw.lastIndexOf("|");
+  if (sep <= 0) return null;
+  const createdAt = raw.slice(0, sep);
+  const id = raw.slice(sep + 1);
+  if (!id || Number.isNaN(new Date(createdAt).getTime())) return null;
+  return { createdAt, id };
+}
+
+function visiblePosts(myId) {
+  return db.data.posts.filter((p) => canSeePost(p, myId)).sort(comparePosts);
+}
+
+function pageSize(value) {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) return DEFAULT_PAGE_SIZE;
+  return Math.min(MAX_PAGE_SIZE, Math.floor(n));
+}
+
+async function readHeader(path) {
+  const handle = await open(path, "r");
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(SNIFF_BYTES), 0, SNIFF_BYTES, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+// Moves an uploaded file into the feed folder under a name and extension
+// picked from its contents. Returns `{ media }` or `{ error }`; rejected files
+// are cleaned up by maybeUpload.
+async function saveMedia(file) {
+  const detected = sniffMedia(await readHeader(file.path));
+  if (!detected) return { error: "Only JPEG, PNG, WebP and GIF images and MP4 and WebM videos can be attached" };
+  if (detected.type === "image" && file.size > MAX_IMAGE_BYTES) return { error: "Images must be 15MB or smaller" };
+  await mkdir(feedUploadsDir, { recursive: true });
+  const name = `${randomUUID()}${detected.ext}`;
+  await rename(file.path, join(feedUploadsDir, name));
+  return { media: { type: detected.type, url: `/uploads/feed/${name}` } };
+}
+
+function parseMediaUrl(url, type) {
+  const value = String(url ?? "").trim();
+  if (!value) return { media: null };
+  if (!/^https?:\/\//i.test(value)) return { error: "Media URL must start with http:// or https://" };
+  return { media: { type: type === "video" ? "video" : "image", url: value } };
+}
+
+// Album items in display order: { uploadId } for files uploaded through
+// POST /media, or { url, type } for links. Callers have read the db.
+function parseAlbum(items, userId) {
+  if (!Array.isArray(items)) return { error: "Invalid media" };
+  if (items.length > MAX_MEDIA_PER_POST) return { error: `A post can have up to ${MAX_MEDIA_PER_POST} media items` };
+
+  const media = [];
+  const uploads = [];
+  for (const item of items) {
+    if (item?.uploadId) {
+      const upload = db.data.uploads.find(
+        (u) => u.id === String(item.uploadId) && u.userId === userId && !u.postId
+      );
+      if (!upload || uploads.includes(upload)) return { error: "An attached file is missing; upload it again" };
+      uploads.push(upload);
+      media.push({ type: upload.type, url: upload.url });
+    } else {
+      const parsed = parseMediaUrl(item?.url, item?.type);
+      if (parsed.error) return parsed;
+      if (parsed.media) media.push(parsed.media);
+    }
+  }
+  return { media, uploads };
+}
+
+async function pruneOrphanUploads(now) {
+  const stale = db.data.uploads.filter((u) => !u.postId && now - u.createdAt > ORPHAN_UPLOAD_TTL_MS);
+  if (stale.length === 0) return;
+  db.data.uploads = db.data.uploads.filter((u) => !stale.includes(u));
+  await Promise.all(stale.map((u) => deleteUploadedFile(u.url)));
+}
+
+// Parses a single multipart file field named "media". JSON bodies pass
+// straight through to the handler. Whatever the handler doesn't move into
+// place is deleted once the response is sent.
+function maybeUpload(req, res, next) {
+  if (!req.is("multipart/form-data")) return next();
+  res.on("close", () => {
+    if (req.file?.path) unlink(req.file.path).catch(() => {});
+  });
+  upload.single("media")(req, res, (err) => {
+    if (!err) return next();
+    if (err instanceof multer.MulterError && err.code === "LIMIT_FILE_SIZE") {
+      return res.status(413).json({ message: "Media must be 150MB or smaller" });
+    }
+    return res.status(400).json({ message: "Invalid upload" });
+  });
+}
+
+// Pages of the feed, newest first. Pass the previous page's nextCursor to get
+// the next one; nextCursor is null on the last page. The first page also
+// returns newestCursor for polling /new-count.
+feedRouter.get("/", requireAuth, async (req, res) => {
+  const cursorParam = req.query.cursor;
+  const cursor = cursorParam === undefined ? null : decodeCursor(String(cursorParam));
+  if (cursorParam !== undefined && !cursor) return res.status(400).json({ message: "Invalid cursor" });
+  const limit = pageSize(req.query.limit);
+
+  await db.read();
+  let posts = visiblePosts(req.user.id);
+  if (cursor) posts = posts.filter((p) => comparePosts(p, cursor) > 0);
+
+  const page = posts.slice(0, limit);
+  const nextCursor = posts.length > limit ? encodeCursor(page[page.length - 1]) : null;
+  const result = { posts: page.map((p) => publicPost(p, req.user.id)), nextCursor };
+  if (!cursor) result.newestCursor = page.length ? encodeCursor(page[0]) : null;
+  return res.json(result);
+});
+
+// How many visible posts are newer than the given post. Clients poll this to
+// offer a "new posts" banner instead of reloading the list under the reader.
+// Without `since` (an empty feed) every visible post counts as new.
+feedRouter.get("/new-count", requireAuth, async (req, res) => {
+  const sinceParam = req.query.since;
+  const since = sinceParam === undefined ? null : decodeCursor(String(sinceParam));
+  if (sinceParam !== undefined && !since) return res.status(400).json({ message: "Invalid cursor" });
+
+  await db.read();
+  const posts = visiblePosts(req.user.id);
+  const count = since ? posts.filter((p) => comparePosts(p, since) < 0).length : posts.length;
+  return res.json({ count });
+});
+
+// Uploads one album item ahead of creating the post. The returned uploadId
+// goes into the post's `media` list.
+feedRouter.post("/media", requireAuth, maybeUpload, async (req, res) => {
+  if (!req.file) return res.status(400).json({ message: "Attach a file as `media`" });
+  const { media, error } = await saveMedia(req.file);
+  if (error) return res.status(400).json({ message: error });
+
+  await db.read();
+  const now = Date.now();
+  await pruneOrphanUploads(now);
+  const record = { id: randomUUID(), userId: req.user.id, ...media, createdAt: now, postId: null };
+  db.data.uploads.push(record);
+  await db.write();
+  return res.status(201).json({ upload: { id: record.id, type: record.type, url: record.url } });
+});
+
+// Drops an upload that was removed from the composer before posting.
+feedRouter.delete("/media/:uploadId", requireAuth, async (req, res) => {
+  await db.read();
+  const record = db.data.uploads.find(
+    (u) => u.id === req.params.uploadId && u.userId === req.user.id && !u.postId
+  );
+  if (!record) return res.status(404).json({ message: "Upload not found" });
+
+  db.data.uploads = db.data.uploads.filter((u) => u !== record);
+  await db.write();
+  await deleteUploadedFile(record.url);
+  return res.json({ ok: true });
+});
+
+// Creates a post. Albums send `media` as a list (see parseAlbum); a single
+// multipart `media` file or `mediaUrl`/`mediaType` are still accepted.
+feedRouter.post("/", requireAuth, maybeUpload, async (req, res) => {
+  const body = req.body ?? {};
+  const text = String(body.text ?? "").trim();
+  if (text.length > MAX_TEXT_LENGTH) return res.status(400).json({ message: "Post is too long" });
+  const visibility = body.visibility === "public" ? "public" : "friends";
+
+  await db.read();
+  let media = [];
+  let uploads = [];
+  if (req.file) {
+    const saved = await saveMedia(req.file);
+    if (saved.error) return res.status(400).json({ message: saved.error });
+    media = [saved.media];
+  } else if (body.media !== undefined) {
+    const parsed = parseAlbum(body.media, req.user.id);
+    if (parsed.error) return res.status(400).json({ message: parsed.error });
+    ({ media, uploads } = parsed);
+  } else {
+    const parsed = parseMediaUrl(body.mediaUrl, body.mediaType);
+    if (parsed.error) return res.status(400).json({ message: parsed.error });
+    if (parsed.media) media = [parsed.media];
+  }
+  if (!text && media.length === 0) return res.status(400).json({ message: "Write something or attach media" });
+
+  const post = {
+    id: randomUUID(),
+    authorId: req.user.id,
+    text,
+    media,
+    visibility,
+    createdAt: new Date().toISOString(),
+    reactions: [],
+  };
+  for (const u of uploads) u.postId = post.id;
+  db.data.posts.push(post);
+  await db.write();
+  return res.status(201).json({ post: publicPost(post, req.user.id) });
+});
+
+// Authors can fix the text and change who sees the post. Text changes keep
+// the previous version in the post's edit history.
+feedRouter.patch("/:id", requireAuth, async (req, res) => {
+  const body = req.body ?? {};
+  const text = body.text === undefined ? undefined : String(body.text).trim();
+  if (text !== undefined && text.length > MAX_TEXT_LENGTH) {
+    return res.status(400).json({ message: "Post is too long" });
+  }
+  if (body.visibility !== undefined && !["friends", "public"].includes(body.visibility)) {
+    return res.status(400).json({ message: "Invalid visibility" });
+  }
+
+  await db.read();
+  const post = findOwnPost(req, res);
+  if (!post) return;
+
+  if (text !== undefined && text !== post.text) {
+    if (!text && mediaList(post).length === 0) return res.status(400).json({ message: "Write something or attach media" });
+    const now = new Date().toISOString();
+    post.edits ||= [];
+    post.edits.push({ text: post.text, until: now });
+    post.text = text;
+    post.editedAt = now;
+  }
+  if (body.visibility !== undefined) post.visibility = body.visibility;
+
+  await db.write();
+  return res.json({ post: publicPost(post, req.user.id) });
+});
+
+// Earlier versions of the text, newest first. `until` is when each version
+// was replaced.
+feedRouter.get("/:id/history", requireAuth, async (req, res) => {
+  await db.read();
+  const post = findVisiblePost(req, res);
+  if (!post) return;
+
+  const edits = (post.edits ?? []).slice().reverse();
+  return res.json({ edits });
+});
+
+// Authors delete their own posts; moderators can delete any post.
+feedRouter.delete("/:id", requireAuth, async (req, res) => {
+  await db.read();
+  const post = db.data.posts.find((p) => p.id === req.params.id);
+  const moderator = isModerator(req.user);
+  if (!post || (!moderator && !canSeePost(post, req.user.id))) {
+    return res.status(404).json({ message: "Post not found" });
+  }
+  if (post.authorId !== req.user.id && !moderator) {
+    return res.status(403).json({ message: "Only the author can delete this post" });
+  }
+
+  await removePost(post, post.authorId === req.user.id ? "deleted" : "removed");
+  await db.write();
+  return res.json({ ok: true });
+});
+
+// Puts the post into the moderation queue. Each person can report a post once.
+feedRouter.post("/:id/report", requireAuth, async (req, res) => {
+  const reason = String(req.body?.reason ?? "");
+  if (!REPORT_REASONS.includes(reason)) return res.status(400).json({ message: "Pick a reason" });
+  const details = String(req.body?.details ?? "").trim();
+  if (details.length > MAX_REPORT_DETAILS_LENGTH) {
+    return res.status(400).json({ message: "Details are too long" });
+  }
+
+  await db.read();
+  const post = findVisiblePost(req, res);
+  if (!post) return;
+  if (post.authorId === req.user.id) return res.status(400).json({ message: "You can't report your own post" });
+
+  const already = db.data.reports.some(
+    (r) => r.postId === post.id && r.reporterId === req.user.id && r.status === "open"
+  );
+  if (already) return res.status(409).json({ message: "You already reported this post" });
+
+  db.data.reports.push({
+    id: randomUUID(),
+    postId: post.id,
+    reporterId: req.user.id,
+    reason,
+    details,
+    status: "open",
+    createdAt: Date.now(),
+    resolvedAt: null,
+  });
+  const open = db.data.reports.filter((r) => r.postId === post.id && r.status === "open").length;
+  if (open >= AUTO_HIDE_REPORTS && !post.hiddenAt) post.hiddenAt = Date.now();
+
+  await db.write();
+  return res.status(201).json({ message: "Thanks, a moderator will review this post" });
+});
+
+// Who reacted, most recent first.
+feedRouter.get("/:id/reactions", requireAuth, async (req, res) => {
+  await db.read();
+  const post = findVisiblePost(req, res);
+  if (!post) return;
+
+  const reactions = (post.reactions ?? [])
+    .slice()
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map((r) => ({ emoji: r.emoji, user: publicAuthor(r.userId) }));
+  return res.json({ reactions });
+});
+
+// Sets or changes my reaction. Only the first reaction on a post notifies the
+// author; switching emoji doesn't.
+feedRouter.put("/:id/reaction", requireAuth, async (req, res) => {
+  const emoji = String(req.body?.emoji ?? "");
+  if (!REACTION_EMOJIS.includes(emoji)) return res.status(400).json({ message: "Unsupported reaction" });
+
+  await db.read();
+  const post = findVisiblePost(req, res);
+  if (!post) return;
+
+  post.reactions ||= [];
+  const existing = post.reactions.find((r) => r.userId === req.user.id);
+  if (existing) {
+    existing.emoji = emoji;
+  } else {
+    post.reactions.push({ userId: req.user.id, emoji, createdAt: Date.now() });
+    notify({
+      userId: post.authorId,
+      type: "post_reaction",
+      actorId: req.user.id,
+      data: { postId: post.id, emoji, preview: preview(post.text) },
+    });
+  }
+  await db.write();
+  return res.json(reactionSummary(post, req.user.id));
+});
+
+feedRouter.delete("/:id/reaction", requireAuth, async (req, res) => {
+  await db.read();
+  const post = findVisiblePost(req, res);
+  if (!post) return;
+
+  post.reactions = (post.reactions ?? []).filter((r) => r.userId !== req.user.id);
+  await db.write();
+  return res.json(reactionSummary(post, req.user.id));
+});
+
+// All comments on a post, oldest first. Replies carry the id of the top-level
+// comment they belong to in parentId.
+feedRouter.get("/:id/comments", requireAuth, async (req, res) => {
+  await db.read();
+  const post = findVisiblePost(req, res);
+  if (!post) return;
+
+  const comments = db.data.comments
+    .filter((c) => c.postId === post.id)
+    .sort((a, b) => (a.createdAt < b.createdAt ? -1 : a.createdAt > b.createdAt ? 1 : 0))
+    .map(publicComment);
+  return res.json({ comments });
+});
+
+feedRouter.post("/:id/comments", requireAuth, async (req, res) => {
+  const text = String(req.body?.text ?? "").trim();
+  if (!text) return res.status(400).json({ message: "Write a comment first" });
+  if (text.length > MAX_COMMENT_LENGTH) return res.status(400).json({ message: "Comment is too long" });
+  const parentParam = req.body?.parentId ? String(req.body.parentId) : null;
+
+  await db.read();
+  const post = findVisiblePost(req, res);
+  if (!post) return;
+
+  // Threads are one level deep: replying to a reply joins the same thread.
+  let parentId = null;
+  if (parentParam) {
+    const parent = db.data.comments.find((c) => c.id === parentParam && c.postId === post.id);
+    if (!parent) return res.status(404).json({ message: "Comment not found" });
+    parentId = parent.parentId ?? parent.id;
+  }
+
+  const comment = {
+    id: randomUUID(),
+    postId: post.id,
+    parentId,
+    authorId: req.user.id,
+    text,
+    createdAt: new Date().toISOString(),
+  };
+  db.data.comments.push(comment);
+  notify({
+    userId: post.authorId,
+    type: "post_comment",
+    actorId: req.user.id,
+    data: { postId: post.id, commentId: comment.id, preview: preview(text) },
+  });
+  await db.write();
+  return res.status(201).json({ comment: publicComment(comment) });
+});
@@ -2,6 +2,7 @@ import express from "express";
 import { db } from "../db.js";
 import { requireAuth } from "../auth.js";
 import { randomUUID } from "crypto";
+import { notify } from "../notifications.js";
 
 export const friendsRouter = express.Router();
 
@@ -14,6 +15,8 @@ function publicUser(user) {
     fullName: user.fullName,
     skill: user.skill ?? null,
     location: user.location ?? null,
+    skillLevel: user.skillLevel ?? null,
+    preferredSports: user.preferredSports ?? [],
   };
 }
 
@@ -76,6 +79,7 @@ friendsRouter.post("/request", requireAuth, async (req, res) => {
     if (existing.requesterId === myId) return res.json({ status: "pending" });
     existing.status = "accepted";
     existing.updatedAt = Date.now();
+    notify({ userId: existing.requesterId, type: "friend_accepted", actorId: myId });
     await db.write();
     return res.json({ status: "accepted" });
   }
@@ -92,6 +96,7 @@ friendsRouter.post("/request", requireAuth, async (req, res) => {
     createdAt: now,
     updatedAt: now,
   });
+  notify({ userId: targetId, type: "friend_request", actorId: myId });
   await db.write();
   return res.status(201).json({ status: "pending" });
 });
@@ -113,6 +118,7 @@ friendsRouter.post("/accept", requireAuth, async (req, res) => {
 
   existing.status = "accepted";
   existing.updatedAt = Date.now();
+  notify({ userId: existing.requesterId, type: "friend_accepted", actorId: myId });
   await db.write();
   return res.json({ status: "accepted" });
 });
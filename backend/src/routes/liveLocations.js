@@ -0,0 +1,277 @@
+import express from "express";
+import { db } from "../db.js";
+import { requireAuth } from "../auth.js";
+import { distanceMeters, parseCoords } from "../matching.js";
+import { eventEndMs, eventStartMs } from "../eventTimes.js";
+import { isCheckedIn, recordCheckIn } from "../checkIns.js";
+
+// Mounted next to eventsRouter under /api/events.
+export const liveLocationsRouter = express.Router();
+
+// Sharing opens shortly before the start and closes when the event ends.
+const SHARE_OPENS_BEFORE_MS = 30 * 60 * 1000;
+// Fixes that haven't been refreshed for this long are dropped.
+const STALE_FIX_MS = 2 * 60 * 1000;
+// Players within this distance of the venue count as arrived and stop
+// broadcasting their position.
+const ARRIVAL_RADIUS_M = 75;
+// Coarse mode snaps positions to a grid of roughly this size.
+const COARSE_GRID_M = 500;
+// Stream updates for an event are batched and pushed at most this often.
+const STREAM_COALESCE_MS = 1000;
+const STREAM_HEARTBEAT_MS = 25 * 1000;
+
+// Live positions are deliberately kept in memory only: they are short-lived
+// and never written to db.json. eventId -> Map(userId -> fix)
+const liveFixes = new Map();
+// eventId -> Set({ res, userId }) of open /live-locations/stream responses
+const subscribers = new Map();
+// eventId -> { changed: Set(userId), timer } pending pushes
+const pendingPushes = new Map();
+
+function sharingWindow(event) {
+  const start = eventStartMs(event);
+  return { opensAt: start - SHARE_OPENS_BEFORE_MS, closesAt: eventEndMs(event) };
+}
+
+function publicWindow(shareWindow) {
+  return {
+    opensAt: new Date(shareWindow.opensAt).toISOString(),
+    closesAt: new Date(shareWindow.closesAt).toISOString(),
+  };
+}
+
+function coarsen({ lat, lng }) {
+  const latStep = COARSE_GRID_M / 111_320;
+  const lngStep = COARSE_GRID_M / (111_320 * Math.max(0.01, Math.cos((lat * Math.PI) / 180)));
+  return {
+    lat: Math.round(lat / latStep) * latStep,
+    lng: Math.round(lng / lngStep) * lngStep,
+  };
+}
+
+function finiteOrNull(value) {
+  const n = Number(value);
+  return value === undefined || value === null || !Number.isFinite(n) ? null : n;
+}
+
+function pruneFixes(eventId, now) {
+  const fixes = liveFixes.get(eventId);
+  if (!fixes) return null;
+  for (const [userId, fix] of fixes) {
+    if (fix.sharingUntil <= now || (!fix.arrived && now - fix.updatedAt > STALE_FIX_MS)) {
+      fixes.delete(userId);
+      queuePush(eventId, userId);
+    }
+  }
+  if (fixes.size === 0) {
+    liveFixes.delete(eventId);
+    return null;
+  }
+  return fixes;
+}
+
+// Periodic sweep so abandoned events don't keep fixes around and stream
+// viewers see stale players disappear.
+setInterval(() => {
+  const now = Date.now();
+  for (const eventId of Array.from(liveFixes.keys())) pruneFixes(eventId, now);
+}, 15 * 1000).unref();
+
+function writeSse(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Records that a player's fix changed and schedules one push for the event.
+// Bursts of updates within the coalescing window become a single delta that
+// only carries the latest fix per player.
+function queuePush(eventId, userId) {
+  if (!subscribers.has(eventId)) return;
+  let pending = pendingPushes.get(eventId);
+  if (!pending) {
+    pending = { changed: new Set(), timer: null };
+    pendingPushes.set(eventId, pending);
+  }
+  pending.changed.add(userId);
+  if (pending.timer) return;
+  pending.timer = setTimeout(() => flushPush(eventId), STREAM_COALESCE_MS);
+}
+
+function flushPush(eventId) {
+  const pending = pendingPushes.get(eventId);
+  pendingPushes.delete(eventId);
+  const subs = subscribers.get(eventId);
+  if (!pending || !subs) return;
+
+  const fixes = liveFixes.get(eventId);
+  const removed = [];
+  const upserted = [];
+  for (const userId of pending.changed) {
+    const fix = fixes?.get(userId);
+    if (fix) upserted.push([userId, fix]);
+    else removed.push(userId);
+  }
+
+  for (const sub of subs) {
+    writeSse(sub.res, "delta", {
+      upserts: upserted.map(([userId, fix]) => publicFix(userId, fix, sub.userId)),
+      removed,
+    });
+  }
+}
+
+function findParticipantEvent(req, res) {
+  const event = db.data.events.find((e) => e.id === req.params.id);
+  if (!event) {
+    res.status(404).json({ message: "Event not found" });
+    return null;
+  }
+  if (!event.participantIds.includes(req.user.id)) {
+    res.status(403).json({ message: "Join this event to see live locations" });
+    return null;
+  }
+  return event;
+}
+
+function publicFix(userId, fix, myId) {
+  const user = db.data.users.find((u) => u.id === userId);
+  return {
+    userId,
+    username: user?.username ?? "Player",
+    lat: fix.lat,
+    lng: fix.lng,
+    accuracy: fix.accuracy,
+    heading: fix.heading,
+    speed: fix.speed,
+    mode: fix.mode,
+    arrived: fix.arrived,
+    updatedAt: new Date(fix.updatedAt).toISOString(),
+    sharingUntil: new Date(fix.sharingUntil).toISOString(),
+    isMe: userId === myId,
+  };
+}
+
+// Server-Sent Events stream: a `snapshot` on connect, then coalesced `delta`
+// messages with changed fixes and removed player ids.
+liveLocationsRouter.get("/:id/live-locations/stream", requireAuth, async (req, res) => {
+  await db.read();
+  const event = findParticipantEvent(req, res);
+  if (!event) return;
+
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+  res.write(`retry: 3000\n\n`);
+
+  const myId = req.user.id;
+  const fixes = pruneFixes(event.id, Date.now());
+  writeSse(res, "snapshot", {
+    locations: fixes ? Array.from(fixes.entries()).map(([userId, fix]) => publicFix(userId, fix, myId)) : [],
+    window: publicWindow(sharingWindow(event)),
+  });
+
+  const sub = { res, userId: myId };
+  if (!subscribers.has(event.id)) subscribers.set(event.id, new Set());
+  subscribers.get(event.id).add(sub);
+
+  const heartbeat = setInterval(() => res.write(`: ping\n\n`), STREAM_HEARTBEAT_MS);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    const subs = subscribers.get(event.id);
+    if (!subs) return;
+    subs.delete(sub);
+    if (subs.size === 0) {
+      subscribers.delete(event.id);
+      const pending = pendingPushes.get(event.id);
+      if (pending?.timer) clearTimeout(pending.timer);
+      pendingPushes.delete(event.id);
+    }
+  });
+});
+
+liveLocationsRouter.get("/:id/live-locations", requireAuth, async (req, res) => {
+  await db.read();
+  const event = findParticipantEvent(req, res);
+  if (!event) return;
+
+  const fixes = pruneFixes(event.id, Date.now());
+  const locations = fixes
+    ? Array.from(fixes.entries()).map(([userId, fix]) => publicFix(userId, fix, req.user.id))
+    : [];
+  return res.json({ locations, window: publicWindow(sharingWindow(event)) });
+});
+
+liveLocationsRouter.put("/:id/live-location", requireAuth, async (req, res) => {
+  const body = req.body ?? {};
+  const coords = parseCoords(body);
+  if (!coords) return res.status(400).json({ message: "Invalid coordinates" });
+
+  await db.read();
+  const event = findParticipantEvent(req, res);
+  if (!event) return;
+
+  const now = Date.now();
+  const shareWindow = sharingWindow(event);
+  if (now < shareWindow.opensAt) {
+    return res.status(403).json({
+      message: "Live location sharing opens 30 minutes before the start",
+      window: publicWindow(shareWindow),
+    });
+  }
+  if (now >= shareWindow.closesAt) {
+    return res.status(403).json({ message: "This event has ended", window: publicWindow(shareWindow) });
+  }
+
+  let sharingUntil = shareWindow.closesAt;
+  if (body.until !== undefined && body.until !== null) {
+    const until = new Date(String(body.until)).getTime();
+    if (Number.isNaN(until) || until <= now) return res.status(400).json({ message: "Invalid sharing end" });
+    sharingUntil = Math.min(until, shareWindow.closesAt);
+  }
+
+  const mode = body.mode === "coarse" ? "coarse" : "precise";
+  const center = parseCoords(event.locationCoords);
+  const arrived = Boolean(center) && distanceMeters(coords, center) <= ARRIVAL_RADIUS_M;
+
+  // Once someone has arrived only the venue is shown, not where they are on it.
+  const position = arrived ? center : mode === "coarse" ? coarsen(coords) : coords;
+  const fix = {
+    ...position,
+    accuracy: arrived ? null : mode === "coarse" ? COARSE_GRID_M : finiteOrNull(body.accuracy),
+    heading: arrived || mode === "coarse" ? null : finiteOrNull(body.heading),
+    speed: arrived || mode === "coarse" ? null : finiteOrNull(body.speed),
+    mode,
+    arrived,
+    updatedAt: now,
+    sharingUntil: arrived ? shareWindow.closesAt : sharingUntil,
+  };
+
+  if (!liveFixes.has(event.id)) liveFixes.set(event.id, new Map());
+  liveFixes.get(event.id).set(req.user.id, fix);
+  queuePush(event.id, req.user.id);
+
+  // Players who opted in are checked in automatically on arrival.
+  const myId = req.user.id;
+  if (arrived && body.checkIn === true && event.createdById !== myId && recordCheckIn(event, myId, "nearby", now)) {
+    await db.write();
+  }
+  return res.json({
+    location: publicFix(myId, fix, myId),
+    window: publicWindow(shareWindow),
+    checkedIn: isCheckedIn(event, myId),
+  });
+});
+
+liveLocationsRouter.delete("/:id/live-location", requireAuth, async (req, res) => {
+  const fixes = liveFixes.get(req.params.id);
+  if (fixes) {
+    fixes.delete(req.user.id);
+    if (fixes.size === 0) liveFixes.delete(req.params.id);
+    queuePush(req.params.id, req.user.id);
+  }
+  return res.json({ ok: true });
+});
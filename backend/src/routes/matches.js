@@ -0,0 +1,217 @@
+import express from "express";
+import { randomUUID } from "crypto";
+import { db } from "../db.js";
+import { requireAuth } from "../auth.js";
+import { notify } from "../notifications.js";
+import { eventStartMs } from "../eventTimes.js";
+import { applyMatchResult, publicRatings } from "../ratings.js";
+import { parseScores } from "../scores.js";
+
+export const matchesRouter = express.Router();
+
+const TEAM_SIZES = { singles: 1, doubles: 2 };
+const LIST_LIMIT = 50;
+
+function playerSummary(userId) {
+  const user = db.data.users.find((u) => u.id === userId);
+  return { id: userId, username: user?.username ?? user?.fullName ?? "Player" };
+}
+
+function teamOf(match, userId) {
+  return match.teams.findIndex((ids) => ids.includes(userId));
+}
+
+function publicMatch(match, myId) {
+  const myTeam = teamOf(match, myId);
+  const event = match.eventId ? db.data.events.find((e) => e.id === match.eventId) : null;
+  return {
+    id: match.id,
+    sport: match.sport,
+    format: match.format,
+    teams: match.teams.map((ids) => ids.map(playerSummary)),
+    scores: match.scores,
+    winner: match.winner,
+    eventId: match.eventId,
+    eventTitle: event?.title ?? null,
+    status: match.status,
+    createdBy: playerSummary(match.createdById),
+    createdAt: match.createdAt,
+    confirmedAt: match.confirmedAt ?? null,
+    myTeam: myTeam === -1 ? null : myTeam,
+    // The side that didn't record the result is the one that confirms it.
+    canConfirm: match.status === "pending" && myTeam === 1,
+    canDelete: match.createdById === myId && match.status !== "confirmed",
+    ratingChange: match.ratingChanges?.[myId] ?? null,
+  };
+}
+
+function parseIds(value) {
+  if (!Array.isArray(value)) return [];
+  return value.map((id) => String(id ?? "").trim()).filter(Boolean);
+}
+
+function findMatch(req, res) {
+  const match = db.data.matches.find((m) => m.id === req.params.id);
+  if (!match || teamOf(match, req.user.id) === -1) {
+    res.status(404).json({ message: "Match not found" });
+    return null;
+  }
+  return match;
+}
+
+function findConfirmableMatch(req, res) {
+  const match = findMatch(req, res);
+  if (!match) return null;
+  if (teamOf(match, req.user.id) !== 1) {
+    res.status(403).json({ message: "Only the opposing side can confirm a result" });
+    return null;
+  }
+  if (match.status !== "pending") {
+    res.status(409).json({ message: "This result has already been answered" });
+    return null;
+  }
+  return match;
+}
+
+// Your matches, newest first, with results waiting on you at the top.
+matchesRouter.get("/", requireAuth, async (req, res) => {
+  await db.read();
+  const myId = req.user.id;
+  const matches = db.data.matches
+    .filter((m) => teamOf(m, myId) !== -1)
+    .map((m) => publicMatch(m, myId))
+    .sort((a, b) => Number(b.canConfirm) - Number(a.canConfirm) || b.createdAt - a.createdAt)
+    .slice(0, LIST_LIMIT);
+  return res.json({ matches });
+});
+
+matchesRouter.get("/ratings", requireAuth, async (req, res) => {
+  await db.read();
+  const userId = String(req.query?.userId ?? req.user.id);
+  const user = db.data.users.find((u) => u.id === userId);
+  if (!user) return res.status(404).json({ message: "User not found" });
+  return res.json({ ratings: publicRatings(user) });
+});
+
+matchesRouter.post("/", requireAuth, async (req, res) => {
+  const body = req.body ?? {};
+  const format = String(body.format ?? "");
+  const teamSize = TEAM_SIZES[format];
+  if (!teamSize) return res.status(400).json({ message: "Format must be singles or doubles" });
+
+  const myId = req.user.id;
+  const partnerIds = parseIds(body.partnerIds);
+  const opponentIds = parseIds(body.opponentIds);
+  const teams = [[myId, ...partnerIds], opponentIds];
+  if (teams.some((ids) => ids.length !== teamSize)) {
+    return res.status(400).json({ message: `Each side needs ${teamSize} ${teamSize === 1 ? "player" : "players"}` });
+  }
+  const playerIds = teams.flat();
+  if (new Set(playerIds).size !== playerIds.length) {
+    return res.status(400).json({ message: "A player can only appear once" });
+  }
+
+  // Scores are entered from the recorder's side: [[mine, theirs], ...].
+  const parsed = parseScores(body.scores);
+  if (parsed.error) return res.status(400).json({ message: parsed.error });
+
+  await db.read();
+  if (!playerIds.every((id) => db.data.users.some((u) => u.id === id))) {
+    return res.status(404).json({ message: "User not found" });
+  }
+
+  let event = null;
+  if (body.eventId) {
+    event = db.data.events.find((e) => e.id === String(body.eventId));
+    if (!event || !event.participantIds.includes(myId)) {
+      return res.status(404).json({ message: "Event not found" });
+    }
+    if (eventStartMs(event) > Date.now()) {
+      return res.status(400).json({ message: "Results can be recorded once the event has started" });
+    }
+    if (!playerIds.every((id) => event.participantIds.includes(id))) {
+      return res.status(400).json({ message: "Everyone in the match must have taken part in the event" });
+    }
+  }
+
+  const sport = String(event?.sport || body.sport || "").trim();
+  if (!sport) return res.status(400).json({ message: "Missing sport" });
+
+  const now = Date.now();
+  const match = {
+    id: randomUUID(),
+    sport,
+    format,
+    teams,
+    scores: parsed.scores,
+    winner: parsed.winner,
+    eventId: event?.id ?? null,
+    createdById: myId,
+    status: "pending",
+    createdAt: now,
+    updatedAt: now,
+  };
+  db.data.matches.push(match);
+  for (const userId of opponentIds) {
+    notify({ userId, type: "match_recorded", actorId: myId, data: { matchId: match.id, sport } });
+  }
+  await db.write();
+
+  return res.status(201).json({ match: publicMatch(match, myId) });
+});
+
+// Confirming makes the result count towards everyone's rating.
+matchesRouter.post("/:id/confirm", requireAuth, async (req, res) => {
+  await db.read();
+  const match = findConfirmableMatch(req, res);
+  if (!match) return;
+
+  const myId = req.user.id;
+  const now = Date.now();
+  match.ratingChanges = applyMatchResult(db.data.users, match);
+  Object.assign(match, { status: "confirmed", answeredById: myId, confirmedAt: now, updatedAt: now });
+  notify({
+    userId: match.createdById,
+    type: "match_confirmed",
+    actorId: myId,
+    data: { matchId: match.id, sport: match.sport },
+  });
+  await db.write();
+
+  return res.json({ match: publicMatch(match, myId) });
+});
+
+matchesRouter.post("/:id/dispute", requireAuth, async (req, res) => {
+  await db.read();
+  const match = findConfirmableMatch(req, res);
+  if (!match) return;
+
+  const myId = req.user.id;
+  Object.assign(match, { status: "disputed", answeredById: myId, updatedAt: Date.now() });
+  notify({
+    userId: match.createdById,
+    type: "match_disputed",
+    actorId: myId,
+    data: { matchId: match.id, sport: match.sport },
+  });
+  await db.write();
+
+  return res.json({ match: publicMatch(match, myId) });
+});
+
+// Unconfirmed results can be withdrawn, e.g. to re-enter a disputed score.
+matchesRouter.delete("/:id", requireAuth, async (req, res) => {
+  await db.read();
+  const match = findMatch(req, res);
+  if (!match) return;
+  if (match.createdById !== req.user.id) {
+    return res.status(403).json({ message: "Only the player who recorded a result can remove it" });
+  }
+  if (match.status === "confirmed") {
+    return res.status(409).json({ message: "Confirmed results can't be removed" });
+  }
+
+  db.data.matches = db.data.matches.filter((m) => m.id !== match.id);
+  await db.write();
+  return res.json({ ok: true });
+});
@@ -0,0 +1,79 @@
+import express from "express";
+import { db } from "../db.js";
+import { requireAuth, requireModerator } from "../auth.js";
+import { publicAuthor, publicPost, removePost } from "./feed.js";
+
+export const moderationRouter = express.Router();
+
+function publicReport(report) {
+  return {
+    id: report.id,
+    reason: report.reason,
+    details: report.details,
+    reporter: publicAuthor(report.reporterId),
+    createdAt: new Date(report.createdAt).toISOString(),
+  };
+}
+
+function findReportedPost(req, res) {
+  const post = db.data.posts.find((p) => p.id === req.params.id);
+  if (!post) {
+    res.status(404).json({ message: "Post not found" });
+    return null;
+  }
+  return post;
+}
+
+// Posts with open reports, the longest-waiting first.
+moderationRouter.get("/queue", requireAuth, requireModerator, async (req, res) => {
+  await db.read();
+  const byPost = new Map();
+  for (const r of db.data.reports) {
+    if (r.status !== "open") continue;
+    if (!byPost.has(r.postId)) byPost.set(r.postId, []);
+    byPost.get(r.postId).push(r);
+  }
+
+  const queue = [];
+  for (const [postId, reports] of byPost) {
+    const post = db.data.posts.find((p) => p.id === postId);
+    if (!post) continue;
+    reports.sort((a, b) => a.createdAt - b.createdAt);
+    queue.push({
+      post: publicPost(post, req.user.id),
+      hidden: Boolean(post.hiddenAt),
+      reports: reports.map(publicReport),
+    });
+  }
+  // ISO timestamps sort chronologically as strings.
+  queue.sort((a, b) => (a.reports[0].createdAt < b.reports[0].createdAt ? -1 : 1));
+  return res.json({ queue });
+});
+
+// Keeps the post: closes its open reports and makes it visible again.
+moderationRouter.post("/posts/:id/dismiss", requireAuth, requireModerator, async (req, res) => {
+  await db.read();
+  const post = findReportedPost(req, res);
+  if (!post) return;
+
+  const now = Date.now();
+  for (const r of db.data.reports) {
+    if (r.postId === post.id && r.status === "open") {
+      r.status = "dismissed";
+      r.resolvedAt = now;
+    }
+  }
+  post.hiddenAt = null;
+  await db.write();
+  return res.json({ ok: true });
+});
+
+moderationRouter.post("/posts/:id/remove", requireAuth, requireModerator, async (req, res) => {
+  await db.read();
+  const post = findReportedPost(req, res);
+  if (!post) return;
+
+  await removePost(post, "removed");
+  await db.write();
+  return res.json({ ok: true });
+});
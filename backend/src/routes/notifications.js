@@ -0,0 +1,119 @@
+import express from "express";
+import { createHmac, timingSafeEqual } from "crypto";
+import { db } from "../db.js";
+import { requireAuth } from "../auth.js";
+import { notifyChatMembers } from "../chat.js";
+
+export const notificationsRouter = express.Router();
+
+function publicUser(user) {
+  return {
+    id: user.id,
+    _id: user.id,
+    email: user.email,
+    username: user.username,
+    fullName: user.fullName,
+    skill: user.skill ?? null,
+    location: user.location ?? null,
+    skillLevel: user.skillLevel ?? null,
+    preferredSports: user.preferredSports ?? [],
+  };
+}
+
+function publicNotification(n) {
+  const actor = n.actorId ? db.data.users.find((u) => u.id === n.actorId) : null;
+  return {
+    id: n.id,
+    type: n.type,
+    actor: actor ? publicUser(actor) : null,
+    data: n.data ?? {},
+    read: Boolean(n.readAt),
+    createdAt: n.createdAt,
+    updatedAt: n.updatedAt,
+  };
+}
+
+function unreadCount(userId) {
+  return db.data.notifications.filter((n) => n.userId === userId && !n.readAt).length;
+}
+
+function validStreamSignature(rawBody, signature) {
+  const secret = process.env.STREAM_API_SECRET;
+  if (!secret || !rawBody || !signature) return false;
+  const expected = createHmac("sha256", secret).update(rawBody).digest("hex");
+  const a = Buffer.from(expected);
+  const b = Buffer.from(String(signature));
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+notificationsRouter.get("/", requireAuth, async (req, res) => {
+  const myId = req.user.id;
+  const limit = Math.min(100, Math.max(1, Number(req.query?.limit ?? 50) || 50));
+  const unreadOnly = String(req.query?.unread ?? "") === "1";
+
+  await db.read();
+  const notifications = db.data.notifications
+    .filter((n) => n.userId === myId && (!unreadOnly || !n.readAt))
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, limit)
+    .map(publicNotification);
+
+  return res.json({ notifications, unreadCount: unreadCount(myId) });
+});
+
+notificationsRouter.get("/unread-count", requireAuth, async (req, res) => {
+  await db.read();
+  return res.json({ unreadCount: unreadCount(req.user.id) });
+});
+
+notificationsRouter.post("/read-all", requireAuth, async (req, res) => {
+  const myId = req.user.id;
+  await db.read();
+
+  const now = Date.now();
+  for (const n of db.data.notifications) {
+    if (n.userId === myId && !n.readAt) n.readAt = now;
+  }
+  await db.write();
+  return res.json({ unreadCount: 0 });
+});
+
+notificationsRouter.post("/:id/read", requireAuth, async (req, res) => {
+  const myId = req.user.id;
+  await db.read();
+
+  const notification = db.data.notifications.find((n) => n.id === req.params.id);
+  if (!notification || notification.userId !== myId) {
+    return res.status(404).json({ message: "Notification not found" });
+  }
+  if (!notification.readAt) {
+    notification.readAt = Date.now();
+    await db.write();
+  }
+  return res.json({ notification: publicNotification(notification), unreadCount: unreadCount(myId) });
+});
+
+// Stream Chat webhook (configure the webhook URL in the Stream dashboard to
+// point here). Requests are signed with the app's API secret.
+notificationsRouter.post("/stream-webhook", async (req, res) => {
+  if (!validStreamSignature(req.rawBody, req.get("x-signature"))) {
+    return res.status(401).json({ message: "Invalid signature" });
+  }
+
+  const payload = req.body ?? {};
+  if (payload.type !== "message.new") return res.json({ ok: true });
+
+  const senderId = String(payload.user?.id ?? payload.message?.user?.id ?? "");
+  const channelId = String(payload.channel_id ?? "");
+  if (!senderId || !channelId) return res.json({ ok: true });
+
+  const memberIds = Array.isArray(payload.members)
+    ? payload.members.map((m) => String(m?.user_id ?? m?.user?.id ?? "")).filter(Boolean)
+    : channelId.split("__");
+  const text = String(payload.message?.text ?? "").trim();
+
+  await db.read();
+  notifyChatMembers({ channelId, senderId, memberIds, text });
+  await db.write();
+  return res.json({ ok: true });
+});
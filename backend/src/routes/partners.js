@@ -1,6 +1,9 @@
 import express from "express";
 import { db } from "../db.js";
 import { requireAuth } from "../auth.js";
+import { friendIdsOf, scoreCandidate } from "../matching.js";
+import { publicRatings } from "../ratings.js";
+import { reliabilityByUser } from "../reliability.js";
 
 export const partnersRouter = express.Router();
 
@@ -13,6 +16,9 @@ function publicUser(user) {
     fullName: user.fullName,
     skill: user.skill ?? null,
     location: user.location ?? null,
+    skillLevel: user.skillLevel ?? null,
+    preferredSports: user.preferredSports ?? [],
+    ratings: publicRatings(user),
   };
 }
 
@@ -26,13 +32,25 @@ function hasRelationship(friendships, myId, otherId) {
   );
 }
 
+const SORTS = {
+  score: (a, b) => b.score - a.score,
+  sports: (a, b) => b.breakdown.sports.score - a.breakdown.sports.score || b.score - a.score,
+  skill: (a, b) => b.breakdown.skill.score - a.breakdown.skill.score || b.score - a.score,
+  distance: (a, b) =>
+    (a.breakdown.distance.meters ?? Infinity) - (b.breakdown.distance.meters ?? Infinity) || b.score - a.score,
+  mutual: (a, b) => b.breakdown.mutual.count - a.breakdown.mutual.count || b.score - a.score,
+};
+
 partnersRouter.get("/find-partner", requireAuth, async (req, res) => {
   const q = String(req.query?.q ?? "").trim().toLowerCase();
   const skill = String(req.query?.skill ?? "").trim().toLowerCase();
   const location = String(req.query?.location ?? "").trim().toLowerCase();
+  const sortKey = String(req.query?.sort ?? "score");
+  const sort = SORTS[sortKey] ?? SORTS.score;
 
   await db.read();
   const myId = req.user.id;
+  const me = db.data.users.find((u) => u.id === myId) ?? req.user;
   const friendships = db.data.friendships;
 
   let users = db.data.users.filter((u) => u.id !== myId);
@@ -45,12 +63,32 @@ partnersRouter.get("/find-partner", requireAuth, async (req, res) => {
     });
   }
   if (skill) {
-    users = users.filter((u) => String(u.skill ?? "").toLowerCase().includes(skill));
+    users = users.filter((u) => String(u.skillLevel ?? u.skill ?? "").toLowerCase().includes(skill));
   }
   if (location) {
     users = users.filter((u) => String(u.location ?? "").toLowerCase().includes(location));
   }
 
-  return res.json({ partners: users.slice(0, 50).map(publicUser) });
-});
+  const myFriendIds = friendIdsOf(friendships, myId);
+  const ranked = users
+    .map((u) => {
+      const { score, breakdown } = scoreCandidate(me, u, {
+        myFriendIds,
+        candidateFriendIds: friendIdsOf(friendships, u.id),
+      });
+      return { user: u, score, breakdown };
+    })
+    .sort(sort);
 
+  const reliability = reliabilityByUser();
+  const partners = ranked.slice(0, 50).map(({ user, score, breakdown }) => ({
+    ...publicUser(user),
+    reliability: reliability.get(user.id) ?? { percent: null, attended: 0, missed: 0 },
+    score,
+    breakdown,
+    mutual: breakdown.mutual.count,
+    distanceMeters: breakdown.distance.meters ?? undefined,
+  }));
+
+  return res.json({ partners, sort: SORTS[sortKey] ? sortKey : "score" });
+});
@@ -0,0 +1,265 @@
+import express from "express";
+import { randomUUID } from "crypto";
+import { db } from "../db.js";
+import { requireAuth } from "../auth.js";
+import { notify } from "../notifications.js";
+import { scoreTeamMatchup } from "../matching.js";
+import { MAX_TEAM_SIZE, TEAM_SPORTS, isMember, sameSport, teamCoords, teamRating } from "../teams.js";
+
+export const teamsRouter = express.Router();
+
+const MAX_NAME_LENGTH = 60;
+const OPPONENT_LIMIT = 50;
+
+function playerSummary(userId) {
+  const user = db.data.users.find((u) => u.id === userId);
+  return { id: userId, username: user?.username ?? user?.fullName ?? "Player" };
+}
+
+function publicTeam(team, myId) {
+  const member = isMember(team, myId);
+  return {
+    id: team.id,
+    name: team.name,
+    sport: team.sport,
+    captain: playerSummary(team.captainId),
+    members: team.memberIds.map(playerSummary),
+    rating: teamRating(team),
+    isCaptain: team.captainId === myId,
+    isMember: member,
+    // Who else has been asked is the team's business.
+    invites: member ? team.invites.map((i) => ({ ...playerSummary(i.userId), createdAt: i.createdAt })) : [],
+    invited: team.invites.some((i) => i.userId === myId),
+    createdAt: team.createdAt,
+  };
+}
+
+function parseName(value) {
+  return String(value ?? "").trim().slice(0, MAX_NAME_LENGTH);
+}
+
+function findTeam(req, res) {
+  const team = db.data.teams.find((t) => t.id === req.params.id);
+  if (!team) {
+    res.status(404).json({ message: "Team not found" });
+    return null;
+  }
+  return team;
+}
+
+function findCaptainedTeam(req, res) {
+  const team = findTeam(req, res);
+  if (!team) return null;
+  if (team.captainId !== req.user.id) {
+    res.status(403).json({ message: "Only the captain can change this team" });
+    return null;
+  }
+  return team;
+}
+
+// Why the player can't be invited, or null when they can.
+function inviteError(team, userId) {
+  if (!db.data.users.some((u) => u.id === userId)) return "User not found";
+  if (team.memberIds.includes(userId)) return "Already on the team";
+  if (team.invites.some((i) => i.userId === userId)) return null;
+  if (team.memberIds.length + team.invites.length >= MAX_TEAM_SIZE) {
+    return `Teams can have at most ${MAX_TEAM_SIZE} players`;
+  }
+  return null;
+}
+
+// Adds an invite and notifies the player. Returns an error message when the
+// player can't be invited.
+function invite(team, userId, invitedById, now) {
+  const error = inviteError(team, userId);
+  if (error) return error;
+  if (team.invites.some((i) => i.userId === userId)) return null;
+  team.invites.push({ userId, invitedById, createdAt: now });
+  notify({
+    userId,
+    type: "team_invite",
+    actorId: invitedById,
+    data: { teamId: team.id, teamName: team.name, sport: team.sport },
+  });
+  return null;
+}
+
+// Your teams and the invitations waiting on you.
+teamsRouter.get("/", requireAuth, async (req, res) => {
+  await db.read();
+  const myId = req.user.id;
+  const teams = db.data.teams
+    .filter((t) => isMember(t, myId))
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((t) => publicTeam(t, myId));
+  const invitations = db.data.teams
+    .filter((t) => t.invites.some((i) => i.userId === myId))
+    .map((t) => publicTeam(t, myId));
+  return res.json({ teams, invitations });
+});
+
+teamsRouter.post("/", requireAuth, async (req, res) => {
+  const name = parseName(req.body?.name);
+  const sport = TEAM_SPORTS.find((s) => sameSport(s, String(req.body?.sport ?? "")));
+  if (!name) return res.status(400).json({ message: "Give the team a name" });
+  if (!sport) return res.status(400).json({ message: `Pick one of: ${TEAM_SPORTS.join(", ")}` });
+  const inviteIds = Array.isArray(req.body?.inviteIds) ? req.body.inviteIds.map(String) : [];
+
+  await db.read();
+  const myId = req.user.id;
+  const now = Date.now();
+  const invitees = [...new Set(inviteIds)].filter((id) => id !== myId);
+  if (1 + invitees.length > MAX_TEAM_SIZE) {
+    return res.status(400).json({ message: `Teams can have at most ${MAX_TEAM_SIZE} players` });
+  }
+  const team = {
+    id: randomUUID(),
+    name,
+    sport,
+    captainId: myId,
+    memberIds: [myId],
+    invites: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  // Nobody hears about a team that ends up not being created.
+  const error = invitees.map((userId) => inviteError(team, userId)).find(Boolean);
+  if (error) return res.status(400).json({ message: error });
+  db.data.teams.push(team);
+  for (const userId of invitees) invite(team, userId, myId, now);
+  await db.write();
+  return res.status(201).json({ team: publicTeam(team, myId) });
+});
+
+teamsRouter.get("/:id", requireAuth, async (req, res) => {
+  await db.read();
+  const team = findTeam(req, res);
+  if (!team) return;
+  return res.json({ team: publicTeam(team, req.user.id) });
+});
+
+teamsRouter.patch("/:id", requireAuth, async (req, res) => {
+  const name = parseName(req.body?.name);
+  if (!name) return res.status(400).json({ message: "Give the team a name" });
+
+  await db.read();
+  const team = findCaptainedTeam(req, res);
+  if (!team) return;
+  Object.assign(team, { name, updatedAt: Date.now() });
+  await db.write();
+  return res.json({ team: publicTeam(team, req.user.id) });
+});
+
+teamsRouter.post("/:id/invites", requireAuth, async (req, res) => {
+  const userId = String(req.body?.userId ?? "").trim();
+  if (!userId) return res.status(400).json({ message: "Missing userId" });
+
+  await db.read();
+  const team = findCaptainedTeam(req, res);
+  if (!team) return;
+  const error = invite(team, userId, req.user.id, Date.now());
+  if (error) return res.status(400).json({ message: error });
+  team.updatedAt = Date.now();
+  await db.write();
+  return res.json({ team: publicTeam(team, req.user.id) });
+});
+
+// The captain takes back an invite.
+teamsRouter.delete("/:id/invites/:userId", requireAuth, async (req, res) => {
+  await db.read();
+  const team = findCaptainedTeam(req, res);
+  if (!team) return;
+  team.invites = team.invites.filter((i) => i.userId !== req.params.userId);
+  team.updatedAt = Date.now();
+  await db.write();
+  return res.json({ team: publicTeam(team, req.user.id) });
+});
+
+teamsRouter.post("/:id/accept", requireAuth, async (req, res) => {
+  await db.read();
+  const team = findTeam(req, res);
+  if (!team) return;
+  const myId = req.user.id;
+  if (!team.invites.some((i) => i.userId === myId)) {
+    return res.status(404).json({ message: "Invitation not found" });
+  }
+
+  team.invites = team.invites.filter((i) => i.userId !== myId);
+  team.memberIds.push(myId);
+  team.updatedAt = Date.now();
+  notify({
+    userId: team.captainId,
+    type: "team_joined",
+    actorId: myId,
+    data: { teamId: team.id, teamName: team.name },
+  });
+  await db.write();
+  return res.json({ team: publicTeam(team, myId) });
+});
+
+teamsRouter.post("/:id/decline", requireAuth, async (req, res) => {
+  await db.read();
+  const team = findTeam(req, res);
+  if (!team) return;
+  team.invites = team.invites.filter((i) => i.userId !== req.user.id);
+  team.updatedAt = Date.now();
+  await db.write();
+  return res.json({ ok: true });
+});
+
+// The longest-serving member takes over from a captain who leaves, and the
+// last one out disbands the team.
+teamsRouter.post("/:id/leave", requireAuth, async (req, res) => {
+  await db.read();
+  const team = findTeam(req, res);
+  if (!team) return;
+  const myId = req.user.id;
+  if (!isMember(team, myId)) return res.status(404).json({ message: "You're not on this team" });
+
+  team.memberIds = team.memberIds.filter((id) => id !== myId);
+  if (team.memberIds.length === 0) {
+    db.data.teams = db.data.teams.filter((t) => t.id !== team.id);
+  } else {
+    if (team.captainId === myId) team.captainId = team.memberIds[0];
+    team.updatedAt = Date.now();
+  }
+  await db.write();
+  return res.json({ ok: true });
+});
+
+teamsRouter.delete("/:id", requireAuth, async (req, res) => {
+  await db.read();
+  const team = findCaptainedTeam(req, res);
+  if (!team) return;
+  db.data.teams = db.data.teams.filter((t) => t.id !== team.id);
+  await db.write();
+  return res.json({ ok: true });
+});
+
+// Teams of the same sport and size to play against, best match first.
+teamsRouter.get("/:id/opponents", requireAuth, async (req, res) => {
+  await db.read();
+  const team = findTeam(req, res);
+  if (!team) return;
+  const myId = req.user.id;
+  if (!isMember(team, myId)) return res.status(403).json({ message: "Only members can look for opponents" });
+  if (team.memberIds.length < 2) {
+    return res.status(409).json({ message: "Your team needs at least 2 players first" });
+  }
+
+  const mine = { rating: teamRating(team), coords: teamCoords(team) };
+  const opponents = db.data.teams
+    .filter(
+      (t) =>
+        t.id !== team.id &&
+        sameSport(t.sport, team.sport) &&
+        t.memberIds.length === team.memberIds.length &&
+        !t.memberIds.some((id) => team.memberIds.includes(id))
+    )
+    .map((t) => ({ team: t, ...scoreTeamMatchup(mine, { rating: teamRating(t), coords: teamCoords(t) }) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, OPPONENT_LIMIT)
+    .map(({ team: t, score, breakdown }) => ({ ...publicTeam(t, myId), score, breakdown }));
+
+  return res.json({ opponents });
+});
@@ -0,0 +1,302 @@
+import express from "express";
+import { randomUUID } from "crypto";
+import { db } from "../db.js";
+import { optionalAuth, requireAuth } from "../auth.js";
+import { notify } from "../notifications.js";
+import { friendIdsOf } from "../matching.js";
+import { ratingOf } from "../ratings.js";
+import { parseScores } from "../scores.js";
+import {
+  TOURNAMENT_FORMATS,
+  buildMatches,
+  canCorrect,
+  groupStandings,
+  recordResult,
+  settle,
+} from "../brackets.js";
+
+export const tournamentsRouter = express.Router();
+
+const SEEDINGS = ["rating", "manual"];
+const MAX_GROUPS = 8;
+const MAX_NAME_LENGTH = 80;
+
+function playerSummary(userId) {
+  const user = db.data.users.find((u) => u.id === userId);
+  return { id: userId, username: user?.username ?? user?.fullName ?? "Player" };
+}
+
+function eventOf(tournament) {
+  return db.data.events.find((e) => e.id === tournament.eventId) ?? null;
+}
+
+// Brackets of public events are open to anyone with the link; the rest
+// follow the event's own visibility.
+function canView(event, myId) {
+  if (event.visibility === "public") return true;
+  if (!myId) return false;
+  if (event.createdById === myId || event.participantIds.includes(myId)) return true;
+  return friendIdsOf(db.data.friendships, myId).has(event.createdById);
+}
+
+// Registration is the event's participant list, so joining the event enters
+// the tournament. The organizer only plays when they say so.
+function registeredIds(tournament, event) {
+  const ids = event.participantIds.filter((id) => tournament.organizerPlays || id !== event.createdById);
+  if (tournament.seeding !== "rating") return ids;
+  const rating = (id) => ratingOf(db.data.users.find((u) => u.id === id), tournament.sport).rating;
+  return ids
+    .map((id, joinedAt) => ({ id, joinedAt, rating: rating(id) }))
+    .sort((a, b) => b.rating - a.rating || a.joinedAt - b.joinedAt)
+    .map((e) => e.id);
+}
+
+function publicTournament(tournament, myId) {
+  const event = eventOf(tournament);
+  const isOrganizer = tournament.createdById === myId;
+  const entrantIds = tournament.status === "registration" ? registeredIds(tournament, event) : tournament.seedIds;
+  const seedOf = new Map(entrantIds.map((id, i) => [id, i + 1]));
+  const player = (id) => (id ? { ...playerSummary(id), seed: seedOf.get(id) ?? null } : null);
+  const users = new Map(entrantIds.map((id) => [id, db.data.users.find((u) => u.id === id)]));
+
+  return {
+    id: tournament.id,
+    eventId: tournament.eventId,
+    eventTitle: event.title,
+    startsAt: event.startsAt,
+    name: tournament.name,
+    sport: tournament.sport,
+    format: tournament.format,
+    seeding: tournament.seeding,
+    groupCount: tournament.groupCount,
+    organizerPlays: tournament.organizerPlays,
+    status: tournament.status,
+    createdBy: playerSummary(tournament.createdById),
+    isOrganizer,
+    registered: Boolean(myId) && event.participantIds.includes(myId),
+    entrants: entrantIds.map((id) => ({
+      ...player(id),
+      rating: ratingOf(users.get(id), tournament.sport).rating,
+    })),
+    matches: tournament.matches.map((m) => {
+      const inMatch = m.slots.some((s) => s.playerId && s.playerId === myId);
+      return {
+        id: m.id,
+        bracket: m.bracket,
+        round: m.round,
+        position: m.position,
+        group: m.group,
+        status: m.status,
+        slots: m.slots.map((s) => ({ player: player(s.playerId), bye: s.filled && !s.playerId })),
+        scores: m.scores,
+        winnerId: m.winnerId,
+        // Players enter their own score; the organizer can also correct one
+        // until a later match has been played.
+        canReport:
+          (m.status === "ready" && (isOrganizer || inMatch)) ||
+          (m.status === "completed" && isOrganizer && canCorrect(tournament, m)),
+      };
+    }),
+    standings:
+      tournament.format === "round_robin" && tournament.status !== "registration"
+        ? groupStandings(tournament).map((rows) => rows.map((r) => ({ ...r, player: player(r.playerId) })))
+        : [],
+    winner: player(tournament.winnerId),
+  };
+}
+
+// Shared by create and update. `partial` only checks the fields present.
+function parseSettings(body, { partial = false } = {}) {
+  const has = (key) => !partial || body[key] !== undefined;
+  const fields = {};
+  if (has("format")) {
+    if (!TOURNAMENT_FORMATS.includes(body.format)) return { error: "Unknown tournament format" };
+    fields.format = body.format;
+  }
+  if (has("seeding")) {
+    const seeding = body.seeding ?? "rating";
+    if (!SEEDINGS.includes(seeding)) return { error: "Seeding must be rating or manual" };
+    fields.seeding = seeding;
+  }
+  if (has("groupCount")) {
+    const groupCount = Number(body.groupCount ?? 1);
+    if (!Number.isInteger(groupCount) || groupCount < 1 || groupCount > MAX_GROUPS) {
+      return { error: `Groups must be between 1 and ${MAX_GROUPS}` };
+    }
+    fields.groupCount = groupCount;
+  }
+  if (has("name")) fields.name = String(body.name ?? "").trim().slice(0, MAX_NAME_LENGTH);
+  if (has("organizerPlays")) fields.organizerPlays = body.organizerPlays === true;
+  return { fields };
+}
+
+function findTournament(req, res) {
+  const tournament = db.data.tournaments.find((t) => t.id === req.params.id);
+  const event = tournament ? eventOf(tournament) : null;
+  if (!tournament || !event || !canView(event, req.user?.id)) {
+    res.status(404).json({ message: "Tournament not found" });
+    return null;
+  }
+  return tournament;
+}
+
+function findOwnedTournament(req, res) {
+  const tournament = findTournament(req, res);
+  if (!tournament) return null;
+  if (tournament.createdById !== req.user.id) {
+    res.status(403).json({ message: "Only the organizer can change this tournament" });
+    return null;
+  }
+  return tournament;
+}
+
+tournamentsRouter.get("/:id", optionalAuth, async (req, res) => {
+  await db.read();
+  const tournament = findTournament(req, res);
+  if (!tournament) return;
+  return res.json({ tournament: publicTournament(tournament, req.user?.id) });
+});
+
+tournamentsRouter.post("/", requireAuth, async (req, res) => {
+  const body = req.body ?? {};
+  const parsed = parseSettings(body);
+  if (parsed.error) return res.status(400).json({ message: parsed.error });
+
+  await db.read();
+  const myId = req.user.id;
+  const event = db.data.events.find((e) => e.id === String(body.eventId ?? ""));
+  if (!event || !canView(event, myId)) return res.status(404).json({ message: "Event not found" });
+  if (event.createdById !== myId) {
+    return res.status(403).json({ message: "Only the event's creator can run a tournament" });
+  }
+  if (db.data.tournaments.some((t) => t.eventId === event.id)) {
+    return res.status(409).json({ message: "This event already has a tournament" });
+  }
+
+  const now = Date.now();
+  const tournament = {
+    id: randomUUID(),
+    eventId: event.id,
+    sport: event.sport || "",
+    ...parsed.fields,
+    name: parsed.fields.name || event.title,
+    status: "registration",
+    seedIds: [],
+    matches: [],
+    winnerId: null,
+    createdById: myId,
+    createdAt: now,
+    updatedAt: now,
+  };
+  db.data.tournaments.push(tournament);
+  await db.write();
+
+  return res.status(201).json({ tournament: publicTournament(tournament, myId) });
+});
+
+tournamentsRouter.patch("/:id", requireAuth, async (req, res) => {
+  const parsed = parseSettings(req.body ?? {}, { partial: true });
+  if (parsed.error) return res.status(400).json({ message: parsed.error });
+
+  await db.read();
+  const tournament = findOwnedTournament(req, res);
+  if (!tournament) return;
+  if (tournament.status !== "registration") {
+    return res.status(409).json({ message: "The bracket has already been drawn" });
+  }
+
+  Object.assign(tournament, parsed.fields, { updatedAt: Date.now() });
+  if (!tournament.name) tournament.name = eventOf(tournament).title;
+  await db.write();
+  return res.json({ tournament: publicTournament(tournament, req.user.id) });
+});
+
+// Closes registration and draws the bracket. With manual seeding `seedIds`
+// lists every registered player, best seed first.
+tournamentsRouter.post("/:id/start", requireAuth, async (req, res) => {
+  await db.read();
+  const tournament = findOwnedTournament(req, res);
+  if (!tournament) return;
+  if (tournament.status !== "registration") {
+    return res.status(409).json({ message: "The bracket has already been drawn" });
+  }
+
+  const registered = registeredIds(tournament, eventOf(tournament));
+  let seedIds = registered;
+  if (tournament.seeding === "manual") {
+    seedIds = Array.isArray(req.body?.seedIds) ? req.body.seedIds.map(String) : [];
+    const complete =
+      seedIds.length === registered.length &&
+      new Set(seedIds).size === seedIds.length &&
+      seedIds.every((id) => registered.includes(id));
+    if (!complete) return res.status(400).json({ message: "Put every registered player in the seeding order" });
+  }
+
+  const groupCount = tournament.format === "round_robin" ? tournament.groupCount : 1;
+  if (seedIds.length < 2 * groupCount) {
+    return res.status(400).json({
+      message: groupCount > 1 ? "Each group needs at least 2 players" : "At least 2 players need to register",
+    });
+  }
+
+  const now = Date.now();
+  Object.assign(tournament, {
+    seedIds,
+    matches: buildMatches(tournament.format, seedIds, { groupCount }),
+    status: "in_progress",
+    startedAt: now,
+    updatedAt: now,
+  });
+  settle(tournament, now);
+  for (const userId of seedIds) {
+    notify({
+      userId,
+      type: "tournament_started",
+      actorId: tournament.createdById,
+      data: { tournamentId: tournament.id, name: tournament.name },
+    });
+  }
+  await db.write();
+
+  return res.json({ tournament: publicTournament(tournament, req.user.id) });
+});
+
+// `scores` are [[first, second], ...] in the order the match lists its players.
+tournamentsRouter.post("/:id/matches/:matchId/result", requireAuth, async (req, res) => {
+  const parsed = parseScores(req.body?.scores);
+  if (parsed.error) return res.status(400).json({ message: parsed.error });
+
+  await db.read();
+  const tournament = findTournament(req, res);
+  if (!tournament) return;
+  const match = tournament.matches.find((m) => m.id === req.params.matchId);
+  if (!match) return res.status(404).json({ message: "Match not found" });
+
+  const myId = req.user.id;
+  const isOrganizer = tournament.createdById === myId;
+  if (!isOrganizer && !match.slots.some((s) => s.playerId === myId)) {
+    return res.status(403).json({ message: "Only the players or the organizer can enter this score" });
+  }
+  if (match.status === "completed") {
+    if (!isOrganizer) return res.status(409).json({ message: "This score has already been entered" });
+    if (!canCorrect(tournament, match)) {
+      return res.status(409).json({ message: "A later match has already been played" });
+    }
+  } else if (match.status !== "ready") {
+    return res.status(409).json({ message: "This match isn't ready to be played" });
+  }
+
+  recordResult(tournament, match, parsed);
+  tournament.updatedAt = Date.now();
+  await db.write();
+  return res.json({ tournament: publicTournament(tournament, myId) });
+});
+
+tournamentsRouter.delete("/:id", requireAuth, async (req, res) => {
+  await db.read();
+  const tournament = findOwnedTournament(req, res);
+  if (!tournament) return;
+  db.data.tournaments = db.data.tournaments.filter((t) => t.id !== tournament.id);
+  await db.write();
+  return res.json({ ok: true });
+});
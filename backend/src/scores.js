@@ -0,0 +1,23 @@
+// Set scores as entered for match results and tournament matches:
+// [[a, b], ...], one pair per set or game, from the first side's view.
+
+const MAX_SETS = 5;
+const MAX_SET_POINTS = 99;
+
+export function parseScores(value) {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_SETS) {
+    return { error: `Enter between 1 and ${MAX_SETS} set scores` };
+  }
+  const scores = [];
+  for (const pair of value) {
+    const [a, b] = Array.isArray(pair) ? pair.map(Number) : [];
+    const valid = (n) => Number.isInteger(n) && n >= 0 && n <= MAX_SET_POINTS;
+    if (!valid(a) || !valid(b)) return { error: "Set scores must be whole numbers" };
+    if (a === b) return { error: "A set can't end in a tie" };
+    scores.push([a, b]);
+  }
+  const won = scores.filter(([a, b]) => a > b).length;
+  const lost = scores.length - won;
+  if (won === lost) return { error: "Scores must have a winner" };
+  return { scores, winner: won > lost ? 0 : 1 };
+}
@@ -5,6 +5,21 @@ import { initDb } from "./db.js";
 import { authRouter } from "./routes/auth.js";
 import { partnersRouter } from "./routes/partners.js";
 import { friendsRouter } from "./routes/friends.js";
+import { eventsRouter } from "./routes/events.js";
+import { liveLocationsRouter } from "./routes/liveLocations.js";
+import { checkInsRouter } from "./routes/checkIns.js";
+import { notificationsRouter } from "./routes/notifications.js";
+import { calendarRouter } from "./routes/calendar.js";
+import { feedRouter, uploadsDir } from "./routes/feed.js";
+import { moderationRouter } from "./routes/moderation.js";
+import { chatRouter } from "./routes/chat.js";
+import { matchesRouter } from "./routes/matches.js";
+import { tournamentsRouter } from "./routes/tournaments.js";
+import { teamsRouter } from "./routes/teams.js";
+import { courtsRouter, bookingsRouter } from "./routes/courts.js";
+import { chatProvider } from "./chat.js";
+import { attachChatSocket } from "./chatLocal.js";
+import { setUploadHeaders } from "./media.js";
 
 const app = express();
 
@@ -17,13 +32,35 @@ app.use(
     credentials: true,
   })
 );
-app.use(express.json({ limit: "1mb" }));
+app.use(
+  express.json({
+    limit: "1mb",
+    // Webhook signatures are computed over the exact request bytes.
+    verify: (req, _res, buf) => {
+      req.rawBody = buf;
+    },
+  })
+);
 app.use(cookieParser());
 
 app.get("/health", (_req, res) => res.json({ ok: true }));
 app.use("/api/auth", authRouter);
 app.use("/api/partners", partnersRouter);
 app.use("/api/friends", friendsRouter);
+app.use("/api/events", eventsRouter);
+app.use("/api/events", liveLocationsRouter);
+app.use("/api/events", checkInsRouter);
+app.use("/api/notifications", notificationsRouter);
+app.use("/api/calendar", calendarRouter);
+app.use("/api/feed", feedRouter);
+app.use("/api/moderation", moderationRouter);
+app.use("/api/chat", chatRouter);
+app.use("/api/matches", matchesRouter);
+app.use("/api/tournaments", tournamentsRouter);
+app.use("/api/teams", teamsRouter);
+app.use("/api/courts", courtsRouter);
+app.use("/api/bookings", bookingsRouter);
+app.use("/uploads", express.static(uploadsDir, { setHeaders: setUploadHeaders }));
 
 app.use((err, _req, res, _next) => {
   void _next;
@@ -32,7 +69,9 @@ app.use((err, _req, res, _next) => {
 });
 
 await initDb();
-app.listen(port, () => {
+const server = app.listen(port, () => {
   console.log(`Backend listening on http://localhost:${port}`);
   console.log(`CORS origin: ${origin}`);
+  console.log(`Chat provider: ${chatProvider.name}`);
 });
+if (chatProvider.name === "local") attachChatSocket(server);
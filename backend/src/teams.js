@@ -0,0 +1,52 @@
+import { db } from "./db.js";
+import { parseCoords } from "./matching.js";
+import { ratingOf, sportKey } from "./ratings.js";
+
+// Persistent teams for pair and team sports. A team is `{ id, name, sport,
+// captainId, memberIds, invites: [{ userId, invitedById, createdAt }] }`;
+// invited players only become members once they accept.
+
+export const MAX_TEAM_SIZE = 12;
+
+// Same list as SPORTS_OPTIONS in the app (src/app/lib/sports.ts). Teams are
+// only formed for the pair and team sports among them.
+export const SPORTS = [
+  "Badminton",
+  "Tennis",
+  "Football",
+  "Basketball",
+  "Volleyball",
+  "Cricket",
+  "Table Tennis",
+  "Running",
+  "Swimming",
+  "Gym",
+];
+export const TEAM_SPORTS = SPORTS.filter((s) => !["Running", "Swimming", "Gym"].includes(s));
+
+export function isMember(team, userId) {
+  return Boolean(userId) && team.memberIds.includes(userId);
+}
+
+export function sameSport(a, b) {
+  return sportKey(a) === sportKey(b);
+}
+
+// A team plays at the average of its members' ratings in its sport.
+export function teamRating(team) {
+  const ratings = team.memberIds.map((id) => ratingOf(db.data.users.find((u) => u.id === id), team.sport).rating);
+  if (ratings.length === 0) return null;
+  return Math.round(ratings.reduce((sum, r) => sum + r, 0) / ratings.length);
+}
+
+// The middle of the members' saved locations, or null when nobody shared one.
+export function teamCoords(team) {
+  const coords = team.memberIds
+    .map((id) => parseCoords(db.data.users.find((u) => u.id === id)?.locationCoords))
+    .filter(Boolean);
+  if (coords.length === 0) return null;
+  return {
+    lat: coords.reduce((sum, c) => sum + c.lat, 0) / coords.length,
+    lng: coords.reduce((sum, c) => sum + c.lng, 0) / coords.length,
+  };
+}
@@ -0,0 +1,172 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { buildMatches, canCorrect, groupStandings, groupsOf, recordResult, settle } from "../src/brackets.js";
+
+const players = (n) => Array.from({ length: n }, (_, i) => `p${i + 1}`);
+
+function start(format, seedIds, groupCount = 1) {
+  const tournament = {
+    format,
+    seedIds,
+    groupCount,
+    matches: buildMatches(format, seedIds, { groupCount }),
+    status: "in_progress",
+    winnerId: null,
+  };
+  settle(tournament);
+  return tournament;
+}
+
+const playersOf = (match) => match.slots.map((s) => s.playerId);
+
+function readyMatch(tournament, a, b) {
+  const match = tournament.matches.find(
+    (m) => m.status === "ready" && playersOf(m).includes(a) && playersOf(m).includes(b)
+  );
+  assert.ok(match, `${a} and ${b} should be due to play`);
+  return match;
+}
+
+// Plays the ready match between the two, with `winner` taking it 21-15.
+function play(tournament, winner, loser) {
+  const match = readyMatch(tournament, winner, loser);
+  const side = playersOf(match).indexOf(winner);
+  recordResult(tournament, match, { scores: [side === 0 ? [21, 15] : [15, 21]], winner: side });
+  return match;
+}
+
+describe("single elimination", () => {
+  test("pairs top and bottom seeds and gives the top seeds the byes", () => {
+    const t = start("single_elimination", players(5));
+    const first = t.matches.filter((m) => m.round === 1);
+    assert.deepEqual(first.map(playersOf), [
+      ["p1", null],
+      ["p4", "p5"],
+      ["p2", null],
+      ["p3", null],
+    ]);
+    assert.deepEqual(first.map((m) => m.status), ["bye", "ready", "bye", "bye"]);
+    // The byes have already moved p1, p2 and p3 on.
+    readyMatch(t, "p2", "p3");
+  });
+
+  test("plays through to a winner", () => {
+    const t = start("single_elimination", players(4));
+    play(t, "p1", "p4");
+    play(t, "p3", "p2");
+    assert.equal(t.status, "in_progress");
+    play(t, "p3", "p1");
+    assert.equal(t.status, "completed");
+    assert.equal(t.winnerId, "p3");
+  });
+});
+
+describe("double elimination", () => {
+  function toFinal() {
+    const t = start("double_elimination", players(4));
+    play(t, "p1", "p4");
+    play(t, "p2", "p3");
+    play(t, "p3", "p4");
+    play(t, "p1", "p2");
+    play(t, "p2", "p3");
+    return t;
+  }
+
+  test("sends the losers bracket champion to the final", () => {
+    const t = toFinal();
+    const final = readyMatch(t, "p1", "p2");
+    assert.equal(final.bracket, "final");
+    assert.deepEqual(playersOf(final), ["p1", "p2"]);
+  });
+
+  test("ends without a reset when the unbeaten player wins the final", () => {
+    const t = toFinal();
+    play(t, "p1", "p2");
+    assert.equal(t.matches.find((m) => m.bracket === "final" && m.round === 2).status, "skipped");
+    assert.equal(t.status, "completed");
+    assert.equal(t.winnerId, "p1");
+  });
+
+  test("forces a reset when the losers bracket champion wins the final", () => {
+    const t = toFinal();
+    play(t, "p2", "p1");
+    assert.equal(t.status, "in_progress");
+    const reset = readyMatch(t, "p1", "p2");
+    assert.equal(reset.round, 2);
+    play(t, "p2", "p1");
+    assert.equal(t.winnerId, "p2");
+  });
+});
+
+describe("score corrections", () => {
+  test("swap who moved on while the next match is unplayed", () => {
+    const t = start("double_elimination", players(4));
+    const opener = play(t, "p1", "p4");
+    play(t, "p2", "p3");
+    assert.ok(canCorrect(t, opener));
+
+    recordResult(t, opener, { scores: [[15, 21]], winner: 1 });
+    readyMatch(t, "p4", "p2");
+    readyMatch(t, "p1", "p3");
+  });
+
+  test("are refused once a later match has been played", () => {
+    const t = start("single_elimination", players(4));
+    const opener = play(t, "p1", "p4");
+    play(t, "p2", "p3");
+    play(t, "p1", "p2");
+    assert.equal(canCorrect(t, opener), false);
+  });
+
+  test("reopen a finished tournament when the final is corrected", () => {
+    const t = start("single_elimination", players(2));
+    const final = play(t, "p1", "p2");
+    assert.equal(t.winnerId, "p1");
+    recordResult(t, final, { scores: [[15, 21]], winner: 1 });
+    assert.equal(t.status, "completed");
+    assert.equal(t.winnerId, "p2");
+  });
+});
+
+describe("round robin", () => {
+  test("splits groups in snake order", () => {
+    assert.deepEqual(groupsOf(players(8), 2), [
+      ["p1", "p4", "p5", "p8"],
+      ["p2", "p3", "p6", "p7"],
+    ]);
+  });
+
+  test("has everyone play everyone in their group once, once per round", () => {
+    const t = start("round_robin", players(5));
+    const pairs = t.matches.map((m) => playersOf(m).sort().join("-"));
+    assert.equal(pairs.length, 10);
+    assert.equal(new Set(pairs).size, 10);
+    for (const round of new Set(t.matches.map((m) => m.round))) {
+      const inRound = t.matches.filter((m) => m.round === round).flatMap(playersOf);
+      assert.equal(new Set(inRound).size, inRound.length);
+    }
+  });
+
+  test("breaks ties on points when wins and sets are level, and names the winner", () => {
+    const t = start("round_robin", players(3));
+    play(t, "p1", "p2");
+    play(t, "p2", "p3");
+    const last = readyMatch(t, "p3", "p1");
+    const side = playersOf(last).indexOf("p3");
+    const scores = [[21, 10], [10, 21], [21, 10]].map((pair) => (side === 0 ? pair : [pair[1], pair[0]]));
+    recordResult(t, last, { scores, winner: side });
+
+    // One win each and level on sets, so the points decide.
+    const [table] = groupStandings(t);
+    assert.deepEqual(
+      table.map((r) => [r.playerId, r.wins, r.setsFor - r.setsAgainst, r.pointsFor - r.pointsAgainst]),
+      [
+        ["p3", 1, 0, 5],
+        ["p2", 1, 0, 0],
+        ["p1", 1, 0, -5],
+      ]
+    );
+    assert.equal(t.status, "completed");
+    assert.equal(t.winnerId, "p3");
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { MAX_ACTIVE_BOOKINGS_PER_USER, bookingProblem, courtSlots, slotStartMs, slotTimes } from "../src/courts.js";
+
+const court = {
+  id: "court-a",
+  name: "Court A",
+  sport: "Badminton",
+  timeZone: "Europe/Berlin",
+  openingHour: 7,
+  closingHour: 22,
+  slotMinutes: 60,
+};
+const courts = [court];
+
+// 12:00 in Berlin on 19 October 2026.
+const now = Date.parse("2026-10-19T10:00:00Z");
+
+function booking(fields) {
+  return { id: "b1", courtId: "court-a", userId: "u1", date: "2026-10-19", status: "confirmed", ...fields };
+}
+
+describe("slotTimes", () => {
+  test("fills opening hours with whole slots", () => {
+    const slots = slotTimes({ ...court, openingHour: 8, closingHour: 11, slotMinutes: 90 });
+    assert.deepEqual(slots, [
+      { startTime: "08:00", endTime: "09:30" },
+      { startTime: "09:30", endTime: "11:00" },
+    ]);
+  });
+
+  test("never makes slots shorter than 15 minutes", () => {
+    assert.equal(slotTimes({ ...court, openingHour: 7, closingHour: 8, slotMinutes: 5 }).length, 4);
+  });
+});
+
+describe("slotStartMs", () => {
+  test("reads the time on the court's clock", () => {
+    assert.equal(new Date(slotStartMs(court, "2026-10-19", "18:00")).toISOString(), "2026-10-19T16:00:00.000Z");
+    assert.equal(new Date(slotStartMs(court, "2026-10-26", "18:00")).toISOString(), "2026-10-26T17:00:00.000Z");
+    const tokyo = { ...court, timeZone: "Asia/Tokyo" };
+    assert.equal(new Date(slotStartMs(tokyo, "2026-10-19", "07:00")).toISOString(), "2026-10-18T22:00:00.000Z");
+  });
+});
+
+describe("courtSlots", () => {
+  test("marks started, taken and your own slots", () => {
+    const bookings = [
+      booking({ id: "mine", startTime: "14:00" }),
+      booking({ id: "theirs", userId: "u2", startTime: "15:00" }),
+      booking({ id: "gone", userId: "u2", startTime: "16:00", status: "cancelled" }),
+    ];
+    const slots = Object.fromEntries(courtSlots(court, "2026-10-19", bookings, "u1", now).map((s) => [s.startTime, s]));
+    assert.deepEqual(slots["11:00"], {
+      startTime: "11:00",
+      endTime: "12:00",
+      available: false,
+      past: true,
+      mine: false,
+    });
+    assert.equal(slots["12:00"].past, true);
+    assert.equal(slots["13:00"].available, true);
+    assert.deepEqual(slots["14:00"], {
+      startTime: "14:00",
+      endTime: "15:00",
+      available: false,
+      past: false,
+      mine: true,
+      bookingId: "mine",
+    });
+    assert.equal(slots["15:00"].available, false);
+    assert.equal(slots["15:00"].bookingId, undefined);
+    assert.equal(slots["16:00"].available, true);
+  });
+});
+
+describe("bookingProblem", () => {
+  const ask = (fields, bookings = []) =>
+    bookingProblem(court, bookings, { userId: "u1", date: "2026-10-20", startTime: "18:00", ...fields }, courts, now);
+
+  test("lets a free future slot be booked", () => {
+    assert.equal(ask({}), null);
+  });
+
+  test("refuses a slot someone holds, but not a cancelled one", () => {
+    const taken = booking({ userId: "u2", date: "2026-10-20", startTime: "18:00" });
+    assert.equal(ask({}, [taken]).status, 409);
+    assert.equal(ask({}, [{ ...taken, status: "cancelled" }]), null);
+    assert.equal(ask({ startTime: "19:00" }, [taken]), null);
+    assert.equal(ask({ date: "2026-10-21" }, [taken]), null);
+  });
+
+  test("refuses slots that have started, by the court's clock", () => {
+    // It is 10:00 UTC, so the noon slot in Berlin is starting now.
+    assert.equal(ask({ date: "2026-10-19", startTime: "12:00" }).status, 400);
+    assert.equal(ask({ date: "2026-10-19", startTime: "13:00" }), null);
+  });
+
+  test("refuses dates past the booking window", () => {
+    assert.equal(ask({ date: "2026-11-18", startTime: "10:00" }), null);
+    assert.equal(ask({ date: "2026-11-19", startTime: "10:00" }).status, 400);
+  });
+
+  test("refuses times that aren't slots on this court", () => {
+    assert.equal(ask({ startTime: "18:30" }).status, 400);
+    assert.equal(ask({ startTime: "06:00" }).status, 400);
+    assert.equal(ask({ startTime: "25:00" }).message, "Invalid start time");
+    assert.equal(ask({ date: "2026-02-30" }).message, "Invalid date");
+  });
+
+  test("caps how many upcoming bookings one player holds", () => {
+    const held = Array.from({ length: MAX_ACTIVE_BOOKINGS_PER_USER }, (_, i) =>
+      booking({ id: `b${i}`, date: "2026-10-21", startTime: `${String(8 + i).padStart(2, "0")}:00` })
+    );
+    assert.equal(ask({}, held).status, 409);
+    // Bookings already played don't count.
+    held[0].date = "2026-10-18";
+    assert.equal(ask({}, held), null);
+  });
+});
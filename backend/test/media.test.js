@@ -0,0 +1,59 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { MEDIA_TYPES, setUploadHeaders, sniffMedia } from "../src/media.js";
+
+// A 16-byte file header starting with `parts` (bytes or latin1 text).
+function header(...parts) {
+  const bytes = Buffer.concat(parts.map((p) => (typeof p === "string" ? Buffer.from(p, "latin1") : Buffer.from(p))));
+  return Buffer.concat([bytes, Buffer.alloc(Math.max(0, 16 - bytes.length))]);
+}
+
+describe("sniffMedia", () => {
+  test("recognises the supported images and videos", () => {
+    assert.equal(sniffMedia(header([0xff, 0xd8, 0xff, 0xe0])), MEDIA_TYPES.jpeg);
+    assert.equal(sniffMedia(header([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])), MEDIA_TYPES.png);
+    assert.equal(sniffMedia(header("GIF89a")), MEDIA_TYPES.gif);
+    assert.equal(sniffMedia(header("GIF87a")), MEDIA_TYPES.gif);
+    assert.equal(sniffMedia(header("RIFF", [0x24, 0, 0, 0], "WEBPVP8 ")), MEDIA_TYPES.webp);
+    assert.equal(sniffMedia(header([0x1a, 0x45, 0xdf, 0xa3])), MEDIA_TYPES.webm);
+    assert.equal(sniffMedia(header([0, 0, 0, 0x20], "ftypisom")), MEDIA_TYPES.mp4);
+    assert.equal(sniffMedia(header([0, 0, 0, 0x14], "ftypqt  ")), MEDIA_TYPES.mp4);
+  });
+
+  test("rejects markup and other files whatever they are called", () => {
+    assert.equal(sniffMedia(header("<html><script>")), null);
+    assert.equal(sniffMedia(header("<svg xmlns=")), null);
+    assert.equal(sniffMedia(header("%PDF-1.7")), null);
+    assert.equal(sniffMedia(header("RIFF", [0x24, 0, 0, 0], "WAVEfmt ")), null);
+  });
+
+  test("rejects still images in video containers", () => {
+    assert.equal(sniffMedia(header([0, 0, 0, 0x18], "ftypheic")), null);
+    assert.equal(sniffMedia(header([0, 0, 0, 0x1c], "ftypavif")), null);
+  });
+
+  test("needs enough of the header to decide", () => {
+    assert.equal(sniffMedia(Buffer.from([0xff, 0xd8, 0xff])), null);
+    assert.equal(sniffMedia(null), null);
+  });
+});
+
+describe("setUploadHeaders", () => {
+  function headersFor(path) {
+    const headers = {};
+    setUploadHeaders({ setHeader: (name, value) => (headers[name] = value) }, path);
+    return headers;
+  }
+
+  test("serves images and videos inline without type sniffing", () => {
+    for (const path of ["/feed/a.jpg", "/feed/a.JPEG", "/feed/a.webm", "/feed/a.mov"]) {
+      assert.deepEqual(headersFor(path), { "X-Content-Type-Options": "nosniff" });
+    }
+  });
+
+  test("only offers anything else as a download", () => {
+    for (const path of ["/feed/a.html", "/feed/a.svg", "/feed/a"]) {
+      assert.deepEqual(headersFor(path), { "X-Content-Type-Options": "nosniff", "Content-Disposition": "attachment" });
+    }
+  });
+});
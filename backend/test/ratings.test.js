@@ -0,0 +1,52 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { applyMatchResult, publicRatings, ratingOf } from "../src/ratings.js";
+
+function rated(id, rating, matches) {
+  return { id, ratings: { badminton: { sport: "Badminton", rating, matches, wins: 0, losses: 0, updatedAt: 1 } } };
+}
+
+describe("ratingOf", () => {
+  test("starts from the declared skill level", () => {
+    assert.equal(ratingOf({ skillLevel: "Pro" }, "Badminton").rating, 1600);
+    assert.equal(ratingOf({ skill: "beginner" }, "Badminton").rating, 1000);
+    assert.equal(ratingOf({}, "Badminton").rating, 1200);
+  });
+
+  test("keeps a rating per sport", () => {
+    const user = rated("a", 1350, 8);
+    assert.equal(ratingOf(user, " badminton ").rating, 1350);
+    assert.equal(ratingOf(user, "Tennis").rating, 1200);
+  });
+});
+
+describe("applyMatchResult", () => {
+  test("moves new players by the provisional K factor", () => {
+    const a = { id: "a" };
+    const b = { id: "b" };
+    const changes = applyMatchResult([a, b], { sport: "Badminton", teams: [["a"], ["b"]], winner: 0 });
+    assert.deepEqual(changes, { a: { before: 1200, after: 1220 }, b: { before: 1200, after: 1180 } });
+    assert.deepEqual(publicRatings(a).map((r) => [r.rating, r.matches, r.wins, r.losses, r.provisional]), [
+      [1220, 1, 1, 0, true],
+    ]);
+  });
+
+  test("moves established players less, and a favourite less for winning", () => {
+    const favourite = rated("a", 1400, 10);
+    const underdog = rated("b", 1200, 10);
+    const changes = applyMatchResult([favourite, underdog], { sport: "Badminton", teams: [["a"], ["b"]], winner: 0 });
+    // Expected score 0.76 for a 200-point favourite: 24 * 0.24 ≈ 6.
+    assert.deepEqual(changes, { a: { before: 1400, after: 1406 }, b: { before: 1200, after: 1194 } });
+  });
+
+  test("rates doubles sides at their average", () => {
+    const users = [rated("a", 1300, 10), rated("b", 1100, 10), rated("c", 1200, 10), rated("d", 1200, 10)];
+    const changes = applyMatchResult(users, { sport: "Badminton", teams: [["a", "b"], ["c", "d"]], winner: 1 });
+    assert.deepEqual(changes, {
+      a: { before: 1300, after: 1288 },
+      b: { before: 1100, after: 1088 },
+      c: { before: 1200, after: 1212 },
+      d: { before: 1200, after: 1212 },
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { expandOccurrences, fromWall, parseRecurrence, parseTimeZone, seriesZone } from "../src/recurrence.js";
+
+function expand(startsAt, value, zone) {
+  const { rule, error } = parseRecurrence(value, new Date(startsAt), zone);
+  assert.equal(error, undefined);
+  return expandOccurrences(startsAt, rule, zone);
+}
+
+describe("parseRecurrence", () => {
+  const start = new Date("2026-10-13T16:00:00Z");
+
+  test("defaults weekly series to the first occurrence's weekday", () => {
+    assert.deepEqual(parseRecurrence({ frequency: "weekly", count: 3 }, start, "UTC").rule, {
+      frequency: "weekly",
+      weekdays: [2],
+      count: 3,
+    });
+  });
+
+  test("takes the weekday in the owner's zone", () => {
+    // 23:30 UTC on Tuesday is already Wednesday in Tokyo.
+    const late = new Date("2026-10-13T23:30:00Z");
+    assert.deepEqual(parseRecurrence({ frequency: "weekly", count: 3 }, late, "Asia/Tokyo").rule.weekdays, [3]);
+  });
+
+  test("needs exactly one of an end date and a count", () => {
+    assert.ok(parseRecurrence({ frequency: "weekly" }, start, "UTC").error);
+    assert.ok(parseRecurrence({ frequency: "weekly", count: 3, until: "2026-12-01" }, start, "UTC").error);
+  });
+
+  test("rejects bad values", () => {
+    assert.ok(parseRecurrence({ frequency: "daily", count: 3 }, start, "UTC").error);
+    assert.ok(parseRecurrence({ frequency: "weekly", count: 1 }, start, "UTC").error);
+    assert.ok(parseRecurrence({ frequency: "weekly", count: 105 }, start, "UTC").error);
+    assert.ok(parseRecurrence({ frequency: "weekly", until: "2026-10-12" }, start, "UTC").error);
+    assert.ok(parseRecurrence({ frequency: "weekly", until: "2027-12-01" }, start, "UTC").error);
+    assert.ok(parseRecurrence({ frequency: "weekly", weekdays: [9], count: 3 }, start, "UTC").error);
+  });
+});
+
+describe("expandOccurrences", () => {
+  test("keeps the wall-clock time across a daylight saving change", () => {
+    // Tuesdays at 18:00 in Berlin; clocks go back on 25 October 2026.
+    const out = expand("2026-10-13T16:00:00.000Z", { frequency: "weekly", count: 4 }, "Europe/Berlin");
+    assert.deepEqual(out, [
+      { date: "2026-10-13", startsAt: "2026-10-13T16:00:00.000Z" },
+      { date: "2026-10-20", startsAt: "2026-10-20T16:00:00.000Z" },
+      { date: "2026-10-27", startsAt: "2026-10-27T17:00:00.000Z" },
+      { date: "2026-11-03", startsAt: "2026-11-03T17:00:00.000Z" },
+    ]);
+  });
+
+  test("keeps a fixed offset for legacy series", () => {
+    const out = expand("2026-10-13T16:00:00.000Z", { frequency: "weekly", count: 3 }, -120);
+    assert.deepEqual(
+      out.map((o) => o.startsAt),
+      ["2026-10-13T16:00:00.000Z", "2026-10-20T16:00:00.000Z", "2026-10-27T16:00:00.000Z"]
+    );
+  });
+
+  test("uses the owner's date, not the UTC date", () => {
+    // Mondays at 07:00 in Sydney are Sunday evenings in UTC.
+    const out = expand("2026-10-18T20:00:00.000Z", { frequency: "weekly", count: 2 }, "Australia/Sydney");
+    assert.deepEqual(out.map((o) => o.date), ["2026-10-19", "2026-10-26"]);
+  });
+
+  test("plays several weekdays every other week", () => {
+    const out = expand("2026-10-05T09:00:00.000Z", { frequency: "biweekly", weekdays: [1, 3], count: 4 }, "UTC");
+    assert.deepEqual(out.map((o) => o.date), ["2026-10-05", "2026-10-07", "2026-10-19", "2026-10-21"]);
+  });
+
+  test("skips weekdays before the first occurrence", () => {
+    const out = expand("2026-10-07T09:00:00.000Z", { frequency: "weekly", weekdays: [1, 3], count: 3 }, "UTC");
+    assert.deepEqual(out.map((o) => o.date), ["2026-10-07", "2026-10-12", "2026-10-14"]);
+  });
+
+  test("stops on the end date, inclusive", () => {
+    const out = expand("2026-10-06T09:00:00.000Z", { frequency: "weekly", until: "2026-10-20" }, "UTC");
+    assert.deepEqual(out.map((o) => o.date), ["2026-10-06", "2026-10-13", "2026-10-20"]);
+  });
+
+  test("skips months without the day instead of clamping", () => {
+    const out = expand("2027-01-31T10:00:00.000Z", { frequency: "monthly", count: 3 }, "UTC");
+    assert.deepEqual(out.map((o) => o.date), ["2027-01-31", "2027-03-31", "2027-05-31"]);
+  });
+});
+
+describe("time zones", () => {
+  test("moves times that don't exist to after the clocks go forward", () => {
+    // 02:30 on 29 March 2026 doesn't happen in Berlin; 03:30 CEST does.
+    assert.equal(
+      new Date(fromWall(new Date("2026-03-29T02:30:00Z"), "Europe/Berlin")).toISOString(),
+      "2026-03-29T01:30:00.000Z"
+    );
+  });
+
+  test("only accepts zone names the runtime knows", () => {
+    assert.equal(parseTimeZone("Europe/Berlin"), "Europe/Berlin");
+    assert.equal(parseTimeZone("Mars/Olympus_Mons"), null);
+    assert.equal(parseTimeZone(""), null);
+  });
+
+  test("falls back from the zone name to the stored offset", () => {
+    assert.equal(seriesZone({ timeZone: "Asia/Tokyo", timezoneOffset: -540 }), "Asia/Tokyo");
+    assert.equal(seriesZone({ timezoneOffset: -540 }), -540);
+    assert.equal(seriesZone({}), 0);
+  });
+});
@@ -1,5 +1,10 @@
 import { NextResponse } from "next/server";
-import { readAvatarBytes, readAvatarMeta } from "@/lib/avatarStore";
+import {
+  avatarContentType,
+  pickAvatarVariant,
+  readAvatarBytes,
+  readAvatarMeta,
+} from "@/lib/avatarStore";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -21,19 +26,25 @@ export async function GET(req: Request, context: { params: Promise<{ userId: str
       ? "public, max-age=31536000, immutable"
       : "public, max-age=0, must-revalidate";
 
-    if (meta.url) {
-      const target = new URL(meta.url);
+    const requestedSize = Number(url.searchParams.get("size"));
+    const variant = pickAvatarVariant(
+      meta,
+      Number.isFinite(requestedSize) && requestedSize > 0 ? requestedSize : null
+    );
+
+    if (variant.url) {
+      const target = new URL(variant.url);
       const v = url.searchParams.get("v");
       if (v) target.searchParams.set("v", v);
       return NextResponse.redirect(target, { status: 307, headers: { "Cache-Control": cacheControl } });
     }
 
-    const bytes = await readAvatarBytes(meta);
+    const bytes = await readAvatarBytes(variant);
     const body = new Uint8Array(bytes);
     return new NextResponse(body, {
       status: 200,
       headers: {
-        "Content-Type": meta.contentType,
+        "Content-Type": avatarContentType(meta),
         "Content-Length": String(bytes.byteLength),
         "Cache-Control": cacheControl,
       },
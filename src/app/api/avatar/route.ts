@@ -12,19 +12,11 @@ function requestOrigin(req: Request) {
 }
 
 export async function POST(req: Request) {
+  // Stream keeps its own copy of the avatar; without Stream configured the
+  // avatar is only stored here.
   const apiKey = process.env.STREAM_API_KEY ?? process.env.NEXT_PUBLIC_STREAM_API_KEY;
   const apiSecret = process.env.STREAM_API_SECRET;
 
-  if (!apiKey) {
-    return NextResponse.json(
-      { message: "Missing STREAM_API_KEY / NEXT_PUBLIC_STREAM_API_KEY" },
-      { status: 500 }
-    );
-  }
-  if (!apiSecret) {
-    return NextResponse.json({ message: "Missing STREAM_API_SECRET" }, { status: 500 });
-  }
-
   const meRes = await fetchBackendMe(req);
   if (meRes.status === 401) {
     return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
@@ -48,11 +40,13 @@ export async function POST(req: Request) {
 
   try {
     const meta = await saveAvatar(userId, file);
-    const relative = avatarPathname(userId, meta.updatedAt);
+    const relative = avatarPathname(userId, meta.updatedAt, 128);
     const image = `${requestOrigin(req)}${relative}`;
 
-    const serverClient = StreamChat.getInstance(apiKey, apiSecret);
-    await serverClient.upsertUsers([{ id: userId, name, image }]);
+    if (apiKey && apiSecret) {
+      const serverClient = StreamChat.getInstance(apiKey, apiSecret);
+      await serverClient.upsertUsers([{ id: userId, name, image }]);
+    }
 
     return NextResponse.json({ avatarUrl: relative });
   } catch (e: unknown) {
@@ -1,12 +1,9 @@
 import { NextResponse } from "next/server";
+import { GeocoderError, reversePlace } from "@/lib/geocoder";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type NominatimReverseResult = {
-  display_name?: string;
-};
-
 export async function GET(req: Request) {
   const url = new URL(req.url);
   const lat = Number(url.searchParams.get("lat"));
@@ -16,32 +13,17 @@ export async function GET(req: Request) {
     return NextResponse.json({ message: "Missing lat/lng" }, { status: 400 });
   }
 
-  const nominatimUrl = new URL("https://nominatim.openstreetmap.org/reverse");
-  nominatimUrl.searchParams.set("lat", String(lat));
-  nominatimUrl.searchParams.set("lon", String(lng));
-  nominatimUrl.searchParams.set("format", "jsonv2");
-  nominatimUrl.searchParams.set("zoom", "14");
-
-  const res = await fetch(nominatimUrl.toString(), {
-    headers: {
-      "User-Agent": "sport-partner-finder/1.0 (local-dev)",
-      Accept: "application/json",
-    },
-    cache: "no-store",
-  });
-
-  if (!res.ok) {
-    return NextResponse.json({ message: "Reverse geocoding failed" }, { status: 502 });
+  try {
+    const { value: displayName, cacheHit } = await reversePlace(lat, lng);
+    return NextResponse.json(
+      { displayName },
+      { headers: { "X-Geocoder-Cache": cacheHit ? "hit" : "miss" } }
+    );
+  } catch (e: unknown) {
+    const status = e instanceof GeocoderError ? e.status : 502;
+    return NextResponse.json(
+      { message: status === 503 ? "Geocoding is busy, try again shortly" : "Reverse geocoding failed" },
+      { status }
+    );
   }
-
-  const raw = (await res.json()) as unknown;
-  const displayName =
-    raw && typeof raw === "object" && "display_name" in raw
-      ? (raw as NominatimReverseResult).display_name
-      : undefined;
-
-  return NextResponse.json({
-    displayName: typeof displayName === "string" ? displayName : null,
-  });
 }
-
@@ -1,14 +1,9 @@
 import { NextResponse } from "next/server";
+import { GeocoderError, searchPlaces } from "@/lib/geocoder";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
-type NominatimSearchResult = {
-  display_name?: string;
-  lat?: string;
-  lon?: string;
-};
-
 export async function GET(req: Request) {
   const url = new URL(req.url);
   const q = (url.searchParams.get("q") ?? "").trim();
@@ -16,40 +11,17 @@ export async function GET(req: Request) {
     return NextResponse.json({ results: [] });
   }
 
-  const nominatimUrl = new URL("https://nominatim.openstreetmap.org/search");
-  nominatimUrl.searchParams.set("q", q);
-  nominatimUrl.searchParams.set("format", "json");
-  nominatimUrl.searchParams.set("addressdetails", "0");
-  nominatimUrl.searchParams.set("limit", "6");
-
-  const res = await fetch(nominatimUrl.toString(), {
-    headers: {
-      "User-Agent": "sport-partner-finder/1.0 (local-dev)",
-      Accept: "application/json",
-    },
-    cache: "no-store",
-  });
-
-  if (!res.ok) {
+  try {
+    const { value: results, cacheHit } = await searchPlaces(q);
+    return NextResponse.json(
+      { results },
+      { headers: { "X-Geocoder-Cache": cacheHit ? "hit" : "miss" } }
+    );
+  } catch (e: unknown) {
+    const status = e instanceof GeocoderError ? e.status : 502;
     return NextResponse.json(
-      { message: "Geocoding provider error", results: [] },
-      { status: 502 }
+      { message: status === 503 ? "Geocoding is busy, try again shortly" : "Geocoding provider error", results: [] },
+      { status }
     );
   }
-
-  const raw = (await res.json()) as unknown;
-  const items = Array.isArray(raw) ? (raw as NominatimSearchResult[]) : [];
-
-  const results = items
-    .map((it) => {
-      const displayName = typeof it.display_name === "string" ? it.display_name : "";
-      const lat = typeof it.lat === "string" ? Number(it.lat) : NaN;
-      const lng = typeof it.lon === "string" ? Number(it.lon) : NaN;
-      if (!displayName || !Number.isFinite(lat) || !Number.isFinite(lng)) return null;
-      return { displayName, lat, lng };
-    })
-    .filter(Boolean);
-
-  return NextResponse.json({ results });
 }
-
@@ -1,23 +1,268 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { api, errorMessage } from "@/lib/apiClient";
+import { parse, type Court, type CourtBooking, type CourtSlot } from "@/lib/apiTypes";
+
+const MAX_DAYS_AHEAD = 30;
+
+function localDateString(d: Date): string {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${y}-${m}-${day}`;
+}
+
+function formatBookingDate(date: string): string {
+  const d = new Date(`${date}T00:00:00`);
+  if (Number.isNaN(d.getTime())) return date;
+  return d.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+}
+
 export default function Book() {
-  const courts = [
-    { id: 1, name: "Court A", time: "9:00 AM - 10:00 AM" },
-    { id: 2, name: "Court B", time: "10:00 AM - 11:00 AM" },
-    { id: 3, name: "Court C", time: "11:00 AM - 12:00 PM" },
-  ];
+  const today = useMemo(() => localDateString(new Date()), []);
+  const maxDate = useMemo(
+    () => localDateString(new Date(Date.now() + MAX_DAYS_AHEAD * 24 * 60 * 60 * 1000)),
+    []
+  );
+
+  const [date, setDate] = useState(today);
+  const [courts, setCourts] = useState<Court[]>([]);
+  const [slotsByCourt, setSlotsByCourt] = useState<Record<string, CourtSlot[]>>({});
+  const [bookings, setBookings] = useState<CourtBooking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const myTimeZone = useMemo(() => Intl.DateTimeFormat().resolvedOptions().timeZone, []);
+
+  const courtName = useCallback(
+    (courtId: string) => courts.find((c) => c.id === courtId)?.name ?? "Court",
+    [courts]
+  );
+
+  const loadBookings = useCallback(async () => {
+    setBookings(await api.get("/api/bookings", parse.bookings));
+  }, []);
+
+  const loadSlots = useCallback(
+    async (forCourts: Court[], forDate: string, signal?: AbortSignal) => {
+      if (forCourts.length === 0) return;
+      setSlotsLoading(true);
+      try {
+        const slotLists = await Promise.all(
+          forCourts.map((c) =>
+            api.get(`/api/courts/${encodeURIComponent(c.id)}/slots`, parse.slots, {
+              query: { date: forDate },
+              signal,
+            })
+          )
+        );
+
+        const next: Record<string, CourtSlot[]> = {};
+        forCourts.forEach((c, i) => {
+          next[c.id] = slotLists[i];
+        });
+        setSlotsByCourt(next);
+      } finally {
+        setSlotsLoading(false);
+      }
+    },
+    []
+  );
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      try {
+        const courtList = await api.get("/api/courts", parse.courts);
+        if (!mounted) return;
+        setCourts(courtList);
+        await loadBookings();
+      } catch (e: unknown) {
+        if (mounted) setError(errorMessage(e, "Failed to load courts"));
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [loadBookings]);
+
+  // Switching dates quickly cancels the slot requests for the previous day.
+  useEffect(() => {
+    const controller = new AbortController();
+    loadSlots(courts, date, controller.signal).catch((e: unknown) => {
+      const message = errorMessage(e, "Failed to load slots");
+      if (message) setError(message);
+    });
+    return () => controller.abort();
+  }, [courts, date, loadSlots]);
+
+  const book = async (court: Court, slot: CourtSlot) => {
+    if (busyKey) return;
+    const key = `${court.id}@${slot.startTime}`;
+    setBusyKey(key);
+    setError(null);
+    setNotice(null);
+    try {
+      await api.post("/api/bookings", { courtId: court.id, date, startTime: slot.startTime });
+      setNotice(`Booked ${court.name} on ${formatBookingDate(date)} at ${slot.startTime}`);
+    } catch (e: unknown) {
+      setError(errorMessage(e, "Booking failed"));
+    } finally {
+      setBusyKey(null);
+      await Promise.all([loadSlots(courts, date), loadBookings()]).catch(() => {});
+    }
+  };
+
+  const cancel = async (booking: CourtBooking) => {
+    if (busyKey) return;
+    setBusyKey(booking.id);
+    setError(null);
+    setNotice(null);
+    try {
+      await api.delete(`/api/bookings/${encodeURIComponent(booking.id)}`);
+      setNotice("Booking cancelled");
+    } catch (e: unknown) {
+      setError(errorMessage(e, "Cancel failed"));
+    } finally {
+      setBusyKey(null);
+      await Promise.all([loadSlots(courts, date), loadBookings()]).catch(() => {});
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center text-gray-600">
+        Loading…
+      </div>
+    );
+  }
 
   return (
-    <div>
-      <h2 className="text-2xl font-bold mb-4">🏟️ Book a Court</h2>
-      <div className="grid gap-4">
-        {courts.map((c) => (
-          <div key={c.id} className="p-4 bg-white shadow rounded-lg">
-            <h3 className="text-lg font-semibold">{c.name}</h3>
-            <p>🕒 {c.time}</p>
-            <button className="mt-2 px-3 py-1 bg-green-600 text-white rounded">
-              Book
-            </button>
+    <div className="min-h-full">
+      <div className="max-w-5xl mx-auto px-4 py-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Book a Court</h1>
+            <div className="text-sm text-gray-600">Pick a day and reserve a free slot.</div>
+          </div>
+          <input
+            type="date"
+            value={date}
+            min={today}
+            max={maxDate}
+            onChange={(e) => setDate(e.target.value || today)}
+            className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm outline-none ring-blue-200 focus:ring"
+          />
+        </div>
+
+        {error && (
+          <div className="mt-4 rounded-2xl bg-red-50/70 ring-1 ring-red-200/70 px-4 py-3 text-sm text-red-800 backdrop-blur">
+            {error}
+          </div>
+        )}
+        {notice && (
+          <div className="mt-4 rounded-2xl bg-emerald-50/70 ring-1 ring-emerald-200/70 px-4 py-3 text-sm text-emerald-800 backdrop-blur">
+            {notice}
+          </div>
+        )}
+
+        <div className="mt-5 grid gap-4">
+          {courts.length === 0 ? (
+            <div className="rounded-2xl bg-white/80 ring-1 ring-slate-200/70 p-4 text-sm text-gray-600">
+              No courts available.
+            </div>
+          ) : (
+            courts.map((c) => {
+              const slots = slotsByCourt[c.id] ?? [];
+              return (
+                <section
+                  key={c.id}
+                  className="rounded-2xl bg-white/80 ring-1 ring-slate-200/70 shadow-sm overflow-hidden backdrop-blur"
+                >
+                  <div className="px-4 py-3 border-b border-slate-200/70 bg-gradient-to-r from-white to-slate-50 flex items-center justify-between">
+                    <div>
+                      <div className="text-sm font-semibold text-gray-900">{c.name}</div>
+                      <div className="text-xs text-gray-600">
+                        🏅 {c.sport}
+                        {c.locationName ? ` • 📍 ${c.locationName}` : ""}
+                        {c.timeZone && c.timeZone !== myTimeZone ? ` • 🕒 ${c.timeZone} time` : ""}
+                      </div>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {slots.filter((s) => s.available).length} free
+                    </div>
+                  </div>
+                  <div className="p-4">
+                    {slotsLoading && slots.length === 0 ? (
+                      <div className="text-sm text-gray-600">Loading slots…</div>
+                    ) : (
+                      <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+                        {slots.map((s) => {
+                          const key = `${c.id}@${s.startTime}`;
+                          return (
+                            <button
+                              key={key}
+                              type="button"
+                              onClick={() => book(c, s)}
+                              disabled={!s.available || Boolean(busyKey)}
+                              title={`${s.startTime} - ${s.endTime}`}
+                              className={[
+                                "rounded-xl px-2 py-2 text-xs font-semibold ring-1 transition",
+                                s.mine
+                                  ? "bg-emerald-50 text-emerald-800 ring-emerald-200"
+                                  : s.available
+                                    ? "bg-white text-slate-900 ring-slate-200 hover:bg-blue-50 hover:ring-blue-200"
+                                    : "bg-slate-100 text-slate-400 ring-slate-100 line-through",
+                              ].join(" ")}
+                            >
+                              {busyKey === key ? "…" : s.startTime}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                </section>
+              );
+            })
+          )}
+        </div>
+
+        <section className="mt-6 rounded-2xl bg-white/80 ring-1 ring-slate-200/70 shadow-sm overflow-hidden backdrop-blur">
+          <div className="px-4 py-3 border-b border-slate-200/70 bg-gradient-to-r from-white to-slate-50 flex items-center justify-between">
+            <div className="text-sm font-semibold text-gray-900">My bookings</div>
+            <div className="text-xs text-gray-500">{bookings.length}</div>
           </div>
-        ))}
+          {bookings.length === 0 ? (
+            <div className="p-4 text-sm text-gray-600">No bookings yet.</div>
+          ) : (
+            <div className="divide-y divide-slate-100">
+              {bookings.map((b) => (
+                <div key={b.id} className="p-4 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="font-semibold text-gray-900">{courtName(b.courtId)}</div>
+                    <div className="text-xs text-gray-600">
+                      🕒 {formatBookingDate(b.date)} • {b.startTime} - {b.endTime}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => cancel(b)}
+                    disabled={Boolean(busyKey)}
+                    className="rounded-xl bg-slate-100 px-4 py-2 text-sm text-slate-900 hover:bg-slate-200 disabled:opacity-60"
+                  >
+                    {busyKey === b.id ? "Please wait…" : "Cancel"}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
       </div>
     </div>
   );
@@ -1,138 +1,54 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
-import { StreamChat } from "stream-chat";
-import {
-  Chat,
-  Channel,
-  MessageInput,
-  MessageList,
-  Thread,
-  Window,
-} from "stream-chat-react";
+import { useEffect, useState } from "react";
 import { useParams, useRouter, useSearchParams } from "next/navigation";
-import { authHeader } from "@/lib/authToken";
-import { getBackendBaseUrl } from "@/lib/backendBaseUrl";
-
-type StreamTokenResponse = {
-  apiKey: string;
-  token: string;
-  user: { id: string; name: string; image?: string };
-  channelId: string | null;
-};
+import ChatRoom from "@/components/ChatRoom";
+import { useChat } from "@/context/ChatContext";
+import { ApiError, errorMessage } from "@/lib/apiClient";
+import { openDirectChannel, type ChatChannelRef } from "@/lib/chatClient";
 
 export default function ChatPage() {
   const router = useRouter();
   const { partnerId } = useParams<{ partnerId: string }>();
   const searchParams = useSearchParams();
   const partnerName = (searchParams.get("name") ?? "Partner").toString();
-  const [chatClient, setChatClient] = useState<StreamChat | null>(null);
-  const [serverChannelId, setServerChannelId] = useState<string | null>(null);
+  const { client: chatClient, error: chatError } = useChat();
+  const [channel, setChannel] = useState<ChatChannelRef | null>(null);
   const [canMessage, setCanMessage] = useState<boolean | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    let client: StreamChat | null = null;
-    let cancelled = false;
+    const controller = new AbortController();
 
     const init = async () => {
       try {
         if (!partnerId) return;
         setError(null);
         setCanMessage(null);
-        setChatClient(null);
-        setServerChannelId(null);
-
-        const base = getBackendBaseUrl();
-        if (!base) throw new Error("Missing NEXT_PUBLIC_BACKEND_URL");
+        setChannel(null);
 
-        const statusRes = await fetch(
-          `${base}/api/friends/status?userId=${encodeURIComponent(partnerId)}`,
-          { credentials: "include", headers: authHeader(), cache: "no-store" }
-        );
-        if (statusRes.status === 401) {
-          router.push("/auth/login");
-          return;
-        }
-        if (!statusRes.ok) throw new Error("Failed to check friendship status");
-        const statusPayload = (await statusRes.json()) as { canMessage?: boolean };
-        if (!statusPayload?.canMessage) {
-          setCanMessage(false);
-          return;
-        }
+        const direct = await openDirectChannel(partnerId, { signal: controller.signal });
         setCanMessage(true);
-
-        const qs = new URLSearchParams();
-        qs.set("partnerId", partnerId);
-        qs.set("partnerName", partnerName);
-        const res = await fetch(`${base}/api/stream/token?${qs.toString()}`, {
-          cache: "no-store",
-          credentials: "include",
-          headers: authHeader(),
-        });
-
-        if (res.status === 401) {
-          router.push("/auth/login");
+        setChannel(direct);
+      } catch (e: unknown) {
+        if (e instanceof ApiError && e.status === 403) {
+          setCanMessage(false);
           return;
         }
-        if (!res.ok) {
-          const contentType = res.headers.get("content-type") ?? "";
-          if (contentType.includes("application/json")) {
-            const body = (await res.json()) as { message?: string };
-            throw new Error(body?.message || "Failed to start chat");
-          }
-          throw new Error((await res.text()) || "Failed to start chat");
-        }
-
-        const { apiKey, token, user, channelId } =
-          (await res.json()) as StreamTokenResponse;
-        if (!apiKey) throw new Error("Missing Stream API key");
-        if (!token) throw new Error("Missing Stream token");
-        if (!user?.id) throw new Error("Missing user id");
-
-        client = StreamChat.getInstance(apiKey);
-        await client.connectUser(
-          { id: user.id, name: user.name, ...(user.image ? { image: user.image } : {}) },
-          token
-        );
-
-        if (cancelled) return;
-        setChatClient(client);
-        setServerChannelId(channelId);
-      } catch (e: unknown) {
-        setError(e instanceof Error ? e.message : "Failed to start chat");
+        setError(errorMessage(e, "Failed to start chat"));
       }
     };
 
     init();
 
-    return () => {
-      cancelled = true;
-      if (client) {
-        client.disconnectUser().catch(() => {});
-      }
-    };
-  }, [router, partnerId, partnerName]);
-
-  const channel = useMemo(() => {
-    if (!chatClient) return null;
-    if (!partnerId) return null;
-    if (!chatClient.userID) return null;
-    const members = [chatClient.userID, partnerId];
-    const channelId = serverChannelId ?? members.slice().sort().join("__");
-    return chatClient.channel("messaging", channelId, { members });
-  }, [chatClient, partnerId, serverChannelId]);
-
-  useEffect(() => {
-    if (!channel) return;
-    channel.watch().catch(() => {});
-  }, [channel]);
+    return () => controller.abort();
+  }, [partnerId]);
 
-  if (error) {
+  if (error || (chatError && !chatClient)) {
     return (
       <div className="min-h-full flex items-center justify-center p-6">
         <div className="max-w-lg w-full app-card p-4 text-red-700">
-          {error}
+          {error ?? chatError}
         </div>
       </div>
     );
@@ -158,29 +74,14 @@ export default function ChatPage() {
 
   return (
     <div className="min-h-full app-container py-6">
-      <div className="app-card overflow-hidden min-h-[70vh]">
-        <Chat client={chatClient} theme="messaging light">
-          <Channel channel={channel}>
-            <Window>
-            <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-slate-200/70 bg-white/70 backdrop-blur">
-              <button
-                type="button"
-                onClick={() => router.back()}
-                className="text-sm text-gray-700 hover:underline"
-              >
-                Back
-              </button>
-              <div className="text-sm font-semibold text-gray-900 truncate">
-                {partnerName}
-              </div>
-              <div className="w-10" />
-            </div>
-            <MessageList />
-            <MessageInput focus />
-          </Window>
-          <Thread />
-        </Channel>
-        </Chat>
+      <div className="app-card overflow-hidden">
+        <ChatRoom
+          client={chatClient}
+          channel={channel}
+          title={partnerName}
+          presenceUserId={partnerId}
+          onBack={() => router.back()}
+        />
       </div>
     </div>
   );
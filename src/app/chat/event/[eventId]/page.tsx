@@ -0,0 +1,84 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import ChatRoom from "@/components/ChatRoom";
+import { useChat } from "@/context/ChatContext";
+import { api, errorMessage } from "@/lib/apiClient";
+import { parse, type EventChat } from "@/lib/apiTypes";
+import type { ChatChannelRef } from "@/lib/chatClient";
+
+// Group chat for everyone taking part in an event. The backend creates the
+// channel and keeps its members in sync with the participant list.
+export default function EventChatPage() {
+  const router = useRouter();
+  const { eventId } = useParams<{ eventId: string }>();
+  const { client: chatClient, error: chatError } = useChat();
+  const [eventChat, setEventChat] = useState<EventChat | null>(null);
+  const [channel, setChannel] = useState<ChatChannelRef | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const init = async () => {
+      try {
+        if (!eventId) return;
+        setError(null);
+        setEventChat(null);
+        setChannel(null);
+
+        const chat = await api.get(`/api/events/${encodeURIComponent(eventId)}/chat`, parse.eventChat, {
+          signal: controller.signal,
+        });
+        setEventChat(chat);
+        setChannel({ type: chat.channelType, id: chat.channelId });
+      } catch (e: unknown) {
+        const message = errorMessage(e, "Failed to open the group chat");
+        if (message) setError(message);
+      }
+    };
+
+    init();
+
+    return () => controller.abort();
+  }, [eventId]);
+
+  if (error || (chatError && !chatClient)) {
+    return (
+      <div className="min-h-full flex items-center justify-center p-6">
+        <div className="max-w-lg w-full app-card p-4 text-red-700">
+          {error ?? chatError}
+          <div className="mt-3">
+            <button type="button" onClick={() => router.push("/events")} className="btn-soft">
+              Go to events
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!chatClient || !channel || !eventChat) {
+    return (
+      <div className="min-h-full flex items-center justify-center text-gray-500">
+        Loading chat…
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-full app-container py-6">
+      <div className="app-card overflow-hidden">
+        <ChatRoom
+          client={chatClient}
+          channel={channel}
+          title={eventChat.title}
+          subtitle="Event group chat"
+          showSenderNames
+          onBack={() => router.back()}
+        />
+      </div>
+    </div>
+  );
+}
@@ -3,78 +3,57 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import UserAvatar from "@/components/UserAvatar";
-import { authHeader } from "@/lib/authToken";
-import { getBackendBaseUrl } from "@/lib/backendBaseUrl";
-import { StreamChat } from "stream-chat";
-
-type Friend = { id?: string; _id?: string; username?: string; email?: string };
-
-function toIdString(id: unknown): string {
-  return typeof id === "string" ? id : String(id ?? "");
+import { useChat } from "@/context/ChatContext";
+import { api, errorMessage } from "@/lib/apiClient";
+import { displayName, parse, userIdOf, type EventChat, type Friend } from "@/lib/apiTypes";
+import { DIRECT_CHANNEL_TYPE, directChannelId } from "@/lib/chatClient";
+
+function formatEventDate(iso: string): string {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
 }
 
-function displayName(u: Friend): string {
-  return u.username ?? u.email ?? "Friend";
-}
-
-type StreamTokenResponse = {
-  apiKey: string;
-  token: string;
-  user: { id: string; name: string; image?: string };
-  channelId: string | null;
-};
-
-type ChannelMemberLike = { user_id?: string; user?: { id?: string }; id?: string };
-type ChannelStateLike = { members?: ChannelMemberLike[] | Record<string, ChannelMemberLike> };
-type ChannelLike = { state?: ChannelStateLike; countUnread?: () => number };
-
-function memberIdsFromChannel(channel: unknown): string[] {
-  const members = (channel as ChannelLike | null | undefined)?.state?.members;
-  if (!members) return [];
-
-  const asId = (m: ChannelMemberLike | undefined) => String(m?.user_id ?? m?.user?.id ?? m?.id ?? "");
-
-  if (Array.isArray(members)) return members.map(asId).filter(Boolean);
-  if (typeof members === "object") return Object.values(members).map(asId).filter(Boolean);
-  return [];
+function UnreadBadge({ count }: { count: number }) {
+  if (count <= 0) return null;
+  return (
+    <span
+      className="min-w-6 rounded-full bg-red-600 px-2 py-1 text-[11px] font-semibold text-white text-center"
+      aria-label={`${count} unread message${count === 1 ? "" : "s"}`}
+    >
+      {count > 99 ? "99+" : count}
+    </span>
+  );
 }
 
 export default function Chat() {
   const router = useRouter();
-  const base = getBackendBaseUrl();
   const fetchedRef = useRef(false);
 
   const [friends, setFriends] = useState<Friend[]>([]);
+  const [eventChats, setEventChats] = useState<EventChat[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [streamClient, setStreamClient] = useState<StreamChat | null>(null);
+  const { client: chatClient } = useChat();
   const [unreadByFriend, setUnreadByFriend] = useState<Record<string, number>>({});
+  const [unreadByEventChat, setUnreadByEventChat] = useState<Record<string, number>>({});
 
   const refresh = useCallback(async () => {
-    if (!base) {
-      setError("Missing NEXT_PUBLIC_BACKEND_URL");
-      return;
-    }
-
     setError(null);
-    const res = await fetch(`${base}/api/friends`, {
-      credentials: "include",
-      headers: authHeader(),
-    });
-
-    if (res.status === 401) {
-      router.push("/auth/login");
-      return;
-    }
-
-    if (!res.ok) {
-      const text = (await res.text()).trim();
-      throw new Error(text || "Failed to load friends");
-    }
-
-    const data = (await res.json()) as { friends?: Friend[] };
-    setFriends(Array.isArray(data?.friends) ? data.friends : []);
-  }, [base, router]);
+    const [friendList, chatList] = await Promise.all([
+      api.get("/api/friends", parse.friends),
+      // Group chats are optional; the friend list still works without them.
+      api.get("/api/events/chats", parse.eventChats).catch(() => null),
+    ]);
+    setFriends(friendList);
+    setEventChats(chatList ?? []);
+  }, []);
 
   useEffect(() => {
     if (fetchedRef.current) return;
@@ -84,7 +63,7 @@ export default function Chat() {
       try {
         await refresh();
       } catch (err: unknown) {
-        setError(err instanceof Error ? err.message : "Failed to load friends");
+        setError(errorMessage(err, "Failed to load friends"));
       } finally {
         setLoading(false);
       }
@@ -93,101 +72,44 @@ export default function Chat() {
     run();
   }, [refresh]);
 
-  useEffect(() => {
-    if (!base) return;
-
-    let client: StreamChat | null = null;
-    let cancelled = false;
-
-    const initStream = async () => {
-      try {
-        const res = await fetch(`${base}/api/stream/token`, {
-          cache: "no-store",
-          credentials: "include",
-          headers: authHeader(),
-        });
-
-        if (res.status === 401) {
-          router.push("/auth/login");
-          return;
-        }
-
-        if (!res.ok) {
-          setStreamClient(null);
-          return;
-        }
-
-        const { apiKey, token, user } = (await res.json()) as StreamTokenResponse;
-        if (!apiKey || !token || !user?.id) {
-          setStreamClient(null);
-          return;
-        }
-
-        client = StreamChat.getInstance(apiKey);
-        await client.connectUser(
-          { id: user.id, name: user.name, ...(user.image ? { image: user.image } : {}) },
-          token
-        );
-
-        if (cancelled) return;
-        setStreamClient(client);
-      } catch {
-        setStreamClient(null);
-      }
-    };
-
-    initStream();
-
-    return () => {
-      cancelled = true;
-      if (client) client.disconnectUser().catch(() => {});
-    };
-  }, [base, router]);
-
   const refreshUnreadCounts = useCallback(async () => {
-    if (!streamClient?.userID) return;
-
-    const friendIds = friends
-      .map((f) => toIdString(f.id ?? f._id))
-      .filter((id) => id && id !== streamClient.userID);
-
-    if (friendIds.length === 0) {
-      setUnreadByFriend({});
-      return;
-    }
-
-    const channels = await streamClient.queryChannels(
-      { type: "messaging", members: { $in: friendIds } },
-      { last_message_at: -1 },
-      { watch: false, state: true, presence: false, limit: 50 }
-    );
-
-    const next: Record<string, number> = Object.fromEntries(friendIds.map((id) => [id, 0]));
+    if (!chatClient) return;
 
-    for (const channel of channels) {
-      const ids = memberIdsFromChannel(channel);
-      const other = ids.find((id) => id && id !== streamClient.userID);
-      if (!other || !(other in next)) continue;
-      const maybe = channel as unknown as ChannelLike;
-      const unread = typeof maybe.countUnread === "function" ? maybe.countUnread() : 0;
-      next[other] = Math.max(next[other] ?? 0, Number(unread) || 0);
-    }
+    const friendChannels = friends
+      .map((f) => userIdOf(f))
+      .filter((id) => id && id !== chatClient.userId)
+      .map((id) => ({ friendId: id, type: DIRECT_CHANNEL_TYPE, id: directChannelId(chatClient.userId, id) }));
+    const groupChannels = eventChats.map((c) => ({ type: c.channelType, id: c.channelId }));
 
-    setUnreadByFriend(next);
-  }, [friends, streamClient]);
+    const counts = await chatClient.unreadCounts([...friendChannels, ...groupChannels]);
+    setUnreadByFriend(Object.fromEntries(friendChannels.map((c) => [c.friendId, counts[c.id] ?? 0])));
+    setUnreadByEventChat(Object.fromEntries(groupChannels.map((c) => [c.id, counts[c.id] ?? 0])));
+  }, [chatClient, eventChats, friends]);
 
+  // Counts are re-read whenever a message arrives or a channel is read
+  // elsewhere, so the badges follow along without polling.
   useEffect(() => {
-    if (!streamClient) return;
-    if (!streamClient.userID) return;
-    if (friends.length === 0) return;
+    if (!chatClient) return;
+    if (friends.length === 0 && eventChats.length === 0) return;
 
     refreshUnreadCounts().catch(() => {});
-    const interval = setInterval(() => {
-      refreshUnreadCounts().catch(() => {});
-    }, 10000);
+    return chatClient.subscribe((event) => {
+      if (event.type === "message.new" || event.type === "channel.read") {
+        refreshUnreadCounts().catch(() => {});
+      }
+    });
+  }, [chatClient, eventChats.length, friends.length, refreshUnreadCounts]);
 
-    return () => clearInterval(interval);
-  }, [friends.length, refreshUnreadCounts, streamClient]);
+  // Being added to or dropped from an event chat, or the chat going away,
+  // changes the list itself.
+  useEffect(() => {
+    if (!chatClient) return;
+    return chatClient.subscribe((event) => {
+      if (event.type === "channel.updated" || event.type === "channel.deleted") {
+        refresh().catch(() => {});
+      }
+    });
+  }, [chatClient, refresh]);
 
   return (
     <div className="min-h-full">
@@ -195,7 +117,7 @@ export default function Chat() {
         <div className="flex items-center justify-between gap-4">
           <div>
             <h2 className="text-2xl font-bold text-gray-900">Chat</h2>
-            <p className="text-sm text-gray-600">Message accepted friends.</p>
+            <p className="text-sm text-gray-600">Message accepted friends and the players at your events.</p>
           </div>
           <button
             type="button"
@@ -239,8 +161,8 @@ export default function Chat() {
           ) : (
             <div className="divide-y divide-slate-100">
               {friends.map((f) => {
-                const id = toIdString(f.id ?? f._id);
-                const name = displayName(f);
+                const id = userIdOf(f);
+                const name = displayName(f, "Friend");
                 const unread = id ? unreadByFriend[id] ?? 0 : 0;
                 return (
                   <button
@@ -258,14 +180,7 @@ export default function Chat() {
                       <div className="text-xs text-gray-600 truncate">Tap to open chat</div>
                     </div>
                     <div className="flex items-center gap-2">
-                      {unread > 0 ? (
-                        <span
-                          className="min-w-6 rounded-full bg-red-600 px-2 py-1 text-[11px] font-semibold text-white text-center"
-                          aria-label={`${unread} unread message${unread === 1 ? "" : "s"}`}
-                        >
-                          {unread > 99 ? "99+" : unread}
-                        </span>
-                      ) : null}
+                      <UnreadBadge count={unread} />
                       <span className="rounded-xl bg-slate-100 px-3 py-1.5 text-xs text-slate-900">
                         Open
                       </span>
@@ -276,6 +191,60 @@ export default function Chat() {
             </div>
           )}
         </section>
+
+        <section className="mt-6 rounded-2xl bg-white/80 ring-1 ring-slate-200/70 shadow-sm overflow-hidden backdrop-blur">
+          <div className="px-4 py-3 border-b border-slate-200/70 bg-gradient-to-r from-white to-slate-50">
+            <div className="flex items-center justify-between">
+              <div className="text-sm font-semibold text-gray-900">Event group chats</div>
+              <div className="text-xs text-gray-500">{eventChats.length}</div>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="p-6 text-sm text-gray-600">Loading…</div>
+          ) : eventChats.length === 0 ? (
+            <div className="p-6 text-sm text-gray-600">
+              Join an event to chat with everyone who&apos;s going.
+              <div className="mt-3">
+                <button
+                  type="button"
+                  onClick={() => router.push("/events")}
+                  className="rounded-xl bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700"
+                >
+                  Browse events
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="divide-y divide-slate-100">
+              {eventChats.map((c) => (
+                <button
+                  key={c.channelId}
+                  type="button"
+                  className="w-full p-4 flex items-center gap-3 text-left hover:bg-white/60 transition"
+                  onClick={() => router.push(`/chat/event/${encodeURIComponent(c.eventId)}`)}
+                >
+                  <span className="inline-flex h-10 w-10 shrink-0 items-center justify-center rounded-full bg-blue-100 text-lg">
+                    👥
+                  </span>
+                  <div className="min-w-0 flex-1">
+                    <div className="text-sm font-semibold text-gray-900 truncate">{c.title}</div>
+                    <div className="text-xs text-gray-600 truncate">
+                      {formatEventDate(c.startsAt)}
+                      {c.owner ? " · You're the organizer" : ""}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <UnreadBadge count={unreadByEventChat[c.channelId] ?? 0} />
+                    <span className="rounded-xl bg-slate-100 px-3 py-1.5 text-xs text-slate-900">
+                      Open
+                    </span>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </section>
       </div>
     </div>
   );
@@ -2,26 +2,16 @@
 
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
-import { authHeader, setAuthToken } from "@/lib/authToken";
-import { getBackendBaseUrl } from "@/lib/backendBaseUrl";
+import { useAuth } from "@/context/AuthContext";
+import { api, errorMessage, isAbortError } from "@/lib/apiClient";
+import { parse, type GeoCoords, type GeoResult } from "@/lib/apiTypes";
+import { RETURN_TO_PARAM, safeReturnTo } from "@/lib/authRedirect";
+import { SPORTS_OPTIONS } from "@/lib/sports";
 
 interface AuthFormProps {
   mode: "login" | "signup";
 }
 
-const SPORTS_OPTIONS = [
-  "Badminton",
-  "Tennis",
-  "Football",
-  "Basketball",
-  "Volleyball",
-  "Cricket",
-  "Table Tennis",
-  "Running",
-  "Swimming",
-  "Gym",
-] as const;
-
 const SKILL_LEVEL_OPTIONS = [
   { value: "beginner", label: "Beginner" },
   { value: "intermediate", label: "Intermediate" },
@@ -31,9 +21,6 @@ const SKILL_LEVEL_OPTIONS = [
 
 type SkillLevel = (typeof SKILL_LEVEL_OPTIONS)[number]["value"];
 
-type GeoCoords = { lat: number; lng: number };
-type GeoResult = { displayName: string; lat: number; lng: number };
-
 export default function AuthForm({ mode }: AuthFormProps) {
   const [fullName, setFullName] = useState("");
   const [username, setUsername] = useState("");
@@ -55,6 +42,7 @@ export default function AuthForm({ mode }: AuthFormProps) {
   const [submitting, setSubmitting] = useState(false);
 
   const router = useRouter();
+  const { login } = useAuth();
 
   const avatarPreviewUrl = useMemo(() => {
     if (!avatarFile) return null;
@@ -88,22 +76,11 @@ export default function AuthForm({ mode }: AuthFormProps) {
     setGeoError(null);
     const controller = new AbortController();
     const t = setTimeout(() => {
-      const base = getBackendBaseUrl();
-      if (!base) {
-        setGeoResults([]);
-        setGeoError("Missing NEXT_PUBLIC_BACKEND_URL");
-        setGeoLoading(false);
-        return;
-      }
-
-      fetch(`${base}/api/geo/search?q=${encodeURIComponent(q)}`, { signal: controller.signal })
-        .then(async (r) => {
-          if (!r.ok) throw new Error("Search failed");
-          const data = (await r.json()) as { results?: GeoResult[] };
-          setGeoResults(Array.isArray(data.results) ? data.results : []);
-        })
+      api
+        .get("/api/geo/search", parse.geoResults, { query: { q }, signal: controller.signal, retries: 0 })
+        .then(setGeoResults)
         .catch((e: unknown) => {
-          if (e instanceof DOMException && e.name === "AbortError") return;
+          if (isAbortError(e)) return;
           setGeoResults([]);
           setGeoError("Could not load location suggestions");
         })
@@ -139,12 +116,9 @@ export default function AuthForm({ mode }: AuthFormProps) {
         setLocationCoords({ lat, lng });
 
         try {
-          const base = getBackendBaseUrl();
-          if (!base) throw new Error("Missing NEXT_PUBLIC_BACKEND_URL");
-          const res = await fetch(`${base}/api/geo/reverse?lat=${lat}&lng=${lng}`);
-          const data = (await res.json()) as { displayName?: string | null };
-          if (res.ok && data.displayName) {
-            setLocation(data.displayName);
+          const place = await api.get("/api/geo/reverse", parse.reverseGeocode, { query: { lat, lng } });
+          if (place) {
+            setLocation(place);
           } else if (!location.trim()) {
             setLocation("Current location");
           }
@@ -164,21 +138,9 @@ export default function AuthForm({ mode }: AuthFormProps) {
 
   const uploadAvatarIfNeeded = async () => {
     if (!avatarFile) return;
-    const base = getBackendBaseUrl();
-    if (!base) throw new Error("Missing NEXT_PUBLIC_BACKEND_URL");
     const formData = new FormData();
     formData.set("file", avatarFile);
-
-    const res = await fetch(`${base}/api/avatar`, {
-      method: "POST",
-      credentials: "include",
-      headers: authHeader(),
-      body: formData,
-    });
-    const data = (await res.json()) as { message?: string; avatarUrl?: string };
-    if (!res.ok) {
-      throw new Error(data.message || "Avatar upload failed");
-    }
+    await api.post("/api/avatar", formData);
 
     const v = Date.now();
     try {
@@ -187,7 +149,6 @@ export default function AuthForm({ mode }: AuthFormProps) {
     try {
       window.dispatchEvent(new Event("avatar"));
     } catch {}
-    void data;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -198,11 +159,6 @@ export default function AuthForm({ mode }: AuthFormProps) {
     const url = mode === "login" ? "/api/auth/login" : "/api/auth/register";
 
     try {
-      const base = getBackendBaseUrl();
-      if (!base) {
-        throw new Error("Missing NEXT_PUBLIC_BACKEND_URL (set it in Vercel env vars and redeploy)");
-      }
-
       if (mode === "signup") {
         if (!fullName.trim()) {
           setMessage({ type: "error", text: "Please enter your full name" });
@@ -241,55 +197,26 @@ export default function AuthForm({ mode }: AuthFormProps) {
               skillLevel,
             };
 
-      const res = await fetch(
-        `${base}${url}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(body),
-          credentials: "include",
-        }
-      );
-
-      if (res.ok) {
-        const data = await res.json();
-        setAuthToken((data as { token?: unknown })?.token);
-        const successText = (data?.message as string | undefined) || "Success";
-        setMessage({ type: "success", text: successText });
-
-        if (mode === "signup") {
-          try {
-            await uploadAvatarIfNeeded();
-          } catch (err: unknown) {
-            const text =
-              err instanceof Error
-                ? err.message
-                : "Registered, but profile picture upload failed";
-            setMessage({ type: "error", text });
-          }
-        }
+      // A 401 here means wrong credentials, not an expired session.
+      const result = await api.post(url, body, parse.authResult, { authExpiry: false });
+      await login(result.token);
+      setMessage({ type: "success", text: result.message || "Success" });
 
-        // Notify the Navbar (and other tabs) that auth changed:
-        try {
-          localStorage.setItem("auth", Date.now().toString());
-        } catch {}
+      if (mode === "signup") {
         try {
-          window.dispatchEvent(new Event("auth"));
-        } catch {}
-
-
-        // redirect
-        router.push("/feed");
-      } else {
-        const data = await res.json();
-        throw new Error(data.message || "Error");
+          await uploadAvatarIfNeeded();
+        } catch (err: unknown) {
+          const text = errorMessage(err, "Registered, but profile picture upload failed");
+          if (text) setMessage({ type: "error", text });
+        }
       }
+
+      // Back to the page the route guard sent us from, if any.
+      const returnTo = new URLSearchParams(window.location.search).get(RETURN_TO_PARAM);
+      router.push(safeReturnTo(returnTo) ?? "/feed");
     } catch (err: unknown) {
-      if (err instanceof Error) {
-        setMessage({ type: "error", text: err.message });
-      } else {
-        setMessage({ type: "error", text: "An unexpected error occurred" });
-      }
+      const text = errorMessage(err, "An unexpected error occurred");
+      if (text) setMessage({ type: "error", text });
     } finally {
       setSubmitting(false);
     }
@@ -0,0 +1,257 @@
+"use client";
+
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from "react";
+import { errorMessage } from "@/lib/apiClient";
+import { sameChannel, type ChatChannelRef, type ChatClient, type ChatMessage } from "@/lib/chatClient";
+
+const PAGE_SIZE = 50;
+const MAX_MESSAGE_LENGTH = 4000;
+
+type Props = {
+  client: ChatClient;
+  channel: ChatChannelRef;
+  title: string;
+  subtitle?: string;
+  // Shows an online dot for this user (the partner in a 1:1 chat).
+  presenceUserId?: string;
+  // Group chats label each message with its sender.
+  showSenderNames?: boolean;
+  onBack: () => void;
+};
+
+function formatTime(iso: string): string {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  const sameDay = d.toDateString() === new Date().toDateString();
+  return sameDay
+    ? d.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })
+    : d.toLocaleString(undefined, { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" });
+}
+
+function mergeMessages(current: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] {
+  const byId = new Map(current.map((m) => [m.id, m]));
+  for (const m of incoming) byId.set(m.id, m);
+  return Array.from(byId.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// Message list and composer for one channel, on whichever chat provider the
+// client was connected to.
+export default function ChatRoom({ client, channel, title, subtitle, presenceUserId, showSenderNames, onBack }: Props) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [online, setOnline] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Set when the channel is deleted or the user is removed from it.
+  const [closed, setClosed] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement | null>(null);
+  // Whether the list should follow new messages; off while reading history.
+  const stickToBottomRef = useRef(true);
+
+  const markRead = useCallback(() => {
+    if (document.visibilityState !== "visible") return;
+    client.markRead(channel).catch(() => {});
+  }, [channel, client]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMessages([]);
+    setLoading(true);
+    setError(null);
+    setClosed(null);
+    stickToBottomRef.current = true;
+
+    client
+      .loadMessages(channel, { limit: PAGE_SIZE })
+      .then((page) => {
+        if (cancelled) return;
+        setMessages((current) => mergeMessages(current, page));
+        setHasOlder(page.length >= PAGE_SIZE);
+        markRead();
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(errorMessage(err, "Failed to load messages"));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    const unsubscribe = client.subscribe((event) => {
+      if (event.type === "message.new" && sameChannel(event.channel, channel)) {
+        setMessages((current) => mergeMessages(current, [event.message]));
+        if (event.message.userId !== client.userId) markRead();
+      } else if (event.type === "channel.deleted" && sameChannel(event.channel, channel)) {
+        setMessages([]);
+        setClosed("This chat has been removed.");
+      } else if (event.type === "channel.updated" && !event.member && sameChannel(event.channel, channel)) {
+        setClosed("You're no longer in this chat.");
+      } else if (event.type === "presence" && event.userId === presenceUserId) {
+        setOnline(event.online);
+      }
+    });
+
+    const onVisible = () => markRead();
+    document.addEventListener("visibilitychange", onVisible);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+      document.removeEventListener("visibilitychange", onVisible);
+    };
+  }, [channel, client, markRead, presenceUserId]);
+
+  useEffect(() => {
+    if (!presenceUserId) return;
+    let cancelled = false;
+    client
+      .presence([presenceUserId])
+      .then((ids) => {
+        if (!cancelled) setOnline(ids.includes(presenceUserId));
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [client, presenceUserId]);
+
+  useLayoutEffect(() => {
+    const el = listRef.current;
+    if (el && stickToBottomRef.current) el.scrollTop = el.scrollHeight;
+  }, [messages]);
+
+  const onScroll = () => {
+    const el = listRef.current;
+    if (!el) return;
+    stickToBottomRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < 80;
+  };
+
+  const loadOlder = async () => {
+    const oldest = messages[0];
+    if (!oldest || loadingOlder) return;
+    setLoadingOlder(true);
+    try {
+      const page = await client.loadMessages(channel, { before: oldest, limit: PAGE_SIZE });
+      stickToBottomRef.current = false;
+      setMessages((current) => mergeMessages(current, page));
+      setHasOlder(page.length >= PAGE_SIZE);
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Failed to load earlier messages"));
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const send = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text || sending || closed) return;
+    setSending(true);
+    setError(null);
+    try {
+      const message = await client.sendMessage(channel, text);
+      stickToBottomRef.current = true;
+      setMessages((current) => mergeMessages(current, [message]));
+      setDraft("");
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Failed to send message"));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="flex h-[70vh] flex-col">
+      <div className="flex items-center justify-between gap-3 px-4 py-3 border-b border-slate-200/70 bg-white/70 backdrop-blur">
+        <button type="button" onClick={onBack} className="text-sm text-gray-700 hover:underline">
+          Back
+        </button>
+        <div className="min-w-0 text-center">
+          <div className="text-sm font-semibold text-gray-900 truncate">{title}</div>
+          {presenceUserId ? (
+            <div className="flex items-center justify-center gap-1 text-xs text-gray-500">
+              <span className={`h-2 w-2 rounded-full ${online ? "bg-emerald-500" : "bg-slate-300"}`} />
+              {online ? "Online" : "Offline"}
+            </div>
+          ) : subtitle ? (
+            <div className="text-xs text-gray-500">{subtitle}</div>
+          ) : null}
+        </div>
+        <div className="w-10" />
+      </div>
+
+      <div ref={listRef} onScroll={onScroll} className="flex-1 overflow-y-auto px-4 py-3 space-y-2 bg-slate-50/60">
+        {hasOlder ? (
+          <div className="text-center">
+            <button type="button" onClick={() => void loadOlder()} disabled={loadingOlder} className="btn-soft text-xs">
+              {loadingOlder ? "Loading…" : "Load earlier messages"}
+            </button>
+          </div>
+        ) : null}
+
+        {loading ? (
+          <div className="py-10 text-center text-sm text-gray-500">Loading messages…</div>
+        ) : messages.length === 0 ? (
+          <div className="py-10 text-center text-sm text-gray-500">No messages yet. Say hi!</div>
+        ) : (
+          messages.map((m) => {
+            const mine = m.userId === client.userId;
+            return (
+              <div key={m.id} className={`flex ${mine ? "justify-end" : "justify-start"}`}>
+                <div
+                  className={`max-w-[75%] rounded-2xl px-3 py-2 text-sm shadow-sm ${
+                    mine ? "bg-blue-600 text-white" : "bg-white text-gray-900 ring-1 ring-slate-200/70"
+                  }`}
+                >
+                  {showSenderNames && !mine ? (
+                    <div className="text-xs font-semibold text-blue-700">{m.userName}</div>
+                  ) : null}
+                  <div className="whitespace-pre-wrap break-words">{m.text}</div>
+                  <div className={`mt-1 text-[10px] ${mine ? "text-blue-100" : "text-gray-400"}`}>
+                    {formatTime(m.createdAt)}
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      {error ? (
+        <div className="border-t border-red-200 bg-red-50 px-4 py-2 text-sm text-red-800">{error}</div>
+      ) : null}
+
+      {closed ? (
+        <div className="flex items-center justify-between gap-3 border-t border-slate-200/70 bg-white/80 px-4 py-3 text-sm text-gray-700">
+          {closed}
+          <button type="button" onClick={onBack} className="btn-soft">
+            Back
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={send} className="flex items-end gap-2 border-t border-slate-200/70 bg-white/80 p-3">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                e.currentTarget.form?.requestSubmit();
+              }
+            }}
+            rows={1}
+            maxLength={MAX_MESSAGE_LENGTH}
+            placeholder="Write a message…"
+            className="min-h-10 flex-1 resize-none rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-200"
+            autoFocus
+          />
+          <button type="submit" disabled={sending || !draft.trim()} className="btn-primary">
+            {sending ? "Sending…" : "Send"}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -1,22 +1,15 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { authHeader } from "@/lib/authToken";
+import { api, apiFetch, ApiError, errorMessage } from "@/lib/apiClient";
+import { parse, type GeoCoords, type LiveLocation, type SharingWindow } from "@/lib/apiTypes";
 import type * as Leaflet from "leaflet";
 
-type GeoCoords = { lat: number; lng: number };
+type ShareFor = "end" | "30" | "60";
 
-type LiveLocation = {
-  userId: string;
-  username: string;
-  lat: number;
-  lng: number;
-  accuracy: number | null;
-  heading: number | null;
-  speed: number | null;
-  updatedAt: string;
-  isMe: boolean;
-};
+type LocationDelta = { upserts: LiveLocation[]; removed: string[] };
+
+type Transport = "connecting" | "stream" | "polling";
 
 type DeviceFix = {
   lat: number;
@@ -26,6 +19,17 @@ type DeviceFix = {
 };
 
 const MAX_ACCEPTABLE_ACCURACY_M = 1500;
+// Keep in sync with the backend: within this radius of the event pin a player
+// counts as arrived and sharing stops.
+const ARRIVAL_RADIUS_M = 75;
+// Approximate mode snaps positions to a grid of roughly this size before they
+// leave the device.
+const COARSE_GRID_M = 500;
+// The server sends a heartbeat every 25s; a silent stream longer than this is
+// treated as dropped.
+const STREAM_IDLE_TIMEOUT_MS = 45_000;
+const STREAM_RETRY_MIN_MS = 2_000;
+const STREAM_RETRY_MAX_MS = 60_000;
 
 type Props = {
   baseUrl: string;
@@ -34,12 +38,68 @@ type Props = {
   eventLabel?: string;
   height?: number;
   pollSeconds?: number;
+  // Called once an arrival has checked the player in.
+  onCheckedIn?: () => void;
 };
 
 function clamp(n: number, min: number, max: number) {
   return Math.min(max, Math.max(min, n));
 }
 
+function distanceMeters(a: GeoCoords, b: GeoCoords) {
+  const R = 6371000;
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+function coarsen({ lat, lng }: GeoCoords): GeoCoords {
+  const latStep = COARSE_GRID_M / 111_320;
+  const lngStep = COARSE_GRID_M / (111_320 * Math.max(0.01, Math.cos((lat * Math.PI) / 180)));
+  return { lat: Math.round(lat / latStep) * latStep, lng: Math.round(lng / lngStep) * lngStep };
+}
+
+function formatClock(iso: string | number) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+// Reads a text/event-stream body and calls onMessage for each event. Uses
+// fetch rather than EventSource so the Authorization header can be sent.
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onMessage: (event: string, data: string) => void,
+  onActivity: () => void
+) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    onActivity();
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+    let sep = buffer.indexOf("\n\n");
+    while (sep !== -1) {
+      const chunk = buffer.slice(0, sep);
+      buffer = buffer.slice(sep + 2);
+      let event = "message";
+      const data: string[] = [];
+      for (const line of chunk.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+      }
+      if (data.length) onMessage(event, data.join("\n"));
+      sep = buffer.indexOf("\n\n");
+    }
+  }
+}
+
 function safeBaseUrl(url: string) {
   return String(url || "").trim().replace(/\/+$/, "");
 }
@@ -75,6 +135,7 @@ export default function LivePlayersMap({
   eventLabel,
   height = 320,
   pollSeconds = 3,
+  onCheckedIn,
 }: Props) {
   const base = useMemo(() => safeBaseUrl(baseUrl), [baseUrl]);
 
@@ -84,6 +145,13 @@ export default function LivePlayersMap({
   const [locations, setLocations] = useState<LiveLocation[]>([]);
   const [lastSyncAt, setLastSyncAt] = useState<number | null>(null);
   const [deviceFix, setDeviceFix] = useState<DeviceFix | null>(null);
+  const [shareWindow, setShareWindow] = useState<SharingWindow | null>(null);
+  const [coarse, setCoarse] = useState(false);
+  const [autoCheckIn, setAutoCheckIn] = useState(true);
+  const [shareFor, setShareFor] = useState<ShareFor>("end");
+  const [shareUntil, setShareUntil] = useState<number | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [transport, setTransport] = useState<Transport>("connecting");
 
   const containerRef = useRef<HTMLDivElement | null>(null);
   const mapRef = useRef<Leaflet.Map | null>(null);
@@ -98,24 +166,22 @@ export default function LivePlayersMap({
   const throttleTimerRef = useRef<number | null>(null);
   const lastSentAtRef = useRef(0);
   const unmountedRef = useRef(false);
+  const coarseRef = useRef(false);
+  const autoCheckInRef = useRef(true);
+  const shareUntilRef = useRef<number | null>(null);
+  const streamingRef = useRef(false);
 
   const fetchLiveLocations = useCallback(async () => {
     if (!base || !eventId) return;
     try {
-      const res = await fetch(`${base}/api/events/${encodeURIComponent(eventId)}/live-locations`, {
-        headers: authHeader(),
-        credentials: "include",
-        cache: "no-store",
+      const data = await api.get(`/api/events/${encodeURIComponent(eventId)}/live-locations`, parse.liveLocations, {
+        retries: 0,
       });
-      if (!res.ok) {
-        const text = await res.text().catch(() => "");
-        throw new Error(text || `Failed to load live locations (${res.status})`);
-      }
-      const data = (await res.json()) as { locations?: LiveLocation[] };
-      setLocations(Array.isArray(data.locations) ? data.locations : []);
+      setLocations(data.locations);
+      if (data.window) setShareWindow(data.window);
       setLastSyncAt(Date.now());
     } catch (e) {
-      setError(e instanceof Error ? e.message : "Failed to load live locations");
+      setError(errorMessage(e, "Failed to load live locations"));
     }
   }, [base, eventId]);
 
@@ -142,6 +208,23 @@ export default function LivePlayersMap({
     }
   }, [eventCenter.lat, eventCenter.lng, locations]);
 
+  // Stops reading GPS without removing the last fix from the server (used once
+  // the player has arrived, so they keep showing up at the venue).
+  const stopWatching = useCallback(() => {
+    if (watchIdRef.current != null && typeof navigator !== "undefined" && "geolocation" in navigator) {
+      try {
+        navigator.geolocation.clearWatch(watchIdRef.current);
+      } catch {
+        // ignore
+      }
+    }
+    watchIdRef.current = null;
+    setSharing(false);
+    setShareUntil(null);
+    shareUntilRef.current = null;
+    setGpsWarning(null);
+  }, []);
+
   const flushQueued = useCallback(async () => {
     if (!base || !eventId) return;
     if (inFlightRef.current) return;
@@ -152,25 +235,28 @@ export default function LivePlayersMap({
 
     inFlightRef.current = true;
     try {
-      const res = await fetch(`${base}/api/events/${encodeURIComponent(eventId)}/live-location`, {
-        method: "PUT",
-        headers: { "Content-Type": "application/json", ...authHeader() },
-        credentials: "include",
-        body: JSON.stringify(toSend),
-      });
-      if (!res.ok) {
-        const text = await res.text().catch(() => "");
-        throw new Error(text || `Failed to update location (${res.status})`);
-      }
+      const result = await api.put(
+        `/api/events/${encodeURIComponent(eventId)}/live-location`,
+        toSend,
+        parse.liveLocation
+      );
       lastSentAtRef.current = Date.now();
-      void fetchLiveLocations(); // show me ASAP (don’t wait for the next poll)
+      if (toSend.checkIn && result.checkedIn) {
+        setNotice("You've arrived and are checked in — live location sharing stopped.");
+        onCheckedIn?.();
+      }
+      // The stream pushes our own fix back; when polling, show me ASAP instead of
+      // waiting for the next poll.
+      if (!streamingRef.current) void fetchLiveLocations();
     } catch (e) {
-      setError(e instanceof Error ? e.message : "Failed to update location");
+      // Outside the sharing window (or no longer a participant).
+      if (e instanceof ApiError && e.status === 403) stopWatching();
+      setError(errorMessage(e, "Failed to update location"));
     } finally {
       inFlightRef.current = false;
       if (queuedPayloadRef.current) void flushQueued();
     }
-  }, [base, eventId, fetchLiveLocations]);
+  }, [base, eventId, fetchLiveLocations, onCheckedIn, stopWatching]);
 
   const scheduleFlush = useCallback(() => {
     if (throttleTimerRef.current != null) return;
@@ -194,28 +280,16 @@ export default function LivePlayersMap({
   );
 
   const stopSharing = useCallback(async () => {
-    if (watchIdRef.current != null && typeof navigator !== "undefined" && "geolocation" in navigator) {
-      try {
-        navigator.geolocation.clearWatch(watchIdRef.current);
-      } catch {
-        // ignore
-      }
-    }
-    watchIdRef.current = null;
-    setSharing(false);
-    setGpsWarning(null);
+    stopWatching();
+    queuedPayloadRef.current = null;
 
     if (!base || !eventId) return;
     try {
-      await fetch(`${base}/api/events/${encodeURIComponent(eventId)}/live-location`, {
-        method: "DELETE",
-        headers: authHeader(),
-        credentials: "include",
-      });
+      await api.delete(`/api/events/${encodeURIComponent(eventId)}/live-location`);
     } catch {
       // ignore
     }
-  }, [base, eventId]);
+  }, [base, eventId, stopWatching]);
 
   const handlePosition = useCallback(
     (pos: GeolocationPosition) => {
@@ -239,24 +313,53 @@ export default function LivePlayersMap({
       }
 
       setGpsWarning(null);
+      const until = shareUntilRef.current ? new Date(shareUntilRef.current).toISOString() : undefined;
+      const mode = coarseRef.current ? "coarse" : "precise";
+
+      // Geofence: once at the venue, report the venue itself and stop reading GPS.
+      if (distanceMeters(fix, eventCenter) <= ARRIVAL_RADIUS_M) {
+        const checkIn = autoCheckInRef.current || undefined;
+        void sendLiveLocation({ lat: eventCenter.lat, lng: eventCenter.lng, mode, until, checkIn });
+        stopWatching();
+        setNotice("You've arrived — live location sharing stopped.");
+        return;
+      }
+
+      if (coarseRef.current) {
+        void sendLiveLocation({ ...coarsen(fix), mode, until });
+        return;
+      }
+
       void sendLiveLocation({
         lat: fix.lat,
         lng: fix.lng,
         accuracy: fix.accuracy ?? undefined,
         heading: pos.coords?.heading ?? undefined,
         speed: pos.coords?.speed ?? undefined,
+        mode,
+        until,
       });
     },
-    [sendLiveLocation]
+    [eventCenter, sendLiveLocation, stopWatching]
   );
 
   const startSharing = useCallback(() => {
     setError(null);
     setGpsWarning(null);
+    setNotice(null);
     if (!base || !eventId) {
       setError("Missing backend URL");
       return;
     }
+    const now = Date.now();
+    if (shareWindow && now < new Date(shareWindow.opensAt).getTime()) {
+      setError(`Live location sharing opens at ${formatClock(shareWindow.opensAt)}.`);
+      return;
+    }
+    if (shareWindow && now >= new Date(shareWindow.closesAt).getTime()) {
+      setError("This event has ended.");
+      return;
+    }
     if (typeof navigator === "undefined" || !("geolocation" in navigator)) {
       setError("Geolocation is not supported on this device/browser");
       return;
@@ -286,10 +389,35 @@ export default function LivePlayersMap({
       { enableHighAccuracy: true, maximumAge: 0, timeout: 20_000 }
     );
 
+    const closesAt = shareWindow ? new Date(shareWindow.closesAt).getTime() : null;
+    const requested = shareFor === "end" ? null : now + Number(shareFor) * 60 * 1000;
+    const until = requested && closesAt ? Math.min(requested, closesAt) : requested ?? closesAt;
+    shareUntilRef.current = until;
+    setShareUntil(until);
+
     watchIdRef.current = watchId;
     setSharing(true);
     autoFitRef.current = false;
-  }, [base, eventId, handlePosition, stopSharing]);
+  }, [base, eventId, handlePosition, shareFor, shareWindow, stopSharing]);
+
+  useEffect(() => {
+    coarseRef.current = coarse;
+  }, [coarse]);
+
+  useEffect(() => {
+    autoCheckInRef.current = autoCheckIn;
+  }, [autoCheckIn]);
+
+  // Stop on our side when the chosen sharing period runs out; the server
+  // drops the fix at the same time.
+  useEffect(() => {
+    if (!sharing || !shareUntil) return;
+    const t = window.setTimeout(() => {
+      void stopSharing();
+      setNotice("Sharing period ended.");
+    }, Math.max(0, shareUntil - Date.now()));
+    return () => window.clearTimeout(t);
+  }, [shareUntil, sharing, stopSharing]);
 
   useEffect(() => {
     unmountedRef.current = false;
@@ -300,14 +428,107 @@ export default function LivePlayersMap({
     };
   }, [stopSharing]);
 
+  const applyDelta = useCallback((delta: LocationDelta) => {
+    setLocations((prev) => {
+      const byUser = new Map(prev.map((l) => [l.userId, l]));
+      for (const userId of delta.removed) byUser.delete(userId);
+      for (const loc of delta.upserts) byUser.set(loc.userId, loc);
+      return Array.from(byUser.values());
+    });
+    setLastSyncAt(Date.now());
+  }, []);
+
+  // Prefer the push stream; while it's down, poll and keep retrying the
+  // stream with backoff.
   useEffect(() => {
     if (!base || !eventId) return;
-    void fetchLiveLocations();
 
+    let cancelled = false;
+    let controller: AbortController | null = null;
+    let pollTimer: number | null = null;
+    let retryTimer: number | null = null;
+    let retryDelay = STREAM_RETRY_MIN_MS;
     const pollMs = clamp(Math.round(pollSeconds * 1000), 1000, 15_000);
-    const t = window.setInterval(() => void fetchLiveLocations(), pollMs);
-    return () => window.clearInterval(t);
-  }, [base, eventId, fetchLiveLocations, pollSeconds]);
+
+    const startPolling = () => {
+      if (pollTimer != null) return;
+      void fetchLiveLocations();
+      pollTimer = window.setInterval(() => void fetchLiveLocations(), pollMs);
+    };
+    const stopPolling = () => {
+      if (pollTimer != null) window.clearInterval(pollTimer);
+      pollTimer = null;
+    };
+
+    const connect = async () => {
+      retryTimer = null;
+      const ctrl = new AbortController();
+      controller = ctrl;
+      let lastActivity = Date.now();
+      const watchdog = window.setInterval(() => {
+        if (Date.now() - lastActivity > STREAM_IDLE_TIMEOUT_MS) ctrl.abort();
+      }, 5_000);
+
+      try {
+        const res = await apiFetch(`/api/events/${encodeURIComponent(eventId)}/live-locations/stream`, {
+          headers: { Accept: "text/event-stream" },
+          signal: ctrl.signal,
+          retries: 0,
+        });
+        if (!res.body) throw new Error("Stream unavailable");
+
+        streamingRef.current = true;
+        setTransport("stream");
+        stopPolling();
+        retryDelay = STREAM_RETRY_MIN_MS;
+
+        await readEventStream(
+          res.body,
+          (event, data) => {
+            if (cancelled) return;
+            try {
+              if (event === "snapshot") {
+                const snap = parse.liveLocations(JSON.parse(data));
+                setLocations(snap.locations);
+                if (snap.window) setShareWindow(snap.window);
+                setLastSyncAt(Date.now());
+                setError(null);
+              } else if (event === "delta") {
+                applyDelta(parse.locationDelta(JSON.parse(data)));
+              }
+            } catch {
+              // ignore malformed messages
+            }
+          },
+          () => {
+            lastActivity = Date.now();
+          }
+        );
+      } catch {
+        // fall through to polling
+      } finally {
+        window.clearInterval(watchdog);
+      }
+
+      if (cancelled) return;
+      streamingRef.current = false;
+      setTransport("polling");
+      startPolling();
+      retryTimer = window.setTimeout(() => void connect(), retryDelay);
+      retryDelay = Math.min(retryDelay * 2, STREAM_RETRY_MAX_MS);
+    };
+
+    setTransport("connecting");
+    void connect();
+
+    return () => {
+      cancelled = true;
+      streamingRef.current = false;
+      controller?.abort();
+      stopPolling();
+      if (retryTimer != null) window.clearTimeout(retryTimer);
+    };
+  }, [applyDelta, base, eventId, fetchLiveLocations, pollSeconds]);
 
   useEffect(() => {
     let cancelled = false;
@@ -371,7 +592,8 @@ export default function LivePlayersMap({
       seen.add(loc.userId);
 
       const isMe = Boolean(loc.isMe);
-      const label = escapeHtml(loc.username || "Player");
+      const prefix = loc.arrived ? "✓ " : loc.mode === "coarse" ? "≈ " : "";
+      const label = escapeHtml(`${prefix}${loc.username || "Player"}`);
       const playerIcon = L.divIcon({
         className: "",
         html: `<div class="app-live-marker ${isMe ? "app-live-marker--me" : ""}">
@@ -386,6 +608,7 @@ export default function LivePlayersMap({
       const existing = markersRef.current.get(loc.userId);
       if (existing) {
         existing.setLatLng([loc.lat, loc.lng]);
+        existing.setIcon(playerIcon);
       } else {
         const m = L.marker([loc.lat, loc.lng], { icon: playerIcon }).addTo(map);
         markersRef.current.set(loc.userId, m);
@@ -416,11 +639,16 @@ export default function LivePlayersMap({
   }, [eventCenter.lat, eventCenter.lng]);
 
   const playersOnline = locations.length;
+  const transportLabel =
+    transport === "stream" ? "live" : transport === "polling" ? "reconnecting, polling" : "connecting";
   const subtitle = lastSyncAt
-    ? `Live now: ${playersOnline} • updated ${Math.max(0, Math.round((Date.now() - lastSyncAt) / 1000))}s ago`
-    : `Live now: ${playersOnline}`;
+    ? `Live now: ${playersOnline} • updated ${Math.max(0, Math.round((Date.now() - lastSyncAt) / 1000))}s ago • ${transportLabel}`
+    : `Live now: ${playersOnline} • ${transportLabel}`;
 
   const myServerFix = useMemo(() => locations.find((l) => l.isMe) ?? null, [locations]);
+  const windowOpen = shareWindow
+    ? Date.now() >= new Date(shareWindow.opensAt).getTime() && Date.now() < new Date(shareWindow.closesAt).getTime()
+    : true;
 
   return (
     <div className="rounded-2xl bg-white/70 ring-1 ring-slate-200/70 p-4">
@@ -428,6 +656,11 @@ export default function LivePlayersMap({
         <div>
           <div className="text-sm font-semibold text-slate-900">Live players map</div>
           <div className="mt-1 text-xs text-slate-600">{subtitle}</div>
+          {shareWindow ? (
+            <div className="mt-0.5 text-xs text-slate-500">
+              Sharing window: {formatClock(shareWindow.opensAt)} – {formatClock(shareWindow.closesAt)}
+            </div>
+          ) : null}
         </div>
 
         <div className="flex flex-wrap items-center gap-2">
@@ -448,18 +681,48 @@ export default function LivePlayersMap({
           <button
             type="button"
             onClick={() => (sharing ? void stopSharing() : startSharing())}
+            disabled={!sharing && !windowOpen}
             className={[
               "rounded-xl px-3 py-2 text-xs font-semibold ring-1",
               sharing
                 ? "bg-emerald-50 text-emerald-800 ring-emerald-200 hover:bg-emerald-100"
-                : "bg-blue-50 text-blue-800 ring-blue-200 hover:bg-blue-100",
+                : "bg-blue-50 text-blue-800 ring-blue-200 hover:bg-blue-100 disabled:opacity-60",
             ].join(" ")}
           >
-            {sharing ? "Sharing my location" : "I'm here (share live)"}
+            {sharing
+              ? `Sharing${shareUntil ? ` until ${formatClock(shareUntil)}` : ""} — stop`
+              : "I'm on my way (share live)"}
           </button>
         </div>
       </div>
 
+      {!sharing ? (
+        <div className="mt-3 flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-slate-700">
+          <label className="inline-flex items-center gap-2">
+            <input type="checkbox" checked={coarse} onChange={(e) => setCoarse(e.target.checked)} />
+            Approximate location (~{COARSE_GRID_M} m)
+          </label>
+          <label className="inline-flex items-center gap-2">
+            <input type="checkbox" checked={autoCheckIn} onChange={(e) => setAutoCheckIn(e.target.checked)} />
+            Check me in when I arrive
+          </label>
+          <label className="inline-flex items-center gap-2">
+            Share for
+            <select
+              value={shareFor}
+              onChange={(e) => setShareFor(e.target.value as ShareFor)}
+              className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs"
+            >
+              <option value="30">30 minutes</option>
+              <option value="60">1 hour</option>
+              <option value="end">Until the event ends</option>
+            </select>
+          </label>
+          <span className="text-slate-500">Sharing stops automatically when you reach the venue.</span>
+        </div>
+      ) : null}
+
+      {notice ? <div className="mt-3 text-xs text-emerald-700">{notice}</div> : null}
       {error ? <div className="mt-3 text-xs text-rose-700">{error}</div> : null}
       {gpsWarning ? <div className="mt-3 text-xs text-amber-800">{gpsWarning}</div> : null}
 
@@ -488,6 +751,30 @@ export default function LivePlayersMap({
         </div>
       ) : null}
 
+      <div className="mt-3">
+        <div className="text-xs font-semibold text-slate-900">Sharing now</div>
+        {locations.length === 0 ? (
+          <div className="mt-1 text-xs text-slate-600">Nobody is sharing their location.</div>
+        ) : (
+          <ul className="mt-1 grid gap-1 text-xs text-slate-700">
+            {locations.map((l) => (
+              <li key={l.userId} className="flex flex-wrap items-center gap-x-2">
+                <span className="font-medium text-slate-900">
+                  {l.username || "Player"}
+                  {l.isMe ? " (you)" : ""}
+                </span>
+                <span className="text-slate-500">
+                  {l.arrived ? "Arrived" : l.mode === "coarse" ? "Approximate" : "Precise"}
+                </span>
+                {!l.arrived && l.sharingUntil ? (
+                  <span className="text-slate-500">until {formatClock(l.sharingUntil)}</span>
+                ) : null}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
       <div className="mt-3 text-xs text-slate-600">
         Tip: if you don’t see your marker, press “Fit players” (you may be far from the event pin).
       </div>
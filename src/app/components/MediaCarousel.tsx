@@ -0,0 +1,121 @@
+"use client";
+
+import { useCallback, useMemo, useRef, useState } from "react";
+import type { FeedMedia } from "@/lib/apiTypes";
+import { getBackendBaseUrl } from "@/lib/backendBaseUrl";
+
+function resolveMediaUrl(base: string | undefined, url: string): string {
+  const raw = String(url ?? "").trim();
+  if (!raw) return "";
+  if (raw.startsWith("http://") || raw.startsWith("https://")) return raw;
+  if (raw.startsWith("/") && base) return `${base}${raw}`;
+  return raw;
+}
+
+// Swipeable album of a post's images and videos. Slides snap into place; the
+// arrows, counter and dots only appear when there is more than one item.
+export default function MediaCarousel({
+  media,
+  slideClassName = "",
+  mediaClassName = "",
+  alt = "Post media",
+}: {
+  media: FeedMedia[];
+  // Sizing for each slide, e.g. a fixed aspect ratio.
+  slideClassName?: string;
+  mediaClassName?: string;
+  alt?: string;
+}) {
+  const base = useMemo(() => getBackendBaseUrl(), []);
+  const trackRef = useRef<HTMLDivElement | null>(null);
+  const [index, setIndex] = useState(0);
+
+  const items = useMemo(
+    () => media.map((m) => ({ ...m, src: resolveMediaUrl(base, m.url) })).filter((m) => m.src),
+    [base, media]
+  );
+
+  const onScroll = useCallback(() => {
+    const track = trackRef.current;
+    if (!track || track.clientWidth === 0) return;
+    setIndex(Math.round(track.scrollLeft / track.clientWidth));
+  }, []);
+
+  const goTo = useCallback((i: number) => {
+    const track = trackRef.current;
+    if (!track) return;
+    track.scrollTo({ left: i * track.clientWidth, behavior: "smooth" });
+  }, []);
+
+  if (items.length === 0) return null;
+  const many = items.length > 1;
+
+  return (
+    <div className="relative">
+      <div
+        ref={trackRef}
+        onScroll={many ? onScroll : undefined}
+        className="flex snap-x snap-mandatory overflow-x-auto [scrollbar-width:none] [&::-webkit-scrollbar]:hidden"
+      >
+        {items.map((m, i) => (
+          <div
+            key={`${i}-${m.url}`}
+            className={`w-full shrink-0 snap-center flex items-center justify-center ${slideClassName}`}
+          >
+            {m.type === "video" ? (
+              <video controls src={m.src} className={mediaClassName} preload="metadata" />
+            ) : (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={m.src}
+                alt={many ? `${alt} ${i + 1} of ${items.length}` : alt}
+                className={mediaClassName}
+                loading="lazy"
+              />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {many ? (
+        <>
+          <div className="absolute right-3 top-3 rounded-full bg-black/60 px-2 py-0.5 text-xs font-semibold text-white tabular-nums">
+            {index + 1}/{items.length}
+          </div>
+          {index > 0 ? (
+            <button
+              type="button"
+              onClick={() => goTo(index - 1)}
+              className="absolute left-2 top-1/2 -translate-y-1/2 rounded-full bg-white/90 px-2.5 py-1 text-lg text-slate-800 shadow hover:bg-white"
+              aria-label="Previous"
+            >
+              ‹
+            </button>
+          ) : null}
+          {index < items.length - 1 ? (
+            <button
+              type="button"
+              onClick={() => goTo(index + 1)}
+              className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full bg-white/90 px-2.5 py-1 text-lg text-slate-800 shadow hover:bg-white"
+              aria-label="Next"
+            >
+              ›
+            </button>
+          ) : null}
+          <div className="absolute bottom-2 left-0 right-0 flex justify-center gap-1.5">
+            {items.map((m, i) => (
+              <button
+                key={`${i}-${m.url}`}
+                type="button"
+                onClick={() => goTo(i)}
+                className={`h-1.5 w-1.5 rounded-full ${i === index ? "bg-white" : "bg-white/50"}`}
+                aria-label={`Show item ${i + 1}`}
+                aria-current={i === index}
+              />
+            ))}
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
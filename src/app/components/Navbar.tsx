@@ -3,66 +3,27 @@
 import { useState, useEffect, useCallback } from "react";
 import { usePathname, useRouter } from "next/navigation";
 import UserAvatar from "@/components/UserAvatar";
-import { authHeader, clearAuthToken } from "@/lib/authToken";
-import { getBackendBaseUrl } from "@/lib/backendBaseUrl";
-
-type BackendUser = Record<string, unknown>;
-
-function coerceString(value: unknown): string | null {
-  if (typeof value === "string" && value.trim()) return value;
-  return null;
-}
-
-function userIdFromBackendUser(user: BackendUser): string | null {
-  return (
-    coerceString(user._id) ??
-    coerceString(user.id) ??
-    coerceString(user.email) ??
-    coerceString(user.username) ??
-    null
-  );
-}
+import { useAuth } from "@/context/AuthContext";
+import { useChat } from "@/context/ChatContext";
+import { api } from "@/lib/apiClient";
+import { displayName as userDisplayName, parse, userIdOf } from "@/lib/apiTypes";
 
 export default function Navbar() {
   const router = useRouter();
   const pathname = usePathname();
-  const [user, setUser] = useState<null | BackendUser>(null);
+  const { user, status, refresh, logout } = useAuth();
+  const { totalUnread: unreadMessages } = useChat();
   const [avatarVersion, setAvatarVersion] = useState<number>(0);
   const [mobileOpen, setMobileOpen] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
 
-  const checkAuth = useCallback(async () => {
-    try {
-      const base = getBackendBaseUrl();
-      if (!base) {
-        console.error("Missing NEXT_PUBLIC_BACKEND_URL (set it in Vercel env vars and redeploy)");
-        setUser(null);
-        return;
-      }
-      const res = await fetch(`${base}/api/auth/me`, {
-        credentials: "include",
-        headers: authHeader(),
-      });
-      if (res.ok) {
-        const data = await res.json();
-        setUser(data.user || null);
-      } else {
-        setUser(null);
-      }
-    } catch (err) {
-      console.error("Auth check failed", err);
-      setUser(null);
-    }
-  }, []);
-
-  // On mount, check auth and subscribe to auth/storage events
+  // Pick up avatar changes from this tab and others.
   useEffect(() => {
-    checkAuth();
     try {
       const v = Number(localStorage.getItem("avatar") ?? "0");
       if (Number.isFinite(v) && v > 0) setAvatarVersion(v);
     } catch {}
 
-    const onAuthEvent = () => checkAuth();
     const onAvatarEvent = () => {
       const v = Date.now();
       setAvatarVersion(v);
@@ -71,58 +32,71 @@ export default function Navbar() {
       } catch {}
     };
     const onStorage = (e: StorageEvent) => {
-      if (e.key === "auth") {
-        checkAuth();
-      }
       if (e.key === "avatar") {
         const v = Number(e.newValue ?? "0");
         if (Number.isFinite(v) && v > 0) setAvatarVersion(v);
       }
     };
 
-    window.addEventListener("auth", onAuthEvent);
     window.addEventListener("avatar", onAvatarEvent);
     window.addEventListener("storage", onStorage);
 
     return () => {
-      window.removeEventListener("auth", onAuthEvent);
       window.removeEventListener("avatar", onAvatarEvent);
       window.removeEventListener("storage", onStorage);
     };
-  }, [checkAuth]);
+  }, []);
 
-  const handleLogout = async () => {
+  const refreshUnread = useCallback(async () => {
     try {
-      const base = getBackendBaseUrl();
-      if (!base) throw new Error("Missing NEXT_PUBLIC_BACKEND_URL");
-      await fetch(`${base}/api/auth/logout`, {
-        method: "POST",
-        credentials: "include",
-        headers: authHeader(),
-      });
-      clearAuthToken();
-      setUser(null);
-      // notify other parts of the app
-      try { window.dispatchEvent(new Event("auth")); } catch {}
-      // Optionally clear a shared key
-      try { localStorage.removeItem("auth"); } catch {}
-      router.push("/");
-    } catch (err) {
-      console.error("Logout failed", err);
+      setUnreadCount(await api.get("/api/notifications/unread-count", parse.unreadCount, { retries: 0 }));
+    } catch {
+      // keep the last known count
     }
+  }, []);
+
+  // Poll the unread count while logged in; the notifications page also pings
+  // us via a window event right after it marks things as read.
+  useEffect(() => {
+    if (!user) {
+      setUnreadCount(0);
+      return;
+    }
+
+    refreshUnread();
+    const t = window.setInterval(refreshUnread, 30_000);
+    const onNotificationsEvent = () => refreshUnread();
+    window.addEventListener("notifications", onNotificationsEvent);
+    return () => {
+      window.clearInterval(t);
+      window.removeEventListener("notifications", onNotificationsEvent);
+    };
+  }, [refreshUnread, user]);
+
+  const handleLogout = async () => {
+    await logout();
+    router.push("/");
   };
 
-  const userId = user ? userIdFromBackendUser(user) : null;
-  const displayName =
-    (user && (coerceString(user.username) ?? coerceString(user.fullName) ?? coerceString(user.email))) ||
-    "Account";
+  const userId = user ? userIdOf(user) || null : null;
+  const displayName = userDisplayName(user, "Account");
 
   const items = user
     ? [
         { label: "Home", href: "/feed", active: pathname?.startsWith("/feed") },
         { label: "Dashboard", href: "/find-partner?stay=1", active: pathname?.startsWith("/find-partner") },
-        { label: "Messages", href: "/chat", active: pathname?.startsWith("/chat") },
-        { label: "Notifications", href: "/events", active: pathname?.startsWith("/events") },
+        { label: "Messages", href: "/chat", active: pathname?.startsWith("/chat"), badge: unreadMessages },
+        { label: "Events", href: "/events", active: pathname?.startsWith("/events") },
+        { label: "Teams", href: "/teams", active: pathname?.startsWith("/teams") },
+        {
+          label: "Notifications",
+          href: "/notifications",
+          active: pathname?.startsWith("/notifications"),
+          badge: unreadCount,
+        },
+        ...(user.isModerator
+          ? [{ label: "Moderation", href: "/moderation", active: pathname?.startsWith("/moderation") }]
+          : []),
       ]
     : [
         { label: "Home", href: "/", active: pathname === "/" },
@@ -130,6 +104,8 @@ export default function Navbar() {
         { label: "Events", href: "/events", active: pathname?.startsWith("/events") },
       ];
 
+  const badgeText = (count: number) => (count > 99 ? "99+" : String(count));
+
   const go = (href: string) => {
     setMobileOpen(false);
     router.push(href);
@@ -184,6 +160,11 @@ export default function Navbar() {
                     ].join(" ")}
                   >
                     {item.label}
+                    {"badge" in item && item.badge ? (
+                      <span className="ml-1.5 inline-flex min-w-5 items-center justify-center rounded-full bg-red-600 px-1.5 py-0.5 text-[10px] font-semibold leading-none text-white">
+                        {badgeText(item.badge)}
+                      </span>
+                    ) : null}
                   </button>
                 ))}
               </div>
@@ -192,11 +173,14 @@ export default function Navbar() {
             <div className="flex items-center gap-2">
               <button
                 type="button"
-                className="md:hidden inline-flex h-10 w-10 items-center justify-center rounded-2xl bg-white/70 ring-1 ring-slate-200 hover:bg-white"
+                className="relative md:hidden inline-flex h-10 w-10 items-center justify-center rounded-2xl bg-white/70 ring-1 ring-slate-200 hover:bg-white"
                 onClick={() => setMobileOpen((v) => !v)}
                 aria-expanded={mobileOpen}
-                aria-label="Open menu"
+                aria-label={unreadMessages > 0 ? `Open menu (${unreadMessages} unread messages)` : "Open menu"}
               >
+                {unreadMessages > 0 && !mobileOpen ? (
+                  <span className="absolute -top-0.5 -right-0.5 h-2.5 w-2.5 rounded-full bg-red-600 ring-2 ring-white" />
+                ) : null}
                 <svg viewBox="0 0 24 24" width="18" height="18" fill="none" aria-hidden="true">
                   <path d="M5 7h14M5 12h14M5 17h14" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
                 </svg>
@@ -206,11 +190,18 @@ export default function Navbar() {
                 <>
                   <button
                     type="button"
-                    onClick={() => go("/events")}
-                    className="hidden sm:inline-flex h-10 w-10 items-center justify-center rounded-2xl bg-white/70 ring-1 ring-slate-200 hover:bg-white"
-                    aria-label="Notifications"
+                    onClick={() => go("/notifications")}
+                    className="relative hidden sm:inline-flex h-10 w-10 items-center justify-center rounded-2xl bg-white/70 ring-1 ring-slate-200 hover:bg-white"
+                    aria-label={
+                      unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"
+                    }
                     title="Notifications"
                   >
+                    {unreadCount > 0 ? (
+                      <span className="absolute -top-1 -right-1 inline-flex min-w-5 items-center justify-center rounded-full bg-red-600 px-1.5 py-0.5 text-[10px] font-semibold leading-none text-white ring-2 ring-white">
+                        {badgeText(unreadCount)}
+                      </span>
+                    ) : null}
                     <svg viewBox="0 0 24 24" width="18" height="18" fill="none" aria-hidden="true">
                       <path
                         d="M12 22a2.4 2.4 0 0 0 2.4-2.4H9.6A2.4 2.4 0 0 0 12 22Z"
@@ -280,11 +271,16 @@ export default function Navbar() {
                     type="button"
                     onClick={() => go(item.href)}
                     className={[
-                      "w-full rounded-2xl px-4 py-2 text-left text-sm font-semibold transition",
+                      "w-full flex items-center justify-between rounded-2xl px-4 py-2 text-left text-sm font-semibold transition",
                       item.active ? "bg-blue-50 text-slate-900 ring-1 ring-blue-200" : "text-slate-700 hover:bg-white/70",
                     ].join(" ")}
                   >
                     {item.label}
+                    {"badge" in item && item.badge ? (
+                      <span className="inline-flex min-w-5 items-center justify-center rounded-full bg-red-600 px-1.5 py-0.5 text-[10px] font-semibold leading-none text-white">
+                        {badgeText(item.badge)}
+                      </span>
+                    ) : null}
                   </button>
                 ))}
 
@@ -318,6 +314,15 @@ export default function Navbar() {
             </div>
           ) : null}
         </div>
+
+        {status === "error" ? (
+          <div className="mt-2 flex items-center justify-between gap-3 rounded-2xl bg-red-50/90 px-4 py-2 text-sm text-red-800 ring-1 ring-red-200/70">
+            Couldn&apos;t reach the server to check your session.
+            <button type="button" onClick={() => void refresh()} className="font-semibold hover:underline">
+              Retry
+            </button>
+          </div>
+        ) : null}
       </div>
     </nav>
   );
@@ -0,0 +1,335 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { api, errorMessage } from "@/lib/apiClient";
+import { parse, type FeedPost, type PostEdit, type ReportReason } from "@/lib/apiTypes";
+
+const REPORT_REASONS: { value: ReportReason; label: string }[] = [
+  { value: "spam", label: "Spam" },
+  { value: "harassment", label: "Harassment or bullying" },
+  { value: "inappropriate", label: "Inappropriate content" },
+  { value: "other", label: "Something else" },
+];
+
+function postPath(post: FeedPost) {
+  return `/api/feed/${encodeURIComponent(post.id)}`;
+}
+
+function formatWhen(iso: string): string {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? "" : d.toLocaleString();
+}
+
+// Closes a popover when the user clicks anywhere outside of it.
+function useDismiss(open: boolean, close: () => void) {
+  const ref = useRef<HTMLDivElement | null>(null);
+  useEffect(() => {
+    if (!open) return;
+    const onDown = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) close();
+    };
+    document.addEventListener("mousedown", onDown);
+    return () => document.removeEventListener("mousedown", onDown);
+  }, [close, open]);
+  return ref;
+}
+
+// "⋯" menu on a post: edit, visibility and delete for the author, report for
+// everyone else.
+export function PostMenu({
+  post,
+  isMine,
+  onEdit,
+  onUpdated,
+  onDeleted,
+}: {
+  post: FeedPost;
+  isMine: boolean;
+  onEdit: () => void;
+  onUpdated: (post: FeedPost) => void;
+  onDeleted: (postId: string) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [reporting, setReporting] = useState(false);
+  const [reason, setReason] = useState<ReportReason>("spam");
+  const [details, setDetails] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<{ type: "error" | "success"; text: string } | null>(null);
+
+  const close = useCallback(() => {
+    setOpen(false);
+    setReporting(false);
+    setNotice(null);
+  }, []);
+  const ref = useDismiss(open, close);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    if (busy) return;
+    setBusy(true);
+    setNotice(null);
+    try {
+      await action();
+    } catch (err: unknown) {
+      const text = errorMessage(err, fallback);
+      if (text) setNotice({ type: "error", text });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changeVisibility = () =>
+    run(async () => {
+      const visibility = post.visibility === "public" ? "friends" : "public";
+      onUpdated(await api.patch(postPath(post), { visibility }, parse.post));
+      close();
+    }, "Could not change who can see this post");
+
+  const remove = () => {
+    if (!window.confirm("Delete this post? This can't be undone.")) return;
+    return run(async () => {
+      await api.delete(postPath(post));
+      close();
+      onDeleted(post.id);
+    }, "Could not delete this post");
+  };
+
+  const report = () =>
+    run(async () => {
+      await api.post(`${postPath(post)}/report`, { reason, details: details.trim() || undefined });
+      setReporting(false);
+      setDetails("");
+      setNotice({ type: "success", text: "Thanks, a moderator will review this post." });
+    }, "Could not send your report");
+
+  const itemClass =
+    "w-full rounded-xl px-3 py-2 text-left text-sm text-slate-800 hover:bg-slate-100 disabled:opacity-60";
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        type="button"
+        onClick={() => (open ? close() : setOpen(true))}
+        className="rounded-lg p-1 text-slate-400 hover:bg-slate-100 hover:text-slate-600"
+        aria-label="Post options"
+        aria-expanded={open}
+      >
+        <svg viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5" aria-hidden="true">
+          <circle cx="5" cy="12" r="1.8" />
+          <circle cx="12" cy="12" r="1.8" />
+          <circle cx="19" cy="12" r="1.8" />
+        </svg>
+      </button>
+
+      {open ? (
+        <div className="absolute right-0 z-30 mt-1 w-64 rounded-2xl bg-white p-2 shadow-lg ring-1 ring-slate-200">
+          {isMine ? (
+            <>
+              <button
+                type="button"
+                className={itemClass}
+                onClick={() => {
+                  close();
+                  onEdit();
+                }}
+              >
+                Edit post
+              </button>
+              <button type="button" className={itemClass} onClick={changeVisibility} disabled={busy}>
+                {post.visibility === "public" ? "Show to friends only" : "Make public"}
+              </button>
+              <button
+                type="button"
+                className={`${itemClass} text-red-700 hover:bg-red-50`}
+                onClick={remove}
+                disabled={busy}
+              >
+                Delete post
+              </button>
+            </>
+          ) : reporting ? (
+            <div className="space-y-2 p-1">
+              <div className="text-sm font-semibold text-slate-900">Why are you reporting this?</div>
+              <div className="space-y-1">
+                {REPORT_REASONS.map((r) => (
+                  <label key={r.value} className="flex items-center gap-2 text-sm text-slate-800">
+                    <input
+                      type="radio"
+                      name={`report-${post.id}`}
+                      checked={reason === r.value}
+                      onChange={() => setReason(r.value)}
+                    />
+                    {r.label}
+                  </label>
+                ))}
+              </div>
+              <textarea
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+                placeholder="Anything else we should know? (optional)"
+                maxLength={500}
+                className="w-full min-h-16 rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none ring-blue-200 focus:ring"
+              />
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setReporting(false)}
+                  className="rounded-xl px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-100"
+                >
+                  Back
+                </button>
+                <button
+                  type="button"
+                  onClick={report}
+                  disabled={busy}
+                  className="rounded-xl bg-red-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-red-700 disabled:opacity-60"
+                >
+                  {busy ? "Sending…" : "Report"}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button type="button" className={itemClass} onClick={() => setReporting(true)}>
+              Report post
+            </button>
+          )}
+
+          {notice ? (
+            <div
+              className={[
+                "mt-1 rounded-xl px-3 py-2 text-xs",
+                notice.type === "error" ? "bg-red-50 text-red-800" : "bg-emerald-50 text-emerald-800",
+              ].join(" ")}
+            >
+              {notice.text}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export function PostEditor({
+  post,
+  onSaved,
+  onCancel,
+}: {
+  post: FeedPost;
+  onSaved: (post: FeedPost) => void;
+  onCancel: () => void;
+}) {
+  const [text, setText] = useState(post.text);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canSave = text.trim() !== post.text && Boolean(text.trim() || post.media.length > 0);
+
+  const save = async () => {
+    if (!canSave || saving) return;
+    setSaving(true);
+    setError(null);
+    try {
+      onSaved(await api.patch(postPath(post), { text: text.trim() }, parse.post));
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Could not save your changes"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        maxLength={5000}
+        className="w-full min-h-24 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm outline-none ring-blue-200 focus:ring"
+        autoFocus
+      />
+      {error ? <div className="text-sm text-red-700">{error}</div> : null}
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={saving}
+          className="rounded-xl px-3 py-1.5 text-sm text-slate-700 hover:bg-slate-100"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={save}
+          disabled={!canSave || saving}
+          className="rounded-xl bg-blue-600 px-3 py-1.5 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+        >
+          {saving ? "Saving…" : "Save"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// "edited" marker that opens the post's earlier versions.
+export function EditedMarker({ post }: { post: FeedPost }) {
+  const [open, setOpen] = useState(false);
+  const [edits, setEdits] = useState<PostEdit[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const close = useCallback(() => setOpen(false), []);
+  const ref = useDismiss(open, close);
+
+  // A newer edit makes the loaded history stale.
+  useEffect(() => {
+    setEdits(null);
+  }, [post.editedAt]);
+
+  if (!post.editedAt) return null;
+
+  const toggle = async () => {
+    if (open) {
+      setOpen(false);
+      return;
+    }
+    setOpen(true);
+    setError(null);
+    if (edits) return;
+    try {
+      setEdits(await api.get(`${postPath(post)}/history`, parse.postHistory));
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Could not load edit history"));
+    }
+  };
+
+  return (
+    <div ref={ref} className="relative inline-block">
+      <button
+        type="button"
+        onClick={toggle}
+        className="text-xs text-slate-500 hover:underline"
+        title={`Edited ${formatWhen(post.editedAt)}`}
+      >
+        edited
+      </button>
+      {open ? (
+        <div className="absolute left-0 z-30 mt-1 w-72 rounded-2xl bg-white p-3 shadow-lg ring-1 ring-slate-200">
+          <div className="text-xs font-semibold text-slate-900">Edit history</div>
+          {error ? (
+            <div className="mt-2 text-xs text-red-700">{error}</div>
+          ) : !edits ? (
+            <div className="mt-2 text-xs text-slate-600">Loading…</div>
+          ) : (
+            <ul className="mt-2 max-h-64 space-y-2 overflow-y-auto">
+              {edits.map((e) => (
+                <li key={e.until} className="rounded-xl bg-slate-50 px-3 py-2">
+                  <div className="text-xs text-slate-500">Until {formatWhen(e.until)}</div>
+                  <div className="mt-0.5 text-sm text-slate-800 whitespace-pre-wrap break-words">
+                    {e.text || <span className="italic text-slate-500">(no text)</span>}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : null}
+    </div>
+  );
+}
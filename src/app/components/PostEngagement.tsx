@@ -0,0 +1,323 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import UserAvatar from "@/components/UserAvatar";
+import { api, errorMessage } from "@/lib/apiClient";
+import {
+  displayName,
+  parse,
+  type FeedComment,
+  type FeedPost,
+  type PostReactions,
+  type Reactor,
+} from "@/lib/apiTypes";
+
+// Must match REACTION_EMOJIS in backend/src/routes/feed.js.
+const REACTION_EMOJIS = ["👍", "❤️", "😂", "🔥", "👏", "🏸"];
+
+function formatRelativeTime(iso: string): string {
+  const t = new Date(iso).getTime();
+  if (Number.isNaN(t)) return "";
+  const diffSec = Math.round((Date.now() - t) / 1000);
+  if (diffSec < 60) return "just now";
+  const diffMin = Math.round(diffSec / 60);
+  if (diffMin < 60) return `${diffMin} min ago`;
+  const diffHr = Math.round(diffMin / 60);
+  if (diffHr < 24) return `${diffHr} hr ago`;
+  return `${Math.round(diffHr / 24)}d ago`;
+}
+
+type Thread = { comment: FeedComment; replies: FeedComment[] };
+
+function buildThreads(comments: FeedComment[]): Thread[] {
+  const threads = new Map<string, Thread>();
+  for (const c of comments) {
+    if (!c.parentId) threads.set(c.id, { comment: c, replies: [] });
+  }
+  for (const c of comments) {
+    if (c.parentId) threads.get(c.parentId)?.replies.push(c);
+  }
+  return Array.from(threads.values());
+}
+
+function CommentRow({
+  comment,
+  onReply,
+  small,
+}: {
+  comment: FeedComment;
+  onReply: (comment: FeedComment) => void;
+  small?: boolean;
+}) {
+  const name = displayName(comment.author, "Member");
+  return (
+    <div className="flex items-start gap-2">
+      {comment.author.id ? <UserAvatar userId={comment.author.id} name={name} size={small ? 24 : 30} /> : null}
+      <div className="min-w-0 flex-1">
+        <div className="rounded-2xl bg-slate-100 px-3 py-2">
+          <div className="text-xs font-semibold text-slate-900">{name}</div>
+          <div className="text-sm text-slate-800 whitespace-pre-wrap break-words">{comment.text}</div>
+        </div>
+        <div className="mt-0.5 flex items-center gap-3 px-3 text-xs text-slate-500">
+          <span>{formatRelativeTime(comment.createdAt)}</span>
+          <button type="button" onClick={() => onReply(comment)} className="font-semibold hover:underline">
+            Reply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Reaction bar, "who reacted" list and comment threads under a feed post.
+export default function PostEngagement({ post }: { post: FeedPost }) {
+  const [reactions, setReactions] = useState<PostReactions>({
+    reactions: post.reactions,
+    myReaction: post.myReaction,
+  });
+  const [commentCount, setCommentCount] = useState(post.commentCount);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [reacting, setReacting] = useState(false);
+  const [reactors, setReactors] = useState<Reactor[] | null>(null);
+  const [reactorsOpen, setReactorsOpen] = useState(false);
+  const [comments, setComments] = useState<FeedComment[] | null>(null);
+  const [commentsOpen, setCommentsOpen] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [replyTo, setReplyTo] = useState<FeedComment | null>(null);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const postPath = `/api/feed/${encodeURIComponent(post.id)}`;
+  const total = reactions.reactions.reduce((sum, r) => sum + r.count, 0);
+  const threads = useMemo(() => buildThreads(comments ?? []), [comments]);
+
+  const react = useCallback(
+    async (emoji: string) => {
+      if (reacting) return;
+      setReacting(true);
+      setPickerOpen(false);
+      setError(null);
+      try {
+        const next =
+          reactions.myReaction === emoji
+            ? await api.delete(`${postPath}/reaction`, parse.postReactions)
+            : await api.put(`${postPath}/reaction`, { emoji }, parse.postReactions);
+        setReactions(next);
+        // The list is stale now; reload it next time it opens.
+        setReactors(null);
+        setReactorsOpen(false);
+      } catch (err: unknown) {
+        setError(errorMessage(err, "Could not save your reaction"));
+      } finally {
+        setReacting(false);
+      }
+    },
+    [postPath, reactions.myReaction, reacting]
+  );
+
+  const toggleReactors = useCallback(async () => {
+    if (reactorsOpen) {
+      setReactorsOpen(false);
+      return;
+    }
+    setReactorsOpen(true);
+    if (reactors) return;
+    try {
+      setReactors(await api.get(`${postPath}/reactions`, parse.reactors));
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Could not load reactions"));
+      setReactorsOpen(false);
+    }
+  }, [postPath, reactors, reactorsOpen]);
+
+  const loadComments = useCallback(async () => {
+    try {
+      const list = await api.get(`${postPath}/comments`, parse.comments);
+      setComments(list);
+      setCommentCount(list.length);
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Could not load comments"));
+    }
+  }, [postPath]);
+
+  const toggleComments = useCallback(() => {
+    const open = !commentsOpen;
+    setCommentsOpen(open);
+    if (open && !comments) void loadComments();
+  }, [comments, commentsOpen, loadComments]);
+
+  const startReply = useCallback((comment: FeedComment) => {
+    setReplyTo(comment);
+    setCommentsOpen(true);
+  }, []);
+
+  const sendComment = useCallback(async () => {
+    const text = draft.trim();
+    if (!text || sending) return;
+    setSending(true);
+    setError(null);
+    try {
+      const comment = await api.post(
+        `${postPath}/comments`,
+        { text, parentId: replyTo?.id },
+        parse.comment
+      );
+      setComments((prev) => [...(prev ?? []), comment]);
+      setCommentCount((n) => n + 1);
+      setDraft("");
+      setReplyTo(null);
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Could not post your comment"));
+    } finally {
+      setSending(false);
+    }
+  }, [draft, postPath, replyTo, sending]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        {reactions.reactions.map((r) => (
+          <button
+            key={r.emoji}
+            type="button"
+            onClick={() => react(r.emoji)}
+            disabled={reacting}
+            className={[
+              "inline-flex items-center gap-1 rounded-full px-2.5 py-1 text-sm ring-1 transition disabled:opacity-60",
+              reactions.myReaction === r.emoji
+                ? "bg-blue-50 text-blue-800 ring-blue-300"
+                : "bg-white text-slate-700 ring-slate-200 hover:bg-slate-50",
+            ].join(" ")}
+            aria-pressed={reactions.myReaction === r.emoji}
+          >
+            <span>{r.emoji}</span>
+            <span className="tabular-nums">{r.count}</span>
+          </button>
+        ))}
+
+        <div className="relative">
+          <button
+            type="button"
+            onClick={() => setPickerOpen((v) => !v)}
+            disabled={reacting}
+            className="rounded-full px-2.5 py-1 text-sm text-slate-600 ring-1 ring-slate-200 bg-white hover:bg-slate-50 disabled:opacity-60"
+            aria-expanded={pickerOpen}
+          >
+            {reactions.myReaction ? "Change" : "React"}
+          </button>
+          {pickerOpen ? (
+            <div className="absolute left-0 z-20 mt-1 flex gap-1 rounded-full bg-white px-2 py-1 shadow-lg ring-1 ring-slate-200">
+              {REACTION_EMOJIS.map((emoji) => (
+                <button
+                  key={emoji}
+                  type="button"
+                  onClick={() => react(emoji)}
+                  className={[
+                    "rounded-full px-1.5 py-0.5 text-lg hover:bg-slate-100",
+                    reactions.myReaction === emoji ? "bg-blue-50" : "",
+                  ].join(" ")}
+                  aria-label={`React with ${emoji}`}
+                >
+                  {emoji}
+                </button>
+              ))}
+            </div>
+          ) : null}
+        </div>
+
+        <div className="ml-auto flex items-center gap-3 text-sm text-slate-500">
+          {total > 0 ? (
+            <button type="button" onClick={toggleReactors} className="hover:underline">
+              {total === 1 ? "1 reaction" : `${total} reactions`}
+            </button>
+          ) : null}
+          <button type="button" onClick={toggleComments} className="hover:underline">
+            {commentCount === 1 ? "1 comment" : `${commentCount} comments`}
+          </button>
+        </div>
+      </div>
+
+      {reactorsOpen ? (
+        <div className="rounded-xl bg-slate-50 p-3 ring-1 ring-slate-200/70">
+          {!reactors ? (
+            <div className="text-sm text-slate-600">Loading…</div>
+          ) : reactors.length === 0 ? (
+            <div className="text-sm text-slate-600">No reactions yet.</div>
+          ) : (
+            <ul className="space-y-2">
+              {reactors.map((r) => {
+                const name = displayName(r.user, "Member");
+                return (
+                  <li key={r.user.id} className="flex items-center gap-2 text-sm text-slate-800">
+                    <UserAvatar userId={r.user.id} name={name} size={24} />
+                    <span className="flex-1 truncate">{name}</span>
+                    <span>{r.emoji}</span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      ) : null}
+
+      {error ? <div className="text-sm text-red-700">{error}</div> : null}
+
+      {commentsOpen ? (
+        <div className="space-y-3">
+          {!comments ? (
+            <div className="text-sm text-slate-600">Loading comments…</div>
+          ) : threads.length === 0 ? (
+            <div className="text-sm text-slate-600">No comments yet. Start the conversation.</div>
+          ) : (
+            threads.map((t) => (
+              <div key={t.comment.id} className="space-y-2">
+                <CommentRow comment={t.comment} onReply={startReply} />
+                {t.replies.length > 0 ? (
+                  <div className="ml-9 space-y-2 border-l border-slate-200 pl-3">
+                    {t.replies.map((r) => (
+                      <CommentRow key={r.id} comment={r} onReply={startReply} small />
+                    ))}
+                  </div>
+                ) : null}
+              </div>
+            ))
+          )}
+
+          <div className="space-y-1">
+            {replyTo ? (
+              <div className="flex items-center gap-2 text-xs text-slate-600">
+                <span>Replying to {displayName(replyTo.author, "Member")}</span>
+                <button type="button" onClick={() => setReplyTo(null)} className="font-semibold hover:underline">
+                  Cancel
+                </button>
+              </div>
+            ) : null}
+            <div className="flex items-center gap-2">
+              <input
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    void sendComment();
+                  }
+                }}
+                placeholder={replyTo ? "Write a reply…" : "Write a comment…"}
+                maxLength={1000}
+                className="min-w-0 flex-1 rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm outline-none ring-blue-200 focus:ring"
+              />
+              <button
+                type="button"
+                onClick={() => void sendComment()}
+                disabled={!draft.trim() || sending}
+                className="rounded-xl bg-blue-600 px-3 py-2 text-sm font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+              >
+                {sending ? "Sending…" : "Send"}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -35,9 +35,12 @@ export default function UserAvatar({
     const backendBase = getBackendBaseUrl();
     const basePath = `/api/avatar/${encodeURIComponent(userId)}`;
     const base = backendBase ? `${backendBase}${basePath}` : basePath;
-    if (!version) return base;
-    return `${base}?v=${version}`;
-  }, [userId, version]);
+    // Ask for a 2x rendition so avatars stay crisp on high-DPI screens; the
+    // server picks the closest pre-sized variant.
+    const qs = new URLSearchParams({ size: String(Math.min(512, Math.ceil(size * 2))) });
+    if (version) qs.set("v", String(version));
+    return `${base}?${qs.toString()}`;
+  }, [userId, version, size]);
 
   useEffect(() => {
     setFailed(false);
@@ -1,39 +1,127 @@
 "use client";
 
-import { createContext, useContext, useState, ReactNode, useEffect } from "react";
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, ReactNode } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { AUTH_TOKEN_KEY, clearAuthToken, clearSession, markSession, setAuthToken } from "@/lib/authToken";
+import { api, ApiError, onAuthExpired } from "@/lib/apiClient";
+import { isProtectedPath, loginUrl } from "@/lib/authRedirect";
+import { parse, type UserSummary } from "@/lib/apiTypes";
+
+// "error" means the session couldn't be checked (network, server) and nobody
+// is known to be signed in yet; `refresh` tries again.
+export type AuthStatus = "loading" | "authenticated" | "unauthenticated" | "error";
 
 type AuthContextType = {
-  user: { id: string; email: string } | null;
-  login: (user: { id: string; email: string }) => void;
-  logout: () => void;
+  status: AuthStatus;
+  user: UserSummary | null;
+  // Re-reads the session from /api/auth/me.
+  refresh: () => Promise<void>;
+  // Call after a successful login/register with the token the backend issued.
+  login: (token?: string | null) => Promise<void>;
+  logout: () => Promise<void>;
 };
 
+// Other tabs learn about login/logout through this localStorage key.
+const AUTH_BROADCAST_KEY = "auth";
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+function broadcastAuthChange() {
+  try {
+    localStorage.setItem(AUTH_BROADCAST_KEY, Date.now().toString());
+  } catch {}
+}
+
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<{ id: string; email: string } | null>(null);
+  const router = useRouter();
+  const pathname = usePathname();
+  const [status, setStatus] = useState<AuthStatus>("loading");
+  const [user, setUser] = useState<UserSummary | null>(null);
+  const requestRef = useRef(0);
+  // Set by an explicit logout, whose caller decides where to go next.
+  const loggedOutRef = useRef(false);
 
-  useEffect(() => {
-    // ✅ Optionally check session from backend or localStorage
-    const storedUser = localStorage.getItem("user");
-    if (storedUser) setUser(JSON.parse(storedUser));
+  const signedOut = useCallback(() => {
+    requestRef.current += 1;
+    setUser(null);
+    setStatus("unauthenticated");
+    clearSession();
   }, []);
 
-  const login = (user: { id: string; email: string }) => {
-    setUser(user);
-    localStorage.setItem("user", JSON.stringify(user));
-  };
+  const refresh = useCallback(async () => {
+    // Only the latest lookup wins when several refreshes overlap.
+    const request = ++requestRef.current;
+    try {
+      const me = await api.get("/api/auth/me", parse.user, { authExpiry: false });
+      if (request !== requestRef.current) return;
+      setUser(me);
+      setStatus("authenticated");
+      loggedOutRef.current = false;
+      markSession();
+    } catch (err) {
+      if (request !== requestRef.current) return;
+      if (err instanceof ApiError && err.status === 401) {
+        signedOut();
+        return;
+      }
+      // Only the backend saying no ends the session. Like the proxy, an outage
+      // keeps whoever is signed in and leaves the cookie alone.
+      console.error("Auth check failed", err);
+      setStatus((current) => (current === "authenticated" ? current : "error"));
+    }
+  }, [signedOut]);
 
-  const logout = () => {
-    setUser(null);
-    localStorage.removeItem("user");
-  };
+  const login = useCallback(
+    async (token?: string | null) => {
+      setAuthToken(token);
+      await refresh();
+      broadcastAuthChange();
+    },
+    [refresh]
+  );
+
+  const logout = useCallback(async () => {
+    try {
+      await api.post("/api/auth/logout", undefined, undefined, { authExpiry: false });
+    } catch (err) {
+      // Still sign out locally; the cookie expires on its own.
+      console.error("Logout failed", err);
+    }
+    loggedOutRef.current = true;
+    clearAuthToken();
+    signedOut();
+    broadcastAuthChange();
+  }, [signedOut]);
 
-  return (
-    <AuthContext.Provider value={{ user, login, logout }}>
-      {children}
-    </AuthContext.Provider>
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  // Any authenticated call that comes back 401 lands here: the client has
+  // already dropped the stored token, so sign out locally.
+  useEffect(() => onAuthExpired(signedOut), [signedOut]);
+
+  // The proxy guards the first render; this covers sessions that end while a
+  // protected page is open (expiry, logout in another tab).
+  useEffect(() => {
+    if (status !== "unauthenticated" || loggedOutRef.current || !isProtectedPath(pathname)) return;
+    router.replace(loginUrl(`${pathname}${window.location.search}`));
+  }, [pathname, router, status]);
+
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === AUTH_BROADCAST_KEY || e.key === AUTH_TOKEN_KEY) void refresh();
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [refresh]);
+
+  const value = useMemo(
+    () => ({ status, user, refresh, login, logout }),
+    [login, logout, refresh, status, user]
   );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
 }
 
 export function useAuth() {
@@ -0,0 +1,113 @@
+"use client";
+
+import { createContext, useContext, useEffect, useMemo, useState, ReactNode } from "react";
+import { useAuth } from "@/context/AuthContext";
+import { errorMessage } from "@/lib/apiClient";
+import { userIdOf } from "@/lib/apiTypes";
+import { connectChat, type ChatClient } from "@/lib/chatClient";
+
+type ChatContextType = {
+  // The signed-in user's chat connection, shared by every page. Null while
+  // connecting, when signed out, or after a failed attempt.
+  client: ChatClient | null;
+  // Why the last attempt to connect failed; it is retried in the background.
+  error: string | null;
+  // Unread messages across all of the user's chats.
+  totalUnread: number;
+};
+
+const CONNECT_RETRY_MIN_MS = 5_000;
+const CONNECT_RETRY_MAX_MS = 60_000;
+// Bursts of messages and read markers collapse into one count refresh.
+const UNREAD_REFRESH_DELAY_MS = 300;
+
+const ChatContext = createContext<ChatContextType | undefined>(undefined);
+
+export function ChatProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const userId = user ? userIdOf(user) || null : null;
+  const [client, setClient] = useState<ChatClient | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [totalUnread, setTotalUnread] = useState(0);
+
+  // One connection per signed-in user, dropped as soon as they sign out.
+  useEffect(() => {
+    setClient(null);
+    setError(null);
+    setTotalUnread(0);
+    if (!userId) return;
+
+    let current: ChatClient | null = null;
+    let cancelled = false;
+    let retryTimer: number | null = null;
+    let retryDelay = CONNECT_RETRY_MIN_MS;
+    const controller = new AbortController();
+
+    const connect = async () => {
+      retryTimer = null;
+      try {
+        const next = await connectChat({ signal: controller.signal });
+        if (cancelled) {
+          void next.disconnect();
+          return;
+        }
+        current = next;
+        setError(null);
+        setClient(next);
+      } catch (err: unknown) {
+        if (cancelled) return;
+        setError(errorMessage(err, "Chat is unavailable right now"));
+        retryTimer = window.setTimeout(() => void connect(), retryDelay);
+        retryDelay = Math.min(retryDelay * 2, CONNECT_RETRY_MAX_MS);
+      }
+    };
+
+    void connect();
+
+    return () => {
+      cancelled = true;
+      controller.abort();
+      if (retryTimer != null) window.clearTimeout(retryTimer);
+      if (current) void current.disconnect();
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    if (!client) return;
+
+    let timer: number | null = null;
+    const refresh = () => {
+      if (timer != null) return;
+      timer = window.setTimeout(() => {
+        timer = null;
+        client
+          .totalUnread()
+          .then(setTotalUnread)
+          .catch(() => {
+            // keep the last known count
+          });
+      }, UNREAD_REFRESH_DELAY_MS);
+    };
+
+    refresh();
+    const unsubscribe = client.subscribe((event) => {
+      if (event.type === "message.new" && event.message.userId === client.userId) return;
+      if (event.type !== "presence") refresh();
+    });
+
+    return () => {
+      unsubscribe();
+      if (timer != null) window.clearTimeout(timer);
+    };
+  }, [client]);
+
+  const value = useMemo(() => ({ client, error, totalUnread }), [client, error, totalUnread]);
+
+  return <ChatContext.Provider value={value}>{children}</ChatContext.Provider>;
+}
+
+export function useChat() {
+  const context = useContext(ChatContext);
+  if (!context) throw new Error("useChat must be used within ChatProvider");
+  return context;
+}
@@ -3,38 +3,21 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
+import MediaCarousel from "@/components/MediaCarousel";
+import { EditedMarker, PostEditor, PostMenu } from "@/components/PostControls";
+import PostEngagement from "@/components/PostEngagement";
 import UserAvatar from "@/components/UserAvatar";
-import { authHeader } from "@/lib/authToken";
-import { getBackendBaseUrl } from "@/lib/backendBaseUrl";
-
-type FeedMedia = { type: "image" | "video"; url: string };
-type FeedPost = {
-  id: string;
-  text: string;
-  media: FeedMedia | null;
-  createdAt: string;
-  author: { id: string; username?: string; fullName?: string; email?: string };
-};
-
-type EventItem = {
-  id: string;
-  title: string;
-  sport?: string;
-  startsAt: string;
-  maxParticipants: number;
-  participantsCount: number;
-  joined: boolean;
-};
-
-type Friend = { id?: string; _id?: string; username?: string; email?: string };
-
-function toIdString(id: unknown): string {
-  return typeof id === "string" ? id : String(id ?? "");
-}
-
-function displayName(user: { username?: string; fullName?: string; email?: string } | null): string {
-  return user?.username ?? user?.fullName ?? user?.email ?? "Unknown";
-}
+import { useAuth } from "@/context/AuthContext";
+import { api, errorMessage } from "@/lib/apiClient";
+import {
+  displayName,
+  parse,
+  toIdString,
+  userIdOf,
+  type EventItem,
+  type FeedPost,
+  type Friend,
+} from "@/lib/apiTypes";
 
 function formatRelativeTime(iso: string): string {
   const d = new Date(iso);
@@ -49,14 +32,6 @@ function formatRelativeTime(iso: string): string {
   return `${Math.round(diffHr / 24)}d ago`;
 }
 
-function resolveMediaUrl(base: string | undefined, url: string): string {
-  const raw = String(url ?? "").trim();
-  if (!raw) return "";
-  if (raw.startsWith("http://") || raw.startsWith("https://")) return raw;
-  if (raw.startsWith("/") && base) return `${base}${raw}`;
-  return raw;
-}
-
 function Card({
   title,
   right,
@@ -78,23 +53,27 @@ function Card({
 }
 
 function FeedCard({
-  base,
   post,
+  isMine,
   onConnect,
   connectBusy,
+  onUpdated,
+  onDeleted,
 }: {
-  base: string | undefined;
   post: FeedPost;
+  isMine: boolean;
   onConnect: (userId: string) => void;
   connectBusy: boolean;
+  onUpdated: (post: FeedPost) => void;
+  onDeleted: (postId: string) => void;
 }) {
+  const [editing, setEditing] = useState(false);
   const authorId = toIdString(post.author?.id);
-  const name = displayName(post.author ?? null);
+  const name = displayName(post.author);
   const handle = post.author?.username ? `@${post.author.username}` : null;
-  const mediaUrl = post.media ? resolveMediaUrl(base, post.media.url) : "";
 
   return (
-    <article className="app-card overflow-hidden">
+    <article className="app-card">
       <div className="p-5 flex items-start justify-between gap-4">
         <div className="flex items-center gap-3 min-w-0">
           {authorId ? <UserAvatar userId={authorId} name={name} size={46} /> : null}
@@ -103,58 +82,63 @@ function FeedCard({
               <div className="font-semibold text-slate-900 truncate">{name}</div>
               {handle ? <div className="text-sm text-slate-500 truncate">{handle}</div> : null}
             </div>
-            <div className="text-sm text-slate-500">{formatRelativeTime(post.createdAt)}</div>
+            <div className="flex items-center gap-2 text-sm text-slate-500">
+              {formatRelativeTime(post.createdAt)}
+              <EditedMarker post={post} />
+            </div>
           </div>
         </div>
 
-        <button type="button" className="text-slate-400 hover:text-slate-600" aria-label="More">
-          <svg viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5" aria-hidden="true">
-            <circle cx="5" cy="12" r="1.8" />
-            <circle cx="12" cy="12" r="1.8" />
-            <circle cx="19" cy="12" r="1.8" />
-          </svg>
-        </button>
+        <PostMenu
+          post={post}
+          isMine={isMine}
+          onEdit={() => setEditing(true)}
+          onUpdated={onUpdated}
+          onDeleted={onDeleted}
+        />
       </div>
 
-      <div className="px-5 pb-4 text-xl text-slate-800 leading-snug">{post.text}</div>
+      {editing ? (
+        <div className="px-5 pb-4">
+          <PostEditor
+            post={post}
+            onSaved={(updated) => {
+              onUpdated(updated);
+              setEditing(false);
+            }}
+            onCancel={() => setEditing(false)}
+          />
+        </div>
+      ) : (
+        <div className="px-5 pb-4 text-xl text-slate-800 leading-snug">{post.text}</div>
+      )}
 
-      {mediaUrl ? (
+      {post.media.length > 0 ? (
         <div className="px-5 pb-5">
-          <div className="relative w-full overflow-hidden rounded-2xl bg-slate-100 aspect-[16/9]">
-            {post.media?.type === "video" ? (
-              <video src={mediaUrl} controls className="absolute inset-0 h-full w-full object-cover" />
-            ) : (
-              <img
-                src={mediaUrl}
-                alt=""
-                className="absolute inset-0 h-full w-full object-cover"
-                loading="lazy"
-              />
-            )}
+          <div className="overflow-hidden rounded-2xl bg-slate-100">
+            <MediaCarousel
+              media={post.media}
+              alt=""
+              slideClassName="relative aspect-[16/9]"
+              mediaClassName="absolute inset-0 h-full w-full object-cover"
+            />
           </div>
         </div>
       ) : null}
 
-      <div className="px-5 pb-5 flex items-center justify-between gap-4">
-        <div className="flex items-center gap-5 text-slate-500">
-          <span className="inline-flex items-center gap-2">
-            <span className="text-lg tabular-nums">0</span>
-            <span className="text-sm">likes</span>
-          </span>
-          <span className="inline-flex items-center gap-2">
-            <span className="text-lg tabular-nums">0</span>
-            <span className="text-sm">comments</span>
-          </span>
+      <div className="px-5 pb-5 space-y-4">
+        <PostEngagement post={post} />
+
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={() => onConnect(authorId)}
+            disabled={!authorId || connectBusy}
+            className="btn-primary px-6 py-3 text-sm"
+          >
+            {connectBusy ? "Connecting…" : "Connect"}
+          </button>
         </div>
-
-        <button
-          type="button"
-          onClick={() => onConnect(authorId)}
-          disabled={!authorId || connectBusy}
-          className="btn-primary px-6 py-3 text-sm"
-        >
-          {connectBusy ? "Connecting…" : "Connect"}
-        </button>
       </div>
     </article>
   );
@@ -162,7 +146,8 @@ function FeedCard({
 
 export default function DashboardPage() {
   const router = useRouter();
-  const base = useMemo(() => getBackendBaseUrl(), []);
+  const { user } = useAuth();
+  const myId = userIdOf(user);
 
   const [posts, setPosts] = useState<FeedPost[]>([]);
   const [events, setEvents] = useState<EventItem[]>([]);
@@ -173,55 +158,24 @@ export default function DashboardPage() {
   const joiningRef = useRef<string | null>(null);
 
   const refresh = useCallback(async () => {
-    if (!base) {
-      setError("Missing NEXT_PUBLIC_BACKEND_URL");
-      setLoading(false);
-      return;
-    }
-
     setError(null);
-    const headers = authHeader();
-    const [feedRes, eventsRes, friendsRes] = await Promise.all([
-      fetch(`${base}/api/feed`, { credentials: "include", headers }),
-      fetch(`${base}/api/events`, { credentials: "include", headers }),
-      fetch(`${base}/api/friends`, { credentials: "include", headers }),
+    const [feed, eventList, friendList] = await Promise.allSettled([
+      api.get("/api/feed", parse.feed, { query: { limit: 6 } }),
+      api.get("/api/events", parse.events),
+      api.get("/api/friends", parse.friends),
     ]);
 
-    if (feedRes.status === 401 || eventsRes.status === 401 || friendsRes.status === 401) {
-      router.replace("/auth/login");
-      return;
-    }
-
-    if (feedRes.ok) {
-      const data = (await feedRes.json()) as { posts?: FeedPost[] };
-      setPosts(Array.isArray(data?.posts) ? data.posts.slice(0, 6) : []);
-    } else {
-      setPosts([]);
-    }
-
-    if (eventsRes.ok) {
-      const data = (await eventsRes.json()) as { events?: EventItem[] };
-      setEvents(Array.isArray(data?.events) ? data.events : []);
-    } else {
-      setEvents([]);
-    }
-
-    if (friendsRes.ok) {
-      const data = (await friendsRes.json()) as { friends?: Friend[] };
-      setFriends(Array.isArray(data?.friends) ? data.friends : []);
-    } else {
-      setFriends([]);
-    }
-  }, [base, router]);
+    setPosts(feed.status === "fulfilled" ? feed.value.posts : []);
+    setEvents(eventList.status === "fulfilled" ? eventList.value : []);
+    setFriends(friendList.status === "fulfilled" ? friendList.value : []);
+    if (feed.status === "rejected") setError(errorMessage(feed.reason, "Failed to load dashboard"));
+  }, []);
 
   useEffect(() => {
     let mounted = true;
     (async () => {
       try {
         await refresh();
-      } catch {
-        if (!mounted) return;
-        setError("Failed to load dashboard");
       } finally {
         if (mounted) setLoading(false);
       }
@@ -245,54 +199,35 @@ export default function DashboardPage() {
   }, [events]);
 
   const joinFeatured = useCallback(async () => {
-    if (!base || !featuredEvent) return;
+    if (!featuredEvent) return;
     if (joiningRef.current) return;
     joiningRef.current = featuredEvent.id;
     setError(null);
     try {
       const action = featuredEvent.joined ? "leave" : "join";
-      const res = await fetch(
-        `${base}/api/events/${encodeURIComponent(featuredEvent.id)}/${action}`,
-        { method: "POST", credentials: "include", headers: authHeader() }
-      );
-      if (res.status === 401) {
-        router.replace("/auth/login");
-        return;
-      }
-      if (!res.ok) throw new Error("Event action failed");
+      await api.post(`/api/events/${encodeURIComponent(featuredEvent.id)}/${action}`);
       await refresh();
     } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : "Event action failed");
+      setError(errorMessage(e, "Event action failed"));
     } finally {
       joiningRef.current = null;
     }
-  }, [base, featuredEvent, refresh, router]);
+  }, [featuredEvent, refresh]);
 
   const connectToAuthor = useCallback(
     async (targetUserId: string) => {
-      if (!base) return;
       if (!targetUserId) return;
       setConnectingTo(targetUserId);
       setError(null);
       try {
-        const res = await fetch(`${base}/api/friends/request`, {
-          method: "POST",
-          headers: { ...authHeader(), "content-type": "application/json" },
-          credentials: "include",
-          body: JSON.stringify({ userId: targetUserId }),
-        });
-        if (res.status === 401) {
-          router.replace("/auth/login");
-          return;
-        }
-        if (!res.ok) throw new Error("Failed to send request");
+        await api.post("/api/friends/request", { userId: targetUserId });
       } catch (e: unknown) {
-        setError(e instanceof Error ? e.message : "Failed to send request");
+        setError(errorMessage(e, "Failed to send request"));
       } finally {
         setConnectingTo(null);
       }
     },
-    [base, router]
+    []
   );
 
   if (loading) {
@@ -335,10 +270,14 @@ export default function DashboardPage() {
                 posts.map((p) => (
                   <FeedCard
                     key={p.id}
-                    base={base}
                     post={p}
+                    isMine={Boolean(myId) && toIdString(p.author?.id) === myId}
                     onConnect={connectToAuthor}
                     connectBusy={connectingTo === toIdString(p.author?.id)}
+                    onUpdated={(updated) =>
+                      setPosts((prev) => prev.map((x) => (x.id === updated.id ? updated : x)))
+                    }
+                    onDeleted={(postId) => setPosts((prev) => prev.filter((x) => x.id !== postId))}
                   />
                 ))
               )}
@@ -426,8 +365,8 @@ export default function DashboardPage() {
               ) : (
                 <div className="space-y-4">
                   {friends.slice(0, 4).map((f) => {
-                    const id = toIdString(f.id ?? f._id);
-                    const name = displayName(f as { username?: string; email?: string });
+                    const id = userIdOf(f);
+                    const name = displayName(f);
                     return (
                       <div key={id || name} className="flex items-center justify-between gap-3">
                         <div className="flex items-center gap-3 min-w-0">
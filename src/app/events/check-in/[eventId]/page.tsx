@@ -0,0 +1,68 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { api, errorMessage } from "@/lib/apiClient";
+import { parse, type CheckInResult } from "@/lib/apiTypes";
+
+// Where the organizer's QR code leads. Checking in happens as soon as the
+// page opens; logged-out players come back here after signing in.
+export default function EventCheckInPage() {
+  const router = useRouter();
+  const { eventId } = useParams<{ eventId: string }>();
+  const code = useSearchParams().get("code") ?? "";
+  const [result, setResult] = useState<CheckInResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const checkIn = async () => {
+      try {
+        if (!eventId) return;
+        setError(null);
+        setResult(null);
+        const checkedIn = await api.post(
+          `/api/events/${encodeURIComponent(eventId)}/check-in`,
+          { code },
+          parse.checkInResult,
+          { signal: controller.signal }
+        );
+        setResult(checkedIn);
+      } catch (e: unknown) {
+        const message = errorMessage(e, "Check-in failed");
+        if (message) setError(message);
+      }
+    };
+
+    checkIn();
+
+    return () => controller.abort();
+  }, [code, eventId]);
+
+  return (
+    <div className="min-h-full flex items-center justify-center p-6">
+      <div className="max-w-lg w-full app-card p-6 text-center">
+        {error ? (
+          <div className="text-red-700">{error}</div>
+        ) : result ? (
+          <>
+            <div className="text-4xl">✅</div>
+            <div className="mt-2 text-lg font-semibold text-gray-900">You&apos;re checked in</div>
+            <div className="mt-1 text-sm text-gray-600">
+              {result.eventTitle} •{" "}
+              {new Date(result.checkedInAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+            </div>
+          </>
+        ) : (
+          <div className="text-gray-500">Checking you in…</div>
+        )}
+        <div className="mt-4">
+          <button type="button" onClick={() => router.push("/events")} className="btn-soft">
+            Go to events
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,54 +2,35 @@
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
-import { authHeader } from "@/lib/authToken";
+import QRCode from "qrcode";
+import { api, apiFetch, ApiError, errorMessage, isAbortError } from "@/lib/apiClient";
+import {
+  parse,
+  type AttendanceStatus,
+  type CheckInSource,
+  type EventAttendance,
+  type EventCheckIn,
+  type EventItem,
+  type EventSeries,
+  type Frequency,
+  type GeoCoords,
+  type GeoResult,
+  type Team,
+  type TournamentFormat,
+} from "@/lib/apiTypes";
 import { getBackendBaseUrl } from "@/lib/backendBaseUrl";
 import MapPreview from "@/components/MapPreview";
 import LivePlayersMap from "@/components/LivePlayersMap";
 
-type GeoCoords = { lat: number; lng: number };
-type GeoResult = { displayName: string; lat: number; lng: number };
-
-type EventItem = {
-  id: string;
-  title: string;
-  description?: string;
-  sport?: string;
-  startsAt: string;
-  locationName?: string;
-  locationCoords?: GeoCoords | null;
-  visibility: "public" | "friends";
-  maxParticipants: number;
-  participantsCount: number;
-  joined: boolean;
-  owner: boolean;
-  createdBy?: { id: string; username?: string; email?: string };
-};
-
-async function readJsonOrText(res: Response): Promise<{ isJson: boolean; body: unknown }> {
-  const contentType = res.headers.get("content-type") ?? "";
-  if (contentType.includes("application/json")) {
-    return { isJson: true, body: await res.json() };
-  }
-  return { isJson: false, body: await res.text() };
-}
-
-function messageFromBody(parsed: { isJson: boolean; body: unknown }): string | null {
-  if (parsed.isJson && parsed.body && typeof parsed.body === "object") {
-    const anyBody = parsed.body as { message?: unknown; error?: unknown };
-    if (typeof anyBody.message === "string" && anyBody.message.trim()) return anyBody.message;
-    if (typeof anyBody.error === "string" && anyBody.error.trim()) return anyBody.error;
-    return null;
-  }
-  if (!parsed.isJson && typeof parsed.body === "string") {
-    const text = parsed.body
-      .replace(/<[^>]+>/g, " ")
-      .replace(/\s+/g, " ")
-      .trim();
-    return text || null;
-  }
-  return null;
-}
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const CHECK_IN_LABELS: Record<CheckInSource, string> = { qr: "scanned QR", nearby: "on arrival" };
+// How often the organizer's check-in roster refreshes.
+const CHECK_IN_POLL_MS = 10_000;
+const TOURNAMENT_FORMATS: [TournamentFormat, string][] = [
+  ["single_elimination", "Single elimination"],
+  ["double_elimination", "Double elimination"],
+  ["round_robin", "Round robin"],
+];
 
 function formatWhen(iso: string) {
   const d = new Date(iso);
@@ -57,6 +38,726 @@ function formatWhen(iso: string) {
   return d.toLocaleString();
 }
 
+function formatDateKey(key: string) {
+  const d = new Date(`${key}T00:00:00`);
+  if (Number.isNaN(d.getTime())) return key;
+  return d.toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+}
+
+function describeSeries(series: EventSeries) {
+  const days = series.weekdays.map((d) => WEEKDAY_LABELS[d]).join(", ");
+  const rule =
+    series.frequency === "monthly"
+      ? "Monthly"
+      : `${series.frequency === "biweekly" ? "Every 2 weeks" : "Weekly"} on ${days}`;
+  if (series.until) return `${rule} until ${formatDateKey(series.until)}`;
+  if (series.count) return `${rule}, ${series.count} times`;
+  return rule;
+}
+
+// datetime-local inputs want local wall-clock time without a zone suffix.
+function toLocalInput(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function toLocalTime(iso: string) {
+  return toLocalInput(iso).slice(11, 16);
+}
+
+function CalendarSubscription() {
+  const [url, setUrl] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (rotate: boolean) => {
+    setBusy(true);
+    setError(null);
+    try {
+      setUrl(
+        rotate
+          ? await api.post("/api/calendar/subscription/rotate", undefined, parse.calendarUrl)
+          : await api.get("/api/calendar/subscription", parse.calendarUrl)
+      );
+      setCopied(false);
+    } catch (e: unknown) {
+      setError(errorMessage(e, "Failed to load calendar link"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const copy = async () => {
+    if (!url) return;
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch {
+      setError("Could not copy the link");
+    }
+  };
+
+  return (
+    <div className="mt-5 rounded-2xl bg-white/80 ring-1 ring-slate-200/70 shadow-sm overflow-hidden backdrop-blur">
+      <div className="px-4 py-3 border-b border-slate-200/70 bg-gradient-to-r from-white to-slate-50">
+        <div className="text-sm font-semibold text-gray-900">Calendar subscription</div>
+        <div className="text-xs text-gray-600">
+          Events you created or joined show up in Google or Apple Calendar and stay in sync.
+        </div>
+      </div>
+      <div className="p-4 grid gap-3">
+        {url ? (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <input
+                readOnly
+                value={url}
+                onFocus={(e) => e.currentTarget.select()}
+                className="min-w-0 flex-1 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-xs text-gray-800"
+              />
+              <button type="button" onClick={copy} className="btn-soft">
+                {copied ? "Copied" : "Copy"}
+              </button>
+              <a href={url.replace(/^https?:/, "webcal:")} className="btn-secondary">
+                Open in calendar app
+              </a>
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-600">
+              <span>Keep this link private — anyone with it can see your events.</span>
+              <button
+                type="button"
+                onClick={() => load(true)}
+                disabled={busy}
+                className="text-red-700 hover:underline disabled:opacity-60"
+              >
+                Reset link
+              </button>
+            </div>
+          </>
+        ) : (
+          <div>
+            <button type="button" onClick={() => load(false)} disabled={busy} className="btn-soft">
+              {busy ? "Loading…" : "Get subscription link"}
+            </button>
+          </div>
+        )}
+        {error ? <div className="text-sm text-red-700">{error}</div> : null}
+      </div>
+    </div>
+  );
+}
+
+type EditScope = "occurrence" | "series";
+
+// The backend won't cancel dates people have signed up for until the creator
+// confirms; it answers 409 with the affected dates.
+function needsCancelConfirm(e: unknown): e is ApiError {
+  if (!(e instanceof ApiError) || e.status !== 409) return false;
+  return !!e.body && typeof e.body === "object" && Array.isArray((e.body as { cancelDates?: unknown }).cancelDates);
+}
+
+function EventEditor({ ev, onChanged }: { ev: EventItem; onChanged: () => Promise<void> }) {
+  const [open, setOpen] = useState(false);
+  const [scope, setScope] = useState<EditScope>(ev.series ? "series" : "occurrence");
+  const [title, setTitle] = useState(ev.title);
+  const [sport, setSport] = useState(ev.sport ?? "");
+  const [description, setDescription] = useState(ev.description ?? "");
+  const [maxParticipants, setMaxParticipants] = useState(ev.maxParticipants);
+  const [minReliability, setMinReliability] = useState(ev.minReliability ?? 0);
+  const [startsAt, setStartsAt] = useState(toLocalInput(ev.startsAt));
+  const [time, setTime] = useState(toLocalTime(ev.startsAt));
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async (request: (confirm: boolean) => Promise<unknown>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      try {
+        await request(false);
+      } catch (e: unknown) {
+        if (!needsCancelConfirm(e)) throw e;
+        if (!window.confirm(`${e.message} Go ahead?`)) return false;
+        await request(true);
+      }
+      await onChanged();
+      return true;
+    } catch (e: unknown) {
+      setError(errorMessage(e, fallback));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = async () => {
+    const fields = { title, sport, description, maxParticipants, minReliability };
+    const ok =
+      scope === "series" && ev.seriesId
+        ? await send(
+            (confirm) =>
+              api.patch(`/api/events/series/${encodeURIComponent(ev.seriesId!)}`, { ...fields, time, confirm }),
+            "Failed to update series"
+          )
+        : await send(
+            () =>
+              api.patch(`/api/events/${encodeURIComponent(ev.id)}`, {
+                ...fields,
+                startsAt: new Date(startsAt).toISOString(),
+              }),
+            "Failed to update event"
+          );
+    if (ok) setOpen(false);
+  };
+
+  const skip = () =>
+    send((confirm) => api.post(`/api/events/${encodeURIComponent(ev.id)}/skip`, { confirm }), "Failed to skip date");
+
+  const restore = (date: string) =>
+    ev.seriesId
+      ? send(
+          () => api.post(`/api/events/series/${encodeURIComponent(ev.seriesId!)}/restore`, { date }),
+          "Failed to restore date"
+        )
+      : Promise.resolve(false);
+
+  const inputClass =
+    "mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm outline-none ring-blue-200 focus:ring";
+
+  return (
+    <div className="mt-4 rounded-xl bg-slate-50/70 ring-1 ring-slate-200/70 p-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={() => setOpen((v) => !v)} className="btn-soft" disabled={busy}>
+          {open ? "Close editor" : "Edit"}
+        </button>
+        {ev.seriesId ? (
+          <button type="button" onClick={skip} className="btn-soft" disabled={busy}>
+            Skip {ev.occurrenceDate ? formatDateKey(ev.occurrenceDate) : "this date"}
+          </button>
+        ) : null}
+      </div>
+
+      {error ? <div className="mt-2 text-sm text-red-700">{error}</div> : null}
+
+      {open ? (
+        <div className="mt-3 grid gap-3">
+          {ev.seriesId ? (
+            <div className="flex flex-wrap gap-2">
+              {(
+                [
+                  ["occurrence", "Only this date"],
+                  ["series", "All upcoming dates"],
+                ] as const
+              ).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setScope(value)}
+                  className={[
+                    "rounded-xl border px-3 py-1.5 text-sm transition",
+                    scope === value
+                      ? "border-blue-600 bg-blue-50 text-blue-700"
+                      : "border-slate-200 bg-white text-gray-800 hover:bg-slate-50",
+                  ].join(" ")}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          ) : null}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs font-medium text-gray-700">Title</label>
+              <input value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className="text-xs font-medium text-gray-700">Sport</label>
+              <input value={sport} onChange={(e) => setSport(e.target.value)} className={inputClass} />
+            </div>
+            {scope === "series" && ev.seriesId ? (
+              <div>
+                <label className="text-xs font-medium text-gray-700">Start time</label>
+                <input type="time" value={time} onChange={(e) => setTime(e.target.value)} className={inputClass} />
+              </div>
+            ) : (
+              <div>
+                <label className="text-xs font-medium text-gray-700">Date & time</label>
+                <input
+                  type="datetime-local"
+                  value={startsAt}
+                  onChange={(e) => setStartsAt(e.target.value)}
+                  className={inputClass}
+                />
+              </div>
+            )}
+            <div>
+              <label className="text-xs font-medium text-gray-700">Max participants</label>
+              <input
+                type="number"
+                min={2}
+                max={100}
+                value={maxParticipants}
+                onChange={(e) => setMaxParticipants(Number(e.target.value))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="text-xs font-medium text-gray-700">Minimum reliability (%)</label>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={minReliability}
+                onChange={(e) => setMinReliability(Number(e.target.value))}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="text-xs font-medium text-gray-700">Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className={`${inputClass} min-h-[70px]`}
+            />
+          </div>
+          {scope === "series" && ev.seriesId ? (
+            <div className="text-xs text-gray-600">
+              Dates you changed individually keep their own changes.
+            </div>
+          ) : null}
+          <div className="flex justify-end">
+            <button type="button" onClick={save} disabled={busy || !title.trim()} className="btn-primary">
+              {busy ? "Saving…" : "Save changes"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {ev.series && ev.series.skippedDates.length > 0 ? (
+        <div className="mt-3">
+          <div className="text-xs font-medium text-gray-700">Skipped dates</div>
+          <div className="mt-1 flex flex-wrap gap-1.5">
+            {ev.series.skippedDates.map((date) => (
+              <span
+                key={date}
+                className="inline-flex items-center gap-1.5 rounded-lg bg-white px-2 py-1 text-xs text-gray-700 ring-1 ring-slate-200"
+              >
+                {formatDateKey(date)}
+                <button
+                  type="button"
+                  onClick={() => restore(date)}
+                  disabled={busy}
+                  className="text-blue-700 hover:underline disabled:opacity-60"
+                >
+                  Restore
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function formatReliability(percent: number | null) {
+  return percent === null ? "No record yet" : `${percent}% reliable`;
+}
+
+function AttendancePanel({ eventId }: { eventId: string }) {
+  const [attendance, setAttendance] = useState<EventAttendance | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    api
+      .get(`/api/events/${encodeURIComponent(eventId)}/attendance`, parse.attendance, {
+        signal: controller.signal,
+      })
+      .then(setAttendance)
+      .catch((e: unknown) => setError(errorMessage(e, "Failed to load attendance")));
+    return () => controller.abort();
+  }, [eventId]);
+
+  const mark = async (userId: string, status: AttendanceStatus | null) => {
+    setBusyId(userId);
+    setError(null);
+    try {
+      const next = await api.put(
+        `/api/events/${encodeURIComponent(eventId)}/attendance`,
+        { marks: { [userId]: status } },
+        parse.attendance
+      );
+      setAttendance(next);
+    } catch (e: unknown) {
+      setError(errorMessage(e, "Failed to save attendance"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="mt-4 rounded-xl bg-slate-50/70 ring-1 ring-slate-200/70 p-3">
+      <div className="text-sm font-semibold text-slate-900">Attendance</div>
+      {error ? <div className="mt-2 text-sm text-red-700">{error}</div> : null}
+      {!attendance ? (
+        error ? null : <div className="mt-2 text-sm text-slate-600">Loading…</div>
+      ) : attendance.participants.length === 0 ? (
+        <div className="mt-2 text-sm text-slate-600">Nobody else has joined this event.</div>
+      ) : (
+        <>
+          {!attendance.canMark ? (
+            <div className="mt-1 text-xs text-slate-600">
+              Attendance can be marked once the event starts, for up to two weeks.
+            </div>
+          ) : null}
+          <ul className="mt-2 grid gap-2">
+            {attendance.participants.map((p) => (
+              <li key={p.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <div className="font-medium text-slate-900">{p.username ?? "Player"}</div>
+                  <div className="text-xs text-slate-500">
+                    {formatReliability(p.reliability.percent)}
+                    {p.source === "qr" || p.source === "nearby" ? ` • checked in ${CHECK_IN_LABELS[p.source]}` : ""}
+                  </div>
+                </div>
+                <div className="flex gap-1.5">
+                  {(
+                    [
+                      ["present", "Present"],
+                      ["absent", "No-show"],
+                    ] as const
+                  ).map(([value, label]) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => mark(p.id, p.status === value ? null : value)}
+                      disabled={!attendance.canMark || busyId === p.id}
+                      className={[
+                        "rounded-xl border px-3 py-1.5 text-xs transition disabled:opacity-60",
+                        p.status === value
+                          ? "border-blue-600 bg-blue-50 text-blue-700"
+                          : "border-slate-200 bg-white text-gray-800 hover:bg-slate-50",
+                      ].join(" ")}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+// The organizer's venue screen: a QR code players scan to check in, and
+// the roster of who has arrived so far.
+function CheckInPanel({ eventId }: { eventId: string }) {
+  const [checkIn, setCheckIn] = useState<EventCheckIn | null>(null);
+  const [qrUrl, setQrUrl] = useState<string | null>(null);
+  const [showQr, setShowQr] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(
+    (signal?: AbortSignal) =>
+      api
+        .get(`/api/events/${encodeURIComponent(eventId)}/check-in`, parse.eventCheckIn, { signal, retries: 0 })
+        .then((next) => {
+          setCheckIn(next);
+          setError(null);
+        })
+        .catch((e: unknown) => setError(errorMessage(e, "Failed to load check-ins"))),
+    [eventId]
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void load(controller.signal);
+    return () => controller.abort();
+  }, [load]);
+
+  // The roster only changes while check-in is open.
+  const open = checkIn?.open ?? false;
+  useEffect(() => {
+    if (!open) return;
+    const timer = window.setInterval(() => void load(), CHECK_IN_POLL_MS);
+    return () => window.clearInterval(timer);
+  }, [load, open]);
+
+  const code = checkIn?.code;
+  useEffect(() => {
+    if (!showQr || !code) return;
+    let cancelled = false;
+    const link = `${window.location.origin}/events/check-in/${encodeURIComponent(eventId)}?code=${encodeURIComponent(code)}`;
+    QRCode.toDataURL(link, { width: 320, margin: 1 })
+      .then((url) => {
+        if (!cancelled) setQrUrl(url);
+      })
+      .catch(() => {
+        if (!cancelled) setError("Failed to create the QR code");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [code, eventId, showQr]);
+
+  const rotate = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setCheckIn(await api.post(`/api/events/${encodeURIComponent(eventId)}/check-in/code`, undefined, parse.eventCheckIn));
+    } catch (e: unknown) {
+      setError(errorMessage(e, "Failed to create a new code"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 rounded-xl bg-slate-50/70 ring-1 ring-slate-200/70 p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <div className="text-sm font-semibold text-slate-900">Check-in</div>
+          {checkIn ? (
+            <div className="text-xs text-slate-600">
+              {checkIn.roster.length} of {checkIn.expected} checked in
+              {checkIn.open ? "" : ` • open ${formatWhen(checkIn.opensAt)} – ${formatWhen(checkIn.closesAt)}`}
+            </div>
+          ) : null}
+        </div>
+        <div className="flex gap-2">
+          <button type="button" onClick={() => setShowQr((v) => !v)} className="btn-soft" disabled={!checkIn}>
+            {showQr ? "Hide QR code" : "Show QR code"}
+          </button>
+          {showQr ? (
+            <button type="button" onClick={rotate} className="btn-soft" disabled={busy}>
+              New code
+            </button>
+          ) : null}
+        </div>
+      </div>
+
+      {error ? <div className="mt-2 text-sm text-red-700">{error}</div> : null}
+
+      {showQr && qrUrl ? (
+        <div className="mt-3 flex flex-col items-center gap-2">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img src={qrUrl} alt="Check-in QR code" width={320} height={320} className="rounded-lg bg-white" />
+          <div className="text-xs text-slate-600 text-center">
+            Players scan this with their phone camera to check in. A new code stops old ones from working.
+          </div>
+        </div>
+      ) : null}
+
+      {checkIn && checkIn.roster.length > 0 ? (
+        <ul className="mt-3 grid gap-1 text-sm">
+          {checkIn.roster.map((entry) => (
+            <li key={entry.id} className="flex items-center justify-between gap-2">
+              <span className="font-medium text-slate-900">✓ {entry.username}</span>
+              <span className="text-xs text-slate-500">
+                {new Date(entry.checkedInAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })} •{" "}
+                {CHECK_IN_LABELS[entry.source]}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
+
+// Sets up a tournament for an event. Everyone who joins the event is
+// registered; the bracket itself is managed on the tournament page.
+function TournamentSetup({ eventId, onCreated }: { eventId: string; onCreated: (id: string) => void }) {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<TournamentFormat>("single_elimination");
+  const [seeding, setSeeding] = useState<"rating" | "manual">("rating");
+  const [groupCount, setGroupCount] = useState(1);
+  const [organizerPlays, setOrganizerPlays] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const create = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const tournament = await api.post(
+        "/api/tournaments",
+        { eventId, format, seeding, groupCount, organizerPlays },
+        parse.tournament
+      );
+      onCreated(tournament.id);
+    } catch (e: unknown) {
+      setError(errorMessage(e, "Failed to create the tournament"));
+      setBusy(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <div className="mt-4">
+        <button type="button" onClick={() => setOpen(true)} className="btn-soft">
+          Run a tournament
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 rounded-xl bg-slate-50/70 ring-1 ring-slate-200/70 p-3">
+      <div className="text-sm font-semibold text-slate-900">Tournament</div>
+      <div className="mt-2 flex flex-wrap gap-1.5">
+        {TOURNAMENT_FORMATS.map(([value, label]) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => setFormat(value)}
+            className={[
+              "rounded-xl border px-3 py-1.5 text-xs transition",
+              format === value
+                ? "border-blue-600 bg-blue-50 text-blue-700"
+                : "border-slate-200 bg-white text-gray-800 hover:bg-slate-50",
+            ].join(" ")}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="text-xs font-medium text-gray-700">Seeding</label>
+          <select
+            value={seeding}
+            onChange={(e) => setSeeding(e.target.value as "rating" | "manual")}
+            className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm outline-none ring-blue-200 focus:ring"
+          >
+            <option value="rating">By rating</option>
+            <option value="manual">I&apos;ll order the players</option>
+          </select>
+        </div>
+        {format === "round_robin" ? (
+          <div>
+            <label className="text-xs font-medium text-gray-700">Groups</label>
+            <input
+              type="number"
+              min={1}
+              max={8}
+              value={groupCount}
+              onChange={(e) => setGroupCount(Number(e.target.value))}
+              className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm outline-none ring-blue-200 focus:ring"
+            />
+          </div>
+        ) : null}
+      </div>
+      <label className="mt-3 inline-flex items-center gap-2 text-sm text-gray-700">
+        <input type="checkbox" checked={organizerPlays} onChange={(e) => setOrganizerPlays(e.target.checked)} />
+        I&apos;m playing too
+      </label>
+      {error ? <div className="mt-2 text-sm text-red-700">{error}</div> : null}
+      <div className="mt-3 flex justify-end gap-2">
+        <button type="button" onClick={() => setOpen(false)} disabled={busy} className="btn-soft">
+          Cancel
+        </button>
+        <button type="button" onClick={create} disabled={busy} className="btn-primary">
+          {busy ? "Creating…" : "Create tournament"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Teams entered in the event, and entering one of yours. Each member takes a
+// spot, so a team only gets in when there's room for everyone.
+function TeamEntries({ ev, myTeams, onChanged }: { ev: EventItem; myTeams: Team[]; onChanged: () => Promise<void> }) {
+  const entered = ev.teams ?? [];
+  const eligible = myTeams.filter(
+    (t) =>
+      t.members.length >= 2 &&
+      (!ev.sport || t.sport.toLowerCase() === ev.sport.toLowerCase()) &&
+      !entered.some((e) => e.teamId === t.id)
+  );
+  const [teamId, setTeamId] = useState(eligible[0]?.id ?? "");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async (action: "join" | "leave", id: string, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await api.post(`/api/events/${encodeURIComponent(ev.id)}/${action}`, { teamId: id });
+      await onChanged();
+    } catch (e: unknown) {
+      setError(errorMessage(e, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (entered.length === 0 && eligible.length === 0) return null;
+  const selected = eligible.some((t) => t.id === teamId) ? teamId : (eligible[0]?.id ?? "");
+
+  return (
+    <div className="mt-4 rounded-xl bg-slate-50/70 ring-1 ring-slate-200/70 p-3">
+      <div className="text-sm font-semibold text-slate-900">Teams</div>
+      {entered.length > 0 ? (
+        <ul className="mt-2 grid gap-1.5 text-sm">
+          {entered.map((e) => (
+            <li key={e.teamId} className="flex items-center justify-between gap-2">
+              <span className="text-slate-800">
+                {e.name} <span className="text-xs text-slate-500">• {e.memberCount} players</span>
+              </span>
+              {e.mine ? (
+                <button
+                  type="button"
+                  onClick={() => send("leave", e.teamId, "Failed to withdraw the team")}
+                  disabled={busy}
+                  className="text-xs text-red-700 hover:underline disabled:opacity-60"
+                >
+                  Withdraw team
+                </button>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      {eligible.length > 0 ? (
+        <div className="mt-2 flex gap-2">
+          <select
+            value={selected}
+            onChange={(e) => setTeamId(e.target.value)}
+            className="min-w-0 flex-1 rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-gray-900"
+          >
+            {eligible.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name} ({t.members.length} players)
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => send("join", selected, "Failed to enter the team")}
+            disabled={busy || !selected}
+            className="btn-soft"
+          >
+            Enter team
+          </button>
+        </div>
+      ) : null}
+      {error ? <div className="mt-2 text-sm text-red-700">{error}</div> : null}
+    </div>
+  );
+}
+
 export default function EventsPage() {
   const router = useRouter();
   const [events, setEvents] = useState<EventItem[]>([]);
@@ -65,6 +766,7 @@ export default function EventsPage() {
   const [justCreatedEventId, setJustCreatedEventId] = useState<string | null>(null);
   const [vibrateIndex, setVibrateIndex] = useState<number>(0);
   const [expandedEventId, setExpandedEventId] = useState<string | null>(null);
+  const [myTeams, setMyTeams] = useState<Team[]>([]);
 
   // Create form
   const [title, setTitle] = useState("");
@@ -72,7 +774,13 @@ export default function EventsPage() {
   const [startsAt, setStartsAt] = useState("");
   const [visibility, setVisibility] = useState<"public" | "friends">("public");
   const [maxParticipants, setMaxParticipants] = useState<number>(10);
+  const [minReliability, setMinReliability] = useState<number>(0);
   const [description, setDescription] = useState("");
+  const [repeat, setRepeat] = useState<"none" | Frequency>("none");
+  const [repeatWeekdays, setRepeatWeekdays] = useState<number[]>([]);
+  const [repeatEnd, setRepeatEnd] = useState<"count" | "until">("count");
+  const [repeatCount, setRepeatCount] = useState<number>(8);
+  const [repeatUntil, setRepeatUntil] = useState("");
 
   // Location picker (same style as signup)
   const [locationName, setLocationName] = useState("");
@@ -88,21 +796,19 @@ export default function EventsPage() {
   const base = useMemo(() => getBackendBaseUrl(), []);
 
   const refresh = useCallback(async () => {
-    if (!base) return;
     setError(null);
-    const res = await fetch(`${base}/api/events`, { credentials: "include", headers: authHeader() });
-    if (res.status === 401) {
-      router.push("/auth/login");
-      return;
-    }
-    const parsed = await readJsonOrText(res);
-    if (!res.ok) {
-      throw new Error(messageFromBody(parsed) || "Failed to load events");
-    }
-    if (!parsed.isJson) throw new Error("Unexpected server response");
-    const data = parsed.body as { events?: EventItem[] };
-    setEvents(Array.isArray(data.events) ? data.events : []);
-  }, [base, router]);
+    setEvents(await api.get("/api/events", parse.events));
+  }, []);
+
+  // Only used to offer entering a team; events work without it.
+  useEffect(() => {
+    const controller = new AbortController();
+    api
+      .get("/api/teams", parse.teams, { signal: controller.signal })
+      .then(({ teams }) => setMyTeams(teams))
+      .catch(() => {});
+    return () => controller.abort();
+  }, []);
 
   useEffect(() => {
     if (!justCreatedEventId) return;
@@ -139,7 +845,7 @@ export default function EventsPage() {
         await refresh();
       } catch (e: unknown) {
         if (!mounted) return;
-        setError(e instanceof Error ? e.message : "Failed to load events");
+        setError(errorMessage(e, "Failed to load events"));
       } finally {
         if (mounted) setLoading(false);
       }
@@ -162,14 +868,11 @@ export default function EventsPage() {
     setGeoError(null);
     const controller = new AbortController();
     const t = setTimeout(() => {
-      fetch(`${base}/api/geo/search?q=${encodeURIComponent(q)}`, { signal: controller.signal })
-        .then(async (r) => {
-          if (!r.ok) throw new Error("Search failed");
-          const data = (await r.json()) as { results?: GeoResult[] };
-          setGeoResults(Array.isArray(data.results) ? data.results : []);
-        })
+      api
+        .get("/api/geo/search", parse.geoResults, { query: { q }, signal: controller.signal, retries: 0 })
+        .then(setGeoResults)
         .catch((e: unknown) => {
-          if (e instanceof DOMException && e.name === "AbortError") return;
+          if (isAbortError(e)) return;
           setGeoResults([]);
           setGeoError("Could not load location suggestions");
         })
@@ -192,57 +895,62 @@ export default function EventsPage() {
   const canCreate = useMemo(() => {
     if (!title.trim()) return false;
     if (!startsAt) return false;
+    if (repeat !== "none" && repeatEnd === "until" && !repeatUntil) return false;
     return true;
-  }, [startsAt, title]);
+  }, [repeat, repeatEnd, repeatUntil, startsAt, title]);
+
+  const toggleRepeatWeekday = (day: number) => {
+    setRepeatWeekdays((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort((a, b) => a - b)
+    );
+  };
 
   const createEvent = async () => {
-    if (!base) {
-      setError("Missing NEXT_PUBLIC_BACKEND_URL");
-      return;
-    }
     if (!canCreate) return;
     if (creatingRef.current) return;
     creatingRef.current = true;
     setError(null);
 
     try {
-      const res = await fetch(`${base}/api/events`, {
-        method: "POST",
-        headers: { ...authHeader(), "Content-Type": "application/json" },
-        credentials: "include",
-        body: JSON.stringify({
+      const created = await api.post(
+        "/api/events",
+        {
           title,
           sport,
-          startsAt,
+          startsAt: new Date(startsAt).toISOString(),
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          timezoneOffset: new Date(startsAt).getTimezoneOffset(),
+          recurrence:
+            repeat === "none"
+              ? undefined
+              : {
+                  frequency: repeat,
+                  weekdays: repeat === "monthly" ? undefined : repeatWeekdays,
+                  ...(repeatEnd === "until" ? { until: repeatUntil } : { count: repeatCount }),
+                },
           visibility,
           maxParticipants,
+          minReliability,
           description,
           locationName,
           locationCoords,
-        }),
-      });
-
-      if (res.status === 401) {
-        router.push("/auth/login");
-        return;
-      }
-
-      const parsed = await readJsonOrText(res);
-      if (!res.ok) throw new Error(messageFromBody(parsed) || "Failed to create event");
-
-      let createdId: string | null = null;
-      if (parsed.isJson && parsed.body && typeof parsed.body === "object") {
-        const body = parsed.body as { event?: { id?: unknown } };
-        const raw = body?.event?.id;
-        if (typeof raw === "string" && raw.trim()) createdId = raw;
-      }
+        },
+        parse.event
+      );
+      const createdId = created.id || null;
 
       setTitle("");
       setSport("");
       setStartsAt("");
       setVisibility("public");
       setMaxParticipants(10);
+      setMinReliability(0);
       setDescription("");
+      setRepeat("none");
+      setRepeatWeekdays([]);
+      setRepeatEnd("count");
+      setRepeatCount(8);
+      setRepeatUntil("");
       setLocationName("");
       setLocationCoords(null);
       setGeoResults([]);
@@ -253,36 +961,42 @@ export default function EventsPage() {
         setExpandedEventId(createdId);
       }
     } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : "Failed to create event");
+      setError(errorMessage(e, "Failed to create event"));
     } finally {
       creatingRef.current = false;
     }
   };
 
-  const joinOrLeave = async (ev: EventItem) => {
-    if (!base) {
-      setError("Missing NEXT_PUBLIC_BACKEND_URL");
-      return;
+  const downloadIcs = async (ev: EventItem) => {
+    setError(null);
+    try {
+      const res = await apiFetch(`/api/events/${encodeURIComponent(ev.id)}/ics`);
+
+      const disposition = res.headers.get("content-disposition") ?? "";
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? "event.ics";
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (e: unknown) {
+      setError(errorMessage(e, "Failed to export event"));
     }
+  };
+
+  const joinOrLeave = async (ev: EventItem) => {
     if (joiningRef.current) return;
     joiningRef.current = ev.id;
     setError(null);
     try {
-      const action = ev.joined ? "leave" : "join";
-      const res = await fetch(`${base}/api/events/${encodeURIComponent(ev.id)}/${action}`, {
-        method: "POST",
-        credentials: "include",
-        headers: authHeader(),
-      });
-      if (res.status === 401) {
-        router.push("/auth/login");
-        return;
-      }
-      const parsed = await readJsonOrText(res);
-      if (!res.ok) throw new Error(messageFromBody(parsed) || "Action failed");
+      const action = ev.joined || ev.waitlisted ? "leave" : "join";
+      await api.post(`/api/events/${encodeURIComponent(ev.id)}/${action}`);
       await refresh();
     } catch (e: unknown) {
-      setError(e instanceof Error ? e.message : "Action failed");
+      setError(errorMessage(e, "Action failed"));
     } finally {
       joiningRef.current = null;
     }
@@ -319,6 +1033,8 @@ export default function EventsPage() {
           </div>
         )}
 
+        <CalendarSubscription />
+
         <div className="mt-5 rounded-2xl bg-white/80 ring-1 ring-slate-200/70 shadow-sm overflow-hidden backdrop-blur">
           <div className="px-4 py-3 border-b border-slate-200/70 bg-gradient-to-r from-white to-slate-50">
             <div className="text-sm font-semibold text-gray-900">Create event</div>
@@ -366,6 +1082,114 @@ export default function EventsPage() {
                   className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 outline-none ring-blue-200 focus:ring"
                 />
               </div>
+              <div>
+                <label className="text-sm font-medium text-gray-800">Minimum reliability (%)</label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={minReliability}
+                  onChange={(e) => setMinReliability(Number(e.target.value))}
+                  className="mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 outline-none ring-blue-200 focus:ring"
+                />
+                <div className="mt-1 text-xs text-gray-500">
+                  Players below this attendance rate can&apos;t join. Leave at 0 to allow everyone.
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <label className="text-sm font-medium text-gray-800">Repeat</label>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {(
+                  [
+                    ["none", "Does not repeat"],
+                    ["weekly", "Weekly"],
+                    ["biweekly", "Every 2 weeks"],
+                    ["monthly", "Monthly"],
+                  ] as const
+                ).map(([value, label]) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setRepeat(value)}
+                    className={[
+                      "rounded-xl border px-3 py-2 text-sm transition",
+                      repeat === value
+                        ? "border-blue-600 bg-blue-50 text-blue-700"
+                        : "border-slate-200 bg-white text-gray-800 hover:bg-slate-50",
+                    ].join(" ")}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              {repeat !== "none" ? (
+                <div className="mt-3 grid gap-3 rounded-xl bg-slate-50/70 ring-1 ring-slate-200/70 p-3">
+                  {repeat !== "monthly" ? (
+                    <div>
+                      <div className="text-xs font-medium text-gray-700">On</div>
+                      <div className="mt-1 flex flex-wrap gap-1.5">
+                        {WEEKDAY_LABELS.map((label, day) => (
+                          <button
+                            key={label}
+                            type="button"
+                            onClick={() => toggleRepeatWeekday(day)}
+                            className={[
+                              "rounded-lg border px-2.5 py-1 text-xs transition",
+                              repeatWeekdays.includes(day)
+                                ? "border-blue-600 bg-blue-50 text-blue-700"
+                                : "border-slate-200 bg-white text-gray-800 hover:bg-slate-50",
+                            ].join(" ")}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                      <div className="mt-1 text-xs text-gray-500">
+                        {repeatWeekdays.length === 0 ? "Defaults to the weekday of the first event." : null}
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="text-xs text-gray-600">
+                      Repeats on the same day of the month. Months without that day are skipped.
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap items-center gap-2 text-sm text-gray-800">
+                    <span className="text-xs font-medium text-gray-700">Ends</span>
+                    <select
+                      value={repeatEnd}
+                      onChange={(e) => setRepeatEnd(e.target.value as "count" | "until")}
+                      className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-sm"
+                    >
+                      <option value="count">After</option>
+                      <option value="until">On date</option>
+                    </select>
+                    {repeatEnd === "count" ? (
+                      <>
+                        <input
+                          type="number"
+                          min={2}
+                          max={104}
+                          value={repeatCount}
+                          onChange={(e) => setRepeatCount(Number(e.target.value))}
+                          className="w-20 rounded-lg border border-slate-200 px-2 py-1 text-sm outline-none ring-blue-200 focus:ring"
+                        />
+                        <span className="text-xs text-gray-600">occurrences</span>
+                      </>
+                    ) : (
+                      <input
+                        type="date"
+                        value={repeatUntil}
+                        onChange={(e) => setRepeatUntil(e.target.value)}
+                        className="rounded-lg border border-slate-200 px-2 py-1 text-sm outline-none ring-blue-200 focus:ring"
+                      />
+                    )}
+                  </div>
+                </div>
+              ) : null}
             </div>
 
             <div>
@@ -482,6 +1306,7 @@ export default function EventsPage() {
             <div className="divide-y divide-slate-100">
               {events.map((ev, idx) => {
                 const disabled = joiningRef.current === ev.id || (ev.owner && ev.joined);
+                const full = ev.participantsCount >= ev.maxParticipants || (ev.waitlistCount ?? 0) > 0;
                 const justCreated = ev.id === justCreatedEventId;
                 const shouldVibrate = !justCreated && idx === vibrateIndex;
                 const coords = ev.locationCoords;
@@ -526,7 +1351,17 @@ export default function EventsPage() {
                             <span>
                               👥 {ev.participantsCount}/{ev.maxParticipants}
                             </span>
+                            {ev.waitlistCount ? <span>⏳ {ev.waitlistCount} waiting</span> : null}
+                            {ev.minReliability ? <span>✅ Requires {ev.minReliability}% reliability</span> : null}
+                            {ev.tournamentId ? <span>🏆 Tournament</span> : null}
+                            {ev.teams?.length ? (
+                              <span>
+                                🤝 {ev.teams.length} {ev.teams.length === 1 ? "team" : "teams"}
+                              </span>
+                            ) : null}
                             <span className="capitalize">🔒 {ev.visibility}</span>
+                            {ev.series ? <span>🔁 {describeSeries(ev.series)}</span> : null}
+                            {ev.edited ? <span className="text-amber-700">✎ Changed for this date</span> : null}
                           </div>
                           {ev.description ? (
                             <div className="mt-2 text-sm text-gray-700 whitespace-pre-wrap">
@@ -550,7 +1385,7 @@ export default function EventsPage() {
                               "rounded-xl px-4 py-2 text-sm shadow-sm disabled:opacity-60",
                               ev.owner
                                 ? "bg-slate-100 text-slate-900"
-                                : ev.joined
+                                : ev.joined || ev.waitlisted
                                   ? "bg-slate-100 text-slate-900 hover:bg-slate-200"
                                   : "bg-gradient-to-r from-blue-600 to-indigo-600 text-white hover:from-blue-700 hover:to-indigo-700",
                             ].join(" ")}
@@ -561,8 +1396,28 @@ export default function EventsPage() {
                                 ? "Creator"
                                 : ev.joined
                                   ? "Leave"
-                                  : "Join"}
+                                  : ev.waitlisted
+                                    ? "Leave waitlist"
+                                    : full
+                                      ? "Join waitlist"
+                                      : "Join"}
                           </button>
+                          {ev.joined ? (
+                            <button
+                              type="button"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                router.push(`/chat/event/${encodeURIComponent(ev.id)}`);
+                              }}
+                              className="rounded-xl bg-white px-3 py-1.5 text-xs font-semibold text-blue-700 ring-1 ring-blue-200 hover:bg-blue-50"
+                            >
+                              Group chat
+                            </button>
+                          ) : null}
+                          {ev.checkedIn ? <div className="text-xs text-emerald-700">✓ Checked in</div> : null}
+                          {ev.waitlisted && ev.waitlistPosition ? (
+                            <div className="text-xs text-amber-700">#{ev.waitlistPosition} on the waitlist</div>
+                          ) : null}
                           {ev.createdBy?.username ? (
                             <div className="text-xs text-gray-500">by {ev.createdBy.username}</div>
                           ) : null}
@@ -595,8 +1450,59 @@ export default function EventsPage() {
                               <span className="text-slate-500">Participants:</span>{" "}
                               {ev.participantsCount}/{ev.maxParticipants}
                             </div>
+                            {ev.waitlist && ev.waitlist.length > 0 ? (
+                              <div>
+                                <span className="text-slate-500">Waitlist:</span>{" "}
+                                <ol className="mt-1 ml-5 list-decimal text-slate-700">
+                                  {ev.waitlist.map((w) => (
+                                    <li key={w.id}>{w.username ?? "Player"}</li>
+                                  ))}
+                                </ol>
+                              </div>
+                            ) : null}
+                            {ev.series ? (
+                              <div>
+                                <span className="text-slate-500">Repeats:</span> {describeSeries(ev.series)}
+                              </div>
+                            ) : null}
+                          </div>
+
+                          <div className="mt-3">
+                            <button type="button" onClick={() => downloadIcs(ev)} className="btn-soft">
+                              Add to calendar (.ics)
+                            </button>
                           </div>
 
+                          <TeamEntries key={`teams-${ev.id}`} ev={ev} myTeams={myTeams} onChanged={refresh} />
+
+                          {ev.owner ? (
+                            <EventEditor key={ev.id} ev={ev} onChanged={refresh} />
+                          ) : null}
+
+                          {ev.owner ? <CheckInPanel key={`check-in-${ev.id}`} eventId={ev.id} /> : null}
+
+                          {ev.owner ? (
+                            <AttendancePanel key={ev.id} eventId={ev.id} />
+                          ) : null}
+
+                          {ev.tournamentId ? (
+                            <div className="mt-4">
+                              <button
+                                type="button"
+                                onClick={() => router.push(`/tournaments/${encodeURIComponent(ev.tournamentId!)}`)}
+                                className="btn-soft"
+                              >
+                                Open bracket
+                              </button>
+                            </div>
+                          ) : ev.owner ? (
+                            <TournamentSetup
+                              key={`tournament-${ev.id}`}
+                              eventId={ev.id}
+                              onCreated={(id) => router.push(`/tournaments/${encodeURIComponent(id)}`)}
+                            />
+                          ) : null}
+
                           {hasCoords ? (
                             ev.joined ? (
                               <div className="mt-4">
@@ -606,6 +1512,7 @@ export default function EventsPage() {
                                   eventCenter={coords!}
                                   eventLabel={ev.locationName?.trim() || ev.title}
                                   height={320}
+                                  onCheckedIn={refresh}
                                 />
                               </div>
                             ) : (
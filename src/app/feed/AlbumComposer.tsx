@@ -0,0 +1,195 @@
+"use client";
+
+import { useState } from "react";
+import type { FeedMedia } from "@/lib/apiTypes";
+import { MAX_ALBUM_ITEMS, type AlbumItem, type useAlbumUploads } from "./useAlbumUploads";
+
+type Album = ReturnType<typeof useAlbumUploads>;
+
+function statusLabel(item: AlbumItem): string {
+  switch (item.status) {
+    case "queued":
+      return "Waiting…";
+    case "preparing":
+      return "Preparing…";
+    case "uploading":
+      return `${Math.round(item.progress * 100)}%`;
+    case "error":
+      return item.error ?? "Upload failed";
+    default:
+      return item.file ? "Uploaded" : "Link";
+  }
+}
+
+function AlbumTile({
+  item,
+  index,
+  count,
+  album,
+  disabled,
+}: {
+  item: AlbumItem;
+  index: number;
+  count: number;
+  album: Album;
+  disabled: boolean;
+}) {
+  const uploading = item.status === "preparing" || item.status === "uploading";
+  return (
+    <li className="relative overflow-hidden rounded-xl border border-slate-200 bg-slate-50">
+      <div className="relative aspect-square">
+        {item.type === "video" ? (
+          <video src={item.previewUrl} muted className="absolute inset-0 h-full w-full object-cover bg-black" />
+        ) : (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={item.previewUrl} alt={item.name} className="absolute inset-0 h-full w-full object-cover" />
+        )}
+        <span className="absolute left-1.5 top-1.5 rounded-full bg-black/60 px-1.5 text-xs font-semibold text-white">
+          {index + 1}
+        </span>
+        <button
+          type="button"
+          onClick={() => album.remove(item.key)}
+          disabled={disabled}
+          className="absolute right-1.5 top-1.5 rounded-full bg-white/90 px-1.5 text-sm text-slate-800 shadow hover:bg-white disabled:opacity-60"
+          aria-label={uploading ? `Cancel upload of ${item.name}` : `Remove ${item.name}`}
+          title={uploading ? "Cancel upload" : "Remove"}
+        >
+          ×
+        </button>
+        {uploading || item.status === "queued" ? (
+          <div className="absolute inset-x-0 bottom-0 h-1.5 bg-black/20">
+            <div className="h-full bg-blue-600 transition-[width]" style={{ width: `${item.progress * 100}%` }} />
+          </div>
+        ) : null}
+      </div>
+
+      <div className="flex items-center gap-1 px-1.5 py-1">
+        <span
+          className={`min-w-0 flex-1 truncate text-xs ${item.status === "error" ? "text-red-700" : "text-slate-600"}`}
+          title={statusLabel(item)}
+        >
+          {statusLabel(item)}
+        </span>
+        {item.status === "error" ? (
+          <button
+            type="button"
+            onClick={() => album.retry(item.key)}
+            disabled={disabled}
+            className="text-xs font-semibold text-blue-700 hover:underline"
+          >
+            Retry
+          </button>
+        ) : null}
+        <button
+          type="button"
+          onClick={() => album.move(item.key, -1)}
+          disabled={disabled || index === 0}
+          className="rounded px-1 text-sm text-slate-600 hover:bg-slate-200 disabled:opacity-30"
+          aria-label="Move earlier"
+        >
+          ‹
+        </button>
+        <button
+          type="button"
+          onClick={() => album.move(item.key, 1)}
+          disabled={disabled || index === count - 1}
+          className="rounded px-1 text-sm text-slate-600 hover:bg-slate-200 disabled:opacity-30"
+          aria-label="Move later"
+        >
+          ›
+        </button>
+      </div>
+    </li>
+  );
+}
+
+// Media section of the post composer: pick files or add links, watch each
+// upload, cancel or retry it, and arrange the album order.
+export default function AlbumComposer({ album, disabled }: { album: Album; disabled: boolean }) {
+  const [url, setUrl] = useState("");
+  const [urlType, setUrlType] = useState<FeedMedia["type"]>("image");
+
+  const addLink = () => {
+    if (album.addUrl(url, urlType)) {
+      setUrl("");
+      setUrlType("image");
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white p-3 space-y-3">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <div className="text-sm font-semibold text-slate-900">Photos and videos</div>
+          <div className="text-xs text-slate-600">
+            Up to {MAX_ALBUM_ITEMS} per post: photos up to 15MB, videos up to 150MB. Large photos are resized before
+            upload.
+          </div>
+        </div>
+        <input
+          type="file"
+          accept="image/*,video/*"
+          multiple
+          disabled={disabled || album.full}
+          onChange={(e) => {
+            album.addFiles(Array.from(e.target.files ?? []));
+            // Let the same file be picked again after removing it.
+            e.target.value = "";
+          }}
+          className="block w-full sm:w-auto text-sm text-slate-700 file:mr-3 file:rounded-lg file:border-0 file:bg-blue-600 file:px-3 file:py-2 file:text-white hover:file:bg-blue-700 disabled:opacity-60"
+        />
+      </div>
+
+      {album.items.length > 0 ? (
+        <ul className="grid grid-cols-3 gap-2 sm:grid-cols-5">
+          {album.items.map((item, i) => (
+            <AlbumTile
+              key={item.key}
+              item={item}
+              index={i}
+              count={album.items.length}
+              album={album}
+              disabled={disabled}
+            />
+          ))}
+        </ul>
+      ) : null}
+
+      {album.notice ? <div className="text-xs text-amber-700">{album.notice}</div> : null}
+
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-[1fr_auto_auto]">
+        <input
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addLink();
+            }
+          }}
+          placeholder="Or add a media link (image or video)"
+          className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none ring-blue-200 focus:ring bg-white"
+          disabled={disabled || album.full}
+        />
+        <select
+          value={urlType}
+          onChange={(e) => setUrlType(e.target.value as FeedMedia["type"])}
+          className="rounded-xl border border-slate-200 px-3 py-2 text-sm bg-white"
+          disabled={disabled || album.full}
+        >
+          <option value="image">Image</option>
+          <option value="video">Video</option>
+        </select>
+        <button
+          type="button"
+          onClick={addLink}
+          disabled={disabled || album.full || !url.trim()}
+          className="rounded-xl px-3 py-2 text-sm font-semibold text-blue-700 ring-1 ring-blue-200 hover:bg-blue-50 disabled:opacity-60"
+        >
+          Add link
+        </button>
+      </div>
+    </div>
+  );
+}
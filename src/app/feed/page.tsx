@@ -1,61 +1,29 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
+import MediaCarousel from "@/components/MediaCarousel";
+import { EditedMarker, PostEditor, PostMenu } from "@/components/PostControls";
+import PostEngagement from "@/components/PostEngagement";
 import UserAvatar from "@/components/UserAvatar";
-import { authHeader } from "@/lib/authToken";
-import { getBackendBaseUrl } from "@/lib/backendBaseUrl";
-
-type FeedMedia = { type: "image" | "video"; url: string };
-type FeedPost = {
-  id: string;
-  text: string;
-  media: FeedMedia | null;
-  visibility: "friends" | "public";
-  createdAt: string;
-  author: { id: string; username?: string; fullName?: string };
-};
-
-type SuggestionUser = {
-  id: string;
-  username?: string;
-  fullName?: string;
-  location?: string;
-  preferredSports?: string[];
-  skillLevel?: string;
-};
-
-type Friend = { id?: string; _id?: string; username?: string; fullName?: string; email?: string };
-
-type FriendRequest = {
-  from: { id?: string; _id?: string; username?: string; fullName?: string; email?: string };
-  createdAt: string;
-};
-
-type EventItem = {
-  id: string;
-  title: string;
-  description?: string;
-  sport?: string;
-  startsAt: string;
-  locationName?: string;
-  visibility: "public" | "friends";
-  maxParticipants: number;
-  participantsCount: number;
-  joined: boolean;
-  owner: boolean;
-  createdBy?: { id: string; username?: string; email?: string };
-};
-
-function toIdString(id: unknown): string {
-  return typeof id === "string" ? id : String(id ?? "");
-}
-
-function displayName(user: { username?: string; fullName?: string; email?: string } | null): string {
-  return user?.username ?? user?.fullName ?? user?.email ?? "Unknown";
-}
-
-function formatTime(iso: string): string {
+import { useAuth } from "@/context/AuthContext";
+import { api, errorMessage } from "@/lib/apiClient";
+import {
+  displayName,
+  parse,
+  toIdString,
+  userIdOf,
+  type EventItem,
+  type FeedPost,
+  type Friend,
+  type FriendRequest,
+  type UserSummary,
+} from "@/lib/apiTypes";
+import AlbumComposer from "./AlbumComposer";
+import { useAlbumUploads } from "./useAlbumUploads";
+import { useFeedPages } from "./useFeedPages";
+
+function formatTime(iso: string | number): string {
   const d = new Date(iso);
   if (Number.isNaN(d.getTime())) return "";
   return d.toLocaleString();
@@ -73,172 +41,62 @@ function formatWhenShort(iso: string): string {
   });
 }
 
-function resolveMediaUrl(base: string | undefined, url: string): string {
-  const raw = String(url ?? "").trim();
-  if (!raw) return "";
-  if (raw.startsWith("http://") || raw.startsWith("https://")) return raw;
-  if (raw.startsWith("/") && base) return `${base}${raw}`;
-  return raw;
-}
-
-async function readJsonOrText(res: Response): Promise<{ isJson: boolean; body: unknown }> {
-  const contentType = res.headers.get("content-type") ?? "";
-  if (contentType.includes("application/json")) {
-    return { isJson: true, body: await res.json() };
-  }
-  return { isJson: false, body: await res.text() };
-}
-
-function messageFromBody(parsed: { isJson: boolean; body: unknown }): string | null {
-  if (parsed.isJson && parsed.body && typeof parsed.body === "object") {
-    const anyBody = parsed.body as { message?: unknown; error?: unknown };
-    if (typeof anyBody.message === "string" && anyBody.message.trim()) return anyBody.message;
-    if (typeof anyBody.error === "string" && anyBody.error.trim()) return anyBody.error;
-    return null;
-  }
-
-  if (!parsed.isJson && typeof parsed.body === "string") {
-    const text = parsed.body
-      .replace(/<[^>]+>/g, " ")
-      .replace(/\s+/g, " ")
-      .trim();
-    return text || null;
-  }
-
-  return null;
-}
-
 export default function FeedPage() {
   const router = useRouter();
-  const base = useMemo(() => getBackendBaseUrl(), []);
 
-  const [posts, setPosts] = useState<FeedPost[]>([]);
+  const { user } = useAuth();
+  const myId = userIdOf(user);
+  const feed = useFeedPages();
+  const reloadFeed = feed.reload;
   const [events, setEvents] = useState<EventItem[]>([]);
-  const [suggestions, setSuggestions] = useState<SuggestionUser[]>([]);
+  const [suggestions, setSuggestions] = useState<UserSummary[]>([]);
   const [requests, setRequests] = useState<FriendRequest[]>([]);
   const [friends, setFriends] = useState<Friend[]>([]);
-  const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   const [text, setText] = useState("");
   const [visibility, setVisibility] = useState<FeedPost["visibility"]>("friends");
-  const [mediaFile, setMediaFile] = useState<File | null>(null);
-  const [mediaPreviewUrl, setMediaPreviewUrl] = useState<string | null>(null);
-  const [mediaUrl, setMediaUrl] = useState("");
-  const [mediaType, setMediaType] = useState<FeedMedia["type"]>("image");
+  const album = useAlbumUploads();
   const [posting, setPosting] = useState(false);
   const [addingFriendId, setAddingFriendId] = useState<string | null>(null);
   const [acceptingFriendId, setAcceptingFriendId] = useState<string | null>(null);
   const [joiningEventId, setJoiningEventId] = useState<string | null>(null);
   const [vibrateEventIndex, setVibrateEventIndex] = useState<number>(0);
+  const [editingId, setEditingId] = useState<string | null>(null);
 
-  const fetchedRef = useRef(false);
-  const mediaInputRef = useRef<HTMLInputElement | null>(null);
-
+  // Side panels only; the post list pages itself through useFeedPages. Each
+  // panel falls back to empty on failure.
   const refresh = useCallback(async () => {
-    if (!base) {
-      setError("Missing NEXT_PUBLIC_BACKEND_URL");
-      setLoading(false);
-      return;
-    }
-
-    setError(null);
-    const headers = authHeader();
-    const [feedRes, eventsRes, suggestionsRes, requestsRes, friendsRes] = await Promise.all([
-      fetch(`${base}/api/feed`, { credentials: "include", headers }),
-      fetch(`${base}/api/events`, { credentials: "include", headers }),
-      fetch(`${base}/api/friends/suggestions?limit=6`, { credentials: "include", headers }),
-      fetch(`${base}/api/friends/requests`, { credentials: "include", headers }),
-      fetch(`${base}/api/friends`, { credentials: "include", headers }),
+    const [eventList, suggestionList, requestList, friendList] = await Promise.allSettled([
+      api.get("/api/events", parse.events),
+      api.get("/api/friends/suggestions", parse.suggestions, { query: { limit: 6 } }),
+      api.get("/api/friends/requests", parse.friendRequests),
+      api.get("/api/friends", parse.friends),
     ]);
 
-    if (
-      feedRes.status === 401 ||
-      eventsRes.status === 401 ||
-      suggestionsRes.status === 401 ||
-      requestsRes.status === 401 ||
-      friendsRes.status === 401
-    ) {
-      router.push("/auth/login");
-      return;
-    }
-
-    if (feedRes.ok) {
-      const parsed = await readJsonOrText(feedRes);
-      if (parsed.isJson) {
-        const data = parsed.body as { posts?: FeedPost[] };
-        setPosts(Array.isArray(data?.posts) ? data.posts : []);
-      }
-    } else {
-      const parsed = await readJsonOrText(feedRes);
-      setError(messageFromBody(parsed) ?? "Failed to load feed");
-    }
-
-    if (eventsRes.ok) {
-      const parsed = await readJsonOrText(eventsRes);
-      if (parsed.isJson) {
-        const data = parsed.body as { events?: EventItem[] };
-        setEvents(Array.isArray(data?.events) ? data.events : []);
-      }
-    } else {
-      setEvents([]);
-    }
-
-    if (suggestionsRes.ok) {
-      const parsed = await readJsonOrText(suggestionsRes);
-      if (parsed.isJson) {
-        const data = parsed.body as { suggestions?: SuggestionUser[] };
-        setSuggestions(Array.isArray(data?.suggestions) ? data.suggestions : []);
-      }
-    }
-
-    if (requestsRes.ok) {
-      const parsed = await readJsonOrText(requestsRes);
-      if (parsed.isJson) {
-        const data = parsed.body as { requests?: FriendRequest[] };
-        setRequests(Array.isArray(data?.requests) ? data.requests : []);
-      }
-    }
-
-    if (friendsRes.ok) {
-      const parsed = await readJsonOrText(friendsRes);
-      if (parsed.isJson) {
-        const data = parsed.body as { friends?: Friend[] };
-        setFriends(Array.isArray(data?.friends) ? data.friends : []);
-      }
-    } else {
-      setFriends([]);
-    }
-  }, [base, router]);
+    setEvents(eventList.status === "fulfilled" ? eventList.value : []);
+    if (suggestionList.status === "fulfilled") setSuggestions(suggestionList.value);
+    if (requestList.status === "fulfilled") setRequests(requestList.value);
+    setFriends(friendList.status === "fulfilled" ? friendList.value : []);
+  }, []);
 
   const joinOrLeaveEvent = useCallback(
     async (ev: EventItem) => {
-      if (!base) return;
       if (!ev?.id) return;
       if (joiningEventId) return;
       setJoiningEventId(ev.id);
       setError(null);
       try {
-        const action = ev.joined ? "leave" : "join";
-        const res = await fetch(`${base}/api/events/${encodeURIComponent(ev.id)}/${action}`, {
-          method: "POST",
-          credentials: "include",
-          headers: authHeader(),
-        });
-        if (res.status === 401) {
-          router.push("/auth/login");
-          return;
-        }
-        const parsed = await readJsonOrText(res);
-        if (!res.ok) throw new Error(messageFromBody(parsed) ?? "Event action failed");
+        const action = ev.joined || ev.waitlisted ? "leave" : "join";
+        await api.post(`/api/events/${encodeURIComponent(ev.id)}/${action}`);
         await refresh();
       } catch (err: unknown) {
-        setError(err instanceof Error ? err.message : "Event action failed");
+        setError(errorMessage(err, "Event action failed"));
       } finally {
         setJoiningEventId(null);
       }
     },
-    [base, joiningEventId, refresh, router]
+    [joiningEventId, refresh]
   );
 
   const upcomingEvents = useMemo(() => events.slice(0, 3), [events]);
@@ -260,162 +118,68 @@ export default function FeedPage() {
   }, [upcomingEvents.length]);
 
   useEffect(() => {
-    if (fetchedRef.current) return;
-    fetchedRef.current = true;
-
-    const run = async () => {
-      try {
-        await refresh();
-      } catch (err: unknown) {
-        setError(err instanceof Error ? err.message : "Failed to load feed");
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    run();
+    void refresh();
   }, [refresh]);
 
-  useEffect(() => {
-    if (!mediaFile) {
-      setMediaPreviewUrl(null);
-      return;
-    }
-
-    const objectUrl = URL.createObjectURL(mediaFile);
-    setMediaPreviewUrl(objectUrl);
-    return () => URL.revokeObjectURL(objectUrl);
-  }, [mediaFile]);
-
-  const canPost = useMemo(() => {
-    return Boolean(text.trim() || mediaFile || mediaUrl.trim());
-  }, [mediaFile, mediaUrl, text]);
+  // Every picked file has to finish uploading (or be removed) before posting.
+  const canPost = Boolean(text.trim() || album.items.length > 0) && !album.busy && !album.failed;
+  const resetAlbum = album.reset;
+  const albumPayload = album.payload;
 
   const submitPost = useCallback(async () => {
-    if (!base) return;
     if (!canPost) return;
 
     setPosting(true);
     setError(null);
     try {
-      const res = mediaFile
-        ? await fetch(`${base}/api/feed`, {
-            method: "POST",
-            credentials: "include",
-            headers: authHeader(),
-            body: (() => {
-              const fd = new FormData();
-              if (text.trim()) fd.append("text", text.trim());
-              fd.append("visibility", visibility);
-              fd.append("media", mediaFile);
-              return fd;
-            })(),
-          })
-        : await fetch(`${base}/api/feed`, {
-            method: "POST",
-            headers: { ...authHeader(), "content-type": "application/json" },
-            credentials: "include",
-            body: JSON.stringify({
-              text: text.trim(),
-              visibility,
-              mediaUrl: mediaUrl.trim() || undefined,
-              mediaType: mediaUrl.trim() ? mediaType : undefined,
-            }),
-          });
-
-      if (res.status === 401) {
-        router.push("/auth/login");
-        return;
-      }
-
-      if (!res.ok) {
-        const parsed = await readJsonOrText(res);
-        throw new Error(messageFromBody(parsed) ?? "Failed to create post");
-      }
+      await api.post("/api/feed", { text: text.trim(), visibility, media: albumPayload() });
 
       setText("");
       setVisibility("friends");
-      setMediaFile(null);
-      if (mediaInputRef.current) mediaInputRef.current.value = "";
-      setMediaUrl("");
-      setMediaType("image");
-      await refresh();
+      resetAlbum({ discard: false });
+      await reloadFeed();
     } catch (err: unknown) {
-      setError(err instanceof Error ? err.message : "Failed to create post");
+      setError(errorMessage(err, "Failed to create post"));
     } finally {
       setPosting(false);
     }
-  }, [base, canPost, mediaFile, mediaType, mediaUrl, refresh, router, text, visibility]);
+  }, [albumPayload, canPost, reloadFeed, resetAlbum, text, visibility]);
 
   const addFriend = useCallback(
     async (targetUserId: string) => {
-      if (!base) return;
       if (!targetUserId) return;
       setAddingFriendId(targetUserId);
       setError(null);
       try {
-        const res = await fetch(`${base}/api/friends/request`, {
-          method: "POST",
-          headers: { ...authHeader(), "content-type": "application/json" },
-          credentials: "include",
-          body: JSON.stringify({ userId: targetUserId }),
-        });
-
-        if (res.status === 401) {
-          router.push("/auth/login");
-          return;
-        }
-
-        if (!res.ok) {
-          const parsed = await readJsonOrText(res);
-          throw new Error(messageFromBody(parsed) ?? "Failed to send request");
-        }
-
+        await api.post("/api/friends/request", { userId: targetUserId });
         setSuggestions((prev) => prev.filter((u) => toIdString(u.id) !== targetUserId));
       } catch (err: unknown) {
-        setError(err instanceof Error ? err.message : "Failed to send request");
+        setError(errorMessage(err, "Failed to send request"));
       } finally {
         setAddingFriendId(null);
       }
     },
-    [base, router]
+    []
   );
 
   const acceptFriend = useCallback(
     async (fromUserId: string) => {
-      if (!base) return;
       if (!fromUserId) return;
       setAcceptingFriendId(fromUserId);
       setError(null);
       try {
-        const res = await fetch(`${base}/api/friends/accept`, {
-          method: "POST",
-          headers: { ...authHeader(), "content-type": "application/json" },
-          credentials: "include",
-          body: JSON.stringify({ userId: fromUserId }),
-        });
-
-        if (res.status === 401) {
-          router.push("/auth/login");
-          return;
-        }
-
-        if (!res.ok) {
-          const parsed = await readJsonOrText(res);
-          throw new Error(messageFromBody(parsed) ?? "Failed to accept request");
-        }
-
+        await api.post("/api/friends/accept", { userId: fromUserId });
         await refresh();
       } catch (err: unknown) {
-        setError(err instanceof Error ? err.message : "Failed to accept request");
+        setError(errorMessage(err, "Failed to accept request"));
       } finally {
         setAcceptingFriendId(null);
       }
     },
-    [base, refresh, router]
+    [refresh]
   );
 
-  if (loading) {
+  if (feed.loading) {
     return (
       <main className="min-h-screen flex items-center justify-center text-gray-500">
         Loading…
@@ -442,9 +206,21 @@ export default function FeedPage() {
           </button>
         </div>
 
-        {error ? (
+        {error || feed.error ? (
           <div className="mt-4 rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
-            {error}
+            {error ?? feed.error}
+          </div>
+        ) : null}
+
+        {feed.newCount > 0 ? (
+          <div className="sticky top-20 z-10 mt-4 flex justify-center">
+            <button
+              type="button"
+              onClick={() => void feed.showNewPosts()}
+              className="rounded-full bg-gradient-to-r from-blue-600 to-indigo-600 px-4 py-2 text-sm font-semibold text-white shadow-md hover:from-blue-700 hover:to-indigo-700"
+            >
+              {feed.newCount === 1 ? "1 new post" : `${feed.newCount} new posts`} · Show
+            </button>
           </div>
         ) : null}
 
@@ -472,84 +248,9 @@ export default function FeedPage() {
                     <option value="public">Public</option>
                   </select>
 
-                  <div className="sm:col-span-2 rounded-xl border border-slate-200 bg-white p-3">
-                    <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
-                      <div>
-                        <div className="text-sm font-semibold text-slate-900">Upload from computer</div>
-                        <div className="text-xs text-slate-600">Images/videos up to 150MB.</div>
-                      </div>
-                      <input
-                        type="file"
-                        accept="image/*,video/*"
-                        ref={mediaInputRef}
-                        onChange={(e) => {
-                          const f = e.target.files?.[0] ?? null;
-                          setMediaFile(f);
-                          if (f) setMediaUrl("");
-                        }}
-                        className="block w-full sm:w-auto text-sm text-slate-700 file:mr-3 file:rounded-lg file:border-0 file:bg-blue-600 file:px-3 file:py-2 file:text-white hover:file:bg-blue-700"
-                      />
-                    </div>
-
-                    {mediaFile ? (
-                      <div className="mt-3">
-                        <div className="flex items-center justify-between gap-3">
-                          <div className="min-w-0">
-                            <div className="text-sm text-slate-800 truncate">{mediaFile.name}</div>
-                            <div className="text-xs text-slate-500">
-                              {(mediaFile.size / (1024 * 1024)).toFixed(2)} MB
-                            </div>
-                          </div>
-                          <button
-                            type="button"
-                            onClick={() => {
-                              setMediaFile(null);
-                              if (mediaInputRef.current) mediaInputRef.current.value = "";
-                            }}
-                            className="rounded-xl px-3 py-2 text-sm text-slate-700 hover:bg-slate-100"
-                          >
-                            Remove
-                          </button>
-                        </div>
-
-                        {mediaPreviewUrl ? (
-                          <div className="mt-3 overflow-hidden rounded-xl border border-slate-200 bg-white">
-                            {mediaFile.type.startsWith("video/") ? (
-                              <video
-                                controls
-                                src={mediaPreviewUrl}
-                                className="w-full max-h-[420px] object-contain bg-black"
-                              />
-                            ) : (
-                              // eslint-disable-next-line @next/next/no-img-element
-                              <img
-                                src={mediaPreviewUrl}
-                                alt="Upload preview"
-                                className="w-full max-h-[420px] object-contain bg-slate-50"
-                              />
-                            )}
-                          </div>
-                        ) : null}
-                      </div>
-                    ) : null}
+                  <div className="sm:col-span-2">
+                    <AlbumComposer album={album} disabled={posting} />
                   </div>
-
-                  <input
-                    value={mediaUrl}
-                    onChange={(e) => setMediaUrl(e.target.value)}
-                    placeholder="Optional media URL (image or video)"
-                    className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm outline-none ring-blue-200 focus:ring bg-white"
-                    disabled={Boolean(mediaFile)}
-                  />
-                  <select
-                    value={mediaType}
-                    onChange={(e) => setMediaType(e.target.value as FeedMedia["type"])}
-                    className="rounded-xl border border-slate-200 px-3 py-2 text-sm bg-white"
-                    disabled={Boolean(mediaFile) || !mediaUrl.trim()}
-                  >
-                    <option value="image">Image</option>
-                    <option value="video">Video</option>
-                  </select>
                 </div>
 
                 <div className="flex items-center justify-end gap-3">
@@ -558,10 +259,7 @@ export default function FeedPage() {
                     onClick={() => {
                       setText("");
                       setVisibility("friends");
-                      setMediaFile(null);
-                      if (mediaInputRef.current) mediaInputRef.current.value = "";
-                      setMediaUrl("");
-                      setMediaType("image");
+                      album.reset({ discard: true });
                     }}
                     className="rounded-xl px-3 py-2 text-sm text-slate-700 hover:bg-slate-100"
                     disabled={posting}
@@ -581,18 +279,17 @@ export default function FeedPage() {
             </section>
 
             <section className="space-y-3">
-              {posts.length === 0 ? (
+              {feed.posts.length === 0 ? (
                 <div className="rounded-2xl bg-white/80 ring-1 ring-slate-200/70 shadow-sm p-6 text-sm text-gray-600 backdrop-blur">
                   No posts yet. Create your first post above.
                 </div>
               ) : (
-                posts.map((p) => {
+                feed.posts.map((p) => {
                   const name = p.author?.username ?? p.author?.fullName ?? "Member";
-                  const mediaSrc = p.media?.url ? resolveMediaUrl(base, p.media.url) : "";
                   return (
                     <article
                       key={p.id}
-                      className="rounded-2xl bg-white/80 ring-1 ring-slate-200/70 shadow-sm overflow-hidden backdrop-blur"
+                      className="rounded-2xl bg-white/80 ring-1 ring-slate-200/70 shadow-sm backdrop-blur"
                     >
                       <div className="p-4 flex items-start gap-3">
                         {p.author?.id ? (
@@ -608,11 +305,32 @@ export default function FeedPage() {
                                 {formatTime(p.createdAt)}
                               </span>
                             </div>
-                            <span className="rounded-full bg-slate-100 px-2 py-1 text-xs text-slate-700">
-                              {p.visibility}
-                            </span>
+                            <div className="flex shrink-0 items-center gap-2">
+                              <EditedMarker post={p} />
+                              <span className="rounded-full bg-slate-100 px-2 py-1 text-xs text-slate-700">
+                                {p.visibility}
+                              </span>
+                              <PostMenu
+                                post={p}
+                                isMine={Boolean(myId) && p.author?.id === myId}
+                                onEdit={() => setEditingId(p.id)}
+                                onUpdated={feed.updatePost}
+                                onDeleted={feed.dropPost}
+                              />
+                            </div>
                           </div>
-                          {p.text ? (
+                          {editingId === p.id ? (
+                            <div className="mt-2">
+                              <PostEditor
+                                post={p}
+                                onSaved={(updated) => {
+                                  feed.updatePost(updated);
+                                  setEditingId(null);
+                                }}
+                                onCancel={() => setEditingId(null)}
+                              />
+                            </div>
+                          ) : p.text ? (
                             <div className="mt-2 text-sm text-gray-800 whitespace-pre-wrap">
                               {p.text}
                             </div>
@@ -620,30 +338,44 @@ export default function FeedPage() {
                         </div>
                       </div>
 
-                      {mediaSrc ? (
+                      {p.media.length > 0 ? (
                         <div className="border-t border-slate-200/70 bg-white">
-                          {p.media && p.media.type === "video" ? (
-
-                            <video
-                              controls
-                              src={mediaSrc}
-                              className="w-full max-h-[520px] object-contain bg-black"
-                            />
-                          ) : (
-                            // eslint-disable-next-line @next/next/no-img-element
-                            <img
-                              src={mediaSrc}
-                              alt="Post media"
-                              className="w-full max-h-[520px] object-contain bg-slate-50"
-                              loading="lazy"
-                            />
-                          )}
+                          <MediaCarousel
+                            media={p.media}
+                            slideClassName="bg-slate-50"
+                            mediaClassName="w-full max-h-[520px] object-contain"
+                          />
                         </div>
                       ) : null}
+
+                      <div className="border-t border-slate-200/70 px-4 py-3">
+                        <PostEngagement post={p} />
+                      </div>
                     </article>
                   );
                 })
               )}
+
+              {feed.hasMore ? (
+                <div ref={feed.sentinelRef} className="py-4 text-center text-sm text-gray-600">
+                  {feed.loadMoreError ? (
+                    <div className="space-y-2">
+                      <div className="text-red-700">{feed.loadMoreError}</div>
+                      <button
+                        type="button"
+                        onClick={() => void feed.loadMore()}
+                        className="rounded-xl bg-white px-3 py-1.5 text-xs font-semibold text-blue-700 ring-1 ring-blue-200 hover:bg-blue-50"
+                      >
+                        Try again
+                      </button>
+                    </div>
+                  ) : feed.loadingMore ? (
+                    "Loading more…"
+                  ) : null}
+                </div>
+              ) : feed.posts.length > 0 ? (
+                <div className="py-4 text-center text-xs text-gray-500">You&apos;re all caught up.</div>
+              ) : null}
             </section>
           </main>
 
@@ -668,6 +400,7 @@ export default function FeedPage() {
                   upcomingEvents.map((ev, idx) => {
                     const spotsLeft = Math.max(0, (ev.maxParticipants ?? 0) - (ev.participantsCount ?? 0));
                     const disabled = joiningEventId === ev.id || (ev.owner && ev.joined);
+                    const full = spotsLeft === 0 || (ev.waitlistCount ?? 0) > 0;
                     return (
                       <div
                         key={ev.id}
@@ -683,6 +416,10 @@ export default function FeedPage() {
                             {ev.sport ? <span>🏅 {ev.sport}</span> : null}
                             {ev.locationName ? <span className="truncate">📍 {ev.locationName}</span> : null}
                             <span>👥 {spotsLeft} spots left</span>
+                            {ev.waitlistCount ? <span>⏳ {ev.waitlistCount} waiting</span> : null}
+                            {ev.waitlisted && ev.waitlistPosition ? (
+                              <span className="text-amber-700">You&apos;re #{ev.waitlistPosition}</span>
+                            ) : null}
                           </div>
                         </div>
                         <button
@@ -693,7 +430,7 @@ export default function FeedPage() {
                             "rounded-xl px-3 py-1.5 text-xs shadow-sm disabled:opacity-60",
                             ev.owner && ev.joined
                               ? "bg-slate-100 text-slate-900"
-                              : ev.joined
+                              : ev.joined || ev.waitlisted
                                 ? "bg-slate-100 text-slate-900 hover:bg-slate-200"
                                 : "bg-gradient-to-r from-blue-600 to-indigo-600 text-white hover:from-blue-700 hover:to-indigo-700",
                           ].join(" ")}
@@ -704,7 +441,11 @@ export default function FeedPage() {
                               ? "Creator"
                               : ev.joined
                                 ? "Leave"
-                                : "Join"}
+                                : ev.waitlisted
+                                  ? "Leave waitlist"
+                                  : full
+                                    ? "Join waitlist"
+                                    : "Join"}
                         </button>
                       </div>
                     );
@@ -732,7 +473,7 @@ export default function FeedPage() {
                 ) : (
                   suggestions.map((u) => {
                     const id = toIdString(u.id);
-                    const name = u.username ?? u.fullName ?? "Member";
+                    const name = displayName(u, "Member");
                     return (
                       <div key={id} className="flex items-center gap-3">
                         <UserAvatar userId={id} name={name} size={36} />
@@ -766,7 +507,7 @@ export default function FeedPage() {
                   <div className="text-sm text-gray-600">No pending requests.</div>
                 ) : (
                   requests.map((r) => {
-                    const id = toIdString(r.from?.id ?? r.from?._id);
+                    const id = userIdOf(r.from);
                     const name = displayName(r.from ?? null);
                     return (
                       <div key={`${id}-${r.createdAt}`} className="flex items-center gap-3">
@@ -824,7 +565,7 @@ export default function FeedPage() {
                   </div>
                 ) : (
                   friends.map((f) => {
-                    const id = toIdString(f.id ?? f._id);
+                    const id = userIdOf(f);
                     const name = displayName(f);
                     return (
                       <button
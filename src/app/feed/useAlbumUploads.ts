@@ -0,0 +1,203 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { api, apiUpload, errorMessage } from "@/lib/apiClient";
+import { parse, type FeedMedia } from "@/lib/apiTypes";
+import { downscaleImage } from "@/lib/imageResize";
+
+// Must match MAX_MEDIA_PER_POST in backend/src/routes/feed.js.
+export const MAX_ALBUM_ITEMS = 10;
+const MAX_PARALLEL_UPLOADS = 2;
+
+let nextKey = 0;
+const newKey = () => `media-${nextKey++}`;
+
+export type AlbumItemStatus = "queued" | "preparing" | "uploading" | "done" | "error";
+
+export type AlbumItem = {
+  key: string;
+  type: FeedMedia["type"];
+  name: string;
+  // Object URL for picked files, the link itself for URL items.
+  previewUrl: string;
+  status: AlbumItemStatus;
+  progress: number;
+  file?: File;
+  uploadId?: string;
+  error?: string;
+};
+
+// What POST /api/feed expects in its `media` list.
+export type AlbumPayloadItem = { uploadId: string } | { url: string; type: FeedMedia["type"] };
+
+function isBusy(item: AlbumItem) {
+  return item.status === "queued" || item.status === "preparing" || item.status === "uploading";
+}
+
+function discardUpload(uploadId: string) {
+  void api.delete(`/api/feed/media/${encodeURIComponent(uploadId)}`).catch(() => {
+    // Uploads never attached to a post are pruned by the backend anyway.
+  });
+}
+
+// Media for the post composer. Picked files upload in the background as soon
+// as they're added (images downscaled first), so posting only has to send the
+// ordered list of upload ids.
+export function useAlbumUploads() {
+  const [items, setItems] = useState<AlbumItem[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const itemsRef = useRef(items);
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+
+  const patch = useCallback((key: string, changes: Partial<AlbumItem>) => {
+    setItems((prev) => prev.map((item) => (item.key === key ? { ...item, ...changes } : item)));
+  }, []);
+
+  const startUpload = useCallback(
+    async (item: AlbumItem) => {
+      if (!item.file) return;
+      const controller = new AbortController();
+      controllersRef.current.set(item.key, controller);
+      patch(item.key, { status: "preparing", progress: 0, error: undefined });
+      try {
+        const file = item.type === "image" ? await downscaleImage(item.file) : item.file;
+        if (controller.signal.aborted) return;
+        patch(item.key, { status: "uploading" });
+
+        const body = new FormData();
+        body.append("media", file);
+        const upload = await apiUpload("/api/feed/media", body, parse.upload, {
+          signal: controller.signal,
+          onProgress: (progress) => patch(item.key, { progress }),
+        });
+        // Removed while the response was on its way back.
+        if (controller.signal.aborted) {
+          discardUpload(upload.id);
+          return;
+        }
+        patch(item.key, { status: "done", progress: 1, uploadId: upload.id });
+      } catch (err: unknown) {
+        if (controller.signal.aborted) return;
+        patch(item.key, { status: "error", error: errorMessage(err, "Upload failed") ?? "Upload failed" });
+      } finally {
+        controllersRef.current.delete(item.key);
+      }
+    },
+    [patch]
+  );
+
+  // Keeps at most MAX_PARALLEL_UPLOADS files in flight, in album order.
+  useEffect(() => {
+    const active = items.filter((i) => i.status === "preparing" || i.status === "uploading").length;
+    const waiting = items.filter((i) => i.status === "queued" && !controllersRef.current.has(i.key));
+    for (const item of waiting.slice(0, Math.max(0, MAX_PARALLEL_UPLOADS - active))) {
+      void startUpload(item);
+    }
+  }, [items, startUpload]);
+
+  const addFiles = useCallback((files: File[]) => {
+    setNotice(null);
+    const media = files.filter((f) => f.type.startsWith("image/") || f.type.startsWith("video/"));
+    const room = MAX_ALBUM_ITEMS - itemsRef.current.length;
+    const accepted = media.slice(0, Math.max(0, room));
+    if (accepted.length < files.length) {
+      setNotice(
+        media.length < files.length
+          ? "Only images and videos can be attached."
+          : `A post can have up to ${MAX_ALBUM_ITEMS} photos or videos.`
+      );
+    }
+    if (accepted.length === 0) return;
+    const added: AlbumItem[] = accepted.map((file) => ({
+      key: newKey(),
+      type: file.type.startsWith("video/") ? "video" : "image",
+      name: file.name,
+      previewUrl: URL.createObjectURL(file),
+      status: "queued",
+      progress: 0,
+      file,
+    }));
+    setItems((prev) => prev.concat(added));
+  }, []);
+
+  const addUrl = useCallback((url: string, type: FeedMedia["type"]) => {
+    const value = url.trim();
+    if (!value) return false;
+    if (itemsRef.current.length >= MAX_ALBUM_ITEMS) {
+      setNotice(`A post can have up to ${MAX_ALBUM_ITEMS} photos or videos.`);
+      return false;
+    }
+    setNotice(null);
+    setItems((prev) =>
+      prev.concat({ key: newKey(), type, name: value, previewUrl: value, status: "done", progress: 1 })
+    );
+    return true;
+  }, []);
+
+  const release = useCallback((item: AlbumItem, discard: boolean) => {
+    controllersRef.current.get(item.key)?.abort();
+    if (discard && item.uploadId) discardUpload(item.uploadId);
+    if (item.file) URL.revokeObjectURL(item.previewUrl);
+  }, []);
+
+  const remove = useCallback(
+    (key: string) => {
+      const item = itemsRef.current.find((i) => i.key === key);
+      if (item) release(item, true);
+      setNotice(null);
+      setItems((prev) => prev.filter((i) => i.key !== key));
+    },
+    [release]
+  );
+
+  const move = useCallback((key: string, offset: -1 | 1) => {
+    setItems((prev) => {
+      const from = prev.findIndex((i) => i.key === key);
+      const to = from + offset;
+      if (from < 0 || to < 0 || to >= prev.length) return prev;
+      const next = prev.slice();
+      [next[from], next[to]] = [next[to], next[from]];
+      return next;
+    });
+  }, []);
+
+  const retry = useCallback(
+    (key: string) => patch(key, { status: "queued", progress: 0, error: undefined }),
+    [patch]
+  );
+
+  // Empties the composer. Pass `discard` when the uploads won't be posted.
+  const reset = useCallback(
+    ({ discard }: { discard: boolean }) => {
+      for (const item of itemsRef.current) release(item, discard);
+      setNotice(null);
+      setItems([]);
+    },
+    [release]
+  );
+
+  useEffect(() => () => reset({ discard: true }), [reset]);
+
+  const payload = useCallback(
+    (): AlbumPayloadItem[] =>
+      itemsRef.current.map((i) => (i.uploadId ? { uploadId: i.uploadId } : { url: i.previewUrl, type: i.type })),
+    []
+  );
+
+  return {
+    items,
+    notice,
+    busy: items.some(isBusy),
+    failed: items.some((i) => i.status === "error"),
+    full: items.length >= MAX_ALBUM_ITEMS,
+    addFiles,
+    addUrl,
+    remove,
+    move,
+    retry,
+    reset,
+    payload,
+  };
+}
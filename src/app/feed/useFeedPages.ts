@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { api, errorMessage } from "@/lib/apiClient";
+import { parse, type FeedPost } from "@/lib/apiTypes";
+
+const PAGE_SIZE = 10;
+const NEW_POSTS_POLL_MS = 30 * 1000;
+// Start fetching the next page this far before the sentinel scrolls into view.
+const PREFETCH_MARGIN = "800px";
+// A saved feed older than this is reloaded instead of restored.
+const SNAPSHOT_TTL_MS = 10 * 60 * 1000;
+
+type FeedSnapshot = {
+  posts: FeedPost[];
+  nextCursor: string | null;
+  newestCursor: string | null;
+  scrollY: number;
+  savedAt: number;
+};
+
+// Kept at module level so it survives client-side navigation away from the
+// feed and back; a full reload starts fresh.
+let snapshot: FeedSnapshot | null = null;
+
+function freshSnapshot(): FeedSnapshot | null {
+  if (snapshot && Date.now() - snapshot.savedAt < SNAPSHOT_TTL_MS) return snapshot;
+  snapshot = null;
+  return null;
+}
+
+// Cursor-paginated feed: the first page, more pages as the sentinel nears the
+// viewport, a count of newer posts to offer instead of reloading under the
+// reader, and the loaded pages plus scroll position kept for coming back.
+export function useFeedPages() {
+  const [initial] = useState(freshSnapshot);
+  const [posts, setPosts] = useState<FeedPost[]>(initial?.posts ?? []);
+  const [nextCursor, setNextCursor] = useState<string | null>(initial?.nextCursor ?? null);
+  const [newestCursor, setNewestCursor] = useState<string | null>(initial?.newestCursor ?? null);
+  const [loading, setLoading] = useState(!initial);
+  const [error, setError] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+  const [newCount, setNewCount] = useState(0);
+  const [sentinel, setSentinel] = useState<HTMLElement | null>(null);
+
+  const loadingMoreRef = useRef(false);
+  const scrollYRef = useRef(initial?.scrollY ?? 0);
+  const stateRef = useRef({ posts, nextCursor, newestCursor });
+
+  useEffect(() => {
+    stateRef.current = { posts, nextCursor, newestCursor };
+  }, [newestCursor, nextCursor, posts]);
+
+  const loadFirstPage = useCallback(async () => {
+    const page = await api.get("/api/feed", parse.feed, { query: { limit: PAGE_SIZE } });
+    setPosts(page.posts);
+    setNextCursor(page.nextCursor);
+    setNewestCursor(page.newestCursor);
+    setNewCount(0);
+    setLoadMoreError(null);
+  }, []);
+
+  // Replaces the list with the latest first page, e.g. after posting or when
+  // the reader asks for the new posts.
+  const reload = useCallback(async () => {
+    setError(null);
+    try {
+      await loadFirstPage();
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Failed to load feed"));
+    }
+  }, [loadFirstPage]);
+
+  const loadMore = useCallback(async () => {
+    const cursor = stateRef.current.nextCursor;
+    if (!cursor || loadingMoreRef.current) return;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    setLoadMoreError(null);
+    try {
+      const page = await api.get("/api/feed", parse.feed, { query: { limit: PAGE_SIZE, cursor } });
+      setPosts((prev) => {
+        const seen = new Set(prev.map((p) => p.id));
+        return prev.concat(page.posts.filter((p) => !seen.has(p.id)));
+      });
+      setNextCursor(page.nextCursor);
+    } catch (err: unknown) {
+      setLoadMoreError(errorMessage(err, "Failed to load more posts"));
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, []);
+
+  const updatePost = useCallback((post: FeedPost) => {
+    setPosts((prev) => prev.map((p) => (p.id === post.id ? post : p)));
+  }, []);
+
+  const dropPost = useCallback((postId: string) => {
+    setPosts((prev) => prev.filter((p) => p.id !== postId));
+  }, []);
+
+  const showNewPosts = useCallback(async () => {
+    await reload();
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }, [reload]);
+
+  useEffect(() => {
+    if (initial) {
+      // Wait for the restored list to lay out before scrolling back to it.
+      const frame = window.requestAnimationFrame(() => window.scrollTo(0, initial.scrollY));
+      return () => window.cancelAnimationFrame(frame);
+    }
+    void reload().finally(() => setLoading(false));
+  }, [initial, reload]);
+
+  useEffect(() => {
+    const onScroll = () => {
+      scrollYRef.current = window.scrollY;
+    };
+    window.addEventListener("scroll", onScroll, { passive: true });
+    return () => {
+      window.removeEventListener("scroll", onScroll);
+      snapshot = { ...stateRef.current, scrollY: scrollYRef.current, savedAt: Date.now() };
+    };
+  }, []);
+
+  // Auto-loading pauses after a failed page until the reader retries.
+  useEffect(() => {
+    if (!sentinel || !nextCursor || loadMoreError) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) void loadMore();
+      },
+      { rootMargin: PREFETCH_MARGIN }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loadMore, loadMoreError, nextCursor, sentinel]);
+
+  useEffect(() => {
+    if (loading) return;
+    let cancelled = false;
+    const check = async () => {
+      if (document.visibilityState !== "visible") return;
+      try {
+        const count = await api.get("/api/feed/new-count", parse.newPostsCount, {
+          query: { since: stateRef.current.newestCursor },
+          retries: 0,
+        });
+        if (!cancelled) setNewCount(count);
+      } catch {
+        // The banner is best effort; the next poll tries again.
+      }
+    };
+    void check();
+    const t = window.setInterval(check, NEW_POSTS_POLL_MS);
+    document.addEventListener("visibilitychange", check);
+    return () => {
+      cancelled = true;
+      window.clearInterval(t);
+      document.removeEventListener("visibilitychange", check);
+    };
+  }, [loading, newestCursor]);
+
+  return {
+    posts,
+    loading,
+    error,
+    hasMore: Boolean(nextCursor),
+    loadingMore,
+    loadMoreError,
+    loadMore,
+    newCount,
+    showNewPosts,
+    reload,
+    updatePost,
+    dropPost,
+    sentinelRef: setSentinel,
+  };
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { api, errorMessage } from "@/lib/apiClient";
+import { parse, type Team, type TeamOpponent } from "@/lib/apiTypes";
+import { formatDistance } from "./format";
+
+// Teams of the same sport and size as one of yours, ranked by how close the
+// team ratings are and how far apart the players live.
+export default function OpponentFinder({
+  initialTeamId,
+  friendIds,
+  addingFriendId,
+  onAddFriend,
+}: {
+  initialTeamId: string | null;
+  friendIds: Set<string>;
+  addingFriendId: string | null;
+  onAddFriend: (userId: string) => Promise<boolean>;
+}) {
+  const router = useRouter();
+  const [teams, setTeams] = useState<Team[] | null>(null);
+  const [teamId, setTeamId] = useState(initialTeamId ?? "");
+  const [opponents, setOpponents] = useState<TeamOpponent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [requestedIds, setRequestedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    api
+      .get("/api/teams", parse.teams, { signal: controller.signal })
+      .then(({ teams: mine }) => {
+        const ready = mine.filter((t) => t.members.length >= 2);
+        setTeams(ready);
+        setTeamId((current) => (ready.some((t) => t.id === current) ? current : (ready[0]?.id ?? "")));
+      })
+      .catch((e: unknown) => setError(errorMessage(e, "Failed to load your teams")));
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    if (!teamId) return;
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+    api
+      .get(`/api/teams/${encodeURIComponent(teamId)}/opponents`, parse.opponents, { signal: controller.signal })
+      .then(setOpponents)
+      .catch((e: unknown) => setError(errorMessage(e, "Failed to load opponents")))
+      .finally(() => setLoading(false));
+    return () => controller.abort();
+  }, [teamId]);
+
+  if (!teams) {
+    return error ? (
+      <div className="p-4 text-sm text-red-700">{error}</div>
+    ) : (
+      <div className="p-4 text-sm text-gray-600">Loading…</div>
+    );
+  }
+  if (teams.length === 0) {
+    return (
+      <div className="p-4 text-sm text-gray-600">
+        Form a team of at least 2 players to look for opponents.{" "}
+        <button type="button" onClick={() => router.push("/teams")} className="text-blue-700 hover:underline">
+          Go to teams
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="px-4 py-3 border-b border-slate-100 flex items-center gap-2 text-xs text-gray-600">
+        Playing as
+        <select
+          value={teamId}
+          onChange={(e) => setTeamId(e.target.value)}
+          className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-gray-900"
+        >
+          {teams.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name} ({t.sport})
+            </option>
+          ))}
+        </select>
+      </div>
+      {error ? <div className="p-4 text-sm text-red-700">{error}</div> : null}
+      {loading ? (
+        <div className="p-4 text-sm text-gray-600">Loading…</div>
+      ) : opponents.length === 0 ? (
+        <div className="p-4 text-sm text-gray-600">No teams of the same sport and size yet.</div>
+      ) : (
+        <div className="divide-y divide-slate-100">
+          {opponents.map((o) => {
+            const { skill, distance } = o.breakdown;
+            const away = distance.meters === null ? null : formatDistance(distance.meters);
+            const isFriend = friendIds.has(o.captain.id);
+            return (
+              <div key={o.id} className="p-4 hover:bg-white/60 transition">
+                <div className="flex items-start justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="font-semibold text-gray-900 truncate">{o.name}</div>
+                    <div className="mt-0.5 text-xs text-gray-600 flex flex-wrap gap-x-2 gap-y-1">
+                      <span>👥 {o.members.map((m) => m.username).join(", ")}</span>
+                      <span>
+                        📈 {skill.theirs} vs your {skill.mine}
+                      </span>
+                      {away && <span>🛣️ {away}</span>}
+                    </div>
+                  </div>
+                  <div
+                    className="flex-shrink-0 rounded-xl bg-blue-50 px-2.5 py-1 text-xs font-semibold text-blue-700 ring-1 ring-blue-100"
+                    title={`Skill ${Math.round(skill.score)}/${skill.max}, distance ${Math.round(distance.score)}/${distance.max}`}
+                  >
+                    {Math.round(o.score)}% match
+                  </div>
+                </div>
+                <div className="mt-3">
+                  {isFriend ? (
+                    <button
+                      onClick={() =>
+                        router.push(
+                          `/chat/${encodeURIComponent(o.captain.id)}?name=${encodeURIComponent(o.captain.username)}`
+                        )
+                      }
+                      className="rounded-xl bg-slate-100 px-4 py-2 text-sm text-slate-900 hover:bg-slate-200"
+                    >
+                      Message {o.captain.username}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={async () => {
+                        if (await onAddFriend(o.captain.id)) setRequestedIds((prev) => [...prev, o.captain.id]);
+                      }}
+                      disabled={addingFriendId === o.captain.id || requestedIds.includes(o.captain.id)}
+                      className="rounded-xl bg-gradient-to-r from-blue-600 to-indigo-600 px-4 py-2 text-sm text-white shadow-sm hover:from-blue-700 hover:to-indigo-700 disabled:opacity-60"
+                    >
+                      {addingFriendId === o.captain.id
+                        ? "Adding…"
+                        : requestedIds.includes(o.captain.id)
+                          ? "Request sent"
+                          : `Add captain ${o.captain.username}`}
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </>
+  );
+}
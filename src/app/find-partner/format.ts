@@ -0,0 +1,7 @@
+export const formatDistance = (meters: number) => {
+  if (!Number.isFinite(meters) || meters < 0) return null;
+  if (meters < 1000) return `${Math.round(meters)} m away`;
+  const km = meters / 1000;
+  if (km < 10) return `${km.toFixed(1)} km away`;
+  return `${Math.round(km)} km away`;
+};
@@ -1,66 +1,32 @@
 "use client";
 
-import { useEffect, useState, useRef, useCallback, useMemo } from "react";
+import { useEffect, useState, useRef, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import UserAvatar from "@/components/UserAvatar";
-import { authHeader } from "@/lib/authToken";
-import { getBackendBaseUrl } from "@/lib/backendBaseUrl";
-
-type Partner = {
-  _id?: string;
-  id?: string;
-  email?: string;
-  username?: string;
-  fullName?: string;
-  skill?: string;
-  location?: string;
-  mutual?: number;
-  distanceMeters?: number;
-};
-
-type FriendRequest = {
-  from: Partner;
-  createdAt: number;
-};
-
-function partnerId(p: Partner): string {
-  return String(p._id ?? p.id ?? "");
-}
-
-function displayName(p: Partner): string {
-  return p.username ?? p.fullName ?? p.email ?? "Unknown";
-}
-
-async function readJsonOrText(res: Response): Promise<{ isJson: boolean; body: unknown }> {
-  const contentType = res.headers.get("content-type") ?? "";
-  if (contentType.includes("application/json")) {
-    return { isJson: true, body: await res.json() };
-  }
-  return { isJson: false, body: await res.text() };
-}
-
-function messageFromBody(parsed: { isJson: boolean; body: unknown }): string | null {
-  if (parsed.isJson && parsed.body && typeof parsed.body === "object") {
-    const anyBody = parsed.body as { message?: unknown; error?: unknown };
-    if (typeof anyBody.message === "string" && anyBody.message.trim()) return anyBody.message;
-    if (typeof anyBody.error === "string" && anyBody.error.trim()) return anyBody.error;
-    return null;
-  }
-
-  if (!parsed.isJson && typeof parsed.body === "string") {
-    const text = parsed.body
-      .replace(/<[^>]+>/g, " ")
-      .replace(/\s+/g, " ")
-      .trim();
-    return text || null;
-  }
-
-  return null;
-}
+import { api, errorMessage } from "@/lib/apiClient";
+import {
+  displayName,
+  parse,
+  userIdOf,
+  type FriendRequest,
+  type MatchBreakdown,
+  type Partner,
+} from "@/lib/apiTypes";
+import OpponentFinder from "./OpponentFinder";
+import { formatDistance } from "./format";
+
+type SortKey = "score" | "sports" | "skill" | "distance" | "mutual";
+
+const SORT_OPTIONS: { value: SortKey; label: string }[] = [
+  { value: "score", label: "Best match" },
+  { value: "sports", label: "Shared sports" },
+  { value: "skill", label: "Similar skill" },
+  { value: "distance", label: "Closest" },
+  { value: "mutual", label: "Mutual friends" },
+];
 
 export default function FindPartner() {
   const router = useRouter();
-  const base = useMemo(() => getBackendBaseUrl(), []);
   const [stayOnFindPartner, setStayOnFindPartner] = useState(false);
   const [partners, setPartners] = useState<Partner[]>([]);
   const [friends, setFriends] = useState<Partner[]>([]);
@@ -72,6 +38,11 @@ export default function FindPartner() {
   const [startingChatId, setStartingChatId] = useState<string | null>(null);
   const [addingFriendId, setAddingFriendId] = useState<string | null>(null);
   const [acceptingFriendId, setAcceptingFriendId] = useState<string | null>(null);
+  const [sort, setSort] = useState<SortKey>("score");
+  const [sorting, setSorting] = useState(false);
+  // "teams" looks for teams to play against with one of your teams.
+  const [mode, setMode] = useState<"people" | "teams">("people");
+  const [teamParam, setTeamParam] = useState<string | null>(null);
 
   // Prevent double fetch (React Strict Mode mounts component twice in dev)
   const fetchedRef = useRef(false);
@@ -80,6 +51,11 @@ export default function FindPartner() {
     try {
       const params = new URLSearchParams(window.location.search);
       setStayOnFindPartner(params.get("stay") === "1");
+      const team = params.get("team");
+      if (team) {
+        setTeamParam(team);
+        setMode("teams");
+      }
     } catch {
       setStayOnFindPartner(false);
     }
@@ -91,66 +67,50 @@ export default function FindPartner() {
   }, [router, stayOnFindPartner]);
 
   const refreshFriends = useCallback(async () => {
-    if (!base) return;
-
-    const headers = authHeader();
-    const [friendsRes, requestsRes] = await Promise.all([
-      fetch(`${base}/api/friends`, { credentials: "include", headers }),
-      fetch(`${base}/api/friends/requests`, { credentials: "include", headers }),
+    const [friendList, requestList] = await Promise.all([
+      api.get("/api/friends", parse.friends),
+      api.get("/api/friends/requests", parse.friendRequests),
     ]);
+    setFriends(friendList);
+    setRequests(requestList);
+  }, []);
 
-    if (friendsRes.status === 401 || requestsRes.status === 401) {
-      router.push("/auth/login");
-      return;
-    }
-
-    if (friendsRes.ok) {
-      const parsed = await readJsonOrText(friendsRes);
-      if (parsed.isJson) {
-        const data = parsed.body as { friends?: Partner[] };
-        setFriends((data?.friends ?? []) as Partner[]);
-      }
-    }
+  const fetchPartners = useCallback(async (sortKey: SortKey) => {
+    setPartners(await api.get("/api/partners/find-partner", parse.partners, { query: { sort: sortKey } }));
+  }, []);
 
-    if (requestsRes.ok) {
-      const parsed = await readJsonOrText(requestsRes);
-      if (parsed.isJson) {
-        const data = parsed.body as { requests?: FriendRequest[] };
-        setRequests((data?.requests ?? []) as FriendRequest[]);
+  const changeSort = useCallback(
+    async (next: SortKey) => {
+      setSort(next);
+      setSorting(true);
+      setError(null);
+      try {
+        await fetchPartners(next);
+      } catch (err: unknown) {
+        setError(errorMessage(err, "Failed to load partners"));
+      } finally {
+        setSorting(false);
       }
-    }
-  }, [base, router]);
+    },
+    [fetchPartners]
+  );
 
   useEffect(() => {
     if (fetchedRef.current) return;
     fetchedRef.current = true;
 
-    const fetchPartners = async () => {
+    const loadInitial = async () => {
       try {
-        if (!base) throw new Error("Missing NEXT_PUBLIC_BACKEND_URL");
-        const url = `${base}/api/partners/find-partner`;
-        console.debug("FindPartner: fetching", url);
-        const res = await fetch(url, { credentials: "include", headers: authHeader() });
-
-        if (res.status === 401) {
-          router.push("/auth/login");
-          return;
-        }
-
-        if (!res.ok) throw new Error(await res.text());
-
-        const data = await res.json();
-        console.debug("FindPartner: fetched partners", data);
-        setPartners((data?.partners ?? data ?? []) as Partner[]);
+        await fetchPartners("score");
         await refreshFriends();
       } catch (err: unknown) {
-        setError(err instanceof Error ? err.message : "Failed to load partners");
+        setError(errorMessage(err, "Failed to load partners"));
       } finally {
         setLoading(false);
       }
     };
 
-    fetchPartners();
+    loadInitial();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -168,77 +128,41 @@ export default function FindPartner() {
 
   const addFriend = useCallback(
     async (targetUserId: string) => {
-      if (!base) {
-        setError("Missing NEXT_PUBLIC_BACKEND_URL");
-        return;
-      }
-      if (!targetUserId) return;
+      if (!targetUserId) return false;
 
       setAddingFriendId(targetUserId);
       setError(null);
       try {
-        const res = await fetch(`${base}/api/friends/request`, {
-          method: "POST",
-          headers: { ...authHeader(), "Content-Type": "application/json" },
-          credentials: "include",
-          body: JSON.stringify({ userId: targetUserId }),
-        });
-
-        if (res.status === 401) {
-          router.push("/auth/login");
-          return;
-        }
-
-        const parsed = await readJsonOrText(res);
-        if (!res.ok) throw new Error(messageFromBody(parsed) || "Failed to add friend");
-        if (!parsed.isJson) throw new Error(messageFromBody(parsed) || "Unexpected server response");
-
-        setPartners((prev) => prev.filter((p) => partnerId(p) !== targetUserId));
+        await api.post("/api/friends/request", { userId: targetUserId });
+        setPartners((prev) => prev.filter((p) => userIdOf(p) !== targetUserId));
         await refreshFriends();
+        return true;
       } catch (e: unknown) {
-        setError(e instanceof Error ? e.message : "Failed to add friend");
+        setError(errorMessage(e, "Failed to add friend"));
+        return false;
       } finally {
         setAddingFriendId(null);
       }
     },
-    [base, refreshFriends, router]
+    [refreshFriends]
   );
 
   const acceptFriend = useCallback(
     async (fromUserId: string) => {
-      if (!base) {
-        setError("Missing NEXT_PUBLIC_BACKEND_URL");
-        return;
-      }
       if (!fromUserId) return;
 
       setAcceptingFriendId(fromUserId);
       setError(null);
       try {
-        const res = await fetch(`${base}/api/friends/accept`, {
-          method: "POST",
-          headers: { ...authHeader(), "Content-Type": "application/json" },
-          credentials: "include",
-          body: JSON.stringify({ userId: fromUserId }),
-        });
-
-        if (res.status === 401) {
-          router.push("/auth/login");
-          return;
-        }
-
-        const parsed = await readJsonOrText(res);
-        if (!res.ok) throw new Error(messageFromBody(parsed) || "Failed to accept request");
-        if (!parsed.isJson) throw new Error(messageFromBody(parsed) || "Unexpected server response");
-
+        await api.post("/api/friends/accept", { userId: fromUserId });
         await refreshFriends();
       } catch (e: unknown) {
-        setError(e instanceof Error ? e.message : "Failed to accept request");
+        setError(errorMessage(e, "Failed to accept request"));
       } finally {
         setAcceptingFriendId(null);
       }
     },
-    [base, refreshFriends, router]
+    [refreshFriends]
   );
 
   if (loading) {
@@ -282,6 +206,13 @@ export default function FindPartner() {
                   >
                     Events
                   </button>
+                  <button
+                    type="button"
+                    onClick={() => router.push("/teams")}
+                    className="w-full text-left rounded-xl px-3 py-2 text-sm text-gray-800 hover:bg-slate-50"
+                  >
+                    Teams
+                  </button>
                   <button
                     type="button"
                     onClick={() => router.push("/profile")}
@@ -305,21 +236,74 @@ export default function FindPartner() {
             <div className="rounded-2xl bg-white/80 ring-1 ring-slate-200/70 shadow-sm overflow-hidden backdrop-blur">
               <div className="px-4 py-3 border-b border-slate-200/70 flex items-center justify-between bg-gradient-to-r from-white to-slate-50">
                 <div>
-                  <h2 className="text-base font-semibold text-gray-900">People you may want to play with</h2>
-                  <div className="text-xs text-gray-600">Suggestions based on your profile</div>
+                  <h2 className="text-base font-semibold text-gray-900">
+                    {mode === "teams" ? "Teams you could play against" : "People you may want to play with"}
+                  </h2>
+                  <div className="text-xs text-gray-600">
+                    {mode === "teams"
+                      ? "Same sport and team size, ranked by team rating and distance"
+                      : "Ranked by shared sports, skill level, distance and mutual friends"}
+                  </div>
+                  <div className="mt-2 flex gap-1.5">
+                    {(
+                      [
+                        ["people", "Partners"],
+                        ["teams", "Opponents"],
+                      ] as const
+                    ).map(([value, label]) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => setMode(value)}
+                        className={[
+                          "rounded-xl border px-3 py-1 text-xs transition",
+                          mode === value
+                            ? "border-blue-600 bg-blue-50 text-blue-700"
+                            : "border-slate-200 bg-white text-gray-800 hover:bg-slate-50",
+                        ].join(" ")}
+                        aria-pressed={mode === value}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className={mode === "teams" ? "hidden" : "flex items-center gap-3"}>
+                  <label className="flex items-center gap-2 text-xs text-gray-600">
+                    Sort
+                    <select
+                      value={sort}
+                      onChange={(e) => changeSort(e.target.value as SortKey)}
+                      disabled={sorting}
+                      className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-gray-900"
+                    >
+                      {SORT_OPTIONS.map((o) => (
+                        <option key={o.value} value={o.value}>
+                          {o.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <div className="text-xs text-gray-500">{partners.length} shown</div>
                 </div>
-                <div className="text-xs text-gray-500">{partners.length} shown</div>
               </div>
 
-              {partners.length === 0 ? (
+              {mode === "teams" ? (
+                <OpponentFinder
+                  initialTeamId={teamParam}
+                  friendIds={new Set(friends.map((f) => userIdOf(f)))}
+                  addingFriendId={addingFriendId}
+                  onAddFriend={addFriend}
+                />
+              ) : partners.length === 0 ? (
                 <div className="p-4 text-sm text-gray-600">No suggestions right now.</div>
               ) : (
                 <div className="divide-y divide-slate-100">
                   {partners.map((p) => {
                     const key = p._id ?? p.id ?? p.email ?? cryptoRandomKey();
                     const name = displayName(p);
-                    const id = partnerId(p);
-                    const canMessage = !!id && friends.some((f) => partnerId(f) === id);
+                    const id = userIdOf(p);
+                    const canMessage = !!id && friends.some((f) => userIdOf(f) === id);
                     const distance =
                       typeof p.distanceMeters === "number"
                         ? formatDistance(p.distanceMeters)
@@ -342,7 +326,17 @@ export default function FindPartner() {
                             <div className="min-w-0">
                               <div className="font-semibold text-gray-900 truncate">{name}</div>
                               <div className="mt-0.5 text-xs text-gray-600 flex flex-wrap gap-x-2 gap-y-1">
-                                {p.skill && <span>🎯 {p.skill}</span>}
+                                {(p.skillLevel || p.skill) && <span>🎯 {p.skillLevel ?? p.skill}</span>}
+                                {p.ratings?.[0] && (
+                                  <span title={`${p.ratings[0].matches} rated matches`}>
+                                    🏅 {p.ratings[0].sport} {p.ratings[0].rating}
+                                  </span>
+                                )}
+                                {typeof p.reliability?.percent === "number" && (
+                                  <span title={`Attended ${p.reliability.attended} of ${p.reliability.attended + p.reliability.missed} marked events`}>
+                                    ✅ {p.reliability.percent}% reliable
+                                  </span>
+                                )}
                                 {p.location && <span>📍 {p.location}</span>}
                                 {distance && <span>🛣️ {distance}</span>}
                               </div>
@@ -352,8 +346,18 @@ export default function FindPartner() {
                                 </div>
                               )}
                             </div>
+                            {typeof p.score === "number" && (
+                              <div
+                                className="flex-shrink-0 rounded-xl bg-blue-50 px-2.5 py-1 text-xs font-semibold text-blue-700 ring-1 ring-blue-100"
+                                title="Compatibility score"
+                              >
+                                {Math.round(p.score)}% match
+                              </div>
+                            )}
                           </div>
 
+                          {p.breakdown && <ScoreBreakdown breakdown={p.breakdown} />}
+
                           <div className="mt-3 flex flex-wrap gap-2">
                             <button
                               onClick={() => addFriend(id)}
@@ -410,7 +414,7 @@ export default function FindPartner() {
                     ) : (
                       <div className="divide-y divide-slate-100">
                         {requests.slice(0, 5).map((r) => {
-                          const id = partnerId(r.from);
+                          const id = userIdOf(r.from);
                           const name = displayName(r.from);
                           const key = id || cryptoRandomKey();
                           return (
@@ -468,7 +472,7 @@ export default function FindPartner() {
                     ) : (
                       <div className="divide-y divide-slate-100 max-h-[60vh] overflow-auto">
                         {friends.map((f) => {
-                          const id = partnerId(f);
+                          const id = userIdOf(f);
                           const name = displayName(f);
                           const key = id || cryptoRandomKey();
                           return (
@@ -508,6 +512,66 @@ export default function FindPartner() {
   );
 }
 
+function ScoreBreakdown({ breakdown }: { breakdown: MatchBreakdown }) {
+  const { sports, skill, distance, mutual } = breakdown;
+  const rows = [
+    {
+      label: "Sports",
+      score: sports.score,
+      max: sports.max,
+      detail: sports.shared.length ? sports.shared.join(", ") : "None shared",
+    },
+    {
+      label: "Skill",
+      score: skill.score,
+      max: skill.max,
+      detail: skill.rating
+        ? `${skill.rating.sport}: ${skill.rating.theirs} vs your ${skill.rating.mine}`
+        : skill.gap === null
+          ? "Unknown"
+          : skill.gap === 0
+            ? "Same level"
+            : `${skill.gap} ${skill.gap === 1 ? "level" : "levels"} apart`,
+    },
+    {
+      label: "Distance",
+      score: distance.score,
+      max: distance.max,
+      detail: distance.meters === null ? "Unknown" : formatDistance(distance.meters) ?? "Unknown",
+    },
+    {
+      label: "Mutual",
+      score: mutual.score,
+      max: mutual.max,
+      detail: `${mutual.count} ${mutual.count === 1 ? "friend" : "friends"}`,
+    },
+  ];
+
+  return (
+    <div className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1.5">
+      {rows.map((r) => (
+        <div key={r.label} className="min-w-0">
+          <div className="flex items-center justify-between text-[11px] text-gray-600">
+            <span className="font-medium text-gray-700">{r.label}</span>
+            <span>
+              {Math.round(r.score)}/{r.max}
+            </span>
+          </div>
+          <div className="mt-0.5 h-1.5 rounded-full bg-slate-100 overflow-hidden">
+            <div
+              className="h-full rounded-full bg-gradient-to-r from-blue-500 to-indigo-500"
+              style={{ width: `${r.max > 0 ? Math.min(100, (r.score / r.max) * 100) : 0}%` }}
+            />
+          </div>
+          <div className="mt-0.5 text-[11px] text-gray-500 truncate" title={r.detail}>
+            {r.detail}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 // Helpers
 const initials = (name?: string) => {
   if (!name) return "??";
@@ -529,11 +593,3 @@ const cryptoRandomKey = () => {
   }
   return Math.random().toString(36).slice(2);
 };
-
-const formatDistance = (meters: number) => {
-  if (!Number.isFinite(meters) || meters < 0) return null;
-  if (meters < 1000) return `${Math.round(meters)} m away`;
-  const km = meters / 1000;
-  if (km < 10) return `${km.toFixed(1)} km away`;
-  return `${Math.round(km)} km away`;
-};
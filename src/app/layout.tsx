@@ -1,5 +1,7 @@
 import "./globals.css";
 import Navbar from "@/components/Navbar";
+import { AuthProvider } from "@/context/AuthContext";
+import { ChatProvider } from "@/context/ChatContext";
 
 export default function RootLayout({
   children,
@@ -9,8 +11,12 @@ export default function RootLayout({
   return (
     <html lang="en">
       <body className="min-h-screen text-slate-900 antialiased flex flex-col">
-        <Navbar />
-        <main className="flex-1">{children}</main>
+        <AuthProvider>
+          <ChatProvider>
+            <Navbar />
+            <main className="flex-1">{children}</main>
+          </ChatProvider>
+        </AuthProvider>
       </body>
     </html>
   );
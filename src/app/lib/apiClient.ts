@@ -0,0 +1,345 @@
+import { authHeader, clearAuthToken } from "@/lib/authToken";
+import { getBackendBaseUrl } from "@/lib/backendBaseUrl";
+
+// Shared client for the backend API. Every request carries the session cookie
+// and bearer token, failures surface as ApiError, and a 401 on an
+// authenticated call is reported once through onAuthExpired.
+
+export type ApiErrorKind =
+  | "config"
+  | "network"
+  | "aborted"
+  | "unauthorized"
+  | "http"
+  | "invalid_response";
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status: number | null;
+  readonly body: unknown;
+
+  constructor(kind: ApiErrorKind, message: string, status: number | null = null, body: unknown = null) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export function isAbortError(err: unknown): boolean {
+  if (err instanceof ApiError) return err.kind === "aborted";
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+// Message to show for a failed call, or null when there is nothing to show:
+// cancelled requests and expired sessions (already redirected to login) are
+// handled without an error box.
+export function errorMessage(err: unknown, fallback: string): string | null {
+  if (err instanceof ApiError) {
+    if (err.kind === "aborted" || err.kind === "unauthorized") return null;
+    return err.message || fallback;
+  }
+  if (isAbortError(err)) return null;
+  return err instanceof Error && err.message ? err.message : fallback;
+}
+
+export type Parser<T> = (body: unknown) => T;
+
+export type QueryValue = string | number | boolean | null | undefined;
+
+export type RequestOptions = {
+  query?: Record<string, QueryValue>;
+  signal?: AbortSignal;
+  headers?: Record<string, string>;
+  // Extra attempts for GET requests after network errors, 429 or 502-504.
+  retries?: number;
+  // Set to false for calls where a 401 is an answer rather than an expired
+  // session (session probes, login).
+  authExpiry?: boolean;
+};
+
+type FullRequestOptions = RequestOptions & { method?: string; body?: unknown };
+
+const DEFAULT_GET_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 400;
+const RETRY_MAX_DELAY_MS = 5000;
+// Parallel requests failing with 401 only report the expiry once.
+const AUTH_EXPIRY_DEDUPE_MS = 2000;
+
+const authExpiredListeners = new Set<() => void>();
+let lastAuthExpiry = 0;
+
+export function onAuthExpired(listener: () => void): () => void {
+  authExpiredListeners.add(listener);
+  return () => {
+    authExpiredListeners.delete(listener);
+  };
+}
+
+function notifyAuthExpired() {
+  const now = Date.now();
+  if (now - lastAuthExpiry < AUTH_EXPIRY_DEDUPE_MS) return;
+  lastAuthExpiry = now;
+  clearAuthToken();
+  for (const listener of Array.from(authExpiredListeners)) {
+    try {
+      listener();
+    } catch (err) {
+      console.error("Auth expiry listener failed", err);
+    }
+  }
+}
+
+async function readJsonOrText(res: Response): Promise<{ isJson: boolean; body: unknown }> {
+  const contentType = res.headers.get("content-type") ?? "";
+  if (contentType.includes("application/json")) {
+    try {
+      return { isJson: true, body: await res.json() };
+    } catch {
+      return { isJson: true, body: null };
+    }
+  }
+  return { isJson: false, body: await res.text() };
+}
+
+function messageFromBody(parsed: { isJson: boolean; body: unknown }): string | null {
+  if (parsed.isJson && parsed.body && typeof parsed.body === "object") {
+    const anyBody = parsed.body as { message?: unknown; error?: unknown };
+    if (typeof anyBody.message === "string" && anyBody.message.trim()) return anyBody.message;
+    if (typeof anyBody.error === "string" && anyBody.error.trim()) return anyBody.error;
+    return null;
+  }
+
+  if (!parsed.isJson && typeof parsed.body === "string") {
+    const text = parsed.body
+      .replace(/<[^>]+>/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+    return text || null;
+  }
+
+  return null;
+}
+
+function buildUrl(base: string, path: string, query?: Record<string, QueryValue>) {
+  const url = `${base}${path}`;
+  if (!query) return url;
+  const qs = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null || value === "") continue;
+    qs.set(key, String(value));
+  }
+  const s = qs.toString();
+  return s ? `${url}${url.includes("?") ? "&" : "?"}${s}` : url;
+}
+
+function isRetryableStatus(status: number) {
+  return status === 429 || status === 502 || status === 503 || status === 504;
+}
+
+function retryDelay(attempt: number, res: Response | null) {
+  const retryAfter = Number(res?.headers.get("retry-after"));
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    return Math.min(retryAfter * 1000, RETRY_MAX_DELAY_MS);
+  }
+  const backoff = RETRY_BASE_DELAY_MS * 2 ** attempt;
+  return Math.min(backoff + Math.random() * RETRY_BASE_DELAY_MS, RETRY_MAX_DELAY_MS);
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiError("aborted", "Request cancelled"));
+      return;
+    }
+    const onAbort = () => {
+      window.clearTimeout(t);
+      reject(new ApiError("aborted", "Request cancelled"));
+    };
+    const t = window.setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function encodeBody(body: unknown, headers: Record<string, string>): BodyInit | undefined {
+  if (body === undefined) return undefined;
+  if (typeof FormData !== "undefined" && body instanceof FormData) return body;
+  headers["content-type"] = "application/json";
+  return JSON.stringify(body);
+}
+
+// Sends a request and returns the successful Response. Non-2xx answers are
+// turned into ApiError; the body is left unread for the caller.
+export async function apiFetch(path: string, options: FullRequestOptions = {}): Promise<Response> {
+  const base = getBackendBaseUrl();
+  if (!base) throw new ApiError("config", "Missing NEXT_PUBLIC_BACKEND_URL");
+
+  const method = (options.method ?? "GET").toUpperCase();
+  const url = buildUrl(base, path, options.query);
+  const headers: Record<string, string> = { ...authHeader(), ...options.headers };
+  const body = encodeBody(options.body, headers);
+  // Only idempotent reads are retried; a repeated POST could double-book.
+  const maxRetries = method === "GET" ? Math.max(0, options.retries ?? DEFAULT_GET_RETRIES) : 0;
+
+  for (let attempt = 0; ; attempt += 1) {
+    let res: Response | null = null;
+    try {
+      res = await fetch(url, {
+        method,
+        headers,
+        body,
+        credentials: "include",
+        cache: "no-store",
+        signal: options.signal,
+      });
+    } catch (err) {
+      if (isAbortError(err) || options.signal?.aborted) {
+        throw new ApiError("aborted", "Request cancelled");
+      }
+      if (attempt < maxRetries) {
+        await sleep(retryDelay(attempt, null), options.signal);
+        continue;
+      }
+      throw new ApiError("network", "Could not reach the server. Check your connection and try again.");
+    }
+
+    if (res.ok) return res;
+
+    if (isRetryableStatus(res.status) && attempt < maxRetries) {
+      await res.body?.cancel().catch(() => {});
+      await sleep(retryDelay(attempt, res), options.signal);
+      continue;
+    }
+
+    const parsed = await readJsonOrText(res).catch(() => ({ isJson: false, body: null }));
+    const message = messageFromBody(parsed) ?? `Request failed (${res.status})`;
+    if (res.status === 401 && options.authExpiry !== false) {
+      notifyAuthExpired();
+      throw new ApiError("unauthorized", message, 401, parsed.body);
+    }
+    throw new ApiError("http", message, res.status, parsed.body);
+  }
+}
+
+export type UploadOptions = {
+  signal?: AbortSignal;
+  // Called with the fraction of the body sent so far, from 0 to 1.
+  onProgress?: (fraction: number) => void;
+  authExpiry?: boolean;
+};
+
+function readXhrBody(xhr: XMLHttpRequest): { isJson: boolean; body: unknown } {
+  const contentType = xhr.getResponseHeader("content-type") ?? "";
+  if (!contentType.includes("application/json")) return { isJson: false, body: xhr.responseText };
+  try {
+    return { isJson: true, body: JSON.parse(xhr.responseText) };
+  } catch {
+    return { isJson: true, body: null };
+  }
+}
+
+// POSTs a FormData body and reports upload progress, which fetch can't do.
+// Errors map to ApiError like apiFetch; uploads are never retried.
+export function apiUpload<T>(
+  path: string,
+  body: FormData,
+  parse: Parser<T>,
+  options: UploadOptions = {}
+): Promise<T> {
+  const base = getBackendBaseUrl();
+  if (!base) return Promise.reject(new ApiError("config", "Missing NEXT_PUBLIC_BACKEND_URL"));
+  if (options.signal?.aborted) return Promise.reject(new ApiError("aborted", "Request cancelled"));
+
+  return new Promise<T>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    const settle = (fn: () => void) => {
+      options.signal?.removeEventListener("abort", onAbort);
+      fn();
+    };
+
+    xhr.open("POST", buildUrl(base, path));
+    xhr.withCredentials = true;
+    for (const [key, value] of Object.entries(authHeader())) xhr.setRequestHeader(key, value);
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable && e.total > 0) options.onProgress?.(e.loaded / e.total);
+    };
+    xhr.onabort = () => settle(() => reject(new ApiError("aborted", "Request cancelled")));
+    xhr.onerror = () =>
+      settle(() =>
+        reject(new ApiError("network", "Could not reach the server. Check your connection and try again."))
+      );
+    xhr.onload = () =>
+      settle(() => {
+        const parsed = readXhrBody(xhr);
+        if (xhr.status >= 200 && xhr.status < 300) {
+          try {
+            if (!parsed.isJson) throw new Error("response is not JSON");
+            resolve(parse(parsed.body));
+          } catch (err) {
+            const detail = err instanceof Error ? err.message : String(err);
+            console.error(`Invalid response from ${path}: ${detail}`);
+            reject(new ApiError("invalid_response", "Unexpected server response", xhr.status, parsed.body));
+          }
+          return;
+        }
+        const message = messageFromBody(parsed) ?? `Request failed (${xhr.status})`;
+        if (xhr.status === 401 && options.authExpiry !== false) {
+          notifyAuthExpired();
+          reject(new ApiError("unauthorized", message, 401, parsed.body));
+          return;
+        }
+        reject(new ApiError("http", message, xhr.status, parsed.body));
+      });
+
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+    xhr.send(body);
+  });
+}
+
+// Sends a request and validates the JSON body with `parse`. Without a parser
+// the body is ignored and undefined is returned.
+export async function apiRequest<T = void>(
+  path: string,
+  options: FullRequestOptions & { parse?: Parser<T> } = {}
+): Promise<T> {
+  const res = await apiFetch(path, options);
+  if (!options.parse) {
+    await res.body?.cancel().catch(() => {});
+    return undefined as T;
+  }
+
+  const parsed = await readJsonOrText(res);
+  if (!parsed.isJson) {
+    throw new ApiError("invalid_response", "Unexpected server response", res.status, parsed.body);
+  }
+  try {
+    return options.parse(parsed.body);
+  } catch (err) {
+    const detail = err instanceof Error ? err.message : String(err);
+    console.error(`Invalid response from ${path}: ${detail}`);
+    throw new ApiError("invalid_response", "Unexpected server response", res.status, parsed.body);
+  }
+}
+
+export const api = {
+  get<T>(path: string, parse: Parser<T>, options?: RequestOptions) {
+    return apiRequest<T>(path, { ...options, method: "GET", parse });
+  },
+  post<T = void>(path: string, body?: unknown, parse?: Parser<T>, options?: RequestOptions) {
+    return apiRequest<T>(path, { ...options, method: "POST", body, parse });
+  },
+  put<T = void>(path: string, body?: unknown, parse?: Parser<T>, options?: RequestOptions) {
+    return apiRequest<T>(path, { ...options, method: "PUT", body, parse });
+  },
+  patch<T = void>(path: string, body?: unknown, parse?: Parser<T>, options?: RequestOptions) {
+    return apiRequest<T>(path, { ...options, method: "PATCH", body, parse });
+  },
+  delete<T = void>(path: string, parse?: Parser<T>, options?: RequestOptions) {
+    return apiRequest<T>(path, { ...options, method: "DELETE", parse });
+  },
+};
@@ -0,0 +1,917 @@
+// Shapes returned by the backend API, with parsers used by the API client to
+// check responses before they reach component state. Parsers only verify the
+// fields the UI depends on and throw on anything else.
+
+export type GeoCoords = { lat: number; lng: number };
+
+export type GeoResult = { displayName: string; lat: number; lng: number };
+
+export type UserSummary = {
+  id?: string;
+  _id?: string;
+  email?: string;
+  username?: string;
+  fullName?: string;
+  skill?: string | null;
+  location?: string | null;
+  skillLevel?: string | null;
+  preferredSports?: string[];
+  isModerator?: boolean;
+};
+
+export type Friend = UserSummary;
+
+export type FriendRequest = {
+  from: UserSummary;
+  createdAt: string | number;
+};
+
+export type MatchBreakdown = {
+  sports: { score: number; max: number; shared: string[] };
+  skill: {
+    score: number;
+    max: number;
+    gap: number | null;
+    level: string | null;
+    // Set when both players have rated results in a sport; it then decides the score.
+    rating?: { sport: string; mine: number; theirs: number } | null;
+  };
+  distance: { score: number; max: number; meters: number | null };
+  mutual: { score: number; max: number; count: number };
+};
+
+export type SportRating = {
+  sport: string;
+  rating: number;
+  matches: number;
+  wins: number;
+  losses: number;
+  // Fewer than 5 results; the rating still moves quickly.
+  provisional: boolean;
+};
+
+// Share of marked events a player turned up to; `percent` is null until
+// an organizer has marked them at least once.
+export type Reliability = { percent: number | null; attended: number; missed: number };
+
+export type AttendanceStatus = "present" | "absent";
+
+export type AttendanceEntry = {
+  id: string;
+  username?: string;
+  status: AttendanceStatus | null;
+  source: string | null;
+  reliability: Reliability;
+};
+
+export type EventAttendance = { canMark: boolean; participants: AttendanceEntry[] };
+
+// "qr" when the player scanned the organizer's code, "nearby" when their live
+// location reached the venue.
+export type CheckInSource = "qr" | "nearby";
+
+export type CheckInEntry = { id: string; username: string; source: CheckInSource; checkedInAt: string };
+
+// The organizer's check-in screen.
+export type EventCheckIn = {
+  code: string;
+  open: boolean;
+  opensAt: string;
+  closesAt: string;
+  expected: number;
+  roster: CheckInEntry[];
+};
+
+export type CheckInResult = { eventId: string; eventTitle: string; startsAt: string; checkedInAt: string };
+
+export type Partner = UserSummary & {
+  ratings?: SportRating[];
+  reliability?: Reliability;
+  mutual?: number;
+  distanceMeters?: number;
+  score?: number;
+  breakdown?: MatchBreakdown;
+};
+
+export type Frequency = "weekly" | "biweekly" | "monthly";
+
+export type EventSeries = {
+  id: string;
+  frequency: Frequency;
+  weekdays: number[];
+  until: string | null;
+  count: number | null;
+  skippedDates: string[];
+};
+
+export type EventItem = {
+  id: string;
+  title: string;
+  description?: string;
+  sport?: string;
+  startsAt: string;
+  locationName?: string;
+  locationCoords?: GeoCoords | null;
+  visibility: "public" | "friends";
+  maxParticipants: number;
+  // Minimum attendance reliability (%) needed to join, if any.
+  minReliability?: number | null;
+  participantsCount: number;
+  joined: boolean;
+  waitlistCount?: number;
+  waitlisted?: boolean;
+  waitlistPosition?: number | null;
+  waitlist?: { id: string; username?: string }[];
+  owner: boolean;
+  checkedIn?: boolean;
+  tournamentId?: string | null;
+  // Teams entered together; each member takes one of maxParticipants.
+  teams?: EventTeamEntry[];
+  createdBy?: { id: string; username?: string; email?: string };
+  seriesId?: string;
+  occurrenceDate?: string;
+  series?: EventSeries;
+  edited?: boolean;
+};
+
+export type EventTeamEntry = { teamId: string; name: string; memberCount: number; mine: boolean };
+
+export type Team = {
+  id: string;
+  name: string;
+  sport: string;
+  captain: { id: string; username: string };
+  members: { id: string; username: string }[];
+  // Average of the members' ratings in the team's sport.
+  rating: number | null;
+  isCaptain: boolean;
+  isMember: boolean;
+  // Pending invites; only listed for members.
+  invites: { id: string; username: string; createdAt: number }[];
+  invited: boolean;
+  createdAt: number;
+};
+
+export type TeamOpponent = Team & {
+  score: number;
+  breakdown: {
+    skill: { score: number; max: number; mine: number; theirs: number };
+    distance: { score: number; max: number; meters: number | null };
+  };
+};
+
+export type TournamentFormat = "single_elimination" | "double_elimination" | "round_robin";
+
+export type TournamentPlayer = { id: string; username: string; seed: number | null };
+
+export type TournamentMatch = {
+  id: string;
+  bracket: "winners" | "losers" | "final" | "group";
+  round: number;
+  position: number;
+  group: number | null;
+  // bye: decided without playing; skipped: a final reset that wasn't needed.
+  status: "pending" | "ready" | "completed" | "bye" | "skipped";
+  // An empty slot is either still to be decided or, with `bye`, nobody.
+  slots: { player: TournamentPlayer | null; bye: boolean }[];
+  // Set scores in slot order.
+  scores: [number, number][];
+  winnerId: string | null;
+  canReport: boolean;
+};
+
+export type StandingRow = {
+  player: TournamentPlayer;
+  played: number;
+  wins: number;
+  losses: number;
+  setsFor: number;
+  setsAgainst: number;
+  pointsFor: number;
+  pointsAgainst: number;
+};
+
+export type Tournament = {
+  id: string;
+  eventId: string;
+  eventTitle: string;
+  startsAt: string;
+  name: string;
+  sport: string;
+  format: TournamentFormat;
+  seeding: "rating" | "manual";
+  groupCount: number;
+  organizerPlays: boolean;
+  status: "registration" | "in_progress" | "completed";
+  createdBy: { id: string; username: string };
+  isOrganizer: boolean;
+  // Whether you have joined the event, which is how players register.
+  registered: boolean;
+  // In seed order.
+  entrants: (TournamentPlayer & { rating: number })[];
+  matches: TournamentMatch[];
+  // Round robin only: one table per group, leader first.
+  standings: StandingRow[][];
+  winner: TournamentPlayer | null;
+};
+
+// Times are the court's wall clock in its IANA `timeZone`.
+export type Court = {
+  id: string;
+  name: string;
+  sport: string;
+  locationName?: string;
+  timeZone: string;
+  openingHour: number;
+  closingHour: number;
+  slotMinutes: number;
+};
+
+export type CourtBooking = {
+  id: string;
+  courtId: string;
+  userId: string;
+  userName: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  status: "confirmed" | "cancelled";
+  createdAt: number;
+  cancelledAt?: number;
+};
+
+export type CourtSlot = {
+  startTime: string;
+  endTime: string;
+  available: boolean;
+  past: boolean;
+  mine: boolean;
+  bookingId?: string;
+};
+
+export type FeedMedia = { type: "image" | "video"; url: string };
+
+// A file uploaded ahead of creating an album post.
+export type FeedUpload = FeedMedia & { id: string };
+
+export type PostAuthor = { id: string; username?: string; fullName?: string; email?: string };
+
+export type ReactionCount = { emoji: string; count: number };
+
+export type PostReactions = { reactions: ReactionCount[]; myReaction: string | null };
+
+export type FeedPost = PostReactions & {
+  id: string;
+  text: string;
+  // Album items in display order; empty for text-only posts.
+  media: FeedMedia[];
+  visibility: "friends" | "public";
+  createdAt: string;
+  editedAt: string | null;
+  author: PostAuthor;
+  commentCount: number;
+};
+
+// An earlier version of a post's text; `until` is when it was replaced.
+export type PostEdit = { text: string; until: string };
+
+export type ReportReason = "spam" | "harassment" | "inappropriate" | "other";
+
+export type ModerationReport = {
+  id: string;
+  reason: ReportReason;
+  details: string;
+  reporter: PostAuthor;
+  createdAt: string;
+};
+
+export type ModerationItem = {
+  post: FeedPost;
+  hidden: boolean;
+  reports: ModerationReport[];
+};
+
+export type Reactor = { emoji: string; user: PostAuthor };
+
+// Replies carry the id of their top-level comment in parentId.
+export type FeedComment = {
+  id: string;
+  postId: string;
+  parentId: string | null;
+  text: string;
+  createdAt: string;
+  author: PostAuthor;
+};
+
+// One page of /api/feed. newestCursor is only sent with the first page.
+export type FeedPage = {
+  posts: FeedPost[];
+  nextCursor: string | null;
+  newestCursor: string | null;
+};
+
+export type NotificationType =
+  | "friend_request"
+  | "friend_accepted"
+  | "event_joined"
+  | "event_left"
+  | "event_promoted"
+  | "event_cancelled"
+  | "chat_message"
+  | "post_reaction"
+  | "post_comment"
+  | "match_recorded"
+  | "match_confirmed"
+  | "match_disputed"
+  | "tournament_started"
+  | "team_invite"
+  | "team_joined"
+  | "team_entered";
+
+export type NotificationItem = {
+  id: string;
+  type: NotificationType;
+  actor: UserSummary | null;
+  data: {
+    eventId?: string;
+    eventTitle?: string;
+    startsAt?: string;
+    channelId?: string;
+    postId?: string;
+    commentId?: string;
+    emoji?: string;
+    preview?: string;
+    count?: number;
+    matchId?: string;
+    sport?: string;
+    tournamentId?: string;
+    name?: string;
+    teamId?: string;
+    teamName?: string;
+  };
+  read: boolean;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type LiveLocation = {
+  userId: string;
+  username: string;
+  lat: number;
+  lng: number;
+  accuracy: number | null;
+  heading: number | null;
+  speed: number | null;
+  updatedAt: string;
+  isMe: boolean;
+  mode?: "precise" | "coarse";
+  arrived?: boolean;
+  sharingUntil?: string;
+};
+
+export type SharingWindow = { opensAt: string; closesAt: string };
+
+// Group chat channel of an event the user takes part in.
+export type MatchPlayer = { id: string; username: string };
+
+export type MatchResult = {
+  id: string;
+  sport: string;
+  format: "singles" | "doubles";
+  // Side 0 recorded the result; side 1 confirms or disputes it.
+  teams: [MatchPlayer[], MatchPlayer[]];
+  // Per set, as [side 0, side 1].
+  scores: [number, number][];
+  winner: 0 | 1;
+  eventId: string | null;
+  eventTitle: string | null;
+  status: "pending" | "confirmed" | "disputed";
+  createdBy: MatchPlayer;
+  createdAt: number;
+  confirmedAt: number | null;
+  myTeam: 0 | 1 | null;
+  canConfirm: boolean;
+  canDelete: boolean;
+  ratingChange: { before: number; after: number } | null;
+};
+
+export type EventChat = {
+  eventId: string;
+  channelType: string;
+  channelId: string;
+  title: string;
+  startsAt: string;
+  owner: boolean;
+};
+
+// GET /api/chat/session. `apiKey` is only set for the Stream provider.
+export type ChatSession = {
+  provider: "stream" | "local";
+  token: string;
+  user: { id: string; name: string };
+  apiKey?: string;
+};
+
+export type ChatChannelRef = { type: string; id: string; name?: string | null };
+
+export type ChatMessage = {
+  id: string;
+  channelType: string;
+  channelId: string;
+  userId: string;
+  userName: string;
+  text: string;
+  createdAt: string;
+};
+
+// A channel as listed by the local provider's REST routes.
+export type LocalChatChannel = ChatChannelRef & {
+  memberIds: string[];
+  unread: number;
+  lastMessageAt: string | null;
+};
+
+export function toIdString(id: unknown): string {
+  return typeof id === "string" ? id : String(id ?? "");
+}
+
+export function userIdOf(user: UserSummary | null | undefined): string {
+  return toIdString(user?.id ?? user?._id);
+}
+
+export function displayName(user: UserSummary | null | undefined, fallback = "Unknown"): string {
+  return user?.username ?? user?.fullName ?? user?.email ?? fallback;
+}
+
+// --- Response parsers -------------------------------------------------------
+
+type Json = Record<string, unknown>;
+
+function record(value: unknown, what: string): Json {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error(`${what} is not an object`);
+  }
+  return value as Json;
+}
+
+function list(value: unknown, what: string): unknown[] {
+  if (!Array.isArray(value)) throw new Error(`${what} is not a list`);
+  return value;
+}
+
+function hasString(obj: Json, key: string, what: string) {
+  if (typeof obj[key] !== "string") throw new Error(`${what}.${key} is missing`);
+}
+
+function hasNumber(obj: Json, key: string, what: string) {
+  if (typeof obj[key] !== "number" || !Number.isFinite(obj[key])) {
+    throw new Error(`${what}.${key} is not a number`);
+  }
+}
+
+function field<T>(key: string, item: (value: unknown) => T) {
+  return (body: unknown): T => item(record(body, "response")[key]);
+}
+
+function listField<T>(key: string, item: (value: unknown) => T) {
+  return (body: unknown): T[] => list(record(body, "response")[key], key).map(item);
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === "string" && value ? value : null;
+}
+
+function userSummary(value: unknown): UserSummary {
+  const user = record(value, "user");
+  if (typeof user.id !== "string" && typeof user._id !== "string") throw new Error("user id is missing");
+  return user as UserSummary;
+}
+
+function friendRequest(value: unknown): FriendRequest {
+  const req = record(value, "request");
+  userSummary(req.from);
+  return req as FriendRequest;
+}
+
+function partner(value: unknown): Partner {
+  const p = userSummary(value) as Json;
+  if (p.breakdown !== undefined) record(p.breakdown, "partner.breakdown");
+  return p as Partner;
+}
+
+function eventItem(value: unknown): EventItem {
+  const ev = record(value, "event");
+  hasString(ev, "id", "event");
+  hasString(ev, "title", "event");
+  hasString(ev, "startsAt", "event");
+  hasNumber(ev, "maxParticipants", "event");
+  hasNumber(ev, "participantsCount", "event");
+  return ev as EventItem;
+}
+
+function eventChat(value: unknown): EventChat {
+  const c = record(value, "chat");
+  hasString(c, "eventId", "chat");
+  hasString(c, "channelType", "chat");
+  hasString(c, "channelId", "chat");
+  return { ...c, owner: c.owner === true } as EventChat;
+}
+
+function chatSession(value: unknown): ChatSession {
+  const obj = record(value, "session");
+  hasString(obj, "token", "session");
+  hasString(record(obj.user, "session.user"), "id", "session.user");
+  if (obj.provider !== "stream" && obj.provider !== "local") {
+    throw new Error("session.provider is not a known chat provider");
+  }
+  if (obj.provider === "stream") hasString(obj, "apiKey", "session");
+  return obj as ChatSession;
+}
+
+function chatChannelRef(value: unknown): ChatChannelRef {
+  const c = record(value, "channel");
+  hasString(c, "type", "channel");
+  hasString(c, "id", "channel");
+  return c as ChatChannelRef;
+}
+
+function chatMessage(value: unknown): ChatMessage {
+  const m = record(value, "message");
+  hasString(m, "id", "message");
+  hasString(m, "channelId", "message");
+  hasString(m, "userId", "message");
+  hasString(m, "createdAt", "message");
+  return { ...m, text: typeof m.text === "string" ? m.text : "" } as ChatMessage;
+}
+
+function localChatChannel(value: unknown): LocalChatChannel {
+  const c = chatChannelRef(value) as Json;
+  list(c.memberIds, "channel.memberIds");
+  return { ...c, unread: typeof c.unread === "number" ? c.unread : 0 } as LocalChatChannel;
+}
+
+function sportRating(value: unknown): SportRating {
+  const r = record(value, "rating");
+  hasString(r, "sport", "rating");
+  hasNumber(r, "rating", "rating");
+  return { ...r, provisional: r.provisional === true } as SportRating;
+}
+
+function reliability(value: unknown): Reliability {
+  const r = record(value, "reliability");
+  return {
+    percent: typeof r.percent === "number" ? r.percent : null,
+    attended: typeof r.attended === "number" ? r.attended : 0,
+    missed: typeof r.missed === "number" ? r.missed : 0,
+  };
+}
+
+function eventAttendance(value: unknown): EventAttendance {
+  const a = record(value, "attendance");
+  return {
+    canMark: a.canMark === true,
+    participants: list(a.participants, "attendance.participants").map((item) => {
+      const p = record(item, "attendance.participant");
+      hasString(p, "id", "attendance.participant");
+      return {
+        ...p,
+        status: p.status === "present" || p.status === "absent" ? p.status : null,
+        source: optionalString(p.source),
+        reliability: reliability(p.reliability),
+      } as AttendanceEntry;
+    }),
+  };
+}
+
+function checkInEntry(value: unknown): CheckInEntry {
+  const c = record(value, "checkIn.roster[]");
+  hasString(c, "id", "checkIn.roster[]");
+  hasString(c, "checkedInAt", "checkIn.roster[]");
+  return { ...c, source: c.source === "nearby" ? "nearby" : "qr" } as CheckInEntry;
+}
+
+function eventCheckIn(value: unknown): EventCheckIn {
+  const c = record(value, "checkIn");
+  hasString(c, "code", "checkIn");
+  hasString(c, "opensAt", "checkIn");
+  hasString(c, "closesAt", "checkIn");
+  return {
+    ...c,
+    open: c.open === true,
+    expected: typeof c.expected === "number" ? c.expected : 0,
+    roster: list(c.roster, "checkIn.roster").map(checkInEntry),
+  } as EventCheckIn;
+}
+
+function checkInResult(value: unknown): CheckInResult {
+  const c = record(value, "checkIn");
+  hasString(c, "eventId", "checkIn");
+  hasString(c, "eventTitle", "checkIn");
+  hasString(c, "checkedInAt", "checkIn");
+  return c as CheckInResult;
+}
+
+function tournament(value: unknown): Tournament {
+  const t = record(value, "tournament");
+  hasString(t, "id", "tournament");
+  hasString(t, "eventId", "tournament");
+  hasString(t, "format", "tournament");
+  hasString(t, "status", "tournament");
+  list(t.entrants, "tournament.entrants");
+  list(t.matches, "tournament.matches").forEach((m) => {
+    const match = record(m, "tournament.matches[]");
+    hasString(match, "id", "tournament.matches[]");
+    if (list(match.slots, "tournament.matches[].slots").length !== 2) throw new Error("match.slots is not a pair");
+  });
+  return {
+    ...t,
+    standings: t.standings === undefined ? [] : list(t.standings, "tournament.standings"),
+    winner: t.winner ?? null,
+  } as Tournament;
+}
+
+function team(value: unknown): Team {
+  const t = record(value, "team");
+  hasString(t, "id", "team");
+  hasString(t, "name", "team");
+  hasString(t, "sport", "team");
+  list(t.members, "team.members");
+  return {
+    ...t,
+    rating: typeof t.rating === "number" ? t.rating : null,
+    invites: list(t.invites ?? [], "team.invites"),
+  } as Team;
+}
+
+function teamOpponent(value: unknown): TeamOpponent {
+  const t = record(value, "opponent");
+  hasNumber(t, "score", "opponent");
+  record(t.breakdown, "opponent.breakdown");
+  return { ...team(t), score: t.score, breakdown: t.breakdown } as TeamOpponent;
+}
+
+function matchResult(value: unknown): MatchResult {
+  const m = record(value, "match");
+  hasString(m, "id", "match");
+  hasString(m, "sport", "match");
+  const teams = list(m.teams, "match.teams");
+  if (teams.length !== 2) throw new Error("match.teams is not a pair");
+  teams.forEach((t) => list(t, "match.teams[]"));
+  list(m.scores, "match.scores");
+  return { ...m, eventId: optionalString(m.eventId), eventTitle: optionalString(m.eventTitle) } as MatchResult;
+}
+
+function eventSeries(value: unknown): EventSeries {
+  const s = record(value, "series");
+  hasString(s, "id", "series");
+  hasString(s, "frequency", "series");
+  list(s.weekdays, "series.weekdays");
+  return s as EventSeries;
+}
+
+function postReactions(value: unknown): PostReactions {
+  const obj = record(value, "reactions");
+  return {
+    reactions: obj.reactions === undefined ? [] : list(obj.reactions, "reactions").map(reactionCount),
+    myReaction: optionalString(obj.myReaction),
+  };
+}
+
+function reactionCount(value: unknown): ReactionCount {
+  const r = record(value, "reaction");
+  hasString(r, "emoji", "reaction");
+  hasNumber(r, "count", "reaction");
+  return r as ReactionCount;
+}
+
+function feedMedia(value: unknown): FeedMedia {
+  const m = record(value, "media");
+  hasString(m, "url", "media");
+  return { type: m.type === "video" ? "video" : "image", url: m.url as string };
+}
+
+function feedPost(value: unknown): FeedPost {
+  const post = record(value, "post");
+  hasString(post, "id", "post");
+  hasString(post, "createdAt", "post");
+  record(post.author, "post.author");
+  return {
+    ...post,
+    media: post.media === undefined || post.media === null ? [] : list(post.media, "post.media").map(feedMedia),
+    ...postReactions(post),
+    editedAt: optionalString(post.editedAt),
+    commentCount: typeof post.commentCount === "number" ? post.commentCount : 0,
+  } as FeedPost;
+}
+
+function postEdit(value: unknown): PostEdit {
+  const e = record(value, "edit");
+  hasString(e, "text", "edit");
+  hasString(e, "until", "edit");
+  return e as PostEdit;
+}
+
+function moderationItem(value: unknown): ModerationItem {
+  const item = record(value, "item");
+  return {
+    post: feedPost(item.post),
+    hidden: item.hidden === true,
+    reports: list(item.reports, "item.reports").map((r) => {
+      const report = record(r, "report");
+      hasString(report, "id", "report");
+      hasString(report, "reason", "report");
+      return report as ModerationReport;
+    }),
+  };
+}
+
+function reactor(value: unknown): Reactor {
+  const r = record(value, "reaction");
+  hasString(r, "emoji", "reaction");
+  hasString(record(r.user, "reaction.user"), "id", "reaction.user");
+  return r as Reactor;
+}
+
+function feedComment(value: unknown): FeedComment {
+  const c = record(value, "comment");
+  hasString(c, "id", "comment");
+  hasString(c, "text", "comment");
+  hasString(c, "createdAt", "comment");
+  record(c.author, "comment.author");
+  return { ...c, parentId: optionalString(c.parentId) } as FeedComment;
+}
+
+function notificationItem(value: unknown): NotificationItem {
+  const n = record(value, "notification");
+  hasString(n, "id", "notification");
+  hasString(n, "type", "notification");
+  return { ...n, data: n.data && typeof n.data === "object" ? n.data : {} } as NotificationItem;
+}
+
+function liveLocation(value: unknown): LiveLocation {
+  const l = record(value, "location");
+  hasString(l, "userId", "location");
+  hasNumber(l, "lat", "location");
+  hasNumber(l, "lng", "location");
+  return l as LiveLocation;
+}
+
+function sharingWindow(value: unknown): SharingWindow {
+  const w = record(value, "window");
+  hasString(w, "opensAt", "window");
+  hasString(w, "closesAt", "window");
+  return w as SharingWindow;
+}
+
+function geoResult(value: unknown): GeoResult {
+  const g = record(value, "result");
+  hasString(g, "displayName", "result");
+  hasNumber(g, "lat", "result");
+  hasNumber(g, "lng", "result");
+  return g as GeoResult;
+}
+
+function court(value: unknown): Court {
+  const c = record(value, "court");
+  hasString(c, "id", "court");
+  hasString(c, "name", "court");
+  return c as Court;
+}
+
+function courtBooking(value: unknown): CourtBooking {
+  const b = record(value, "booking");
+  hasString(b, "id", "booking");
+  hasString(b, "courtId", "booking");
+  hasString(b, "date", "booking");
+  hasString(b, "startTime", "booking");
+  return b as CourtBooking;
+}
+
+function courtSlot(value: unknown): CourtSlot {
+  const slot = record(value, "slot");
+  hasString(slot, "startTime", "slot");
+  hasString(slot, "endTime", "slot");
+  return slot as CourtSlot;
+}
+
+function optional<T>(item: (value: unknown) => T) {
+  return (value: unknown): T | null => (value === undefined || value === null ? null : item(value));
+}
+
+function unreadCount(body: unknown): number {
+  const n = record(body, "response").unreadCount;
+  return typeof n === "number" && Number.isFinite(n) ? n : 0;
+}
+
+export const parse = {
+  user: field("user", userSummary),
+  authResult: (body: unknown) => {
+    const obj = record(body, "response");
+    return {
+      message: typeof obj.message === "string" ? obj.message : null,
+      token: typeof obj.token === "string" ? obj.token : null,
+    };
+  },
+  friends: listField("friends", userSummary),
+  friendRequests: listField("requests", friendRequest),
+  suggestions: listField("suggestions", userSummary),
+  partners: listField("partners", partner),
+  events: listField("events", eventItem),
+  event: field("event", eventItem),
+  eventChat: field("chat", eventChat),
+  eventChats: listField("chats", eventChat),
+  matches: listField("matches", matchResult),
+  match: field("match", matchResult),
+  ratings: listField("ratings", sportRating),
+  reliability: field("reliability", reliability),
+  attendance: field("attendance", eventAttendance),
+  eventCheckIn: field("checkIn", eventCheckIn),
+  checkInResult: field("checkIn", checkInResult),
+  tournament: field("tournament", tournament),
+  team: field("team", team),
+  teams: (body: unknown) => {
+    const obj = record(body, "response");
+    return {
+      teams: list(obj.teams, "teams").map(team),
+      invitations: list(obj.invitations, "invitations").map(team),
+    };
+  },
+  opponents: listField("opponents", teamOpponent),
+  series: (body: unknown) => {
+    const obj = record(body, "response");
+    return {
+      series: eventSeries(obj.series),
+      occurrences: obj.occurrences === undefined ? [] : list(obj.occurrences, "occurrences").map(eventItem),
+    };
+  },
+  calendarUrl: (body: unknown) => {
+    const obj = record(body, "response");
+    hasString(obj, "url", "response");
+    return obj.url as string;
+  },
+  feed: (body: unknown): FeedPage => {
+    const obj = record(body, "response");
+    return {
+      posts: list(obj.posts, "posts").map(feedPost),
+      nextCursor: optionalString(obj.nextCursor),
+      newestCursor: optionalString(obj.newestCursor),
+    };
+  },
+  post: field("post", feedPost),
+  upload: field("upload", (value: unknown): FeedUpload => {
+    const u = record(value, "upload");
+    hasString(u, "id", "upload");
+    return { ...feedMedia(u), id: u.id as string };
+  }),
+  postHistory: listField("edits", postEdit),
+  moderationQueue: listField("queue", moderationItem),
+  postReactions,
+  reactors: listField("reactions", reactor),
+  comments: listField("comments", feedComment),
+  comment: field("comment", feedComment),
+  newPostsCount: (body: unknown) => {
+    const n = record(body, "response").count;
+    return typeof n === "number" && Number.isFinite(n) ? n : 0;
+  },
+  notifications: (body: unknown) => ({
+    notifications: listField("notifications", notificationItem)(body),
+    unreadCount: unreadCount(body),
+  }),
+  unreadCount,
+  liveLocations: (body: unknown) => {
+    const obj = record(body, "response");
+    return {
+      locations: list(obj.locations, "locations").map(liveLocation),
+      window: optional(sharingWindow)(obj.window),
+    };
+  },
+  liveLocation: (body: unknown) => {
+    const obj = record(body, "response");
+    return { window: optional(sharingWindow)(obj.window), checkedIn: obj.checkedIn === true };
+  },
+  locationDelta: (body: unknown) => {
+    const obj = record(body, "delta");
+    return {
+      upserts: obj.upserts === undefined ? [] : list(obj.upserts, "upserts").map(liveLocation),
+      removed: obj.removed === undefined ? [] : list(obj.removed, "removed").map(toIdString),
+    };
+  },
+  geoResults: listField("results", geoResult),
+  reverseGeocode: (body: unknown) => {
+    const name = record(body, "response").displayName;
+    return typeof name === "string" && name.trim() ? name : null;
+  },
+  courts: listField("courts", court),
+  bookings: listField("bookings", courtBooking),
+  slots: listField("slots", courtSlot),
+  chatSession,
+  chatChannel: field("channel", chatChannelRef),
+  chatMessage: field("message", chatMessage),
+  chatMessages: listField("messages", chatMessage),
+  chatChannels: listField("channels", localChatChannel),
+  chatUnread: (body: unknown) => {
+    const n = record(body, "response").total;
+    return typeof n === "number" && Number.isFinite(n) ? n : 0;
+  },
+  chatPresence: (body: unknown) => list(record(body, "response").online, "online").map(toIdString),
+};
@@ -0,0 +1,35 @@
+// Routes that need a signed-in user. src/proxy.ts checks the session before
+// these render and AuthProvider sends signed-out visitors to login from the
+// client side as well.
+export const PROTECTED_PREFIXES = [
+  "/feed",
+  "/events",
+  "/teams",
+  "/find-partner",
+  "/dashboard",
+  "/chat",
+  "/notifications",
+  "/profile",
+  "/book",
+  "/moderation",
+] as const;
+
+export const RETURN_TO_PARAM = "returnTo";
+
+export function isProtectedPath(pathname: string): boolean {
+  return PROTECTED_PREFIXES.some((prefix) => pathname === prefix || pathname.startsWith(`${prefix}/`));
+}
+
+// Only same-origin paths are followed after login; anything else (absolute
+// URLs, protocol-relative "//host", auth pages) falls back to the default.
+export function safeReturnTo(value: string | null | undefined): string | null {
+  if (!value || !value.startsWith("/")) return null;
+  if (value.startsWith("//") || value.startsWith("/\\")) return null;
+  if (value === "/auth" || value.startsWith("/auth/")) return null;
+  return value;
+}
+
+export function loginUrl(returnTo?: string | null): string {
+  const target = safeReturnTo(returnTo);
+  return target ? `/auth/login?${RETURN_TO_PARAM}=${encodeURIComponent(target)}` : "/auth/login";
+}
@@ -34,3 +34,22 @@ export function authHeader(): Record<string, string> {
   return token ? { Authorization: `Bearer ${token}` } : {};
 }
 
+// First-party cookie read by the route guard in src/proxy.ts. It carries the
+// bearer token when the backend issued one, or "1" as a signed-in hint when the
+// session lives only in the backend's own cookie (which the guard cannot see
+// if the backend runs on another host).
+export const SESSION_COOKIE = "bp_session";
+export const SESSION_HINT = "1";
+const SESSION_COOKIE_MAX_AGE_S = 7 * 24 * 60 * 60;
+
+export function markSession(): void {
+  if (typeof document === "undefined") return;
+  const value = encodeURIComponent(getAuthToken() ?? SESSION_HINT);
+  const secure = window.location.protocol === "https:" ? "; Secure" : "";
+  document.cookie = `${SESSION_COOKIE}=${value}; Path=/; Max-Age=${SESSION_COOKIE_MAX_AGE_S}; SameSite=Lax${secure}`;
+}
+
+export function clearSession(): void {
+  if (typeof document === "undefined") return;
+  document.cookie = `${SESSION_COOKIE}=; Path=/; Max-Age=0; SameSite=Lax`;
+}
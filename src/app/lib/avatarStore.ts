@@ -1,6 +1,14 @@
 import { createHash } from "crypto";
 import { mkdir, readFile, unlink, writeFile } from "fs/promises";
 import path from "path";
+import sharp from "sharp";
+
+export type AvatarVariant = {
+  filename: string;
+  px: number;
+  bytes?: number;
+  url?: string;
+};
 
 export type AvatarMeta = {
   contentType: string;
@@ -8,9 +16,17 @@ export type AvatarMeta = {
   size: number;
   updatedAt: number;
   url?: string;
+  // Square renditions keyed by edge length in px. Avatars uploaded before the
+  // processing pipeline existed have no variants and are served as-is.
+  variants?: Record<string, AvatarVariant>;
 };
 
+export const AVATAR_SIZES = [32, 64, 128, 256, 512] as const;
+
 const MAX_BYTES = 5 * 1024 * 1024;
+const MIN_EDGE_PX = 16;
+const MAX_INPUT_PIXELS = 40_000_000;
+const VARIANT_CONTENT_TYPE = "image/webp";
 
 function hashUserId(userId: string) {
   return createHash("sha256").update(userId).digest("hex");
@@ -37,23 +53,6 @@ function filePath(filename: string) {
   return path.join(baseDir(), filename);
 }
 
-function extForContentType(contentType: string) {
-  switch (contentType) {
-    case "image/jpeg":
-      return ".jpg";
-    case "image/png":
-      return ".png";
-    case "image/webp":
-      return ".webp";
-    case "image/gif":
-      return ".gif";
-    case "image/avif":
-      return ".avif";
-    default:
-      return null;
-  }
-}
-
 function contentTypeFromExt(ext: string): string {
   switch (ext.toLowerCase()) {
     case ".jpg":
@@ -72,6 +71,67 @@ function contentTypeFromExt(ext: string): string {
   }
 }
 
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0) {
+  if (bytes.length < offset + signature.length) return false;
+  return signature.every((b, i) => bytes[offset + i] === b);
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number) {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+// Identify the image format from its leading bytes instead of trusting the
+// client-supplied MIME type.
+export function sniffImageType(bytes: Uint8Array): string | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a") return "image/gif";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") return "image/webp";
+  if (ascii(bytes, 4, 8) === "ftyp") {
+    const brand = ascii(bytes, 8, 12);
+    if (brand === "avif" || brand === "avis") return "image/avif";
+  }
+  return null;
+}
+
+// Decode, apply EXIF orientation, center-crop to a square and re-encode each
+// size. sharp drops EXIF/XMP/ICC metadata unless asked to keep it, so GPS tags
+// from phone cameras never reach storage.
+async function renderVariants(bytes: Buffer): Promise<Array<{ size: number; data: Buffer }>> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(bytes, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+  } catch {
+    throw new Error("Could not read image");
+  }
+  const width = metadata.width ?? 0;
+  const height = metadata.height ?? 0;
+  if (Math.min(width, height) < MIN_EDGE_PX) throw new Error("Image is too small");
+
+  const oriented = await sharp(bytes, { limitInputPixels: MAX_INPUT_PIXELS, failOn: "error" })
+    .rotate()
+    .toBuffer();
+
+  return Promise.all(
+    AVATAR_SIZES.map(async (size) => ({
+      size,
+      data: await sharp(oriented)
+        .resize(size, size, { fit: "cover", position: "centre" })
+        .webp({ quality: 82 })
+        .toBuffer(),
+    }))
+  );
+}
+
+export function pickAvatarVariant(meta: AvatarMeta, requested?: number | null): AvatarVariant {
+  const variants = Object.values(meta.variants ?? {}).sort((a, b) => a.px - b.px);
+  if (variants.length === 0) {
+    return { filename: meta.filename, px: 0, bytes: meta.size, url: meta.url };
+  }
+  if (!requested || !Number.isFinite(requested)) return variants[variants.length - 1];
+  return variants.find((v) => v.px >= requested) ?? variants[variants.length - 1];
+}
+
 type ListedBlob = {
   url: string;
   pathname: string;
@@ -80,11 +140,15 @@ type ListedBlob = {
   contentType?: string;
 };
 
-function updatedAtFromBlobPathname(pathname: string): number | null {
+// Blob pathnames are `avatars/<hash>/<updatedAt>-<size>.webp`; older uploads
+// were stored as a single `avatars/<hash>/<updatedAt>.<ext>`.
+function parseBlobPathname(pathname: string): { updatedAt: number; size: number | null } | null {
   const base = pathname.split("/").pop() ?? "";
-  const ts = base.split(".")[0] ?? "";
-  const n = Number(ts);
-  return Number.isFinite(n) && n > 0 ? n : null;
+  const m = /^(\d+)(?:-(\d+))?\.[a-z0-9]+$/i.exec(base);
+  if (!m) return null;
+  const updatedAt = Number(m[1]);
+  if (!Number.isFinite(updatedAt) || updatedAt <= 0) return null;
+  return { updatedAt, size: m[2] ? Number(m[2]) : null };
 }
 
 export async function readAvatarMeta(userId: string): Promise<AvatarMeta | null> {
@@ -92,27 +156,43 @@ export async function readAvatarMeta(userId: string): Promise<AvatarMeta | null>
     try {
       const { list } = await import("@vercel/blob");
       const prefix = `avatars/${hashUserId(userId)}/`;
-      const res = (await list({ prefix, limit: 50 })) as unknown as { blobs?: ListedBlob[] };
+      const res = (await list({ prefix, limit: 100 })) as unknown as { blobs?: ListedBlob[] };
       const blobs = Array.isArray(res?.blobs) ? res.blobs : [];
       if (blobs.length === 0) return null;
 
-      const sorted = blobs
-        .map((b) => ({ blob: b, updatedAt: updatedAtFromBlobPathname(b.pathname) ?? 0 }))
-        .sort((a, b) => b.updatedAt - a.updatedAt);
-
-      const winner = sorted[0]?.blob;
-      const updatedAt = sorted[0]?.updatedAt ?? 0;
-      if (!winner?.url || !winner?.pathname || !updatedAt) return null;
-
-      const ext = path.extname(winner.pathname);
-      const contentType = winner.contentType ?? contentTypeFromExt(ext);
+      const parsed = blobs
+        .map((b) => ({ blob: b, info: parseBlobPathname(b.pathname) }))
+        .filter((x): x is { blob: ListedBlob; info: NonNullable<typeof x.info> } =>
+          Boolean(x.info && x.blob.url)
+        );
+      const updatedAt = Math.max(0, ...parsed.map((x) => x.info.updatedAt));
+      const current = parsed.filter((x) => x.info.updatedAt === updatedAt);
+      if (!updatedAt || current.length === 0) return null;
+
+      const variants: Record<string, AvatarVariant> = {};
+      for (const { blob, info } of current) {
+        if (info.size) {
+          variants[String(info.size)] = {
+            filename: blob.pathname,
+            px: info.size,
+            bytes: blob.size,
+            url: blob.url,
+          };
+        }
+      }
+
+      const largest = current
+        .slice()
+        .sort((a, b) => (b.info.size ?? Infinity) - (a.info.size ?? Infinity))[0].blob;
+      const ext = path.extname(largest.pathname);
 
       return {
-        contentType,
-        filename: winner.pathname,
-        size: typeof winner.size === "number" ? winner.size : 0,
+        contentType: largest.contentType ?? contentTypeFromExt(ext),
+        filename: largest.pathname,
+        size: typeof largest.size === "number" ? largest.size : 0,
         updatedAt,
-        url: winner.url,
+        url: largest.url,
+        ...(Object.keys(variants).length ? { variants } : {}),
       };
     } catch {
       // fall through to filesystem
@@ -129,64 +209,79 @@ export async function readAvatarMeta(userId: string): Promise<AvatarMeta | null>
   }
 }
 
-export function avatarPathname(userId: string, updatedAt?: number) {
+export function avatarPathname(userId: string, updatedAt?: number, size?: number) {
   const pathname = `/api/avatar/${encodeURIComponent(userId)}`;
-  return updatedAt ? `${pathname}?v=${updatedAt}` : pathname;
+  const qs = new URLSearchParams();
+  if (size) qs.set("size", String(size));
+  if (updatedAt) qs.set("v", String(updatedAt));
+  const query = qs.toString();
+  return query ? `${pathname}?${query}` : pathname;
+}
+
+export async function readAvatarBytes(variant: AvatarVariant) {
+  return readFile(filePath(variant.filename));
 }
 
-export async function readAvatarBytes(meta: AvatarMeta) {
-  return readFile(filePath(meta.filename));
+export function avatarContentType(meta: AvatarMeta) {
+  return meta.variants && Object.keys(meta.variants).length ? VARIANT_CONTENT_TYPE : meta.contentType;
 }
 
 export async function saveAvatar(userId: string, file: File): Promise<AvatarMeta> {
   if (!userId) throw new Error("Missing user id");
   if (!(file instanceof File)) throw new Error("Missing file");
-  if (!file.type?.startsWith("image/")) throw new Error("File must be an image");
   if (file.size > MAX_BYTES) throw new Error("Image is too large (max 5MB)");
 
-  const ext = extForContentType(file.type);
-  if (!ext) throw new Error("Unsupported image type");
+  const bytes = Buffer.from(await file.arrayBuffer());
+  if (!sniffImageType(bytes)) throw new Error("Unsupported image type");
+
+  const rendered = await renderVariants(bytes);
+  const largest = rendered[rendered.length - 1];
+  const updatedAt = Date.now();
+  const hashed = hashUserId(userId);
 
   if (blobStorageEnabled()) {
     const { put, list, del } = await import("@vercel/blob");
-    const updatedAt = Date.now();
-    const hashed = hashUserId(userId);
-    const pathname = `avatars/${hashed}/${updatedAt}${ext}`;
 
-    const bytes = await file.arrayBuffer();
-    const uploaded = await put(pathname, Buffer.from(bytes), {
-      access: "public",
-      contentType: file.type,
-      addRandomSuffix: false,
-    });
+    const variants: Record<string, AvatarVariant> = {};
+    await Promise.all(
+      rendered.map(async ({ size, data }) => {
+        const pathname = `avatars/${hashed}/${updatedAt}-${size}.webp`;
+        const uploaded = await put(pathname, data, {
+          access: "public",
+          contentType: VARIANT_CONTENT_TYPE,
+          addRandomSuffix: false,
+        });
+        variants[String(size)] = { filename: pathname, px: size, bytes: data.byteLength, url: uploaded.url };
+      })
+    );
 
     try {
       const res = (await list({ prefix: `avatars/${hashed}/`, limit: 100 })) as unknown as {
         blobs?: ListedBlob[];
       };
       const blobs = Array.isArray(res?.blobs) ? res.blobs : [];
-      const keep = new Set(
-        blobs
-          .map((b) => ({ b, t: updatedAtFromBlobPathname(b.pathname) ?? 0 }))
-          .sort((a, b) => b.t - a.t)
+      const keepVersions = new Set(
+        Array.from(new Set(blobs.map((b) => parseBlobPathname(b.pathname)?.updatedAt ?? 0)))
+          .sort((a, b) => b - a)
           .slice(0, 5)
-          .map((x) => x.b.pathname)
       );
       await Promise.all(
         blobs
-          .filter((b) => b.pathname && !keep.has(b.pathname))
+          .filter((b) => b.pathname && !keepVersions.has(parseBlobPathname(b.pathname)?.updatedAt ?? 0))
           .map((b) => del(b.url).catch(() => {}))
       );
     } catch {
       // ignore cleanup errors
     }
 
+    const top = variants[String(largest.size)];
     return {
-      contentType: file.type,
-      filename: pathname,
-      size: file.size,
+      contentType: VARIANT_CONTENT_TYPE,
+      filename: top.filename,
+      size: largest.data.byteLength,
       updatedAt,
-      url: uploaded.url,
+      url: top.url,
+      variants,
     };
   }
 
@@ -195,20 +290,28 @@ export async function saveAvatar(userId: string, file: File): Promise<AvatarMeta
 
   const previous = await readAvatarMeta(userId);
 
-  const filename = `${hashUserId(userId)}${ext}`;
-  const bytes = await file.arrayBuffer();
-  await writeFile(filePath(filename), Buffer.from(bytes));
+  const variants: Record<string, AvatarVariant> = {};
+  for (const { size, data } of rendered) {
+    const filename = `${hashed}-${updatedAt}-${size}.webp`;
+    await writeFile(filePath(filename), data);
+    variants[String(size)] = { filename, px: size, bytes: data.byteLength };
+  }
 
   const meta: AvatarMeta = {
-    contentType: file.type,
-    filename,
-    size: file.size,
-    updatedAt: Date.now(),
+    contentType: VARIANT_CONTENT_TYPE,
+    filename: variants[String(largest.size)].filename,
+    size: largest.data.byteLength,
+    updatedAt,
+    variants,
   };
   await writeFile(metaPath(userId), JSON.stringify(meta), "utf8");
 
-  if (previous?.filename && previous.filename !== filename) {
-    unlink(filePath(previous.filename)).catch(() => {});
+  if (previous) {
+    const keep = new Set(Object.values(variants).map((v) => v.filename));
+    const stale = [previous.filename, ...Object.values(previous.variants ?? {}).map((v) => v.filename)];
+    for (const name of new Set(stale)) {
+      if (name && !keep.has(name)) unlink(filePath(name)).catch(() => {});
+    }
   }
 
   return meta;
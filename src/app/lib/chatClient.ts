@@ -0,0 +1,62 @@
+import { api } from "@/lib/apiClient";
+import { parse, type ChatChannelRef, type ChatMessage } from "@/lib/apiTypes";
+import { createLocalChatClient } from "@/lib/chatLocal";
+import { createStreamChatClient } from "@/lib/chatStream";
+
+// Provider-neutral chat client. The backend decides which provider is in use
+// (Stream or its own local one) and hands out a session for it; pages only
+// talk to this interface.
+
+export type { ChatChannelRef, ChatMessage };
+
+export type ChatEvent =
+  | { type: "message.new"; channel: ChatChannelRef; message: ChatMessage }
+  // The current user read the channel, possibly in another tab.
+  | { type: "channel.read"; channel: ChatChannelRef }
+  // The channel's members changed; `member` says whether the user is still one.
+  | { type: "channel.updated"; channel: ChatChannelRef; member: boolean }
+  | { type: "channel.deleted"; channel: ChatChannelRef }
+  | { type: "presence"; userId: string; online: boolean }
+  // The connection came back after a drop; anything cached may be stale.
+  | { type: "reconnected" };
+
+export interface ChatClient {
+  readonly provider: "stream" | "local";
+  readonly userId: string;
+  // The latest `limit` messages, oldest first; pass `before` to page back.
+  loadMessages(channel: ChatChannelRef, options?: { before?: ChatMessage; limit?: number }): Promise<ChatMessage[]>;
+  sendMessage(channel: ChatChannelRef, text: string): Promise<ChatMessage>;
+  markRead(channel: ChatChannelRef): Promise<void>;
+  // Unread counts keyed by channel id. Channels that don't exist yet count 0.
+  unreadCounts(channels: ChatChannelRef[]): Promise<Record<string, number>>;
+  // Unread messages across every channel the user is in.
+  totalUnread(): Promise<number>;
+  // The subset of `userIds` that is online right now.
+  presence(userIds: string[]): Promise<string[]>;
+  subscribe(listener: (event: ChatEvent) => void): () => void;
+  disconnect(): Promise<void>;
+}
+
+export const DIRECT_CHANNEL_TYPE = "messaging";
+
+// 1:1 channels are keyed by both user ids, matching the backend.
+export function directChannelId(userA: string, userB: string): string {
+  return [userA, userB].sort().join("__");
+}
+
+export function sameChannel(a: ChatChannelRef, b: ChatChannelRef): boolean {
+  return a.type === b.type && a.id === b.id;
+}
+
+// Pages get the shared, already connected client from ChatContext rather
+// than calling this themselves.
+export async function connectChat(options: { signal?: AbortSignal } = {}): Promise<ChatClient> {
+  const session = await api.get("/api/chat/session", parse.chatSession, { signal: options.signal });
+  return session.provider === "stream" ? createStreamChatClient(session) : createLocalChatClient(session);
+}
+
+// Opens (creating if needed) the 1:1 channel with an accepted friend. Fails
+// with a 403 for anyone else.
+export function openDirectChannel(partnerId: string, options: { signal?: AbortSignal } = {}) {
+  return api.post("/api/chat/direct", { userId: partnerId }, parse.chatChannel, { signal: options.signal });
+}
@@ -0,0 +1,155 @@
+import { api } from "@/lib/apiClient";
+import { parse, type ChatSession } from "@/lib/apiTypes";
+import { getBackendBaseUrl } from "@/lib/backendBaseUrl";
+import type { ChatClient, ChatEvent } from "@/lib/chatClient";
+
+// Chat client for the backend's own provider: REST for reads and writes, a
+// WebSocket for new messages, read markers and presence.
+
+const SOCKET_PATH = "/api/chat/socket";
+const SOCKET_RETRY_MIN_MS = 2_000;
+const SOCKET_RETRY_MAX_MS = 60_000;
+
+function channelPath(ref: { type: string; id: string }) {
+  return `/api/chat/channels/${encodeURIComponent(ref.type)}/${encodeURIComponent(ref.id)}`;
+}
+
+function socketUrl(token: string): string {
+  const base = getBackendBaseUrl().replace(/^http/, "ws");
+  return `${base}${SOCKET_PATH}?token=${encodeURIComponent(token)}`;
+}
+
+// Socket payloads are trusted less than REST responses: anything that doesn't
+// parse is dropped.
+function toChatEvent(data: unknown): ChatEvent | null {
+  try {
+    const obj = JSON.parse(String(data)) as { type?: unknown; channel?: unknown; message?: unknown };
+    if (obj.type === "message.new") {
+      return {
+        type: "message.new",
+        channel: parse.chatChannel(obj),
+        message: parse.chatMessage(obj),
+      };
+    }
+    if (obj.type === "channel.read") return { type: "channel.read", channel: parse.chatChannel(obj) };
+    if (obj.type === "channel.updated") {
+      const member = (obj as { member?: unknown }).member;
+      return { type: "channel.updated", channel: parse.chatChannel(obj), member: member !== false };
+    }
+    if (obj.type === "channel.deleted") return { type: "channel.deleted", channel: parse.chatChannel(obj) };
+    if (obj.type === "presence") {
+      const p = obj as { userId?: unknown; online?: unknown };
+      if (typeof p.userId !== "string") return null;
+      return { type: "presence", userId: p.userId, online: p.online === true };
+    }
+  } catch {
+    // ignore malformed messages
+  }
+  return null;
+}
+
+export async function createLocalChatClient(session: ChatSession): Promise<ChatClient> {
+  const userId = session.user.id;
+  const listeners = new Set<(event: ChatEvent) => void>();
+  let token = session.token;
+  let socket: WebSocket | null = null;
+  let retryTimer: number | null = null;
+  let retryDelay = SOCKET_RETRY_MIN_MS;
+  let closed = false;
+  let dropped = false;
+
+  const emit = (event: ChatEvent) => {
+    for (const listener of listeners) listener(event);
+  };
+
+  // Keeps one socket open for the client's lifetime, reconnecting with
+  // backoff. Tokens are short-lived, so a reconnect asks for a fresh one.
+  const open = (fresh: boolean) => {
+    retryTimer = null;
+    if (closed) return;
+    const connect = async () => {
+      if (fresh) token = (await api.get("/api/chat/session", parse.chatSession)).token;
+      if (closed) return;
+      const ws = new WebSocket(socketUrl(token));
+      socket = ws;
+      ws.onopen = () => {
+        retryDelay = SOCKET_RETRY_MIN_MS;
+        if (dropped) emit({ type: "reconnected" });
+        dropped = false;
+      };
+      ws.onmessage = (e) => {
+        const event = toChatEvent(e.data);
+        if (event) emit(event);
+      };
+      ws.onclose = () => {
+        if (socket === ws) socket = null;
+        dropped = true;
+        scheduleReconnect();
+      };
+    };
+    connect().catch(() => scheduleReconnect());
+  };
+
+  const scheduleReconnect = () => {
+    if (closed || retryTimer != null) return;
+    retryTimer = window.setTimeout(() => open(true), retryDelay);
+    retryDelay = Math.min(retryDelay * 2, SOCKET_RETRY_MAX_MS);
+  };
+
+  open(false);
+
+  return {
+    provider: "local",
+    userId,
+
+    loadMessages(ref, { before, limit = 50 } = {}) {
+      return api.get(`${channelPath(ref)}/messages`, parse.chatMessages, {
+        query: { before: before?.createdAt, limit },
+      });
+    },
+
+    sendMessage(ref, text) {
+      return api.post(`${channelPath(ref)}/messages`, { text }, parse.chatMessage);
+    },
+
+    async markRead(ref) {
+      await api.post(`${channelPath(ref)}/read`);
+    },
+
+    async unreadCounts(refs) {
+      const counts: Record<string, number> = Object.fromEntries(refs.map((r) => [r.id, 0]));
+      if (refs.length === 0) return counts;
+      const channels = await api.get("/api/chat/channels", parse.chatChannels, {
+        query: { ids: refs.map((r) => r.id).join(",") },
+      });
+      for (const channel of channels) {
+        if (channel.id in counts) counts[channel.id] = channel.unread;
+      }
+      return counts;
+    },
+
+    totalUnread() {
+      return api.get("/api/chat/unread", parse.chatUnread);
+    },
+
+    presence(userIds) {
+      if (userIds.length === 0) return Promise.resolve([]);
+      return api.get("/api/chat/presence", parse.chatPresence, { query: { ids: userIds.join(",") } });
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    async disconnect() {
+      closed = true;
+      listeners.clear();
+      if (retryTimer != null) window.clearTimeout(retryTimer);
+      socket?.close();
+      socket = null;
+    },
+  };
+}
@@ -0,0 +1,148 @@
+import { StreamChat, type Channel, type Event, type MessageResponse } from "stream-chat";
+import type { ChatChannelRef, ChatMessage, ChatSession } from "@/lib/apiTypes";
+import type { ChatClient, ChatEvent } from "@/lib/chatClient";
+
+// Chat client on top of Stream. The backend creates users and channels; the
+// browser reads and writes messages with Stream directly.
+
+const MAX_QUERY_CHANNELS = 30;
+
+function toChatMessage(channel: ChatChannelRef, message: MessageResponse): ChatMessage {
+  const user = message.user;
+  return {
+    id: message.id,
+    channelType: channel.type,
+    channelId: channel.id,
+    userId: user?.id ?? "",
+    userName: user?.name ?? user?.id ?? "Player",
+    text: message.text ?? "",
+    createdAt: new Date(message.created_at ?? Date.now()).toISOString(),
+  };
+}
+
+function eventChannel(event: Event): ChatChannelRef | null {
+  if (!event.channel_type || !event.channel_id) return null;
+  return { type: event.channel_type, id: event.channel_id };
+}
+
+export async function createStreamChatClient(session: ChatSession): Promise<ChatClient> {
+  const client = StreamChat.getInstance(session.apiKey ?? "");
+  // Only the id: the backend keeps the name current and the avatar upload
+  // sets the image, so sending either here could overwrite the other.
+  await client.connectUser({ id: session.user.id }, session.token);
+  const userId = session.user.id;
+  const listeners = new Set<(event: ChatEvent) => void>();
+  const watched = new Map<string, Promise<Channel>>();
+
+  const emit = (event: ChatEvent) => {
+    for (const listener of listeners) listener(event);
+  };
+
+  const subscription = client.on((event: Event) => {
+    if (event.type === "message.new" || event.type === "notification.message_new") {
+      const channel = eventChannel(event);
+      // Watched channels get both events for the same message.
+      if (event.type === "notification.message_new" && channel && watched.has(`${channel.type}:${channel.id}`)) return;
+      if (channel && event.message) emit({ type: "message.new", channel, message: toChatMessage(channel, event.message) });
+    } else if (event.type === "message.read" || event.type === "notification.mark_read") {
+      const channel = eventChannel(event);
+      if (channel && event.user?.id === userId) emit({ type: "channel.read", channel });
+    } else if (event.type === "channel.deleted" || event.type === "notification.channel_deleted") {
+      const channel = eventChannel(event);
+      if (!channel) return;
+      const key = `${channel.type}:${channel.id}`;
+      // Same as above: watched channels hear about it twice.
+      if (event.type === "notification.channel_deleted" && watched.has(key)) return;
+      watched.delete(key);
+      emit({ type: "channel.deleted", channel });
+    } else if (event.type === "notification.added_to_channel" || event.type === "notification.removed_from_channel") {
+      const channel = eventChannel(event);
+      const member = event.type === "notification.added_to_channel";
+      if (channel && !member) watched.delete(`${channel.type}:${channel.id}`);
+      if (channel) emit({ type: "channel.updated", channel, member });
+    } else if (event.type === "connection.recovered") {
+      emit({ type: "reconnected" });
+    } else if (event.type === "user.presence.changed" && event.user) {
+      emit({ type: "presence", userId: event.user.id, online: event.user.online === true });
+    }
+  });
+
+  // Watching subscribes to the channel's events and loads its read state,
+  // which markRead and countUnread depend on.
+  const watch = (ref: ChatChannelRef) => {
+    const key = `${ref.type}:${ref.id}`;
+    let pending = watched.get(key);
+    if (!pending) {
+      const channel = client.channel(ref.type, ref.id);
+      pending = channel.watch({ messages: { limit: 0 } }).then(() => channel);
+      pending.catch(() => watched.delete(key));
+      watched.set(key, pending);
+    }
+    return pending;
+  };
+
+  return {
+    provider: "stream",
+    userId,
+
+    async loadMessages(ref, { before, limit = 50 } = {}) {
+      const channel = await watch(ref);
+      const res = await channel.query({
+        messages: { limit, ...(before ? { id_lt: before.id } : {}) },
+      });
+      return res.messages.map((m) => toChatMessage(ref, m));
+    },
+
+    async sendMessage(ref, text) {
+      const channel = await watch(ref);
+      const res = await channel.sendMessage({ text });
+      return toChatMessage(ref, res.message);
+    },
+
+    async markRead(ref) {
+      const channel = await watch(ref);
+      await channel.markRead();
+    },
+
+    async unreadCounts(refs) {
+      const counts: Record<string, number> = Object.fromEntries(refs.map((r) => [r.id, 0]));
+      for (let i = 0; i < refs.length; i += MAX_QUERY_CHANNELS) {
+        const batch = refs.slice(i, i + MAX_QUERY_CHANNELS);
+        const channels = await client.queryChannels(
+          { cid: { $in: batch.map((r) => `${r.type}:${r.id}`) } },
+          { last_message_at: -1 },
+          { watch: false, state: true, presence: false, limit: batch.length }
+        );
+        for (const channel of channels) {
+          if (channel.id) counts[channel.id] = channel.countUnread();
+        }
+      }
+      return counts;
+    },
+
+    async totalUnread() {
+      const res = await client.getUnreadCount();
+      return res.total_unread_count;
+    },
+
+    async presence(userIds) {
+      if (userIds.length === 0) return [];
+      const { users } = await client.queryUsers({ id: { $in: userIds } }, {}, { presence: true });
+      return users.filter((u) => u.online).map((u) => u.id);
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    async disconnect() {
+      listeners.clear();
+      watched.clear();
+      subscription.unsubscribe();
+      if (client.userID) await client.disconnectUser();
+    },
+  };
+}
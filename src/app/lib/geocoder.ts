@@ -0,0 +1,356 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+export type GeoResult = { displayName: string; lat: number; lng: number };
+
+export type GeocoderProvider = {
+  name: string;
+  // Remote providers share the global request throttle; local ones skip it.
+  remote: boolean;
+  search(q: string, limit: number): Promise<GeoResult[]>;
+  reverse(lat: number, lng: number): Promise<string | null>;
+};
+
+export class GeocoderError extends Error {
+  status: number;
+
+  constructor(message: string, status = 502) {
+    super(message);
+    this.name = "GeocoderError";
+    this.status = status;
+  }
+}
+
+type CacheEntry = { value: unknown; storedAt: number };
+
+const SEARCH_LIMIT = 6;
+const MAX_CACHE_ENTRIES = 5000;
+// ~11m at the equator; close enough that the same street resolves to one key.
+const REVERSE_PRECISION = 4;
+
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw == null || raw.trim() === "") return fallback;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+function userAgent() {
+  return process.env.GEOCODER_USER_AGENT?.trim() || "sport-partner-finder/1.0 (local-dev)";
+}
+
+function providerBaseUrl(fallback: string) {
+  return (process.env.GEOCODER_URL?.trim() || fallback).replace(/\/+$/, "");
+}
+
+async function fetchJson(url: URL): Promise<unknown> {
+  const res = await fetch(url.toString(), {
+    headers: { "User-Agent": userAgent(), Accept: "application/json" },
+    cache: "no-store",
+  });
+  if (!res.ok) throw new GeocoderError(`Geocoding provider error (${res.status})`);
+  return res.json();
+}
+
+function nominatimProvider(): GeocoderProvider {
+  const base = providerBaseUrl("https://nominatim.openstreetmap.org");
+  return {
+    name: "nominatim",
+    remote: true,
+    async search(q, limit) {
+      const url = new URL(`${base}/search`);
+      url.searchParams.set("q", q);
+      url.searchParams.set("format", "json");
+      url.searchParams.set("addressdetails", "0");
+      url.searchParams.set("limit", String(limit));
+
+      const raw = await fetchJson(url);
+      const items = Array.isArray(raw)
+        ? (raw as Array<{ display_name?: string; lat?: string; lon?: string }>)
+        : [];
+      return items
+        .map((it) => {
+          const displayName = typeof it.display_name === "string" ? it.display_name : "";
+          const lat = typeof it.lat === "string" ? Number(it.lat) : NaN;
+          const lng = typeof it.lon === "string" ? Number(it.lon) : NaN;
+          if (!displayName || !Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+          return { displayName, lat, lng };
+        })
+        .filter((r): r is GeoResult => r !== null);
+    },
+    async reverse(lat, lng) {
+      const url = new URL(`${base}/reverse`);
+      url.searchParams.set("lat", String(lat));
+      url.searchParams.set("lon", String(lng));
+      url.searchParams.set("format", "jsonv2");
+      url.searchParams.set("zoom", "14");
+
+      const raw = await fetchJson(url);
+      const displayName =
+        raw && typeof raw === "object" && "display_name" in raw
+          ? (raw as { display_name?: unknown }).display_name
+          : undefined;
+      return typeof displayName === "string" ? displayName : null;
+    },
+  };
+}
+
+type PhotonFeature = {
+  geometry?: { coordinates?: unknown };
+  properties?: Record<string, unknown>;
+};
+
+function photonDisplayName(props: Record<string, unknown> | undefined): string {
+  if (!props) return "";
+  const street =
+    typeof props.street === "string"
+      ? [props.street, props.housenumber].filter((p) => typeof p === "string").join(" ")
+      : "";
+  const parts = [props.name, street, props.city, props.state, props.country]
+    .map((p) => (typeof p === "string" ? p.trim() : ""))
+    .filter(Boolean);
+  return Array.from(new Set(parts)).join(", ");
+}
+
+function photonResults(raw: unknown): GeoResult[] {
+  const features =
+    raw && typeof raw === "object" && Array.isArray((raw as { features?: unknown }).features)
+      ? ((raw as { features: PhotonFeature[] }).features)
+      : [];
+  return features
+    .map((f) => {
+      const coords = Array.isArray(f.geometry?.coordinates) ? f.geometry.coordinates : [];
+      const lng = Number(coords[0]);
+      const lat = Number(coords[1]);
+      const displayName = photonDisplayName(f.properties);
+      if (!displayName || !Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+      return { displayName, lat, lng };
+    })
+    .filter((r): r is GeoResult => r !== null);
+}
+
+function photonProvider(): GeocoderProvider {
+  const base = providerBaseUrl("https://photon.komoot.io");
+  return {
+    name: "photon",
+    remote: true,
+    async search(q, limit) {
+      const url = new URL(`${base}/api`);
+      url.searchParams.set("q", q);
+      url.searchParams.set("limit", String(limit));
+      return photonResults(await fetchJson(url));
+    },
+    async reverse(lat, lng) {
+      const url = new URL(`${base}/reverse`);
+      url.searchParams.set("lat", String(lat));
+      url.searchParams.set("lon", String(lng));
+      return photonResults(await fetchJson(url))[0]?.displayName ?? null;
+    },
+  };
+}
+
+const DEFAULT_FIXTURES: GeoResult[] = [
+  { displayName: "Colombo, Western Province, Sri Lanka", lat: 6.9271, lng: 79.8612 },
+  { displayName: "Kandy, Central Province, Sri Lanka", lat: 7.2906, lng: 80.6337 },
+  { displayName: "Galle, Southern Province, Sri Lanka", lat: 6.0535, lng: 80.221 },
+  { displayName: "London, Greater London, England, United Kingdom", lat: 51.5074, lng: -0.1278 },
+  { displayName: "Berlin, Germany", lat: 52.52, lng: 13.405 },
+  { displayName: "New York, United States", lat: 40.7128, lng: -74.006 },
+];
+
+function distanceKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }) {
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+// Offline provider for tests and local dev. GEOCODER_FIXTURE_FILE may point
+// at a JSON array of { displayName, lat, lng }.
+function fixtureProvider(): GeocoderProvider {
+  let loaded: Promise<GeoResult[]> | null = null;
+  const places = () => {
+    loaded ??= (async () => {
+      const file = process.env.GEOCODER_FIXTURE_FILE?.trim();
+      if (!file) return DEFAULT_FIXTURES;
+      const raw = JSON.parse(await readFile(path.resolve(file), "utf8")) as unknown;
+      return Array.isArray(raw) ? (raw as GeoResult[]) : DEFAULT_FIXTURES;
+    })();
+    return loaded;
+  };
+
+  return {
+    name: "fixture",
+    remote: false,
+    async search(q, limit) {
+      const needle = q.toLowerCase();
+      return (await places())
+        .filter((p) => p.displayName.toLowerCase().includes(needle))
+        .slice(0, limit);
+    },
+    async reverse(lat, lng) {
+      let best: GeoResult | null = null;
+      let bestKm = Infinity;
+      for (const p of await places()) {
+        const km = distanceKm({ lat, lng }, p);
+        if (km < bestKm) {
+          best = p;
+          bestKm = km;
+        }
+      }
+      return best && bestKm <= 25 ? best.displayName : null;
+    },
+  };
+}
+
+let providerSingleton: GeocoderProvider | null = null;
+
+export function getGeocoderProvider(): GeocoderProvider {
+  if (providerSingleton) return providerSingleton;
+  const name = (process.env.GEOCODER_PROVIDER ?? "nominatim").trim().toLowerCase();
+  switch (name) {
+    case "photon":
+      providerSingleton = photonProvider();
+      break;
+    case "fixture":
+      providerSingleton = fixtureProvider();
+      break;
+    default:
+      providerSingleton = nominatimProvider();
+  }
+  return providerSingleton;
+}
+
+// --- Throttle ---------------------------------------------------------------
+// Nominatim's usage policy allows at most 1 request/second per application, so
+// every upstream call goes through one queue regardless of which user typed.
+
+let nextSlotAt = 0;
+let queued = 0;
+
+async function throttled<T>(fn: () => Promise<T>): Promise<T> {
+  const intervalMs = envNumber("GEOCODER_MIN_INTERVAL_MS", 1000);
+  const maxQueue = envNumber("GEOCODER_MAX_QUEUE", 20);
+  if (queued >= maxQueue) throw new GeocoderError("Geocoding is busy, try again shortly", 503);
+
+  const now = Date.now();
+  const startAt = Math.max(now, nextSlotAt);
+  nextSlotAt = startAt + intervalMs;
+
+  queued += 1;
+  try {
+    if (startAt > now) await new Promise((r) => setTimeout(r, startAt - now));
+    return await fn();
+  } finally {
+    queued -= 1;
+  }
+}
+
+// --- Cache ------------------------------------------------------------------
+
+function isVercelRuntime() {
+  return Boolean(process.env.VERCEL || process.env.VERCEL_ENV);
+}
+
+function cacheFile() {
+  if (isVercelRuntime()) return path.join("/tmp", "data", "geocode-cache.json");
+  return path.join(process.cwd(), "data", "geocode-cache.json");
+}
+
+let cache: Map<string, CacheEntry> | null = null;
+let cacheLoading: Promise<Map<string, CacheEntry>> | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+async function loadCache(): Promise<Map<string, CacheEntry>> {
+  if (cache) return cache;
+  cacheLoading ??= (async () => {
+    try {
+      const raw = JSON.parse(await readFile(cacheFile(), "utf8")) as Record<string, CacheEntry>;
+      cache = new Map(Object.entries(raw ?? {}));
+    } catch {
+      cache = new Map();
+    }
+    return cache;
+  })();
+  return cacheLoading;
+}
+
+function scheduleFlush() {
+  if (flushTimer) return;
+  flushTimer = setTimeout(async () => {
+    flushTimer = null;
+    if (!cache) return;
+    try {
+      const file = cacheFile();
+      await mkdir(path.dirname(file), { recursive: true });
+      const tmp = `${file}.${process.pid}.tmp`;
+      await writeFile(tmp, JSON.stringify(Object.fromEntries(cache)), "utf8");
+      await rename(tmp, file);
+    } catch {
+      // cache is best-effort
+    }
+  }, 2000);
+}
+
+async function cacheGet<T>(key: string): Promise<T | undefined> {
+  const ttlMs = envNumber("GEOCODER_CACHE_TTL_HOURS", 24 * 7) * 60 * 60 * 1000;
+  const entry = (await loadCache()).get(key);
+  if (!entry) return undefined;
+  if (Date.now() - entry.storedAt > ttlMs) return undefined;
+  return entry.value as T;
+}
+
+async function cacheSet(key: string, value: unknown) {
+  const map = await loadCache();
+  map.delete(key);
+  map.set(key, { value, storedAt: Date.now() });
+  // Map iteration is insertion-ordered, so the first keys are the oldest.
+  while (map.size > MAX_CACHE_ENTRIES) {
+    const oldest = map.keys().next().value;
+    if (oldest === undefined) break;
+    map.delete(oldest);
+  }
+  scheduleFlush();
+}
+
+// Identical lookups that arrive while one is already queued share its result.
+const inFlight = new Map<string, Promise<unknown>>();
+
+async function cached<T>(
+  key: string,
+  provider: GeocoderProvider,
+  load: () => Promise<T>
+): Promise<{ value: T; cacheHit: boolean }> {
+  const hit = await cacheGet<T>(key);
+  if (hit !== undefined) return { value: hit, cacheHit: true };
+
+  let pending = inFlight.get(key) as Promise<T> | undefined;
+  if (!pending) {
+    pending = (provider.remote ? throttled(load) : load()).finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+  const value = await pending;
+  await cacheSet(key, value);
+  return { value, cacheHit: false };
+}
+
+function normalizeQuery(q: string) {
+  return q.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export async function searchPlaces(q: string) {
+  const provider = getGeocoderProvider();
+  const key = `search:${provider.name}:${normalizeQuery(q)}`;
+  return cached(key, provider, () => provider.search(q.trim(), SEARCH_LIMIT));
+}
+
+export async function reversePlace(lat: number, lng: number) {
+  const provider = getGeocoderProvider();
+  const rLat = Number(lat.toFixed(REVERSE_PRECISION));
+  const rLng = Number(lng.toFixed(REVERSE_PRECISION));
+  const key = `reverse:${provider.name}:${rLat},${rLng}`;
+  return cached(key, provider, () => provider.reverse(rLat, rLng));
+}
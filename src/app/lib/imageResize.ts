@@ -0,0 +1,54 @@
+const DEFAULT_MAX_DIMENSION = 2048;
+const QUALITY = 0.85;
+
+// Formats we leave alone: animation and vector data would be lost on a canvas.
+const PASSTHROUGH_TYPES = new Set(["image/gif", "image/svg+xml"]);
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, type, QUALITY));
+}
+
+function renamed(name: string, type: string): string {
+  const ext = type === "image/webp" ? "webp" : "jpg";
+  const stem = name.replace(/\.[^.]+$/, "") || "photo";
+  return `${stem}.${ext}`;
+}
+
+// Shrinks a photo so its longer side is at most `maxDimension` pixels before
+// upload. Anything that isn't a still image, is already small enough, or
+// doesn't come out smaller is returned unchanged.
+export async function downscaleImage(file: File, maxDimension = DEFAULT_MAX_DIMENSION): Promise<File> {
+  if (!file.type.startsWith("image/") || PASSTHROUGH_TYPES.has(file.type)) return file;
+  if (typeof createImageBitmap !== "function") return file;
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    // Formats the browser can't decode (e.g. HEIC on most desktops) go up as-is.
+    return file;
+  }
+
+  try {
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    if (scale === 1) return file;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return file;
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    // PNG and WebP may carry transparency, which JPEG would flatten to black.
+    const type = file.type === "image/png" || file.type === "image/webp" ? "image/webp" : "image/jpeg";
+    const blob = await canvasToBlob(canvas, type);
+    if (!blob || blob.size >= file.size) return file;
+    return new File([blob], renamed(file.name, blob.type || type), {
+      type: blob.type || type,
+      lastModified: file.lastModified,
+    });
+  } finally {
+    bitmap.close();
+  }
+}
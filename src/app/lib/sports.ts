@@ -0,0 +1,15 @@
+export const SPORTS_OPTIONS = [
+  "Badminton",
+  "Tennis",
+  "Football",
+  "Basketball",
+  "Volleyball",
+  "Cricket",
+  "Table Tennis",
+  "Running",
+  "Swimming",
+  "Gym",
+] as const;
+
+// Sports played in pairs or teams, which are the ones players form teams for.
+export const TEAM_SPORTS = SPORTS_OPTIONS.filter((s) => !["Running", "Swimming", "Gym"].includes(s));
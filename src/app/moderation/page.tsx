@@ -0,0 +1,176 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import MediaCarousel from "@/components/MediaCarousel";
+import UserAvatar from "@/components/UserAvatar";
+import { useAuth } from "@/context/AuthContext";
+import { api, errorMessage } from "@/lib/apiClient";
+import { displayName, parse, type ModerationItem, type ReportReason } from "@/lib/apiTypes";
+
+const REASON_LABELS: Record<ReportReason, string> = {
+  spam: "Spam",
+  harassment: "Harassment",
+  inappropriate: "Inappropriate",
+  other: "Other",
+};
+
+function formatTime(iso: string): string {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? "" : d.toLocaleString();
+}
+
+export default function ModerationPage() {
+  const { user, status } = useAuth();
+  const [queue, setQueue] = useState<ModerationItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const isModerator = user?.isModerator === true;
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      setQueue(await api.get("/api/moderation/queue", parse.moderationQueue));
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Failed to load the moderation queue"));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isModerator) void load();
+  }, [isModerator, load]);
+
+  const resolve = async (item: ModerationItem, action: "dismiss" | "remove") => {
+    if (busyId) return;
+    if (action === "remove" && !window.confirm("Remove this post for everyone?")) return;
+    setBusyId(item.post.id);
+    setError(null);
+    try {
+      await api.post(`/api/moderation/posts/${encodeURIComponent(item.post.id)}/${action}`);
+      setQueue((prev) => prev.filter((x) => x.post.id !== item.post.id));
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Action failed"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (status !== "authenticated") {
+    return <div className="min-h-[60vh] flex items-center justify-center text-gray-600">Loading…</div>;
+  }
+
+  return (
+    <div className="min-h-screen">
+      <div className="app-container py-12">
+        <div className="app-card overflow-hidden">
+          <div className="app-card-header flex items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-slate-900">Moderation queue</h1>
+              <div className="text-sm text-slate-600">
+                Reported posts, oldest report first. Posts with several reports are hidden until reviewed.
+              </div>
+            </div>
+            {isModerator ? (
+              <button type="button" onClick={() => void load()} className="btn-soft">
+                Refresh
+              </button>
+            ) : null}
+          </div>
+
+          {error ? (
+            <div className="mx-4 mt-4 rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+              {error}
+            </div>
+          ) : null}
+
+          {!isModerator ? (
+            <div className="p-6 text-sm text-slate-600">Only moderators can review reported posts.</div>
+          ) : loading ? (
+            <div className="p-6 text-sm text-slate-600">Loading…</div>
+          ) : queue.length === 0 ? (
+            <div className="p-6 text-sm text-slate-600">Nothing to review.</div>
+          ) : (
+            <div className="divide-y divide-slate-100">
+              {queue.map((item) => {
+                const { post } = item;
+                const name = displayName(post.author, "Member");
+                const busy = busyId === post.id;
+                return (
+                  <div key={post.id} className="p-4 grid gap-4 md:grid-cols-[1fr_18rem]">
+                    <div className="min-w-0 space-y-2">
+                      <div className="flex items-center gap-3">
+                        <UserAvatar userId={post.author.id} name={name} size={36} />
+                        <div className="min-w-0">
+                          <div className="text-sm font-semibold text-slate-900 truncate">{name}</div>
+                          <div className="text-xs text-slate-500">
+                            {formatTime(post.createdAt)} · {post.visibility}
+                            {post.editedAt ? " · edited" : ""}
+                          </div>
+                        </div>
+                        {item.hidden ? (
+                          <span className="ml-auto rounded-full bg-amber-100 px-2 py-1 text-xs font-semibold text-amber-800">
+                            Hidden
+                          </span>
+                        ) : null}
+                      </div>
+                      {post.text ? (
+                        <div className="text-sm text-slate-800 whitespace-pre-wrap break-words">{post.text}</div>
+                      ) : null}
+                      {post.media.length > 0 ? (
+                        <div className="max-w-md overflow-hidden rounded-xl bg-slate-900">
+                          <MediaCarousel
+                            media={post.media}
+                            alt="Reported media"
+                            mediaClassName="max-h-64 object-contain"
+                          />
+                        </div>
+                      ) : null}
+                    </div>
+
+                    <div className="space-y-3">
+                      <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                        {item.reports.length === 1 ? "1 report" : `${item.reports.length} reports`}
+                      </div>
+                      <ul className="space-y-2">
+                        {item.reports.map((r) => (
+                          <li key={r.id} className="rounded-xl bg-slate-50 px-3 py-2 text-sm">
+                            <div className="font-semibold text-slate-900">{REASON_LABELS[r.reason] ?? r.reason}</div>
+                            {r.details ? <div className="text-slate-700">{r.details}</div> : null}
+                            <div className="text-xs text-slate-500">
+                              {displayName(r.reporter, "Member")} · {formatTime(r.createdAt)}
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                      <div className="flex gap-2">
+                        <button
+                          type="button"
+                          onClick={() => resolve(item, "dismiss")}
+                          disabled={busy}
+                          className="btn-soft flex-1"
+                        >
+                          Keep post
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => resolve(item, "remove")}
+                          disabled={busy}
+                          className="flex-1 rounded-2xl bg-red-600 px-4 py-2 text-sm font-semibold text-white hover:bg-red-700 disabled:opacity-60"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
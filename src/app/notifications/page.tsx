@@ -1,34 +1,251 @@
 "use client";
 
+import { useCallback, useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
+import UserAvatar from "@/components/UserAvatar";
+import { api, errorMessage } from "@/lib/apiClient";
+import { displayName, parse, userIdOf, type NotificationItem } from "@/lib/apiTypes";
+
+function actorName(n: NotificationItem): string {
+  return displayName(n.actor, "Someone");
+}
+
+function actorId(n: NotificationItem): string {
+  return userIdOf(n.actor);
+}
+
+function describe(n: NotificationItem): string {
+  const name = actorName(n);
+  switch (n.type) {
+    case "friend_request":
+      return `${name} sent you a friend request`;
+    case "friend_accepted":
+      return `${name} accepted your friend request`;
+    case "event_joined":
+      return n.data.teamName
+        ? `${name} entered ${n.data.teamName} in ${n.data.eventTitle ?? "your event"}`
+        : `${name} joined ${n.data.eventTitle ?? "your event"}`;
+    case "event_left":
+      return n.data.teamName
+        ? `${name} withdrew ${n.data.teamName} from ${n.data.eventTitle ?? "your event"}`
+        : `${name} left ${n.data.eventTitle ?? "your event"}`;
+    case "event_promoted":
+      return `A spot opened up — you're now in ${n.data.eventTitle ?? "the event"}`;
+    case "event_cancelled": {
+      const when = n.data.startsAt ? ` on ${new Date(n.data.startsAt).toLocaleDateString()}` : "";
+      return `${name} cancelled ${n.data.eventTitle ?? "an event"}${when}`;
+    }
+    case "chat_message": {
+      const count = n.data.count ?? 1;
+      if (n.data.eventId) {
+        const where = n.data.eventTitle ?? "an event chat";
+        return count > 1 ? `${name} sent ${count} messages in ${where}` : `${name} sent a message in ${where}`;
+      }
+      return count > 1 ? `${name} sent you ${count} messages` : `${name} sent you a message`;
+    }
+    case "post_reaction":
+      return n.data.emoji ? `${name} reacted ${n.data.emoji} to your post` : `${name} reacted to your post`;
+    case "post_comment":
+      return `${name} commented on your post`;
+    case "match_recorded":
+      return `${name} recorded a ${n.data.sport ?? "match"} result with you — confirm it`;
+    case "match_confirmed":
+      return `${name} confirmed your ${n.data.sport ?? "match"} result`;
+    case "match_disputed":
+      return `${name} disputed your ${n.data.sport ?? "match"} result`;
+    case "tournament_started":
+      return `The bracket for ${n.data.name ?? "a tournament"} is out — check your first match`;
+    case "team_invite":
+      return `${name} invited you to join ${n.data.teamName ?? "their team"}`;
+    case "team_joined":
+      return `${name} joined ${n.data.teamName ?? "your team"}`;
+    case "team_entered":
+      return `${name} entered ${n.data.teamName ?? "your team"} in ${n.data.eventTitle ?? "an event"}`;
+    default:
+      return "New activity";
+  }
+}
+
+function formatRelativeTime(ms: number): string {
+  if (!Number.isFinite(ms)) return "";
+  const diffSec = Math.round((Date.now() - ms) / 1000);
+  if (diffSec < 60) return "just now";
+  const diffMin = Math.round(diffSec / 60);
+  if (diffMin < 60) return `${diffMin} min ago`;
+  const diffHr = Math.round(diffMin / 60);
+  if (diffHr < 24) return `${diffHr} hr ago`;
+  return `${Math.round(diffHr / 24)}d ago`;
+}
+
+function notifyNavbar() {
+  try {
+    window.dispatchEvent(new Event("notifications"));
+  } catch {}
+}
 
 export default function NotificationsPage() {
   const router = useRouter();
+  const [items, setItems] = useState<NotificationItem[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [markingAll, setMarkingAll] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setError(null);
+    const data = await api.get("/api/notifications", parse.notifications);
+    setItems(data.notifications);
+    setUnreadCount(data.unreadCount);
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+    (async () => {
+      try {
+        await refresh();
+      } catch (e: unknown) {
+        if (mounted) setError(errorMessage(e, "Failed to load notifications"));
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    })();
+    return () => {
+      mounted = false;
+    };
+  }, [refresh]);
+
+  const markAllRead = async () => {
+    if (markingAll) return;
+    setMarkingAll(true);
+    setError(null);
+    try {
+      await api.post("/api/notifications/read-all");
+      setItems((prev) => prev.map((n) => ({ ...n, read: true })));
+      setUnreadCount(0);
+      notifyNavbar();
+    } catch (e: unknown) {
+      setError(errorMessage(e, "Failed to mark notifications as read"));
+    } finally {
+      setMarkingAll(false);
+    }
+  };
+
+  const open = async (n: NotificationItem) => {
+    if (!n.read) {
+      setItems((prev) => prev.map((x) => (x.id === n.id ? { ...x, read: true } : x)));
+      setUnreadCount((c) => Math.max(0, c - 1));
+      api
+        .post(`/api/notifications/${encodeURIComponent(n.id)}/read`)
+        .then(() => notifyNavbar())
+        .catch(() => {});
+    }
+
+    const id = actorId(n);
+    switch (n.type) {
+      case "friend_request":
+        router.push("/find-partner?stay=1");
+        return;
+      case "friend_accepted":
+      case "chat_message":
+        if (n.data.eventId) router.push(`/chat/event/${encodeURIComponent(n.data.eventId)}`);
+        else if (id) router.push(`/chat/${encodeURIComponent(id)}?name=${encodeURIComponent(actorName(n))}`);
+        return;
+      case "event_joined":
+      case "event_left":
+      case "event_promoted":
+      case "event_cancelled":
+      case "team_entered":
+        router.push("/events");
+        return;
+      case "post_reaction":
+      case "post_comment":
+        router.push("/feed");
+        return;
+      case "match_recorded":
+      case "match_confirmed":
+      case "match_disputed":
+        router.push("/profile");
+        return;
+      case "tournament_started":
+        if (n.data.tournamentId) router.push(`/tournaments/${encodeURIComponent(n.data.tournamentId)}`);
+        return;
+      case "team_invite":
+      case "team_joined":
+        router.push("/teams");
+        return;
+    }
+  };
+
   return (
     <div className="min-h-screen">
       <div className="app-container py-12">
-        <div className="app-card p-8">
-          <h1 className="text-2xl font-bold text-slate-900">Notifications</h1>
-          <p className="mt-2 text-slate-600">This screen is coming next.</p>
-          <div className="mt-6 flex gap-3">
+        <div className="app-card overflow-hidden">
+          <div className="app-card-header flex items-center justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-slate-900">Notifications</h1>
+              <div className="text-sm text-slate-600">
+                {unreadCount > 0 ? `${unreadCount} unread` : "You're all caught up."}
+              </div>
+            </div>
             <button
               type="button"
-              onClick={() => router.push("/dashboard")}
-              className="btn-primary px-4 py-2 text-sm"
+              onClick={markAllRead}
+              disabled={markingAll || unreadCount === 0}
+              className="btn-soft"
             >
-              Back to dashboard
-            </button>
-            <button
-              type="button"
-              onClick={() => router.push("/events")}
-              className="btn-secondary px-4 py-2 text-sm"
-            >
-              Open events
+              {markingAll ? "Marking…" : "Mark all as read"}
             </button>
           </div>
+
+          {error ? (
+            <div className="mx-4 mt-4 rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+              {error}
+            </div>
+          ) : null}
+
+          {loading ? (
+            <div className="p-6 text-sm text-slate-600">Loading…</div>
+          ) : items.length === 0 ? (
+            <div className="p-6 text-sm text-slate-600">No notifications yet.</div>
+          ) : (
+            <div className="divide-y divide-slate-100">
+              {items.map((n) => {
+                const id = actorId(n);
+                const name = actorName(n);
+                return (
+                  <button
+                    key={n.id}
+                    type="button"
+                    onClick={() => open(n)}
+                    className={[
+                      "w-full p-4 flex items-start gap-3 text-left transition",
+                      n.read ? "hover:bg-white/60" : "bg-blue-50/60 hover:bg-blue-50",
+                    ].join(" ")}
+                  >
+                    {id ? (
+                      <UserAvatar userId={id} name={name} size={40} />
+                    ) : (
+                      <span className="inline-block h-10 w-10 rounded-full bg-slate-200" />
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <div className={["text-sm text-slate-900", n.read ? "" : "font-semibold"].join(" ")}>
+                        {describe(n)}
+                      </div>
+                      {(n.type === "chat_message" || n.type === "post_comment") && n.data.preview ? (
+                        <div className="mt-0.5 text-sm text-slate-600 truncate">“{n.data.preview}”</div>
+                      ) : null}
+                      <div className="mt-0.5 text-xs text-slate-500">{formatRelativeTime(n.updatedAt)}</div>
+                    </div>
+                    {!n.read ? (
+                      <span className="mt-1.5 inline-flex h-2.5 w-2.5 rounded-full bg-blue-600" aria-label="Unread" />
+                    ) : null}
+                  </button>
+                );
+              })}
+            </div>
+          )}
         </div>
       </div>
     </div>
   );
 }
-
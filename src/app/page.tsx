@@ -1,43 +1,19 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect } from "react";
 import { useRouter } from "next/navigation";
 import LandingHero from "./components/LandingHero";
-import { authHeader } from "@/lib/authToken";
-import { getBackendBaseUrl } from "@/lib/backendBaseUrl";
+import { useAuth } from "@/context/AuthContext";
 
 export default function HomePage() {
   const router = useRouter();
-  const [checkingAuth, setCheckingAuth] = useState(true);
+  const { status } = useAuth();
 
   useEffect(() => {
-    const controller = new AbortController();
-    const base = getBackendBaseUrl();
+    if (status === "authenticated") router.replace("/feed");
+  }, [router, status]);
 
-    const checkAuth = async () => {
-      try {
-        if (!base) throw new Error("Missing NEXT_PUBLIC_BACKEND_URL");
-        const res = await fetch(
-          `${base}/api/auth/me`,
-          { credentials: "include", headers: authHeader(), signal: controller.signal }
-        );
-
-        if (res.ok) {
-          router.replace("/feed");
-          return;
-        }
-      } catch {
-        // ignore network/abort errors and fall back to landing page
-      } finally {
-        setCheckingAuth(false);
-      }
-    };
-
-    checkAuth();
-    return () => controller.abort();
-  }, [router]);
-
-  if (checkingAuth) {
+  if (status !== "unauthenticated") {
     return (
       <div className="min-h-full flex items-center justify-center text-gray-500">
         Loading…
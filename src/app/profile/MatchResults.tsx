@@ -0,0 +1,406 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { api, errorMessage } from "@/lib/apiClient";
+import {
+  displayName,
+  parse,
+  userIdOf,
+  type EventItem,
+  type Friend,
+  type MatchResult,
+  type SportRating,
+} from "@/lib/apiTypes";
+
+const MAX_SETS = 5;
+
+type Format = MatchResult["format"];
+type SetRow = { mine: string; theirs: string };
+
+const inputClass =
+  "mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm outline-none ring-blue-200 focus:ring";
+
+const STATUS_LABELS: Record<MatchResult["status"], { label: string; className: string }> = {
+  pending: { label: "Awaiting confirmation", className: "bg-amber-50 text-amber-800 ring-amber-200" },
+  confirmed: { label: "Confirmed", className: "bg-emerald-50 text-emerald-800 ring-emerald-200" },
+  disputed: { label: "Disputed", className: "bg-red-50 text-red-800 ring-red-200" },
+};
+
+function teamNames(team: MatchResult["teams"][number]): string {
+  return team.map((p) => p.username).join(" & ");
+}
+
+function ratingDelta(change: MatchResult["ratingChange"]): string | null {
+  if (!change) return null;
+  const delta = change.after - change.before;
+  return `${change.after} (${delta >= 0 ? "+" : ""}${delta})`;
+}
+
+// Per-sport ratings plus recording and confirming match results. A result
+// only counts towards ratings once someone on the other side confirms it.
+export default function MatchResults({ preferredSports }: { preferredSports: string[] }) {
+  const [ratings, setRatings] = useState<SportRating[]>([]);
+  const [matches, setMatches] = useState<MatchResult[]>([]);
+  const [friends, setFriends] = useState<Friend[]>([]);
+  const [events, setEvents] = useState<EventItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [formOpen, setFormOpen] = useState(false);
+  const [sport, setSport] = useState(preferredSports[0] ?? "");
+  const [format, setFormat] = useState<Format>("singles");
+  const [partnerId, setPartnerId] = useState("");
+  const [opponentIds, setOpponentIds] = useState<string[]>(["", ""]);
+  const [eventId, setEventId] = useState("");
+  const [sets, setSets] = useState<SetRow[]>([{ mine: "", theirs: "" }]);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const [ratingList, matchList, friendList, eventList] = await Promise.all([
+      api.get("/api/matches/ratings", parse.ratings),
+      api.get("/api/matches", parse.matches),
+      api.get("/api/friends", parse.friends),
+      // Linking an event is optional; the form works without the list.
+      api.get("/api/events", parse.events).catch(() => [] as EventItem[]),
+    ]);
+    setRatings(ratingList);
+    setMatches(matchList);
+    setFriends(friendList);
+    setEvents(eventList);
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+    load()
+      .catch((e: unknown) => {
+        if (mounted) setError(errorMessage(e, "Failed to load match results"));
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [load]);
+
+  // Events you took part in that have already started.
+  const linkableEvents = useMemo(
+    () => events.filter((e) => e.joined && new Date(e.startsAt).getTime() <= Date.now()),
+    [events]
+  );
+
+  const teamSize = format === "singles" ? 1 : 2;
+
+  const resetForm = () => {
+    setPartnerId("");
+    setOpponentIds(["", ""]);
+    setEventId("");
+    setSets([{ mine: "", theirs: "" }]);
+    setFormError(null);
+  };
+
+  const chooseEvent = (id: string) => {
+    setEventId(id);
+    const event = events.find((e) => e.id === id);
+    if (event?.sport) setSport(event.sport);
+  };
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (saving) return;
+    setFormError(null);
+    setSaving(true);
+    try {
+      const match = await api.post(
+        "/api/matches",
+        {
+          sport,
+          format,
+          partnerIds: format === "doubles" ? [partnerId] : [],
+          opponentIds: opponentIds.slice(0, teamSize),
+          eventId: eventId || null,
+          scores: sets.map((s) => [Number(s.mine), Number(s.theirs)]),
+        },
+        parse.match
+      );
+      setMatches((prev) => [match, ...prev]);
+      resetForm();
+      setFormOpen(false);
+    } catch (err: unknown) {
+      setFormError(errorMessage(err, "Failed to record the result"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const answer = async (match: MatchResult, action: "confirm" | "dispute") => {
+    setBusyId(match.id);
+    setError(null);
+    try {
+      const updated = await api.post(`/api/matches/${encodeURIComponent(match.id)}/${action}`, undefined, parse.match);
+      setMatches((prev) => prev.map((m) => (m.id === updated.id ? updated : m)));
+      if (action === "confirm") setRatings(await api.get("/api/matches/ratings", parse.ratings));
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Failed to update the result"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const remove = async (match: MatchResult) => {
+    if (!window.confirm("Remove this result?")) return;
+    setBusyId(match.id);
+    setError(null);
+    try {
+      await api.delete(`/api/matches/${encodeURIComponent(match.id)}`);
+      setMatches((prev) => prev.filter((m) => m.id !== match.id));
+    } catch (err: unknown) {
+      setError(errorMessage(err, "Failed to remove the result"));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const friendOptions = (exclude: string[]) =>
+    friends
+      .filter((f) => !exclude.includes(userIdOf(f)))
+      .map((f) => (
+        <option key={userIdOf(f)} value={userIdOf(f)}>
+          {displayName(f, "Friend")}
+        </option>
+      ));
+
+  return (
+    <div className="mt-6 app-card p-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Ratings &amp; results</h2>
+          <p className="text-sm text-gray-600">Confirmed match results set your rating in each sport.</p>
+        </div>
+        <button type="button" onClick={() => setFormOpen((v) => !v)} className="btn-soft">
+          {formOpen ? "Cancel" : "Record a result"}
+        </button>
+      </div>
+
+      {error ? <div className="mt-4 text-sm text-red-700">{error}</div> : null}
+
+      {loading ? (
+        <div className="mt-4 text-sm text-gray-600">Loading…</div>
+      ) : ratings.length === 0 ? (
+        <div className="mt-4 text-sm text-gray-600">No rated matches yet.</div>
+      ) : (
+        <div className="mt-4 grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {ratings.map((r) => (
+            <div key={r.sport} className="rounded-xl bg-slate-50 px-3 py-2 ring-1 ring-slate-200/70">
+              <div className="text-xs font-medium text-gray-600">{r.sport}</div>
+              <div className="text-xl font-bold text-gray-900">
+                {r.rating}
+                {r.provisional ? <span className="ml-1 text-xs font-medium text-gray-500">provisional</span> : null}
+              </div>
+              <div className="text-xs text-gray-500">
+                {r.wins}W · {r.losses}L
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {formOpen ? (
+        <form onSubmit={submit} className="mt-5 space-y-3 rounded-xl bg-white/70 p-4 ring-1 ring-slate-200/70">
+          <div className="flex gap-2">
+            {(["singles", "doubles"] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setFormat(value)}
+                className={[
+                  "rounded-xl border px-3 py-1.5 text-sm capitalize transition",
+                  format === value
+                    ? "border-blue-600 bg-blue-50 text-blue-700"
+                    : "border-slate-200 bg-white text-gray-800 hover:bg-slate-50",
+                ].join(" ")}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs font-medium text-gray-700">Sport</label>
+              <input
+                value={sport}
+                onChange={(e) => setSport(e.target.value)}
+                list="match-sports"
+                className={inputClass}
+                disabled={Boolean(eventId && events.find((ev) => ev.id === eventId)?.sport)}
+              />
+              <datalist id="match-sports">
+                {preferredSports.map((s) => (
+                  <option key={s} value={s} />
+                ))}
+              </datalist>
+            </div>
+            <div>
+              <label className="text-xs font-medium text-gray-700">Event (optional)</label>
+              <select value={eventId} onChange={(e) => chooseEvent(e.target.value)} className={inputClass}>
+                <option value="">Not linked to an event</option>
+                {linkableEvents.map((ev) => (
+                  <option key={ev.id} value={ev.id}>
+                    {ev.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {format === "doubles" ? (
+              <div>
+                <label className="text-xs font-medium text-gray-700">Your partner</label>
+                <select value={partnerId} onChange={(e) => setPartnerId(e.target.value)} className={inputClass}>
+                  <option value="">Choose a friend</option>
+                  {friendOptions(opponentIds.slice(0, teamSize))}
+                </select>
+              </div>
+            ) : null}
+            {Array.from({ length: teamSize }, (_, i) => (
+              <div key={i}>
+                <label className="text-xs font-medium text-gray-700">
+                  {teamSize === 1 ? "Opponent" : `Opponent ${i + 1}`}
+                </label>
+                <select
+                  value={opponentIds[i]}
+                  onChange={(e) =>
+                    setOpponentIds((prev) => prev.map((id, j) => (j === i ? e.target.value : id)))
+                  }
+                  className={inputClass}
+                >
+                  <option value="">Choose a friend</option>
+                  {friendOptions([partnerId, ...opponentIds.filter((_, j) => j !== i)])}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <div className="text-xs font-medium text-gray-700">Scores (yours – theirs)</div>
+            <div className="mt-1 space-y-2">
+              {sets.map((s, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <span className="w-12 text-xs text-gray-500">Set {i + 1}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={s.mine}
+                    onChange={(e) => setSets((prev) => prev.map((x, j) => (j === i ? { ...x, mine: e.target.value } : x)))}
+                    className="w-20 rounded-lg border border-slate-200 px-2 py-1.5 text-sm outline-none ring-blue-200 focus:ring"
+                    aria-label={`Set ${i + 1} your score`}
+                  />
+                  <span className="text-gray-400">–</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={s.theirs}
+                    onChange={(e) => setSets((prev) => prev.map((x, j) => (j === i ? { ...x, theirs: e.target.value } : x)))}
+                    className="w-20 rounded-lg border border-slate-200 px-2 py-1.5 text-sm outline-none ring-blue-200 focus:ring"
+                    aria-label={`Set ${i + 1} opponent score`}
+                  />
+                  {sets.length > 1 ? (
+                    <button
+                      type="button"
+                      onClick={() => setSets((prev) => prev.filter((_, j) => j !== i))}
+                      className="text-xs text-gray-500 hover:text-red-700"
+                    >
+                      Remove
+                    </button>
+                  ) : null}
+                </div>
+              ))}
+            </div>
+            {sets.length < MAX_SETS ? (
+              <button
+                type="button"
+                onClick={() => setSets((prev) => [...prev, { mine: "", theirs: "" }])}
+                className="mt-2 text-xs font-semibold text-blue-700 hover:underline"
+              >
+                Add set
+              </button>
+            ) : null}
+          </div>
+
+          {formError ? <div className="text-sm text-red-700">{formError}</div> : null}
+          {friends.length === 0 ? (
+            <div className="text-sm text-gray-600">Add your opponents as friends to record results with them.</div>
+          ) : null}
+
+          <button type="submit" disabled={saving} className="btn-primary">
+            {saving ? "Saving…" : "Send for confirmation"}
+          </button>
+        </form>
+      ) : null}
+
+      {matches.length > 0 ? (
+        <div className="mt-5 divide-y divide-slate-100">
+          {matches.map((m) => {
+            const status = STATUS_LABELS[m.status];
+            const won = m.myTeam !== null && m.winner === m.myTeam;
+            const change = ratingDelta(m.ratingChange);
+            return (
+              <div key={m.id} className="py-3 flex flex-col sm:flex-row sm:items-center gap-2">
+                <div className="min-w-0 flex-1">
+                  <div className="text-sm font-semibold text-gray-900">
+                    {teamNames(m.teams[0])} vs {teamNames(m.teams[1])}
+                  </div>
+                  <div className="text-xs text-gray-600">
+                    {m.sport} · <span className="capitalize">{m.format}</span> ·{" "}
+                    {m.scores.map(([a, b]) => `${a}–${b}`).join(", ")}
+                    {m.eventTitle ? ` · ${m.eventTitle}` : ""}
+                  </div>
+                  <div className="mt-1 flex flex-wrap items-center gap-2 text-xs">
+                    <span className={`rounded-full px-2 py-0.5 ring-1 ${status.className}`}>{status.label}</span>
+                    {m.myTeam !== null ? (
+                      <span className={won ? "text-emerald-700" : "text-gray-600"}>{won ? "Won" : "Lost"}</span>
+                    ) : null}
+                    {change ? <span className="text-gray-600">Rating {change}</span> : null}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  {m.canConfirm ? (
+                    <>
+                      <button
+                        type="button"
+                        disabled={busyId === m.id}
+                        onClick={() => answer(m, "confirm")}
+                        className="btn-primary"
+                      >
+                        Confirm
+                      </button>
+                      <button
+                        type="button"
+                        disabled={busyId === m.id}
+                        onClick={() => answer(m, "dispute")}
+                        className="btn-soft"
+                      >
+                        Dispute
+                      </button>
+                    </>
+                  ) : null}
+                  {m.canDelete ? (
+                    <button
+                      type="button"
+                      disabled={busyId === m.id}
+                      onClick={() => remove(m)}
+                      className="btn-soft"
+                    >
+                      Remove
+                    </button>
+                  ) : null}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -3,55 +3,26 @@
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import UserAvatar from "@/components/UserAvatar";
-import { authHeader } from "@/lib/authToken";
-import { getBackendBaseUrl } from "@/lib/backendBaseUrl";
-
-type BackendUser = Record<string, unknown>;
-
-function coerceString(value: unknown): string | null {
-  if (typeof value === "string" && value.trim()) return value;
-  return null;
-}
-
-function coerceStringArray(value: unknown): string[] {
-  if (!Array.isArray(value)) return [];
-  return value.map((v) => (typeof v === "string" ? v.trim() : "")).filter(Boolean);
-}
-
-function userIdFromBackendUser(user: BackendUser): string | null {
-  return (
-    coerceString(user._id) ??
-    coerceString(user.id) ??
-    coerceString(user.email) ??
-    coerceString(user.username) ??
-    null
-  );
-}
-
-function nameFromBackendUser(user: BackendUser): string {
-  return (
-    coerceString(user.username) ??
-    coerceString(user.fullName) ??
-    coerceString(user.email) ??
-    "Me"
-  );
-}
+import { useAuth } from "@/context/AuthContext";
+import { api, errorMessage } from "@/lib/apiClient";
+import { displayName, parse, userIdOf, type Reliability } from "@/lib/apiTypes";
+import MatchResults from "./MatchResults";
 
 export default function ProfilePage() {
   const router = useRouter();
-  const base = useMemo(() => getBackendBaseUrl(), []);
-  const [user, setUser] = useState<BackendUser | null>(null);
+  const { user, status } = useAuth();
   const [avatarVersion, setAvatarVersion] = useState<number>(0);
   const [file, setFile] = useState<File | null>(null);
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
+  const [reliability, setReliability] = useState<Reliability | null>(null);
 
-  const userId = useMemo(() => (user ? userIdFromBackendUser(user) : null), [user]);
-  const name = useMemo(() => (user ? nameFromBackendUser(user) : "Me"), [user]);
-  const location = useMemo(() => (user ? coerceString(user.location) : null), [user]);
-  const skillLevel = useMemo(() => (user ? coerceString(user.skillLevel) : null), [user]);
+  const userId = useMemo(() => (user ? userIdOf(user) || null : null), [user]);
+  const name = useMemo(() => displayName(user, "Me"), [user]);
+  const location = user?.location?.trim() || null;
+  const skillLevel = user?.skillLevel?.trim() || null;
   const preferredSports = useMemo(
-    () => (user ? coerceStringArray(user.preferredSports) : []),
+    () => (user?.preferredSports ?? []).map((s) => s.trim()).filter(Boolean),
     [user]
   );
 
@@ -60,30 +31,17 @@ export default function ProfilePage() {
       const v = Number(localStorage.getItem("avatar") ?? "0");
       if (Number.isFinite(v) && v > 0) setAvatarVersion(v);
     } catch {}
+  }, []);
 
-    const load = async () => {
-      if (!base) {
-        router.replace("/auth/login");
-        return;
-      }
-      const res = await fetch(`${base}/api/auth/me`, {
-        credentials: "include",
-        headers: authHeader(),
-      });
-      if (res.status === 401) {
-        router.replace("/auth/login");
-        return;
-      }
-      if (!res.ok) {
-        setMessage("Failed to load profile");
-        return;
-      }
-      const data = (await res.json()) as { user?: BackendUser };
-      setUser(data.user ?? null);
-    };
-
-    load().catch(() => setMessage("Failed to load profile"));
-  }, [base, router]);
+  useEffect(() => {
+    if (!userId) return;
+    const controller = new AbortController();
+    api
+      .get("/api/events/reliability", parse.reliability, { signal: controller.signal })
+      .then(setReliability)
+      .catch(() => {});
+    return () => controller.abort();
+  }, [userId]);
 
   const handleUpload = async () => {
     setMessage(null);
@@ -98,19 +56,9 @@ export default function ProfilePage() {
 
     setSaving(true);
     try {
-      if (!base) throw new Error("Missing NEXT_PUBLIC_BACKEND_URL");
       const formData = new FormData();
       formData.set("file", file);
-      const res = await fetch(`${base}/api/avatar`, {
-        method: "POST",
-        credentials: "include",
-        headers: authHeader(),
-        body: formData,
-      });
-      const data = (await res.json()) as { message?: string; avatarUrl?: string };
-      if (!res.ok) {
-        throw new Error(data.message || "Upload failed");
-      }
+      await api.post("/api/avatar", formData);
 
       const v = Date.now();
       setAvatarVersion(v);
@@ -123,14 +71,21 @@ export default function ProfilePage() {
 
       setFile(null);
       setMessage("Profile picture updated");
-      void data;
     } catch (e: unknown) {
-      setMessage(e instanceof Error ? e.message : "Upload failed");
+      setMessage(errorMessage(e, "Upload failed"));
     } finally {
       setSaving(false);
     }
   };
 
+  if (status !== "authenticated") {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center text-gray-600">
+        Loading…
+      </div>
+    );
+  }
+
   return (
     <div className="mx-auto w-full max-w-3xl px-4 sm:px-6 py-8">
       <div className="flex items-center justify-between gap-4">
@@ -154,9 +109,9 @@ export default function ProfilePage() {
 
             <div className="min-w-0">
               <div className="font-semibold text-gray-900 truncate">{name}</div>
-            {user && coerceString(user.email) && (
+            {user?.email?.trim() && (
               <div className="text-sm text-gray-600 truncate">
-                {coerceString(user.email)}
+                {user.email}
               </div>
             )}
             {(location || skillLevel || preferredSports.length > 0) && (
@@ -168,7 +123,15 @@ export default function ProfilePage() {
                 {skillLevel && <div>Skill level: {skillLevel}</div>}
               </div>
             )}
-            <div className="text-xs text-gray-500 mt-1">Upload a JPG/PNG/WebP/GIF/AVIF (max 5MB)</div>
+            {reliability && (
+              <div className="text-sm text-gray-700 mt-1">
+                Reliability:{" "}
+                {reliability.percent === null
+                  ? "no attendance marked yet"
+                  : `${reliability.percent}% (${reliability.attended} of ${reliability.attended + reliability.missed} events attended)`}
+              </div>
+            )}
+            <div className="text-xs text-gray-500 mt-1">Upload a JPG/PNG/WebP/GIF/AVIF (max 5MB). Photos are cropped square and location data is removed.</div>
           </div>
         </div>
 
@@ -191,6 +154,8 @@ export default function ProfilePage() {
 
         {message && <div className="mt-4 text-sm text-gray-800">{message}</div>}
       </div>
+
+      <MatchResults preferredSports={preferredSports} />
     </div>
   );
 }
@@ -0,0 +1,337 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { api, errorMessage } from "@/lib/apiClient";
+import { displayName, parse, userIdOf, type Friend, type Team } from "@/lib/apiTypes";
+import { TEAM_SPORTS } from "@/lib/sports";
+
+const inputClass =
+  "mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm outline-none ring-blue-200 focus:ring";
+
+function TeamCard({
+  team,
+  friends,
+  busy,
+  onAction,
+}: {
+  team: Team;
+  friends: Friend[];
+  busy: boolean;
+  onAction: (request: () => Promise<unknown>, fallback: string) => Promise<boolean>;
+}) {
+  const router = useRouter();
+  const [inviteId, setInviteId] = useState("");
+  const path = `/api/teams/${encodeURIComponent(team.id)}`;
+  const taken = new Set([...team.members.map((m) => m.id), ...team.invites.map((i) => i.id)]);
+  const invitable = friends.filter((f) => !taken.has(userIdOf(f)));
+
+  return (
+    <div className="app-card p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0">
+          <div className="font-semibold text-gray-900">{team.name}</div>
+          <div className="mt-0.5 text-xs text-gray-600 flex flex-wrap gap-x-2 gap-y-1">
+            <span>🏅 {team.sport}</span>
+            {team.rating !== null ? <span>📈 Team rating {team.rating}</span> : null}
+            <span>
+              👥 {team.members.length} {team.members.length === 1 ? "player" : "players"}
+            </span>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => router.push(`/find-partner?stay=1&team=${encodeURIComponent(team.id)}`)}
+          disabled={team.members.length < 2}
+          className="btn-soft"
+          title={team.members.length < 2 ? "Teams need at least 2 players to find opponents" : undefined}
+        >
+          Find opponents
+        </button>
+      </div>
+
+      <ul className="mt-3 grid gap-1 text-sm text-gray-800">
+        {team.members.map((m) => (
+          <li key={m.id}>
+            {m.username}
+            {m.id === team.captain.id ? <span className="ml-1 text-xs text-gray-500">(captain)</span> : null}
+          </li>
+        ))}
+        {team.invites.map((i) => (
+          <li key={i.id} className="flex items-center gap-2 text-gray-500">
+            {i.username} <span className="text-xs">invited</span>
+            {team.isCaptain ? (
+              <button
+                type="button"
+                onClick={() =>
+                  onAction(() => api.delete(`${path}/invites/${encodeURIComponent(i.id)}`), "Failed to cancel invite")
+                }
+                disabled={busy}
+                className="text-xs text-red-700 hover:underline disabled:opacity-60"
+              >
+                Cancel
+              </button>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+
+      {team.isCaptain && invitable.length > 0 ? (
+        <div className="mt-3 flex gap-2">
+          <select
+            value={inviteId}
+            onChange={(e) => setInviteId(e.target.value)}
+            className="min-w-0 flex-1 rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-gray-900"
+          >
+            <option value="">Invite a friend…</option>
+            {invitable.map((f) => (
+              <option key={userIdOf(f)} value={userIdOf(f)}>
+                {displayName(f)}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() =>
+              onAction(() => api.post(`${path}/invites`, { userId: inviteId }), "Failed to invite").then((ok) => {
+                if (ok) setInviteId("");
+              })
+            }
+            disabled={busy || !inviteId}
+            className="btn-soft"
+          >
+            Invite
+          </button>
+        </div>
+      ) : null}
+
+      <div className="mt-3 flex justify-end gap-3 text-sm">
+        <button
+          type="button"
+          onClick={() => {
+            if (window.confirm(`Leave ${team.name}?`)) void onAction(() => api.post(`${path}/leave`), "Failed to leave");
+          }}
+          disabled={busy}
+          className="text-gray-600 hover:underline disabled:opacity-60"
+        >
+          Leave team
+        </button>
+        {team.isCaptain ? (
+          <button
+            type="button"
+            onClick={() => {
+              if (window.confirm(`Disband ${team.name}?`)) void onAction(() => api.delete(path), "Failed to disband");
+            }}
+            disabled={busy}
+            className="text-red-700 hover:underline disabled:opacity-60"
+          >
+            Disband
+          </button>
+        ) : null}
+      </div>
+    </div>
+  );
+}
+
+// Your pair and team line-ups, the invitations waiting on you, and a form to
+// start a new team with friends.
+export default function TeamsPage() {
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [invitations, setInvitations] = useState<Team[]>([]);
+  const [friends, setFriends] = useState<Friend[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [formOpen, setFormOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [sport, setSport] = useState<string>(TEAM_SPORTS[0]);
+  const [inviteIds, setInviteIds] = useState<string[]>([]);
+
+  const load = useCallback(async () => {
+    const [lists, friendList] = await Promise.all([
+      api.get("/api/teams", parse.teams),
+      api.get("/api/friends", parse.friends),
+    ]);
+    setTeams(lists.teams);
+    setInvitations(lists.invitations);
+    setFriends(friendList);
+  }, []);
+
+  useEffect(() => {
+    let mounted = true;
+    load()
+      .catch((e: unknown) => {
+        if (mounted) setError(errorMessage(e, "Failed to load teams"));
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+    return () => {
+      mounted = false;
+    };
+  }, [load]);
+
+  const run = async (request: () => Promise<unknown>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await request();
+      await load();
+      return true;
+    } catch (e: unknown) {
+      setError(errorMessage(e, fallback));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const create = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!(await run(() => api.post("/api/teams", { name, sport, inviteIds }), "Failed to create the team"))) return;
+    setFormOpen(false);
+    setName("");
+    setInviteIds([]);
+  };
+
+  if (loading) {
+    return <div className="min-h-[60vh] flex items-center justify-center text-gray-600">Loading…</div>;
+  }
+
+  return (
+    <div className="min-h-full">
+      <div className="max-w-3xl mx-auto px-4 py-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Teams</h1>
+            <div className="mt-1 text-sm text-gray-600">
+              Play doubles and team sports with a regular line-up, find teams to play against, and enter events
+              together.
+            </div>
+          </div>
+          {!formOpen ? (
+            <button type="button" onClick={() => setFormOpen(true)} className="btn-primary flex-shrink-0">
+              New team
+            </button>
+          ) : null}
+        </div>
+
+        {error ? (
+          <div className="mt-4 rounded-2xl bg-red-50/70 px-4 py-3 text-sm text-red-800 ring-1 ring-red-200/70">
+            {error}
+          </div>
+        ) : null}
+
+        {invitations.length > 0 ? (
+          <div className="mt-6 app-card p-4">
+            <div className="text-sm font-semibold text-gray-900">Invitations</div>
+            <ul className="mt-2 grid gap-3">
+              {invitations.map((t) => (
+                <li key={t.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900">{t.name}</div>
+                    <div className="text-xs text-gray-600">
+                      {t.sport} • {t.captain.username} invited you • {t.members.map((m) => m.username).join(", ")}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() =>
+                        run(() => api.post(`/api/teams/${encodeURIComponent(t.id)}/accept`), "Failed to join the team")
+                      }
+                      disabled={busy}
+                      className="btn-primary"
+                    >
+                      Join
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        run(() => api.post(`/api/teams/${encodeURIComponent(t.id)}/decline`), "Failed to decline")
+                      }
+                      disabled={busy}
+                      className="btn-soft"
+                    >
+                      Decline
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null}
+
+        {formOpen ? (
+          <form onSubmit={create} className="mt-6 app-card p-4 grid gap-3">
+            <div className="text-sm font-semibold text-gray-900">New team</div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="text-xs font-medium text-gray-700">Name</label>
+                <input value={name} onChange={(e) => setName(e.target.value)} maxLength={60} className={inputClass} />
+              </div>
+              <div>
+                <label className="text-xs font-medium text-gray-700">Sport</label>
+                <select value={sport} onChange={(e) => setSport(e.target.value)} className={inputClass}>
+                  {TEAM_SPORTS.map((s) => (
+                    <option key={s} value={s}>
+                      {s}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div>
+              <div className="text-xs font-medium text-gray-700">Invite friends</div>
+              {friends.length === 0 ? (
+                <div className="mt-1 text-sm text-gray-600">Add friends first to invite them.</div>
+              ) : (
+                <div className="mt-1 flex flex-wrap gap-2">
+                  {friends.map((f) => {
+                    const id = userIdOf(f);
+                    const active = inviteIds.includes(id);
+                    return (
+                      <button
+                        key={id}
+                        type="button"
+                        onClick={() =>
+                          setInviteIds((prev) => (active ? prev.filter((x) => x !== id) : [...prev, id]))
+                        }
+                        className={[
+                          "rounded-full border px-3 py-1 text-sm transition",
+                          active
+                            ? "border-blue-600 bg-blue-50 text-blue-700"
+                            : "border-slate-200 bg-white text-gray-800 hover:bg-slate-50",
+                        ].join(" ")}
+                        aria-pressed={active}
+                      >
+                        {displayName(f)}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+            <div className="flex justify-end gap-2">
+              <button type="button" onClick={() => setFormOpen(false)} disabled={busy} className="btn-soft">
+                Cancel
+              </button>
+              <button type="submit" disabled={busy || !name.trim()} className="btn-primary">
+                {busy ? "Creating…" : "Create team"}
+              </button>
+            </div>
+          </form>
+        ) : null}
+
+        <div className="mt-6 grid gap-4">
+          {teams.length === 0 ? (
+            <div className="app-card p-4 text-sm text-gray-600">You&apos;re not on a team yet.</div>
+          ) : (
+            teams.map((t) => <TeamCard key={t.id} team={t} friends={friends} busy={busy} onAction={run} />)
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+"use client";
+
+import { useState } from "react";
+import type { StandingRow, Tournament, TournamentMatch, TournamentPlayer } from "@/lib/apiTypes";
+
+const MAX_SETS = 5;
+
+type SetRow = { first: string; second: string };
+type Report = (match: TournamentMatch, scores: [number, number][]) => Promise<boolean>;
+
+function playerLabel(player: TournamentPlayer | null, bye: boolean) {
+  if (player) return player.seed ? `${player.username} (${player.seed})` : player.username;
+  return bye ? "Bye" : "TBD";
+}
+
+function roundTitle(match: TournamentMatch, winnersRounds: number, doubleElimination: boolean) {
+  if (match.bracket === "final") return match.round === 1 ? "Grand final" : "Final reset";
+  if (match.bracket === "losers") return `Losers round ${match.round}`;
+  const fromEnd = winnersRounds - match.round;
+  if (fromEnd === 0) return doubleElimination ? "Winners final" : "Final";
+  if (fromEnd === 1) return "Semifinals";
+  if (fromEnd === 2) return "Quarterfinals";
+  return `Round ${match.round}`;
+}
+
+function ScoreForm({ match, onReport, onDone }: { match: TournamentMatch; onReport: Report; onDone: () => void }) {
+  const [sets, setSets] = useState<SetRow[]>(
+    match.scores.length > 0
+      ? match.scores.map(([a, b]) => ({ first: String(a), second: String(b) }))
+      : [{ first: "", second: "" }]
+  );
+  const [saving, setSaving] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    const ok = await onReport(match, sets.map((s) => [Number(s.first), Number(s.second)]));
+    setSaving(false);
+    if (ok) onDone();
+  };
+
+  const [first, second] = match.slots.map((s) => s.player?.username ?? "Player");
+  const inputClass =
+    "w-16 rounded-lg border border-slate-200 px-2 py-1 text-sm outline-none ring-blue-200 focus:ring";
+
+  return (
+    <form onSubmit={submit} className="mt-2 space-y-2 border-t border-slate-100 pt-2">
+      <div className="text-[11px] text-gray-500">
+        {first} – {second}
+      </div>
+      {sets.map((s, i) => (
+        <div key={i} className="flex items-center gap-1.5">
+          <input
+            type="number"
+            min={0}
+            value={s.first}
+            onChange={(e) => setSets((prev) => prev.map((x, j) => (j === i ? { ...x, first: e.target.value } : x)))}
+            className={inputClass}
+            aria-label={`Set ${i + 1} ${first}`}
+          />
+          <span className="text-gray-400">–</span>
+          <input
+            type="number"
+            min={0}
+            value={s.second}
+            onChange={(e) => setSets((prev) => prev.map((x, j) => (j === i ? { ...x, second: e.target.value } : x)))}
+            className={inputClass}
+            aria-label={`Set ${i + 1} ${second}`}
+          />
+          {sets.length > 1 ? (
+            <button
+              type="button"
+              onClick={() => setSets((prev) => prev.filter((_, j) => j !== i))}
+              className="text-xs text-gray-500 hover:text-red-700"
+            >
+              Remove
+            </button>
+          ) : null}
+        </div>
+      ))}
+      <div className="flex items-center justify-between gap-2">
+        {sets.length < MAX_SETS ? (
+          <button
+            type="button"
+            onClick={() => setSets((prev) => [...prev, { first: "", second: "" }])}
+            className="text-xs font-semibold text-blue-700 hover:underline"
+          >
+            Add set
+          </button>
+        ) : (
+          <span />
+        )}
+        <button
+          type="submit"
+          disabled={saving}
+          className="rounded-lg bg-blue-600 px-3 py-1 text-xs font-semibold text-white hover:bg-blue-700 disabled:opacity-60"
+        >
+          {saving ? "Saving…" : "Save score"}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function MatchCard({ match, onReport }: { match: TournamentMatch; onReport: Report }) {
+  const [editing, setEditing] = useState(false);
+  if (match.status === "skipped") return null;
+
+  return (
+    <div
+      className={[
+        "w-56 rounded-xl bg-white p-2 text-sm ring-1",
+        match.status === "ready" ? "ring-blue-200" : "ring-slate-200",
+      ].join(" ")}
+    >
+      {match.slots.map((slot, side) => {
+        const won = Boolean(slot.player) && slot.player?.id === match.winnerId;
+        return (
+          <div key={side} className="flex items-center justify-between gap-2 py-0.5">
+            <span
+              className={[
+                "truncate",
+                won ? "font-semibold text-gray-900" : slot.player ? "text-gray-700" : "text-gray-400",
+              ].join(" ")}
+            >
+              {playerLabel(slot.player, slot.bye)}
+            </span>
+            <span className="flex gap-1 text-xs tabular-nums text-gray-600">
+              {match.scores.map((pair, i) => (
+                <span key={i} className={pair[side] > pair[1 - side] ? "font-semibold text-gray-900" : ""}>
+                  {pair[side]}
+                </span>
+              ))}
+            </span>
+          </div>
+        );
+      })}
+      {match.canReport && !editing ? (
+        <button
+          type="button"
+          onClick={() => setEditing(true)}
+          className="mt-1 text-xs font-semibold text-blue-700 hover:underline"
+        >
+          {match.status === "completed" ? "Correct score" : "Enter score"}
+        </button>
+      ) : null}
+      {editing ? <ScoreForm match={match} onReport={onReport} onDone={() => setEditing(false)} /> : null}
+    </div>
+  );
+}
+
+type RoundsProps = { title?: string; columns: [string, TournamentMatch[]][]; onReport: Report };
+
+function Rounds({ title, columns, onReport }: RoundsProps) {
+  if (columns.length === 0) return null;
+  return (
+    <div className="mt-6">
+      {title ? <h2 className="text-sm font-semibold text-gray-900">{title}</h2> : null}
+      <div className="mt-2 flex gap-4 overflow-x-auto pb-2">
+        {columns.map(([label, matches]) => (
+          <div key={label} className="flex flex-shrink-0 flex-col justify-around gap-3">
+            <div className="text-xs font-medium text-gray-500">{label}</div>
+            {matches.map((m) => (
+              <MatchCard key={m.id} match={m} onReport={onReport} />
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Matches of one bracket grouped into columns by round title.
+function columnsOf(matches: TournamentMatch[], winnersRounds: number, doubleElimination: boolean) {
+  const columns = new Map<string, TournamentMatch[]>();
+  for (const m of [...matches].sort((a, b) => a.round - b.round || a.position - b.position)) {
+    if (m.status === "skipped") continue;
+    const title = roundTitle(m, winnersRounds, doubleElimination);
+    columns.set(title, [...(columns.get(title) ?? []), m]);
+  }
+  return Array.from(columns.entries());
+}
+
+function StandingsTable({ rows }: { rows: StandingRow[] }) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500">
+          <th className="py-1 font-medium">Player</th>
+          <th className="py-1 font-medium text-right">P</th>
+          <th className="py-1 font-medium text-right">W</th>
+          <th className="py-1 font-medium text-right">L</th>
+          <th className="py-1 font-medium text-right">Sets</th>
+          <th className="py-1 font-medium text-right">Points</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((r) => (
+          <tr key={r.player.id} className="border-t border-slate-100 tabular-nums">
+            <td className="py-1 text-gray-900">{r.player.username}</td>
+            <td className="py-1 text-right">{r.played}</td>
+            <td className="py-1 text-right">{r.wins}</td>
+            <td className="py-1 text-right">{r.losses}</td>
+            <td className="py-1 text-right">
+              {r.setsFor}–{r.setsAgainst}
+            </td>
+            <td className="py-1 text-right">
+              {r.pointsFor}–{r.pointsAgainst}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// Knockout brackets as columns per round; round robin as a table and the
+// schedule for each group.
+export default function Bracket({ tournament, onReport }: { tournament: Tournament; onReport: Report }) {
+  const { matches } = tournament;
+
+  if (tournament.format === "round_robin") {
+    return (
+      <div className="mt-6 grid gap-6">
+        {tournament.standings.map((rows, group) => (
+          <div key={group} className="app-card p-4">
+            {tournament.standings.length > 1 ? (
+              <h2 className="text-sm font-semibold text-gray-900">Group {String.fromCharCode(65 + group)}</h2>
+            ) : null}
+            <StandingsTable rows={rows} />
+            <Rounds columns={columnsOf(matches.filter((m) => m.group === group), 0, false)} onReport={onReport} />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const doubleElimination = tournament.format === "double_elimination";
+  const winners = matches.filter((m) => m.bracket === "winners");
+  const winnersRounds = Math.max(0, ...winners.map((m) => m.round));
+  return (
+    <>
+      <Rounds
+        title={doubleElimination ? "Winners bracket" : undefined}
+        columns={columnsOf(winners, winnersRounds, doubleElimination)}
+        onReport={onReport}
+      />
+      <Rounds
+        title="Losers bracket"
+        columns={columnsOf(
+          matches.filter((m) => m.bracket === "losers"),
+          winnersRounds,
+          doubleElimination
+        )}
+        onReport={onReport}
+      />
+      <Rounds
+        title={doubleElimination ? "Final" : undefined}
+        columns={columnsOf(
+          matches.filter((m) => m.bracket === "final"),
+          winnersRounds,
+          doubleElimination
+        )}
+        onReport={onReport}
+      />
+    </>
+  );
+}
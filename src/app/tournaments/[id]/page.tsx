@@ -0,0 +1,378 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useAuth } from "@/context/AuthContext";
+import { api, errorMessage } from "@/lib/apiClient";
+import { parse, type Tournament, type TournamentFormat, type TournamentMatch } from "@/lib/apiTypes";
+import { loginUrl } from "@/lib/authRedirect";
+import Bracket from "./Bracket";
+
+// Brackets change as scores come in at the venue.
+const POLL_MS = 30_000;
+
+const FORMAT_LABELS: Record<TournamentFormat, string> = {
+  single_elimination: "Single elimination",
+  double_elimination: "Double elimination",
+  round_robin: "Round robin",
+};
+
+const STATUS_LABELS: Record<Tournament["status"], { label: string; className: string }> = {
+  registration: { label: "Registration open", className: "bg-blue-50 text-blue-800 ring-blue-200" },
+  in_progress: { label: "In progress", className: "bg-amber-50 text-amber-800 ring-amber-200" },
+  completed: { label: "Finished", className: "bg-emerald-50 text-emerald-800 ring-emerald-200" },
+};
+
+const inputClass =
+  "mt-1 w-full rounded-lg border border-slate-200 px-3 py-2 text-sm outline-none ring-blue-200 focus:ring";
+
+// The organizer's settings while registration is open, and the seeding
+// order when it's set by hand.
+function Setup({ tournament, onChanged }: { tournament: Tournament; onChanged: (t: Tournament) => void }) {
+  const [format, setFormat] = useState(tournament.format);
+  const [seeding, setSeeding] = useState(tournament.seeding);
+  const [groupCount, setGroupCount] = useState(tournament.groupCount);
+  const [organizerPlays, setOrganizerPlays] = useState(tournament.organizerPlays);
+  const [order, setOrder] = useState<string[]>(() => tournament.entrants.map((e) => e.id));
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the hand-made order when players join or leave.
+  const entrantIds = tournament.entrants.map((e) => e.id);
+  const seedOrder = [...order.filter((id) => entrantIds.includes(id)), ...entrantIds.filter((id) => !order.includes(id))];
+  const byId = new Map(tournament.entrants.map((e) => [e.id, e]));
+  const dirty =
+    format !== tournament.format ||
+    seeding !== tournament.seeding ||
+    groupCount !== tournament.groupCount ||
+    organizerPlays !== tournament.organizerPlays;
+
+  const run = async (request: () => Promise<Tournament>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      onChanged(await request());
+    } catch (e: unknown) {
+      setError(errorMessage(e, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = () =>
+    run(
+      () =>
+        api.patch(
+          `/api/tournaments/${encodeURIComponent(tournament.id)}`,
+          { format, seeding, groupCount, organizerPlays },
+          parse.tournament
+        ),
+      "Failed to save settings"
+    );
+
+  const start = () =>
+    run(
+      () =>
+        api.post(
+          `/api/tournaments/${encodeURIComponent(tournament.id)}/start`,
+          seeding === "manual" ? { seedIds: seedOrder } : undefined,
+          parse.tournament
+        ),
+      "Failed to draw the bracket"
+    );
+
+  const move = (index: number, by: number) => {
+    const next = [...seedOrder];
+    [next[index], next[index + by]] = [next[index + by], next[index]];
+    setOrder(next);
+  };
+
+  return (
+    <div className="mt-6 app-card p-4 grid gap-4">
+      <div className="text-sm font-semibold text-gray-900">Organizer</div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div>
+          <label className="text-xs font-medium text-gray-700">Format</label>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as TournamentFormat)}
+            className={inputClass}
+          >
+            {Object.entries(FORMAT_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs font-medium text-gray-700">Seeding</label>
+          <select
+            value={seeding}
+            onChange={(e) => setSeeding(e.target.value as Tournament["seeding"])}
+            className={inputClass}
+          >
+            <option value="rating">By rating</option>
+            <option value="manual">Manual order</option>
+          </select>
+        </div>
+        {format === "round_robin" ? (
+          <div>
+            <label className="text-xs font-medium text-gray-700">Groups</label>
+            <input
+              type="number"
+              min={1}
+              max={8}
+              value={groupCount}
+              onChange={(e) => setGroupCount(Number(e.target.value))}
+              className={inputClass}
+            />
+          </div>
+        ) : null}
+      </div>
+      <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+        <input type="checkbox" checked={organizerPlays} onChange={(e) => setOrganizerPlays(e.target.checked)} />
+        I&apos;m playing too
+      </label>
+
+      {tournament.seeding === "manual" && seedOrder.length > 1 ? (
+        <div>
+          <div className="text-xs font-medium text-gray-700">Seeding order</div>
+          <ol className="mt-1 grid gap-1">
+            {seedOrder.map((id, i) => (
+              <li key={id} className="flex items-center justify-between gap-2 text-sm">
+                <span>
+                  {i + 1}. {byId.get(id)?.username ?? "Player"}
+                </span>
+                <span className="flex gap-1">
+                  <button
+                    type="button"
+                    onClick={() => move(i, -1)}
+                    disabled={i === 0}
+                    className="rounded-lg px-2 text-gray-600 ring-1 ring-slate-200 hover:bg-slate-50 disabled:opacity-40"
+                    aria-label="Move up"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => move(i, 1)}
+                    disabled={i === seedOrder.length - 1}
+                    className="rounded-lg px-2 text-gray-600 ring-1 ring-slate-200 hover:bg-slate-50 disabled:opacity-40"
+                    aria-label="Move down"
+                  >
+                    ↓
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      ) : null}
+
+      {error ? <div className="text-sm text-red-700">{error}</div> : null}
+      <div className="flex flex-wrap justify-end gap-2">
+        {dirty ? (
+          <button type="button" onClick={save} disabled={busy} className="btn-soft">
+            Save settings
+          </button>
+        ) : null}
+        <button type="button" onClick={start} disabled={busy || dirty} className="btn-primary">
+          {busy ? "Please wait…" : "Close registration and draw"}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function TournamentPage() {
+  const router = useRouter();
+  const { id } = useParams<{ id: string }>();
+  const { status: authStatus } = useAuth();
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(
+    async (signal?: AbortSignal) => {
+      try {
+        setTournament(await api.get(`/api/tournaments/${encodeURIComponent(id)}`, parse.tournament, { signal }));
+      } catch (e: unknown) {
+        const message = errorMessage(e, "Failed to load the tournament");
+        if (message) setError(message);
+      }
+    },
+    [id]
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void load(controller.signal);
+    return () => controller.abort();
+  }, [load, authStatus]);
+
+  const live = tournament?.status === "in_progress";
+  useEffect(() => {
+    if (!live) return;
+    const timer = window.setInterval(() => void load(), POLL_MS);
+    return () => window.clearInterval(timer);
+  }, [live, load]);
+
+  // Registering is joining the event.
+  const register = async () => {
+    if (!tournament) return;
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const event = await api.post(
+        `/api/events/${encodeURIComponent(tournament.eventId)}/join`,
+        undefined,
+        parse.event
+      );
+      if (event.waitlisted) setNotice("The event is full, so you're on its waitlist for now.");
+      await load();
+    } catch (e: unknown) {
+      setError(errorMessage(e, "Failed to register"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const report = async (match: TournamentMatch, scores: [number, number][]) => {
+    if (!tournament) return false;
+    setError(null);
+    try {
+      setTournament(
+        await api.post(
+          `/api/tournaments/${encodeURIComponent(tournament.id)}/matches/${encodeURIComponent(match.id)}/result`,
+          { scores },
+          parse.tournament
+        )
+      );
+      return true;
+    } catch (e: unknown) {
+      setError(errorMessage(e, "Failed to save the score"));
+      return false;
+    }
+  };
+
+  const remove = async () => {
+    if (!tournament || !window.confirm("Delete this tournament and its bracket?")) return;
+    setBusy(true);
+    try {
+      await api.delete(`/api/tournaments/${encodeURIComponent(tournament.id)}`);
+      router.push("/events");
+    } catch (e: unknown) {
+      setError(errorMessage(e, "Failed to delete the tournament"));
+      setBusy(false);
+    }
+  };
+
+  if (!tournament) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center p-6">
+        {error ? <div className="max-w-lg w-full app-card p-4 text-red-700">{error}</div> : <div className="text-gray-600">Loading…</div>}
+      </div>
+    );
+  }
+
+  const status = STATUS_LABELS[tournament.status];
+  const registration = tournament.status === "registration";
+
+  return (
+    <div className="min-h-full">
+      <div className="max-w-6xl mx-auto px-4 py-6">
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <h1 className="text-2xl font-bold text-gray-900">🏆 {tournament.name}</h1>
+            <div className="mt-1 text-sm text-gray-600 flex flex-wrap gap-x-3 gap-y-1">
+              <span>{FORMAT_LABELS[tournament.format]}</span>
+              {tournament.sport ? <span>🏅 {tournament.sport}</span> : null}
+              <span>🕒 {new Date(tournament.startsAt).toLocaleString()}</span>
+              <span>by {tournament.createdBy.username}</span>
+            </div>
+          </div>
+          <span className={`flex-shrink-0 rounded-full px-2.5 py-1 text-xs font-semibold ring-1 ${status.className}`}>
+            {status.label}
+          </span>
+        </div>
+
+        {tournament.winner ? (
+          <div className="mt-4 rounded-2xl bg-emerald-50/70 px-4 py-3 text-sm text-emerald-900 ring-1 ring-emerald-200/70">
+            Winner: <span className="font-semibold">{tournament.winner.username}</span>
+          </div>
+        ) : null}
+        {error ? (
+          <div className="mt-4 rounded-2xl bg-red-50/70 px-4 py-3 text-sm text-red-800 ring-1 ring-red-200/70">
+            {error}
+          </div>
+        ) : null}
+        {notice ? <div className="mt-4 text-sm text-amber-800">{notice}</div> : null}
+
+        {registration ? (
+          <div className="mt-6 app-card p-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="text-sm font-semibold text-gray-900">
+                Registered players ({tournament.entrants.length})
+              </div>
+              {authStatus === "unauthenticated" ? (
+                <button
+                  type="button"
+                  onClick={() => router.push(loginUrl(`/tournaments/${tournament.id}`))}
+                  className="btn-soft"
+                >
+                  Log in to register
+                </button>
+              ) : tournament.registered ? (
+                <span className="text-sm text-emerald-700">You&apos;re in. Leave the event to withdraw.</span>
+              ) : tournament.isOrganizer ? null : (
+                <button type="button" onClick={register} disabled={busy} className="btn-soft">
+                  Register
+                </button>
+              )}
+            </div>
+            {tournament.entrants.length === 0 ? (
+              <div className="mt-2 text-sm text-gray-600">Nobody has registered yet.</div>
+            ) : (
+              <ol className="mt-2 grid gap-1 text-sm">
+                {tournament.entrants.map((e) => (
+                  <li key={e.id} className="flex justify-between gap-2">
+                    <span>
+                      {e.seed}. {e.username}
+                    </span>
+                    {tournament.seeding === "rating" ? <span className="text-gray-500">{e.rating}</span> : null}
+                  </li>
+                ))}
+              </ol>
+            )}
+            <div className="mt-3 text-xs text-gray-500">
+              Everyone who joins “{tournament.eventTitle}” is registered. The bracket is drawn when the organizer closes
+              registration.
+            </div>
+          </div>
+        ) : null}
+
+        {registration && tournament.isOrganizer ? (
+          <Setup key={tournament.entrants.length} tournament={tournament} onChanged={setTournament} />
+        ) : null}
+
+        {!registration ? <Bracket tournament={tournament} onReport={report} /> : null}
+
+        {tournament.isOrganizer ? (
+          <div className="mt-8 flex justify-end">
+            <button
+              type="button"
+              onClick={remove}
+              disabled={busy}
+              className="text-sm text-red-700 hover:underline disabled:opacity-60"
+            >
+              Delete tournament
+            </button>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { loginUrl } from "@/lib/authRedirect";
+import { SESSION_COOKIE, SESSION_HINT } from "@/lib/authToken";
+import { fetchBackendMe } from "@/lib/backendMe";
+
+// Set by the backend on login; only visible here when the backend shares our host.
+const BACKEND_SESSION_COOKIE = "bp_token";
+
+function redirectToLogin(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const res = NextResponse.redirect(new URL(loginUrl(`${pathname}${search}`), request.url));
+  res.cookies.delete(SESSION_COOKIE);
+  return res;
+}
+
+// Checks the session before protected pages render. Visitors without any
+// session cookie are sent to login straight away; otherwise the backend is
+// asked, and only a definite 401 redirects. Outages and misconfiguration let
+// the page through so the client can show its own error.
+export async function proxy(request: NextRequest) {
+  const backendCookie = request.cookies.get(BACKEND_SESSION_COOKIE)?.value;
+  const session = request.cookies.get(SESSION_COOKIE)?.value;
+  const token = session && session !== SESSION_HINT ? session : null;
+
+  if (!backendCookie && !session) return redirectToLogin(request);
+  // The hint alone can't be verified from here; AuthProvider checks it once
+  // the page loads.
+  if (!backendCookie && !token) return NextResponse.next();
+
+  const headers = new Headers(request.headers);
+  if (token) headers.set("authorization", `Bearer ${token}`);
+
+  try {
+    const meRes = await fetchBackendMe(new Request(request.url, { headers }));
+    await meRes.body?.cancel().catch(() => {});
+    if (meRes.status === 401) return redirectToLogin(request);
+  } catch (err) {
+    console.error("Session check failed", err);
+  }
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: [
+    "/feed/:path*",
+    "/events/:path*",
+    "/teams/:path*",
+    "/find-partner/:path*",
+    "/dashboard/:path*",
+    "/chat/:path*",
+    "/notifications/:path*",
+    "/profile/:path*",
+    "/book/:path*",
+    "/moderation/:path*",
+  ],
+};